@@ -1,4 +1,4 @@
-import React, { useState, useCallback, useRef, useEffect } from 'react';
+import React, { useState, useCallback, useRef, useEffect, useMemo } from 'react';
 import { 
   Loader2, 
   Zap, 
@@ -10,9 +10,7 @@ import {
   Settings, 
   XCircle, 
   CheckCircle2, 
-  Terminal,
   LayoutTemplate,
-  Plus,
   ToggleLeft,
   ToggleRight,
   FileCode,
@@ -22,7 +20,13 @@ import {
   Key,
   Bot,
   Eye,
-  EyeOff
+  EyeOff,
+  History,
+  Bug,
+  FolderOpen,
+  ClipboardCopy,
+  ClipboardPaste,
+  FileArchive
 } from 'lucide-react';
 import { 
   useNodesState, 
@@ -33,31 +37,98 @@ import {
   Edge,
   Node,
   OnReconnect,
+  NodeChange,
+  EdgeChange,
+  applyNodeChanges,
+  applyEdgeChanges,
   ReactFlowProvider
 } from '@xyflow/react';
-import { generateBlueprint } from './services/geminiService';
-import { GeneratedBlueprint, BlueprintNodeData, BlueprintVariable, BlueprintFunction, PinType, UE_COLORS } from './types';
-import BlueprintCanvas from './components/BlueprintCanvas';
+import { generateBlueprint, refineBlueprint, RefinementResult } from './services/geminiService';
+import { SchemaValidationError } from './services/blueprintSchema';
+import { LLMError, LLM_ERROR_MESSAGES } from './services/llmErrors';
+import { PROVIDERS, ProviderId, ProviderSettings, loadProviderSettings, saveProviderSettings } from './services/llmProviders';
+import { NodePack, applyNodePacks, loadNodePacks, parseNodePack, saveNodePacks } from './services/nodePacks';
+import { GeneratedBlueprint, BlueprintNodeData, BlueprintVariable, BlueprintFunction, BlueprintStruct, BlueprintEnum, BlueprintDispatcher, BlueprintInterface, BlueprintSnapshot, BlueprintDocument, PinType, UE_COLORS, LogEntry, LogReference } from './types';
+import BlueprintCanvas, { CanvasFocusRequest } from './components/BlueprintCanvas';
+import OutputLog from './components/OutputLog';
+import DebuggerPanel, { DebugHighlight } from './components/DebuggerPanel';
+import VariablesPanel from './components/VariablesPanel';
+import FunctionsPanel from './components/FunctionsPanel';
+import StructsPanel from './components/StructsPanel';
+import EnumsPanel from './components/EnumsPanel';
+import DispatchersPanel from './components/DispatchersPanel';
+import InterfacesPanel from './components/InterfacesPanel';
+import HistoryPanel from './components/HistoryPanel';
+import HistoryDiffView from './components/HistoryDiffView';
+import { PROJECT_FILE_EXTENSION, downloadProject, parseProject, sameDocument, serializeProject } from './services/projectFile';
+import { loadAutosave, saveAutosave } from './services/projectStorage';
+import { exportToT3D } from './utils/t3dExport';
+import { importFromT3D, looksLikeT3D } from './utils/t3dImport';
+import { compileBlueprint } from './utils/blueprintCompiler';
+import { canCreateConnection, createConversionNode, pinTypeName, samePinType } from './utils/pinSchema';
+import { buildCppModel, renderCppHeader, renderCppSource } from './utils/cppTranspiler';
+import { createZip } from './utils/zipArchive';
+import { downloadBlob } from './utils/download';
+import { VariableAccess, createVariableNode, defaultValueFor, updateVariableReferences } from './utils/variableNodes';
+import { createCallNode, linkFunctionCalls, syncFunctionGraph, updateFunctionReferences } from './utils/functionGraphs';
 import { getLayoutedElements } from './utils/autoLayout';
+import { isValidTypeName, renameSubType, syncUserTypeNodes } from './utils/userTypes';
+import { syncDispatcherNodes } from './utils/dispatchers';
+import { implementsAsEvent, syncInterfaceNodes } from './utils/interfaces';
+import { frameGroups } from './utils/commentNodes';
+import { splitEdge } from './utils/rerouteNodes';
+import { propagateWildcards } from './utils/nodeRegistry';
+
+// Wire colour/width for a given source pin type (matches UE5 wire colours)
+const getEdgeStyle = (type?: PinType) => {
+  let stroke = UE_COLORS.Default;
+  let strokeWidth = 2;
+  switch (type) {
+    case PinType.Exec: stroke = UE_COLORS.Exec; strokeWidth = 2.5; break;
+    case PinType.Boolean: stroke = UE_COLORS.Boolean; break;
+    case PinType.Integer: stroke = UE_COLORS.Integer; break;
+    case PinType.Float: stroke = UE_COLORS.Float; break;
+    case PinType.String: stroke = UE_COLORS.String; break;
+    case PinType.Vector: stroke = UE_COLORS.Vector; break;
+    case PinType.Rotator: stroke = UE_COLORS.Rotator; break;
+    case PinType.Object: stroke = UE_COLORS.Object; break;
+    case PinType.Class: stroke = UE_COLORS.Class; break;
+    case PinType.Struct: stroke = UE_COLORS.Struct; break;
+    case PinType.Name: stroke = UE_COLORS.Name; break;
+    case PinType.Text: stroke = UE_COLORS.Text; break;
+  }
+  return { stroke, strokeWidth };
+};
 
-interface LogEntry {
-  id: string;
-  type: 'info' | 'success' | 'error' | 'warning' | 'verbose';
-  message: string;
-  timestamp: string;
-}
+const styleEdges = (nodes: Node<BlueprintNodeData>[], edges: Edge[]): Edge[] => edges.map(edge => {
+  const sourceNode = nodes.find(n => n.id === edge.source);
+  const sourcePin = sourceNode?.data.outputs.find(p => p.id === edge.sourceHandle);
+  return {
+    ...edge,
+    type: 'default',
+    style: getEdgeStyle(sourcePin?.type),
+    animated: false
+  };
+});
+
+// Adds a link, replacing whatever was already on a data input or exec output
+const connectPins = (edges: Edge[], params: Connection, nodes: Node<BlueprintNodeData>[]): Edge[] => {
+  const sourcePin = nodes.find(n => n.id === params.source)?.data.outputs.find(p => p.id === params.sourceHandle);
+  const targetPin = nodes.find(n => n.id === params.target)?.data.inputs.find(p => p.id === params.targetHandle);
+
+  let newEdges = edges;
+  if (targetPin && targetPin.type !== PinType.Exec) {
+    newEdges = newEdges.filter(e => !(e.target === params.target && e.targetHandle === params.targetHandle));
+  }
+  if (sourcePin && sourcePin.type === PinType.Exec) {
+    newEdges = newEdges.filter(e => !(e.source === params.source && e.sourceHandle === params.sourceHandle));
+  }
+
+  return addEdge({ ...params, type: 'default', animated: false, style: getEdgeStyle(sourcePin?.type) }, newEdges);
+};
 
-const THINKING_MESSAGES = [
-  "Initializing UBlueprintFactory...",
-  "Parsing UK2Node requirements from prompt...",
-  "Searching FProperty registry for type matches...",
-  "Validating UFunction signatures in KismetSystemLibrary...",
-  "Checking EdGraphSchema_K2 for valid connections...",
-  "Resolving FKismetCompilerContext constraints...",
-  "Constructing Directed Acyclic Graph (DAG) for Blueprint...",
-  "Transpiling Graph to Native C++ Implementation...",
-  "Compiling bytecode and optimizing wire routing..."
-];
+type GraphUpdate<T> = T[] | ((items: T[]) => T[]);
+const applyUpdate = <T,>(update: GraphUpdate<T>, items: T[]) => (typeof update === 'function' ? update(items) : update);
 
 // Simple C++ Syntax Highlighter for Vibe
 const highlightCpp = (code: string) => {
@@ -89,6 +160,22 @@ const highlightCpp = (code: string) => {
   }).join('');
 };
 
+type GraphSync = (nodes: Node<BlueprintNodeData>[], edges: Edge[]) => { nodes: Node<BlueprintNodeData>[]; edges: Edge[]; brokenLinks: number };
+
+// Fits generated Make/Break/Switch, dispatcher and interface nodes to the blueprint's definitions
+const syncMemberNodes = (
+  members: Pick<BlueprintDocument, 'structs' | 'enums' | 'dispatchers' | 'interfaces' | 'implementedInterfaces'>
+): GraphSync => (nodes, edges) => {
+  const typed = syncUserTypeNodes(nodes, edges, members.structs, members.enums);
+  const dispatched = syncDispatcherNodes(typed.nodes, typed.edges, members.dispatchers);
+  const result = syncInterfaceNodes(dispatched.nodes, dispatched.edges, members.interfaces, members.implementedInterfaces);
+  return {
+    nodes: result.nodes,
+    edges: result.edges,
+    brokenLinks: typed.brokenLinks + dispatched.brokenLinks + result.brokenLinks
+  };
+};
+
 function App() {
   // Graph State
   const [nodes, setNodes, onNodesChange] = useNodesState([]);
@@ -98,27 +185,60 @@ function App() {
   const [prompt, setPrompt] = useState('');
   const [loading, setLoading] = useState(false);
   const [selectedNodeId, setSelectedNodeId] = useState<string | null>(null);
+  const [focusRequest, setFocusRequest] = useState<CanvasFocusRequest | null>(null);
   const [verboseMode, setVerboseMode] = useState(false);
+  const [refineMode, setRefineMode] = useState(false);
+  const [promptHistory, setPromptHistory] = useState<string[]>([]);
+
+  // Version History
+  const [snapshots, setSnapshots] = useState<BlueprintSnapshot[]>([]);
+  const [activeSnapshotId, setActiveSnapshotId] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  const [showDebugger, setShowDebugger] = useState(false);
+  const [debugHighlight, setDebugHighlight] = useState<DebugHighlight>({ activeNodeId: null, activeEdgeIds: [] });
+  const [comparePair, setComparePair] = useState<[string, string] | null>(null);
   const [viewMode, setViewMode] = useState<'blueprint' | 'cpp' | 'split'>('blueprint');
   const [blueprintSummary, setBlueprintSummary] = useState<string>('');
   const [blueprintSources, setBlueprintSources] = useState<Array<{title: string, url: string}>>([]);
   const [targetClass, setTargetClass] = useState<string>('BP_GeneratedActor');
   const [showSettings, setShowSettings] = useState(false);
+  const [showImport, setShowImport] = useState(false);
+  const [importText, setImportText] = useState('');
   
   // API Keys
   const [userGeminiKey, setUserGeminiKey] = useState(localStorage.getItem('BLUEPRINT_VIBE_GEMINI_KEY') || localStorage.getItem('BLUEPRINT_VIBE_API_KEY') || '');
   const [userOpenAIKey, setUserOpenAIKey] = useState(localStorage.getItem('BLUEPRINT_VIBE_OPENAI_KEY') || '');
   const [showGeminiKey, setShowGeminiKey] = useState(false);
 
+  // LLM Provider Settings
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(loadProviderSettings);
+  // Team node definitions, registered with the node registry as soon as they load
+  const [nodePacks, setNodePacks] = useState<NodePack[]>(() => {
+    const packs = loadNodePacks();
+    applyNodePacks(packs);
+    return packs;
+  });
+
   // C++ State
   const [generatedCpp, setGeneratedCpp] = useState<string>('');
   const [displayedCpp, setDisplayedCpp] = useState<string>('');
+  const [cppSource, setCppSource] = useState<'graph' | 'model'>('graph');
+  const [cppFile, setCppFile] = useState<'h' | 'cpp'>('cpp');
 
   const [error, setError] = useState<string | null>(null);
   
   // Sidebar Data State
   const [variables, setVariables] = useState<BlueprintVariable[]>([]);
   const [functions, setFunctions] = useState<BlueprintFunction[]>([]);
+  const [structs, setStructs] = useState<BlueprintStruct[]>([]);
+  const [enums, setEnums] = useState<BlueprintEnum[]>([]);
+  const [dispatchers, setDispatchers] = useState<BlueprintDispatcher[]>([]);
+  const [interfaces, setInterfaces] = useState<BlueprintInterface[]>([]);
+  const [implementedInterfaces, setImplementedInterfaces] = useState<string[]>([]);
+
+  // Graph tabs: null is the EventGraph, otherwise a function id
+  const [activeGraphId, setActiveGraphId] = useState<string | null>(null);
+  const [openGraphIds, setOpenGraphIds] = useState<string[]>([]);
 
   // Compilation State
   const [isCompiling, setIsCompiling] = useState(false);
@@ -128,9 +248,13 @@ function App() {
 
   // Refs
   const textareaRef = useRef<HTMLTextAreaElement>(null);
-  const logEndRef = useRef<HTMLDivElement>(null);
-  const thinkingInterval = useRef<ReturnType<typeof setInterval> | null>(null);
   const edgeReconnectSuccessful = useRef(false);
+  const generationAbort = useRef<AbortController | null>(null);
+  const projectFileInput = useRef<HTMLInputElement>(null);
+  const nodePackInput = useRef<HTMLInputElement>(null);
+  const autosaveReady = useRef(false);
+  const autosaveLoadStarted = useRef(false);
+  const flashTimer = useRef<number | undefined>(undefined);
 
   // Auto-resize textarea
   useEffect(() => {
@@ -140,13 +264,6 @@ function App() {
     }
   }, [prompt]);
 
-  // Output Log Auto-Scroll
-  useEffect(() => {
-    if (logEndRef.current) {
-      logEndRef.current.scrollIntoView({ behavior: 'smooth' });
-    }
-  }, [logs, showOutputLog]);
-
   // C++ Typing Effect
   useEffect(() => {
     if (!generatedCpp) {
@@ -171,60 +288,155 @@ function App() {
     return () => clearInterval(typingInterval);
   }, [generatedCpp]);
 
-  // Handlers
-  const onConnect = useCallback(
-    (params: Connection) => {
-      setEdges((prevEdges) => {
-        let newEdges = prevEdges;
-        const targetNode = nodes.find(n => n.id === params.target);
-        const sourceNode = nodes.find(n => n.id === params.source);
-
-        let edgeColor = UE_COLORS.Default;
-        let strokeWidth = 2;
-
-        if (targetNode && sourceNode) {
-          const targetPin = targetNode.data.inputs.find((p: any) => p.id === params.targetHandle);
-          const sourcePin = sourceNode.data.outputs.find((p: any) => p.id === params.sourceHandle);
-
-          if (sourcePin) {
-             switch(sourcePin.type) {
-                 case PinType.Exec: edgeColor = UE_COLORS.Exec; strokeWidth = 2.5; break;
-                 case PinType.Boolean: edgeColor = UE_COLORS.Boolean; break;
-                 case PinType.Integer: edgeColor = UE_COLORS.Integer; break;
-                 case PinType.Float: edgeColor = UE_COLORS.Float; break;
-                 case PinType.String: edgeColor = UE_COLORS.String; break;
-                 case PinType.Vector: edgeColor = UE_COLORS.Vector; break;
-                 case PinType.Rotator: edgeColor = UE_COLORS.Rotator; break;
-                 case PinType.Object: edgeColor = UE_COLORS.Object; break;
-                 case PinType.Class: edgeColor = UE_COLORS.Class; break;
-                 case PinType.Struct: edgeColor = UE_COLORS.Struct; break;
-                 case PinType.Name: edgeColor = UE_COLORS.Name; break;
-                 case PinType.Text: edgeColor = UE_COLORS.Text; break;
-             }
-          }
-
-          if (targetPin && targetPin.type !== PinType.Exec) {
-            newEdges = newEdges.filter(e => e.targetHandle !== params.targetHandle);
-          }
-
-          if (sourcePin && sourcePin.type === PinType.Exec) {
-            newEdges = newEdges.filter(e => e.sourceHandle !== params.sourceHandle);
-          }
+  // Restore the last autosaved project on startup
+  useEffect(() => {
+    if (autosaveLoadStarted.current) return; // StrictMode runs mount effects twice
+    autosaveLoadStarted.current = true;
+    loadAutosave()
+      .then(project => {
+        if (project) {
+          applyDocument(project.blueprint);
+          addLog('info', `Restored autosave from ${new Date(project.savedAt).toLocaleString()}.`);
         }
+      })
+      .catch(err => addLog('warning', `Could not restore autosave: ${err instanceof Error ? err.message : String(err)}`))
+      .finally(() => { autosaveReady.current = true; });
+  }, []);
+
+  // Debounced autosave to IndexedDB; a generation in progress is not saved until it completes
+  useEffect(() => {
+    if (!autosaveReady.current || loading) return;
+    const timer = setTimeout(() => {
+      saveAutosave(serializeProject(currentState(), targetClass))
+        .catch(err => addLog('warning', `Autosave failed: ${err instanceof Error ? err.message : String(err)}`));
+    }, 1000);
+    return () => clearTimeout(timer);
+  }, [nodes, edges, variables, functions, structs, enums, dispatchers, interfaces, implementedInterfaces, generatedCpp, blueprintSummary, targetClass, blueprintSources, loading]);
+
+  // Ctrl+V of Unreal node text anywhere outside a text field imports it
+  useEffect(() => {
+    const onPaste = (e: ClipboardEvent) => {
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.isContentEditable)) return;
+      const text = e.clipboardData?.getData('text/plain') || '';
+      if (!looksLikeT3D(text)) return;
+      e.preventDefault();
+      handleImportT3D(text);
+    };
+    window.addEventListener('paste', onPaste);
+    return () => window.removeEventListener('paste', onPaste);
+  });
+
+  // Debugger highlights are layered on at render time so they never reach history or autosave
+  const displayNodes = useMemo(() => debugHighlight.activeNodeId
+    ? nodes.map(n => n.id === debugHighlight.activeNodeId ? { ...n, data: { ...n.data, debugActive: true } } : n)
+    : nodes, [nodes, debugHighlight.activeNodeId]);
+  const displayEdges = useMemo(() => debugHighlight.activeEdgeIds.length > 0
+    ? edges.map(e => debugHighlight.activeEdgeIds.includes(e.id) ? { ...e, animated: true, className: 'bp-exec-active' } : e)
+    : edges, [edges, debugHighlight.activeEdgeIds]);
+
+  // The canvas edits whichever graph tab is active; function bodies live on their BlueprintFunction
+  const activeFunction = functions.find(f => f.id === activeGraphId);
+  const graphId = activeFunction ? activeFunction.id : null;
+  const graphNodes = (activeFunction ? activeFunction.nodes || [] : nodes) as Node<BlueprintNodeData>[];
+  const graphEdges = activeFunction ? activeFunction.edges || [] : edges;
+
+  // F9 toggles a breakpoint on the selected nodes, as in the Unreal editor
+  useEffect(() => {
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key !== 'F9') return;
+      const target = e.target as HTMLElement | null;
+      if (target && (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA')) return;
+      e.preventDefault();
+      // Only the EventGraph runs in the debugger
+      if (graphId) return;
+      setNodes(nds => nds.map(n => n.selected ? { ...n, data: { ...n.data, breakpoint: !n.data.breakpoint } } : n));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [graphId]);
 
-        const newEdge = {
-            ...params,
-            type: 'default',
-            animated: false,
-            style: { stroke: edgeColor, strokeWidth: strokeWidth },
-        };
+  const updateGraphNodes = (id: string | null, update: GraphUpdate<Node<BlueprintNodeData>>) => {
+    if (!id) return setNodes(nds => applyUpdate(update, nds as Node<BlueprintNodeData>[]));
+    setFunctions(fns => fns.map(f => (f.id === id ? { ...f, nodes: applyUpdate(update, f.nodes || []) } : f)));
+  };
+  const updateGraphEdges = (id: string | null, update: GraphUpdate<Edge>) => {
+    if (!id) return setEdges(eds => applyUpdate(update, eds));
+    setFunctions(fns => fns.map(f => (f.id === id ? { ...f, edges: applyUpdate(update, f.edges || []) } : f)));
+  };
+  const setGraphNodes = (update: GraphUpdate<Node<BlueprintNodeData>>) => updateGraphNodes(graphId, update);
+  const setGraphEdges = (update: GraphUpdate<Edge>) => updateGraphEdges(graphId, update);
 
-        return addEdge(newEdge, newEdges);
-      });
-    },
-    [setEdges, nodes],
+  // Wildcard pins (For Each Loop) follow whatever is wired into them
+  useEffect(() => {
+    const resolved = propagateWildcards(graphNodes, graphEdges);
+    if (resolved.nodes === graphNodes) return;
+    setGraphNodes(resolved.nodes);
+    setGraphEdges(styleEdges(resolved.nodes, resolved.edges));
+  }, [graphEdges]);
+
+  const onGraphNodesChange = (changes: NodeChange<Node<BlueprintNodeData>>[]) => {
+    if (graphId) setGraphNodes(nds => applyNodeChanges(changes, nds));
+    else onNodesChange(changes as NodeChange[]);
+  };
+  const onGraphEdgesChange = (changes: EdgeChange[]) => {
+    if (graphId) setGraphEdges(eds => applyEdgeChanges(changes, eds));
+    else onEdgesChange(changes);
+  };
+
+  // Local transpile of the live graph; independent of whatever the model wrote
+  const transpiledCpp = useMemo(() => {
+    const model = buildCppModel(nodes as Node<BlueprintNodeData>[], edges, variables, targetClass, functions, { structs, enums, dispatchers, interfaces, implementedInterfaces });
+    return { model, header: renderCppHeader(model), source: renderCppSource(model) };
+  }, [nodes, edges, variables, targetClass, functions, structs, enums, dispatchers, interfaces, implementedInterfaces]);
+
+  const handleToggleBreakpoint = (nodeId: string) => {
+    setNodes(nds => nds.map(n => n.id === nodeId ? { ...n, data: { ...n.data, breakpoint: !n.data.breakpoint } } : n));
+  };
+
+  // Handlers
+  // Links two pins of the active graph, inserting an autocast node when the types need one
+  const connectInGraph = (params: Connection, currentNodes: Node<BlueprintNodeData>[]) => {
+    const sourceNode = currentNodes.find(n => n.id === params.source);
+    const targetNode = currentNodes.find(n => n.id === params.target);
+    const response = canCreateConnection(sourceNode, params.sourceHandle, targetNode, params.targetHandle);
+
+    if (response.kind === 'disallow') {
+      addLog('warning', `Can't connect: ${response.reason}.`, { graphId: graphId ?? undefined, nodeId: params.target, pinId: params.targetHandle ?? undefined });
+      return;
+    }
+
+    if (response.kind === 'convert' && sourceNode && targetNode) {
+      const { node, links } = createConversionNode(response.conversion, sourceNode, params.sourceHandle!, targetNode, params.targetHandle!);
+      const allNodes = [...currentNodes, node];
+      setGraphNodes(allNodes);
+      setGraphEdges(prevEdges => links.reduce((acc, link) => connectPins(acc, link, allNodes), prevEdges));
+      addLog('info', `Inserted "${node.data.label}" between "${sourceNode.data.label}" and "${targetNode.data.label}".`, { graphId: graphId ?? undefined, nodeId: node.id });
+      return;
+    }
+
+    setGraphEdges(prevEdges => connectPins(prevEdges, params, currentNodes));
+  };
+
+  const onConnect = useCallback(
+    (params: Connection) => connectInGraph(params, graphNodes),
+    [graphNodes, graphId],
   );
 
+  // A node picked from the canvas palette, optionally wired to the pin it was dragged from
+  const handlePlaceNode = (node: Node<BlueprintNodeData>, link?: Connection, companions?: { nodes: Node<BlueprintNodeData>[]; edges: Edge[] }) => {
+    const allNodes = [...graphNodes.map(n => ({ ...n, selected: false })), node, ...(companions?.nodes || [])];
+    setGraphNodes(allNodes);
+    if (companions?.edges.length) setGraphEdges(eds => [...eds, ...styleEdges(allNodes, companions.edges)]);
+    if (link) connectInGraph(link, allNodes);
+  };
+
+  const handleInsertReroute = (edge: Edge, knot: Node<BlueprintNodeData>) => {
+    const allNodes = [...graphNodes, knot];
+    setGraphNodes(allNodes);
+    setGraphEdges(eds => [...eds.filter(e => e.id !== edge.id), ...styleEdges(allNodes, splitEdge(edge, knot))]);
+  };
+
   const onReconnectStart = useCallback(() => {
     edgeReconnectSuccessful.current = false;
   }, []);
@@ -232,47 +444,56 @@ function App() {
   const onReconnect: OnReconnect = useCallback(
     (oldEdge, newConnection) => {
       edgeReconnectSuccessful.current = true;
-      setEdges((els) => reconnectEdge(oldEdge, newConnection, els));
+      const sourceNode = graphNodes.find(n => n.id === newConnection.source);
+      const targetNode = graphNodes.find(n => n.id === newConnection.target);
+      if (canCreateConnection(sourceNode, newConnection.sourceHandle, targetNode, newConnection.targetHandle).kind === 'convert') {
+        // Route through onConnect so the conversion node gets inserted
+        setGraphEdges((els) => els.filter(e => e.id !== oldEdge.id));
+        onConnect(newConnection);
+        return;
+      }
+      setGraphEdges((els) => reconnectEdge(oldEdge, newConnection, els));
     },
-    [setEdges],
+    [graphNodes, graphId, onConnect],
   );
 
   const onReconnectEnd = useCallback(
     (_: any, edge: Edge) => {
       if (!edgeReconnectSuccessful.current) {
-        setEdges((eds) => eds.filter((e) => e.id !== edge.id));
+        setGraphEdges((eds) => eds.filter((e) => e.id !== edge.id));
       }
       edgeReconnectSuccessful.current = false;
     },
-    [setEdges],
+    [graphId],
   );
 
   const onEdgeClick = useCallback(
     (event: React.MouseEvent, edge: Edge) => {
       if (event.altKey) {
         event.preventDefault();
-        setEdges((eds) => eds.filter((e) => e.id !== edge.id));
+        setGraphEdges((eds) => eds.filter((e) => e.id !== edge.id));
         addLog('info', `Disconnected link: ${edge.source} -> ${edge.target}`);
       }
     },
-    [setEdges]
+    [graphId]
   );
 
   const handleAutoLayout = useCallback(() => {
     const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-      nodes,
-      edges
+      graphNodes,
+      graphEdges
     );
-    setNodes([...layoutedNodes]);
-    setEdges([...layoutedEdges]);
-  }, [nodes, edges, setNodes, setEdges]);
+    setGraphNodes([...layoutedNodes]);
+    setGraphEdges([...layoutedEdges]);
+  }, [graphNodes, graphEdges, graphId]);
 
-  const addLog = (type: LogEntry['type'], message: string) => {
+  const addLog = (type: LogEntry['type'], message: string, ref?: LogReference) => {
     const entry: LogEntry = {
       id: Math.random().toString(36).substr(2, 9),
       type,
       message,
-      timestamp: new Date().toLocaleTimeString()
+      timestamp: new Date().toLocaleTimeString(),
+      ref
     };
     setLogs(prev => [...prev, entry]);
   };
@@ -282,169 +503,858 @@ function App() {
     setLogs([]); 
     addLog('info', 'Starting Blueprint Compilation...');
     
+    // Defer so the spinner renders before a large graph is checked
     setTimeout(() => {
-      addLog('verbose', 'Compiling class GenerateBlueprint_C...');
-      addLog('verbose', 'Binding variable references...');
-      
-      const hasEvents = nodes.some(n => n.data.nodeType === 'event');
+      addLog('verbose', `Compiling class ${targetClass}_C...`);
 
-      if (nodes.length === 0) {
+      if (nodes.length === 0 && functions.length === 0) {
         addLog('warning', 'Graph is empty. Nothing to compile.');
         setIsCompiling(false);
         setCompileStatus('success');
         return;
       }
 
-      if (!hasEvents) {
-        addLog('warning', 'Blueprint has no Entry Point (Event). Logic may not execute.');
-      }
+      const result = compileBlueprint(nodes as Node<BlueprintNodeData>[], edges);
+      result.messages.forEach(m => addLog(m.severity, m.message, m.ref));
+      let { errorCount, warningCount } = result;
+      let nodeCount = nodes.length;
+      let edgeCount = edges.length;
+      functions.forEach(fn => {
+        const graph = syncFunctionGraph(fn);
+        const fnResult = compileBlueprint(graph.nodes!, graph.edges!);
+        fnResult.messages.forEach(m => addLog(m.severity, `${fn.name}: ${m.message}`, { ...m.ref, graphId: fn.id }));
+        errorCount += fnResult.errorCount;
+        warningCount += fnResult.warningCount;
+        nodeCount += graph.nodes!.length;
+        edgeCount += graph.edges!.length;
+      });
 
-      addLog('success', `Compile Complete! [${nodes.length} nodes, ${edges.length} edges]`);
+      const summary = `[${nodeCount} nodes, ${edgeCount} edges] ${errorCount} error(s), ${warningCount} warning(s)`;
+      if (errorCount > 0) {
+        addLog('error', `Compile failed. ${summary}`);
+        setCompileStatus('error');
+      } else {
+        addLog('success', `Compile Complete! ${summary}`);
+        setCompileStatus('success');
+      }
       setIsCompiling(false);
-      setCompileStatus('success');
-    }, 1200);
+    }, 0);
   };
 
   const handleSaveSettings = () => {
     localStorage.setItem('BLUEPRINT_VIBE_GEMINI_KEY', userGeminiKey);
     localStorage.setItem('BLUEPRINT_VIBE_OPENAI_KEY', userOpenAIKey);
     localStorage.setItem('BLUEPRINT_VIBE_API_KEY', userGeminiKey);
+    saveProviderSettings(providerSettings);
     setShowSettings(false);
-    addLog('success', 'API Keys saved to local storage.');
+    const active = providerSettings.providers[providerSettings.active];
+    addLog('success', `Settings saved. Using ${PROVIDERS[providerSettings.active].label} (${active.model}).`);
+  };
+
+  const handleLoadNodePack = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+    try {
+      const pack = parseNodePack(await file.text());
+      // Loading a pack again replaces the earlier copy
+      const next = [...nodePacks.filter(p => p.name !== pack.name), pack];
+      saveNodePacks(next);
+      setNodePacks(next);
+      addLog('success', `Loaded node pack "${pack.name}" (${pack.nodes.length} node${pack.nodes.length === 1 ? '' : 's'}).`);
+    } catch (err) {
+      addLog('error', `Failed to load node pack ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+      if (err instanceof SchemaValidationError) {
+        err.issues.forEach(issue => addLog('error', `  ${issue.path}: ${issue.message}`));
+      }
+    }
+  };
+
+  const handleRemoveNodePack = (name: string) => {
+    const next = nodePacks.filter(p => p.name !== name);
+    saveNodePacks(next);
+    setNodePacks(next);
+    addLog('info', `Removed node pack "${name}".`);
+  };
+
+  const updateProviderConfig = (id: ProviderId, patch: Partial<ProviderSettings['providers'][ProviderId]>) => {
+    setProviderSettings(prev => ({
+      ...prev,
+      providers: { ...prev.providers, [id]: { ...prev.providers[id], ...patch } }
+    }));
   };
 
   const handleGenerate = async (e: React.FormEvent) => {
     e.preventDefault();
     if (!prompt.trim()) return;
 
+    // Cancelling puts the editor back exactly as it was
+    const previousView = { graphId: activeGraphId, compileStatus };
     setLoading(true);
     setError(null);
     setCompileStatus('dirty');
+    setActiveGraphId(null);
+
+    const abortController = new AbortController();
+    generationAbort.current = abortController;
     
     if (verboseMode) {
       setShowOutputLog(true);
       setLogs([]);
       addLog('info', `Initialize generation for: "${prompt}"`);
-      
-      let msgIndex = 0;
-      thinkingInterval.current = setInterval(() => {
-        if (msgIndex < THINKING_MESSAGES.length) {
-          addLog('verbose', THINKING_MESSAGES[msgIndex]);
-          msgIndex++;
-        }
-      }, 800);
     }
 
-    try {
-      const result = await generateBlueprint(prompt);
-      
-      if (thinkingInterval.current) clearInterval(thinkingInterval.current);
-
-      if (result.variables) {
-        setVariables(prev => {
-           const existingIds = new Set(prev.map(v => v.id));
-           const newVars = result.variables!.filter(v => !existingIds.has(v.id));
-           return [...prev, ...newVars];
-        });
-      }
+    // Streamed nodes/edges are laid out and shown as they arrive; the graph
+    // they replace is put back if the generation doesn't complete
+    const previousGraph = { nodes, edges };
+    let streamed = false;
+    const onPartial = ({ nodes: partialNodes, edges: partialEdges }: { nodes: Node<BlueprintNodeData>[]; edges: Edge[] }) => {
+      streamed = true;
+      const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(partialNodes, partialEdges);
+      setNodes(layoutedNodes);
+      setEdges(styleEdges(layoutedNodes, layoutedEdges));
+    };
 
-      if (result.functions) {
-        setFunctions(prev => {
-            const existingIds = new Set(prev.map(f => f.id));
-            const newFuncs = result.functions!.filter(f => !existingIds.has(f.id));
-            return [...prev, ...newFuncs];
-        });
-      }
+    try {
+      const isRefining = refineMode && nodes.length > 0;
+      const result = isRefining
+        ? await refineBlueprint(prompt, {
+            nodes, edges, variables, functions, structs, enums, dispatchers, interfaces, implementedInterfaces,
+            cppCode: generatedCpp,
+            targetClass,
+            history: promptHistory
+          }, { onLog: addLog, signal: abortController.signal })
+        : await generateBlueprint(prompt, { onLog: addLog, onPartial, signal: abortController.signal });
+
+      // Refinement may update existing variables/functions, fresh generations only add
+      const mergeById = <T extends { id: string }>(prev: T[], incoming: T[] | undefined): T[] => {
+        if (!incoming) return prev;
+        const updated = isRefining ? prev.map(item => incoming.find(r => r.id === item.id) || item) : prev;
+        const existingIds = new Set(prev.map(item => item.id));
+        return [...updated, ...incoming.filter(item => !existingIds.has(item.id))];
+      };
+      const nextVariables = mergeById(variables, result.variables);
+      const nextStructs = mergeById(structs, result.structs);
+      const nextEnums = mergeById(enums, result.enums);
+      const nextDispatchers = mergeById(dispatchers, result.dispatchers);
+      const nextInterfaces = mergeById(interfaces, result.interfaces);
+      // A refinement returns the whole list; a fresh generation adds to it
+      const nextImplemented = !result.implementedInterfaces ? implementedInterfaces
+        : isRefining ? result.implementedInterfaces
+        : Array.from(new Set([...implementedInterfaces, ...result.implementedInterfaces]));
+      const syncMembers = syncMemberNodes({ structs: nextStructs, enums: nextEnums, dispatchers: nextDispatchers, interfaces: nextInterfaces, implementedInterfaces: nextImplemented });
+      // Generated function bodies get the same layout pass as the EventGraph;
+      // a signature-only update keeps the body that's already there
+      const incomingFunctions = result.functions?.map(fn => {
+        const existing = functions.find(f => f.id === fn.id);
+        if (!fn.nodes?.length) return syncFunctionGraph({ ...fn, nodes: existing?.nodes, edges: existing?.edges }, existing);
+        const layouted = getLayoutedElements(fn.nodes, fn.edges || []);
+        const synced = syncFunctionGraph({ ...fn, nodes: frameGroups(layouted.nodes), edges: layouted.edges });
+        return { ...synced, edges: styleEdges(synced.nodes!, synced.edges!) };
+      });
+      const nextFunctions = mergeById(functions, incomingFunctions).map(fn => {
+        if (!fn.nodes) return fn;
+        const linked = linkFunctionCalls(fn.nodes, fn.edges || [], incomingFunctions || []);
+        const synced = syncMembers(linked.nodes, linked.edges);
+        return { ...fn, nodes: synced.nodes, edges: synced.edges };
+      });
 
+      setVariables(nextVariables);
+      setFunctions(nextFunctions);
+      setStructs(nextStructs);
+      setEnums(nextEnums);
+      setDispatchers(nextDispatchers);
+      setInterfaces(nextInterfaces);
+      setImplementedInterfaces(nextImplemented);
       setBlueprintSummary(result.summary);
       setBlueprintSources(result.sources || []);
       setGeneratedCpp(result.cppCode || '');
       setTargetClass(result.targetClass || 'BP_GeneratedActor');
 
-      const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
-        result.nodes || [],
-        result.edges || []
-      );
-      
-      const coloredEdges = layoutedEdges.map(edge => {
-          const sourceNode = layoutedNodes.find(n => n.id === edge.source);
-          const sourcePin = sourceNode?.data.outputs.find((p: any) => p.id === edge.sourceHandle);
-          let color = UE_COLORS.Default;
-          let width = 2;
-          if (sourcePin) {
-             switch(sourcePin.type) {
-                 case PinType.Exec: color = UE_COLORS.Exec; width = 2.5; break;
-                 case PinType.Boolean: color = UE_COLORS.Boolean; break;
-                 case PinType.Integer: color = UE_COLORS.Integer; break;
-                 case PinType.Float: color = UE_COLORS.Float; break;
-                 case PinType.String: color = UE_COLORS.String; break;
-                 case PinType.Vector: color = UE_COLORS.Vector; break;
-                 case PinType.Rotator: color = UE_COLORS.Rotator; break;
-                 case PinType.Object: color = UE_COLORS.Object; break;
-                 case PinType.Class: color = UE_COLORS.Class; break;
-                 case PinType.Struct: color = UE_COLORS.Struct; break;
-                 case PinType.Name: color = UE_COLORS.Name; break;
-                 case PinType.Text: color = UE_COLORS.Text; break;
-             }
-          }
-          return {
-              ...edge,
-              type: 'default',
-              style: { stroke: color, strokeWidth: width },
-              animated: false
-          }
-      });
+      let finalNodes: Node<BlueprintNodeData>[];
+      let finalEdges: Edge[];
+
+      if (isRefining) {
+        // Delta already carries positions: existing nodes keep theirs, new ones are placed beside their links
+        finalNodes = result.nodes;
+        finalEdges = styleEdges(result.nodes, result.edges);
+        setPromptHistory(prev => [...prev, prompt]);
+        setPrompt('');
+        const { added, removed, modified, addedEdges, removedEdges } = (result as RefinementResult).stats;
+        addLog('success', `Refinement applied: +${added} / -${removed} nodes, ${modified} modified, +${addedEdges} / -${removedEdges} links.`);
+      } else {
+        const { nodes: layoutedNodes, edges: layoutedEdges } = getLayoutedElements(
+          result.nodes || [],
+          result.edges || []
+        );
 
-      setNodes(layoutedNodes);
-      setEdges(coloredEdges);
+        finalNodes = layoutedNodes;
+        finalEdges = styleEdges(layoutedNodes, layoutedEdges);
+        setPromptHistory([prompt]);
+
+        if (verboseMode) {
+          addLog('success', 'Graph generation complete.');
+        }
+      }
+
+      // Grouped nodes are laid out by now, so their comment boxes can be framed around them
+      finalNodes = frameGroups(finalNodes);
 
-      if (verboseMode) {
-        addLog('success', 'Graph generation complete.');
-        if (result.cppCode) addLog('info', 'LogNative: C++ Code generated successfully.');
+      if (incomingFunctions) {
+        const linked = linkFunctionCalls(finalNodes, finalEdges, incomingFunctions);
+        finalNodes = linked.nodes as Node<BlueprintNodeData>[];
+        finalEdges = linked.edges;
       }
+      const synced = syncMembers(finalNodes, finalEdges);
+      finalNodes = synced.nodes;
+      finalEdges = synced.edges;
+      setNodes(finalNodes);
+      setEdges(finalEdges);
+      recordSnapshot(isRefining ? 'refinement' : 'generation', prompt, {
+        nodes: finalNodes,
+        edges: finalEdges,
+        variables: nextVariables,
+        functions: nextFunctions,
+        structs: nextStructs,
+        enums: nextEnums,
+        dispatchers: nextDispatchers,
+        interfaces: nextInterfaces,
+        implementedInterfaces: nextImplemented,
+        cppCode: result.cppCode || '',
+        summary: result.summary,
+        targetClass: result.targetClass || 'BP_GeneratedActor',
+        sources: result.sources || []
+      });
+
+      if (verboseMode && result.cppCode) addLog('info', 'LogNative: C++ Code generated successfully.');
 
     } catch (err: any) {
       console.error(err);
-      if (thinkingInterval.current) clearInterval(thinkingInterval.current);
-      
+      if (streamed) {
+        setNodes(previousGraph.nodes);
+        setEdges(previousGraph.edges);
+      }
+
       const errorMessage = err instanceof Error ? err.message : String(err);
       
-      // AUTO-OPEN SETTINGS ON MISSING KEY
-      if (errorMessage.includes("MISSING_API_KEY")) {
-         setError("Please provide a Gemini API Key in Settings.");
+      if (err instanceof SchemaValidationError) {
+         setError(`Model output failed schema validation (${err.issues.length} issue${err.issues.length === 1 ? '' : 's'}). See Output Log.`);
+         setShowOutputLog(true);
+         addLog('error', `Validation Report: ${err.issues.length} schema violation(s) in model output`);
+         err.issues.forEach(issue => addLog('error', `  ${issue.path}: ${issue.message}`));
+      } else if (errorMessage.includes("MISSING_API_KEY")) {
+         // AUTO-OPEN SETTINGS ON MISSING KEY
+         setError(`Please provide a ${PROVIDERS[providerSettings.active].label} API Key in Settings.`);
          setShowSettings(true);
          addLog('error', 'Missing API Key. Opening settings...');
+      } else if (err instanceof LLMError && err.kind === 'cancelled') {
+         setActiveGraphId(previousView.graphId);
+         setCompileStatus(previousView.compileStatus);
+         addLog('info', streamed ? 'Generation cancelled by user; the previous graph was restored.' : 'Generation cancelled by user.');
+      } else if (err instanceof LLMError) {
+         setError(LLM_ERROR_MESSAGES[err.kind]);
+         if (err.kind === 'auth') setShowSettings(true);
+         addLog('error', `Generation failed [${err.kind}${err.status ? ` ${err.status}` : ''}]: ${errorMessage}`);
       } else {
-         setError("Failed to generate blueprint. Please try again.");
+         setError(LLM_ERROR_MESSAGES.unknown);
          addLog('error', `Generation failed: ${errorMessage}`);
       }
     } finally {
+      generationAbort.current = null;
       setLoading(false);
     }
   };
 
+  const currentModelLabel = () => {
+    const active = providerSettings.providers[providerSettings.active];
+    return `${PROVIDERS[providerSettings.active].label} / ${active.model}`;
+  };
+
+  const recordSnapshot = (
+    kind: BlueprintSnapshot['kind'],
+    label: string,
+    state: BlueprintDocument
+  ) => {
+    const snapshot: BlueprintSnapshot = {
+      id: Math.random().toString(36).substr(2, 9),
+      kind,
+      label,
+      timestamp: Date.now(),
+      model: kind === 'checkpoint' ? undefined : currentModelLabel(),
+      ...state
+    };
+    setSnapshots(prev => [...prev, snapshot]);
+    setActiveSnapshotId(snapshot.id);
+    return snapshot;
+  };
+
+  const currentState = (): BlueprintDocument => ({
+    nodes: nodes as Node<BlueprintNodeData>[],
+    edges,
+    variables,
+    functions,
+    structs,
+    enums,
+    dispatchers,
+    interfaces,
+    implementedInterfaces,
+    cppCode: generatedCpp,
+    summary: blueprintSummary,
+    targetClass,
+    sources: blueprintSources
+  });
+
+  const applyDocument = (doc: BlueprintDocument) => {
+    setActiveGraphId(null);
+    setOpenGraphIds([]);
+    setNodes(doc.nodes);
+    setEdges(styleEdges(doc.nodes, doc.edges));
+    setVariables(doc.variables);
+    // Saved links carry no styling; function graphs are restyled like the EventGraph
+    setFunctions(doc.functions.map(fn => (fn.nodes ? { ...fn, edges: styleEdges(fn.nodes, fn.edges || []) } : fn)));
+    setStructs(doc.structs);
+    setEnums(doc.enums);
+    setDispatchers(doc.dispatchers);
+    setInterfaces(doc.interfaces);
+    setImplementedInterfaces(doc.implementedInterfaces);
+    setGeneratedCpp(doc.cppCode);
+    setBlueprintSummary(doc.summary);
+    setTargetClass(doc.targetClass);
+    setBlueprintSources(doc.sources);
+    setCompileStatus('dirty');
+  };
+
+  const handleSaveProject = () => {
+    downloadProject(serializeProject(currentState(), targetClass));
+    addLog('success', `Saved project ${targetClass}${PROJECT_FILE_EXTENSION}`);
+  };
+
+  const handleOpenProject = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = ''; // Allow re-opening the same file
+    if (!file) return;
+    try {
+      const project = parseProject(await file.text());
+      applyDocument(project.blueprint);
+      setPromptHistory([]);
+      recordSnapshot('checkpoint', `Opened ${file.name}`, project.blueprint);
+      addLog('success', `Opened ${file.name} (format v${project.version}, saved ${new Date(project.savedAt).toLocaleString()}).`);
+    } catch (err) {
+      addLog('error', `Failed to open ${file.name}: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleCopyForUnreal = async () => {
+    // Like Ctrl+C in the editor: copy the selection, or everything if nothing is selected
+    const selected = graphNodes.filter(n => n.selected);
+    const exportNodes = selected.length > 0 ? selected : graphNodes;
+    if (exportNodes.length === 0) {
+      addLog('warning', 'Nothing to copy. Generate or add some nodes first.');
+      return;
+    }
+    try {
+      await navigator.clipboard.writeText(exportToT3D(exportNodes, graphEdges, { structs, enums, interfaces }));
+      addLog('success', `Copied ${exportNodes.length} node(s) for Unreal. Paste into a Blueprint graph with Ctrl+V.`);
+    } catch (err) {
+      addLog('error', `Clipboard write failed: ${err instanceof Error ? err.message : String(err)}`);
+    }
+  };
+
+  const handleImportT3D = (text: string) => {
+    if (!looksLikeT3D(text)) {
+      addLog('warning', 'Clipboard text is not Unreal Editor node data (expected "Begin Object ... End Object").');
+      return false;
+    }
+    const result = importFromT3D(text, new Set(graphNodes.map(n => n.id)));
+    result.warnings.forEach(w => addLog('warning', `Import: ${w}`));
+    if (result.nodes.length === 0) {
+      addLog('error', 'Import: no Blueprint nodes found in the pasted text.');
+      return false;
+    }
+
+    // Imported nodes keep their editor positions and come in selected
+    const mergedNodes = [
+      ...graphNodes.map(n => ({ ...n, selected: false })),
+      ...result.nodes.map(n => ({ ...n, selected: true }))
+    ];
+    const mergedEdges = styleEdges(mergedNodes, [...graphEdges, ...result.edges]);
+    setGraphNodes(mergedNodes);
+    setGraphEdges(mergedEdges);
+    setCompileStatus('dirty');
+    const imported = graphId
+      ? { ...currentState(), functions: functions.map(f => (f.id === graphId ? { ...f, nodes: mergedNodes, edges: mergedEdges } : f)) }
+      : { ...currentState(), nodes: mergedNodes, edges: mergedEdges };
+    recordSnapshot('checkpoint', `Imported ${result.nodes.length} node(s) from Unreal`, imported);
+    addLog('success', `Imported ${result.nodes.length} node(s) and ${result.edges.length} link(s) from Unreal Editor clipboard text.`);
+    return true;
+  };
+
+  const handleNavigateLog = (ref: LogReference) => {
+    const targetGraph = ref.graphId ? functions.find(f => f.id === ref.graphId) : undefined;
+    if (ref.graphId && !targetGraph) {
+      addLog('warning', 'That function no longer exists.');
+      return;
+    }
+    const refGraphId = targetGraph ? targetGraph.id : null;
+    const refNodes = targetGraph ? targetGraph.nodes || [] : nodes;
+    const refEdges = targetGraph ? targetGraph.edges || [] : edges;
+    const edge = ref.edgeId ? refEdges.find(e => e.id === ref.edgeId) : undefined;
+    const nodeIds = ref.nodeId ? [ref.nodeId] : edge ? [edge.source, edge.target] : [];
+    const targetIds = nodeIds.filter(id => refNodes.some(n => n.id === id));
+    if (targetIds.length === 0 && !edge) {
+      addLog('warning', 'That element is no longer in the graph.');
+      return;
+    }
+
+    if (viewMode === 'cpp') setViewMode('blueprint');
+    if (refGraphId !== graphId) handleOpenGraph(refGraphId);
+    setSelectedNodeId(ref.nodeId ?? null);
+    updateGraphNodes(refGraphId, nds => nds.map(n => targetIds.includes(n.id)
+      ? { ...n, selected: true, className: 'bp-log-flash', data: { ...n.data, flashPinId: n.id === ref.nodeId ? ref.pinId : undefined } }
+      : { ...n, selected: false }));
+    updateGraphEdges(refGraphId, eds => eds.map(e => e.id === edge?.id ? { ...e, selected: true, className: 'bp-log-flash' } : { ...e, selected: false }));
+    setFocusRequest({ nodeIds: targetIds, nonce: Date.now() });
+
+    clearTimeout(flashTimer.current);
+    flashTimer.current = window.setTimeout(() => {
+      updateGraphNodes(refGraphId, nds => nds.map(n => n.className === 'bp-log-flash' ? { ...n, className: undefined, data: { ...n.data, flashPinId: undefined } } : n));
+      updateGraphEdges(refGraphId, eds => eds.map(e => e.className === 'bp-log-flash' ? { ...e, className: undefined } : e));
+    }, 1600);
+  };
+
+  const handleCheckpoint = (label: string) => {
+    recordSnapshot('checkpoint', label, currentState());
+    addLog('info', `History: saved checkpoint "${label}".`);
+  };
+
+  const handleRestoreSnapshot = (id: string) => {
+    const snapshot = snapshots.find(s => s.id === id);
+    if (!snapshot) return;
+
+    // Keep unsaved edits anywhere in the blueprint reachable before overwriting it
+    const state = currentState();
+    const active = snapshots.find(s => s.id === activeSnapshotId);
+    const isEmpty = [nodes, variables, functions, structs, enums, dispatchers, interfaces].every(list => list.length === 0);
+    const hasEdits = active ? !sameDocument(active, state) : !isEmpty;
+    if (hasEdits) recordSnapshot('checkpoint', 'Auto-checkpoint before restore', state);
+
+    applyDocument(snapshot);
+    setActiveSnapshotId(snapshot.id);
+    addLog('info', `History: restored "${snapshot.label}" (${new Date(snapshot.timestamp).toLocaleTimeString()}).`);
+  };
+
+  const handleCancelGeneration = () => {
+    generationAbort.current?.abort();
+  };
+
   const handleAddVariable = () => {
     const id = `Var_${Date.now()}`;
-    setVariables([...variables, { id, name: 'NewVar', type: PinType.Boolean, defaultValue: 'false' }]);
+    const taken = new Set(variables.map(v => v.name));
+    let name = 'NewVar';
+    for (let i = 0; taken.has(name); i++) name = `NewVar_${i}`;
+    setVariables([...variables, { id, name, type: PinType.Boolean, defaultValue: 'false' }]);
+  };
+
+  const handleUpdateVariable = (id: string, patch: Partial<BlueprintVariable>) => {
+    const previous = variables.find(v => v.id === id);
+    if (!previous) return;
+    const next = { ...previous, ...patch };
+    if (patch.name !== undefined) {
+      next.name = patch.name.trim();
+      if (!/^[A-Za-z_][\w ]*$/.test(next.name)) {
+        addLog('warning', `"${patch.name}" is not a valid variable name.`);
+        return;
+      }
+      if (variables.some(v => v.id !== id && v.name === next.name)) {
+        addLog('warning', `A variable named "${next.name}" already exists.`);
+        return;
+      }
+    }
+    // Containers start empty; UE has no inline default for them
+    if (!samePinType(next, previous)) next.defaultValue = next.container ? undefined : defaultValueFor(next.type, next.subType, enums);
+
+    setVariables(vars => vars.map(v => (v.id === id ? next : v)));
+    if (next.name !== previous.name || !samePinType(next, previous)) {
+      const result = updateVariableReferences(nodes as Node<BlueprintNodeData>[], edges, previous, next);
+      let brokenLinks = result.brokenLinks;
+      setNodes(result.nodes);
+      setEdges(result.edges);
+      setFunctions(functions.map(f => {
+        if (!f.nodes) return f;
+        const fnResult = updateVariableReferences(f.nodes, f.edges || [], previous, next);
+        brokenLinks += fnResult.brokenLinks;
+        return { ...f, nodes: fnResult.nodes, edges: fnResult.edges };
+      }));
+      if (next.name !== previous.name) addLog('info', `Renamed variable "${previous.name}" to "${next.name}".`);
+      if (brokenLinks > 0) addLog('warning', `Changing "${next.name}" to ${pinTypeName(next)} broke ${brokenLinks} incompatible link(s).`);
+    }
+  };
+
+  const handleDropVariable = (variableId: string, access: VariableAccess, position: { x: number; y: number }) => {
+    const variable = variables.find(v => v.id === variableId);
+    if (!variable) return;
+    const node = createVariableNode(variable, access, position, enums);
+    setGraphNodes(nds => [...nds.map(n => ({ ...n, selected: false })), node]);
   };
 
   const handleAddFunction = () => {
     const id = `Func_${Date.now()}`;
-    setFunctions([...functions, { id, name: 'NewFunction', inputs: [], outputs: [] }]);
+    const taken = new Set(functions.map(f => f.name));
+    let name = 'NewFunction';
+    for (let i = 0; taken.has(name); i++) name = `NewFunction_${i}`;
+    setFunctions([...functions, syncFunctionGraph({ id, name, inputs: [], outputs: [] })]);
+  };
+
+  const handleUpdateFunction = (id: string, patch: Partial<BlueprintFunction>) => {
+    const previous = functions.find(f => f.id === id);
+    if (!previous) return;
+    const merged = { ...previous, ...patch };
+    if (patch.name !== undefined) {
+      merged.name = patch.name.trim();
+      if (!/^[A-Za-z_]\w*$/.test(merged.name)) {
+        addLog('warning', `"${patch.name}" is not a valid function name.`);
+        return;
+      }
+      if (functions.some(f => f.id !== id && f.name === merged.name)) {
+        addLog('warning', `A function named "${merged.name}" already exists.`);
+        return;
+      }
+    }
+    const next = syncFunctionGraph(merged, previous);
+
+    // Call sites can live in the EventGraph and in any function graph, including this one
+    const eventGraph = updateFunctionReferences(nodes as Node<BlueprintNodeData>[], edges, previous, next);
+    let brokenLinks = eventGraph.brokenLinks;
+    setNodes(eventGraph.nodes);
+    setEdges(eventGraph.edges);
+    setFunctions(functions.map(f => {
+      const fn = f.id === id ? next : f;
+      if (!fn.nodes) return fn;
+      const result = updateFunctionReferences(fn.nodes, fn.edges || [], previous, next);
+      brokenLinks += result.brokenLinks;
+      return { ...fn, nodes: result.nodes, edges: result.edges };
+    }));
+    if (next.name !== previous.name) addLog('info', `Renamed function "${previous.name}" to "${next.name}".`);
+    if (brokenLinks > 0) addLog('warning', `Changing the signature of "${next.name}" broke ${brokenLinks} incompatible link(s).`);
+  };
+
+  const handleAddStruct = () => {
+    const taken = new Set([...structs, ...enums].map(t => t.name));
+    let name = 'FNewStruct';
+    for (let i = 0; taken.has(name); i++) name = `FNewStruct_${i}`;
+    setStructs([...structs, { id: `Struct_${Date.now()}`, name, members: [] }]);
+  };
+
+  const handleAddEnum = () => {
+    const taken = new Set([...structs, ...enums].map(t => t.name));
+    let name = 'ENewEnum';
+    for (let i = 0; taken.has(name); i++) name = `ENewEnum_${i}`;
+    setEnums([...enums, { id: `Enum_${Date.now()}`, name, values: ['NewEnumerator'] }]);
   };
 
-  const renderCppView = () => (
+  // Re-derives every Make/Break/Switch node and renamed sub-type after a struct or enum edit
+  const applyUserTypes = (
+    updatedStructs: BlueprintStruct[],
+    nextEnums: BlueprintEnum[],
+    previous: { name: string },
+    next: { name: string }
+  ) => {
+    const renamed = next.name !== previous.name ? { from: previous.name, to: next.name } : undefined;
+    const nextStructs = renamed
+      ? updatedStructs.map(st => ({ ...st, members: renameSubType(st.members, renamed.from, renamed.to) }))
+      : updatedStructs;
+    const eventGraph = syncUserTypeNodes(nodes as Node<BlueprintNodeData>[], edges, nextStructs, nextEnums, renamed);
+    let brokenLinks = eventGraph.brokenLinks;
+    setNodes(eventGraph.nodes);
+    setEdges(eventGraph.edges);
+    setFunctions(functions.map(f => {
+      const fn = renamed
+        ? { ...f, inputs: renameSubType(f.inputs, renamed.from, renamed.to), outputs: renameSubType(f.outputs, renamed.from, renamed.to) }
+        : f;
+      if (!fn.nodes) return fn;
+      const result = syncUserTypeNodes(fn.nodes, fn.edges || [], nextStructs, nextEnums, renamed);
+      brokenLinks += result.brokenLinks;
+      return { ...fn, nodes: result.nodes, edges: result.edges };
+    }));
+    if (renamed) {
+      setVariables(renameSubType(variables, renamed.from, renamed.to));
+      addLog('info', `Renamed "${previous.name}" to "${next.name}".`);
+    }
+    setStructs(nextStructs);
+    setEnums(nextEnums);
+    if (brokenLinks > 0) addLog('warning', `Changing "${next.name}" broke ${brokenLinks} incompatible link(s).`);
+  };
+
+  // Struct and enum names share one namespace, as they do as UE asset names
+  const checkTypeName = (id: string, name: string) => {
+    if (!isValidTypeName(name)) {
+      addLog('warning', `"${name}" is not a valid type name.`);
+      return false;
+    }
+    if ([...structs, ...enums].some(t => t.id !== id && t.name === name)) {
+      addLog('warning', `A struct or enum named "${name}" already exists.`);
+      return false;
+    }
+    return true;
+  };
+
+  const handleUpdateStruct = (id: string, patch: Partial<BlueprintStruct>) => {
+    const previous = structs.find(s => s.id === id);
+    if (!previous) return;
+    const next = { ...previous, ...patch, name: (patch.name ?? previous.name).trim() };
+    if (patch.name !== undefined && !checkTypeName(id, next.name)) return;
+    if (next.members.some(m => m.subType === next.name)) {
+      addLog('warning', `"${next.name}" cannot contain itself.`);
+      return;
+    }
+    applyUserTypes(structs.map(s => (s.id === id ? next : s)), enums, previous, next);
+  };
+
+  const handleUpdateEnum = (id: string, patch: Partial<BlueprintEnum>) => {
+    const previous = enums.find(e => e.id === id);
+    if (!previous) return;
+    const next = { ...previous, ...patch, name: (patch.name ?? previous.name).trim() };
+    if (patch.name !== undefined && !checkTypeName(id, next.name)) return;
+    if (patch.values && (patch.values.some(v => !isValidTypeName(v)) || new Set(patch.values).size !== patch.values.length)) {
+      addLog('warning', `Enumerators of "${next.name}" must be unique identifiers.`);
+      return;
+    }
+    applyUserTypes(structs, enums.map(e => (e.id === id ? next : e)), previous, next);
+  };
+
+  // Runs one sync pass over the EventGraph and every function graph; returns the links it broke
+  const syncAllGraphs = (sync: GraphSync, fns = functions) => {
+    const eventGraph = sync(nodes as Node<BlueprintNodeData>[], edges);
+    let brokenLinks = eventGraph.brokenLinks;
+    setNodes(eventGraph.nodes);
+    setEdges(eventGraph.edges);
+    setFunctions(fns.map(f => {
+      if (!f.nodes) return f;
+      const result = sync(f.nodes, f.edges || []);
+      brokenLinks += result.brokenLinks;
+      return { ...f, nodes: result.nodes, edges: result.edges };
+    }));
+    return brokenLinks;
+  };
+
+  const handleAddDispatcher = () => {
+    const taken = new Set(dispatchers.map(d => d.name));
+    let name = 'NewEventDispatcher';
+    for (let i = 0; taken.has(name); i++) name = `NewEventDispatcher_${i}`;
+    setDispatchers([...dispatchers, { id: `Dispatcher_${Date.now()}`, name, inputs: [] }]);
+  };
+
+  const handleUpdateDispatcher = (id: string, patch: Partial<BlueprintDispatcher>) => {
+    const previous = dispatchers.find(d => d.id === id);
+    if (!previous) return;
+    const next = { ...previous, ...patch, name: (patch.name ?? previous.name).trim() };
+    if (patch.name !== undefined) {
+      if (!/^[A-Za-z_]\w*$/.test(next.name)) {
+        addLog('warning', `"${patch.name}" is not a valid event dispatcher name.`);
+        return;
+      }
+      if (dispatchers.some(d => d.id !== id && d.name === next.name)) {
+        addLog('warning', `An event dispatcher named "${next.name}" already exists.`);
+        return;
+      }
+    }
+    const nextDispatchers = dispatchers.map(d => (d.id === id ? next : d));
+    setDispatchers(nextDispatchers);
+    const brokenLinks = syncAllGraphs((n, e) => syncDispatcherNodes(n, e, nextDispatchers));
+    if (next.name !== previous.name) addLog('info', `Renamed event dispatcher "${previous.name}" to "${next.name}".`);
+    if (brokenLinks > 0) addLog('warning', `Changing the signature of "${next.name}" broke ${brokenLinks} incompatible link(s).`);
+  };
+
+  // Implementing an interface adds a function graph for each of its functions that has
+  // outputs; the rest are implemented with Event nodes
+  const applyInterfaces = (nextInterfaces: BlueprintInterface[], nextImplemented: string[], changed: string) => {
+    const missing = nextInterfaces
+      .filter(i => nextImplemented.includes(i.id))
+      .flatMap(i => i.functions)
+      .filter(fn => !implementsAsEvent(fn) && !functions.some(f => f.name === fn.name));
+    const added = missing.map((fn, i) => syncFunctionGraph({ id: `Func_${Date.now()}_${i}`, name: fn.name, inputs: fn.inputs, outputs: fn.outputs }));
+    setInterfaces(nextInterfaces);
+    setImplementedInterfaces(nextImplemented);
+    const brokenLinks = syncAllGraphs((n, e) => syncInterfaceNodes(n, e, nextInterfaces, nextImplemented), [...functions, ...added]);
+    added.forEach(fn => addLog('info', `Added function "${fn.name}" to implement its interface.`));
+    if (brokenLinks > 0) addLog('warning', `Changing "${changed}" broke ${brokenLinks} incompatible link(s).`);
+  };
+
+  const handleAddInterface = () => {
+    const taken = new Set(interfaces.map(i => i.name));
+    let name = 'BPI_NewInterface';
+    for (let i = 0; taken.has(name); i++) name = `BPI_NewInterface_${i}`;
+    setInterfaces([...interfaces, { id: `Interface_${Date.now()}`, name, functions: [] }]);
+  };
+
+  const handleUpdateInterface = (id: string, patch: Partial<BlueprintInterface>) => {
+    const previous = interfaces.find(i => i.id === id);
+    if (!previous) return;
+    const next = { ...previous, ...patch, name: (patch.name ?? previous.name).trim() };
+    const invalid = [next.name, ...next.functions.map(f => f.name)].find(name => !/^[A-Za-z_]\w*$/.test(name));
+    if (invalid !== undefined) {
+      addLog('warning', `"${invalid}" is not a valid interface or function name.`);
+      return;
+    }
+    if (interfaces.some(i => i.id !== id && i.name === next.name)) {
+      addLog('warning', `An interface named "${next.name}" already exists.`);
+      return;
+    }
+    if (new Set(next.functions.map(f => f.name)).size !== next.functions.length) {
+      addLog('warning', `Function names in "${next.name}" must be unique.`);
+      return;
+    }
+    applyInterfaces(interfaces.map(i => (i.id === id ? next : i)), implementedInterfaces, next.name);
+  };
+
+  const handleToggleInterface = (id: string) => {
+    const iface = interfaces.find(i => i.id === id);
+    if (!iface) return;
+    const implemented = implementedInterfaces.includes(id);
+    applyInterfaces(interfaces, implemented ? implementedInterfaces.filter(i => i !== id) : [...implementedInterfaces, id], iface.name);
+    addLog('info', `${implemented ? 'Removed' : 'Implemented'} interface "${iface.name}".`);
+  };
+
+  const handleOpenGraph = (id: string | null) => {
+    if (id) {
+      // Functions from older projects have no graph until they're first opened
+      setFunctions(fns => fns.map(f => (f.id === id && !f.nodes ? syncFunctionGraph(f) : f)));
+      setOpenGraphIds(ids => (ids.includes(id) ? ids : [...ids, id]));
+    }
+    setActiveGraphId(id);
+    setSelectedNodeId(null);
+  };
+
+  const handleCloseGraph = (id: string) => {
+    setOpenGraphIds(ids => ids.filter(i => i !== id));
+    if (activeGraphId === id) setActiveGraphId(null);
+  };
+
+  const handleDropFunction = (functionId: string, position: { x: number; y: number }) => {
+    const fn = functions.find(f => f.id === functionId);
+    if (!fn) return;
+    const node = createCallNode(fn, position);
+    setGraphNodes(nds => [...nds.map(n => ({ ...n, selected: false })), node]);
+  };
+
+  const handleDownloadCpp = () => {
+    const { model, header, source } = transpiledCpp;
+    downloadBlob(createZip([
+      { name: `${model.fileName}.h`, content: header },
+      { name: `${model.fileName}.cpp`, content: source }
+    ]), `${model.fileName}.zip`);
+    addLog('info', `Downloaded ${model.fileName}.h and ${model.fileName}.cpp as ${model.fileName}.zip.`);
+  };
+
+  // Canvas plus the graph tab strip; the EventGraph tab is always present
+  const renderGraphCanvas = () => (
+    <>
+      <BlueprintCanvas
+        key={graphId ?? 'EventGraph'}
+        nodes={graphId ? graphNodes : displayNodes}
+        edges={graphId ? graphEdges : displayEdges}
+        onNodesChange={onGraphNodesChange}
+        onEdgesChange={onGraphEdgesChange}
+        onConnect={onConnect}
+        onReconnect={onReconnect}
+        onReconnectStart={onReconnectStart}
+        onReconnectEnd={onReconnectEnd}
+        onEdgeClick={onEdgeClick}
+        onNodeClick={(e, node) => setSelectedNodeId(node.id)}
+        onPaneClick={() => setSelectedNodeId(null)}
+        focusRequest={focusRequest}
+        variables={variables}
+        onDropVariable={handleDropVariable}
+        onDropFunction={handleDropFunction}
+        functions={functions}
+        structs={structs}
+        enums={enums}
+        dispatchers={dispatchers}
+        interfaces={interfaces}
+        implementedInterfaces={implementedInterfaces}
+        allowEvents={!graphId}
+        allowBreakpoints={!graphId}
+        onPlaceNode={handlePlaceNode}
+        onInsertReroute={handleInsertReroute}
+      />
+      <div className="absolute top-4 left-4 z-40 flex items-center gap-1 select-none">
+        {[null, ...openGraphIds].map(id => {
+          const fn = id ? functions.find(f => f.id === id) : undefined;
+          if (id && !fn) return null;
+          const active = graphId === id;
+          return (
+            <div
+              key={id ?? 'EventGraph'}
+              onClick={() => handleOpenGraph(id)}
+              className={`flex items-center gap-1.5 pl-3 ${id ? 'pr-1.5' : 'pr-3'} py-1 rounded-t border-b-2 text-[11px] cursor-pointer bg-black/80 backdrop-blur ${active ? 'border-[#0070e0] text-white' : 'border-transparent text-neutral-500 hover:text-neutral-300'}`}
+            >
+              {fn ? <span className="text-blue-400 font-serif italic text-[10px]">f</span> : <LayoutTemplate size={11} />}
+              {fn ? fn.name : 'EventGraph'}
+              {id && (
+                <button
+                  onClick={(e) => { e.stopPropagation(); handleCloseGraph(id); }}
+                  title="Close tab"
+                  className="text-neutral-600 hover:text-white"
+                >
+                  <XCircle size={11} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </>
+  );
+
+  const renderCppView = () => {
+    const showModel = cppSource === 'model';
+    // The model only writes a .cpp, so its output always shows in the .cpp tab
+    const file = showModel ? 'cpp' : cppFile;
+    const hasGraph = nodes.length > 0 || variables.length > 0 || functions.length > 0;
+    const code = showModel ? displayedCpp : (hasGraph ? (file === 'h' ? transpiledCpp.header : transpiledCpp.source) : '');
+    return (
     <div className="w-full h-full flex flex-col items-center justify-center bg-[#1e1e1e] text-neutral-300 overflow-hidden">
         <div className="bg-[#1e1e1e] p-0 w-full h-full font-mono text-xs text-gray-300 relative flex flex-col">
             <div className="w-full h-8 bg-[#252526] border-b border-[#3e3e42] flex items-center px-4 gap-2 shrink-0">
-                <FileCode size={12} className="text-[#4EC9B0]" />
-                <span className="text-[#CCCCCC] text-[11px] font-medium">GeneratedActor.cpp</span>
+                {(['h', 'cpp'] as const).map(ext => (
+                  <button
+                    key={ext}
+                    onClick={() => setCppFile(ext)}
+                    disabled={showModel && ext === 'h'}
+                    className={`h-full flex items-center gap-1.5 px-2 border-b-2 text-[11px] font-medium transition-colors disabled:opacity-30 ${file === ext ? 'border-[#4EC9B0] text-[#CCCCCC]' : 'border-transparent text-neutral-500 hover:text-neutral-300'}`}
+                  >
+                    <FileCode size={12} className={ext === 'h' ? 'text-[#C586C0]' : 'text-[#4EC9B0]'} />
+                    {transpiledCpp.model.fileName}.{ext}
+                  </button>
+                ))}
+                <div className="ml-auto flex items-center gap-1 font-sans">
+                    <button
+                      onClick={handleDownloadCpp}
+                      disabled={!hasGraph}
+                      title="Download the generated .h and .cpp as a zip"
+                      className="flex items-center gap-1 px-2 py-0.5 rounded text-[10px] text-neutral-400 hover:text-white disabled:opacity-30 transition-colors mr-2"
+                    >
+                      <FileArchive size={11} /> Download .zip
+                    </button>
+                    {(['graph', 'model'] as const).map(source => (
+                      <button
+                        key={source}
+                        onClick={() => setCppSource(source)}
+                        disabled={source === 'model' && !generatedCpp}
+                        title={source === 'graph' ? 'Transpiled from the current graph; updates as you edit' : 'C++ as written by the model for the last generation'}
+                        className={`px-2 py-0.5 rounded text-[10px] transition-colors disabled:opacity-30 ${cppSource === source ? 'bg-[#37373d] text-white' : 'text-neutral-400 hover:text-white'}`}
+                      >
+                        {source === 'graph' ? 'From Graph (live)' : 'Model Output'}
+                      </button>
+                    ))}
+                </div>
             </div>
             <div className="p-4 bg-[#1e1e1e] overflow-auto custom-scrollbar flex-1 relative">
-                {displayedCpp ? (
+                {code ? (
                     <pre 
                       className="font-mono text-[12px] leading-5 whitespace-pre-wrap"
-                      dangerouslySetInnerHTML={{ __html: highlightCpp(displayedCpp) + '<span class="animate-pulse inline-block w-2 h-4 bg-white/50 align-middle ml-0.5"></span>' }}
+                      style={{ tabSize: 4 }}
+                      dangerouslySetInnerHTML={{ __html: highlightCpp(code) + (showModel ? '<span class="animate-pulse inline-block w-2 h-4 bg-white/50 align-middle ml-0.5"></span>' : '') }}
                     />
                 ) : (
                     <div className="opacity-50">
@@ -459,7 +1369,8 @@ function App() {
             </div>
         </div>
     </div>
-  );
+    );
+  };
 
   return (
     <ReactFlowProvider>
@@ -478,7 +1389,7 @@ function App() {
                       <XCircle size={16} />
                    </button>
                 </div>
-                <div className="p-6 flex flex-col gap-4">
+                <div className="p-6 flex flex-col gap-4 max-h-[80vh] overflow-y-auto custom-scrollbar">
                    {/* GEMINI KEY */}
                    <div className="flex flex-col gap-2">
                       <label className="text-xs font-semibold text-gray-400 uppercase flex items-center gap-1">
@@ -521,7 +1432,129 @@ function App() {
                            className="w-full bg-[#0a0a0a] border border-neutral-700 rounded py-2 pl-9 pr-3 text-xs text-white focus:outline-none focus:border-green-500 placeholder-neutral-600"
                          />
                       </div>
-                      <p className="text-[10px] text-neutral-500">Support for OpenAI coming soon.</p>
+                      <p className="text-[10px] text-neutral-500">Not needed for local OpenAI-compatible servers.</p>
+                   </div>
+                   <hr className="border-neutral-800" />
+                   {/* PROVIDER */}
+                   <div className="flex flex-col gap-2">
+                      <label className="text-xs font-semibold text-gray-400 uppercase flex items-center gap-1">
+                        <Cpu size={12} className="text-blue-400" /> Provider
+                      </label>
+                      <select
+                        value={providerSettings.active}
+                        onChange={(e) => setProviderSettings(prev => ({ ...prev, active: e.target.value as ProviderId }))}
+                        className="w-full bg-[#0a0a0a] border border-neutral-700 rounded py-2 px-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                      >
+                        {(Object.keys(PROVIDERS) as ProviderId[]).map(id => (
+                          <option key={id} value={id}>{PROVIDERS[id].label}</option>
+                        ))}
+                      </select>
+                      <div className="grid grid-cols-[1fr_80px] gap-2">
+                        <input
+                          type="text"
+                          value={providerSettings.providers[providerSettings.active].model}
+                          onChange={(e) => updateProviderConfig(providerSettings.active, { model: e.target.value })}
+                          placeholder="Model name"
+                          className="w-full bg-[#0a0a0a] border border-neutral-700 rounded py-2 px-2 text-xs text-white focus:outline-none focus:border-blue-500 placeholder-neutral-600"
+                        />
+                        <input
+                          type="number"
+                          min={0}
+                          max={2}
+                          step={0.05}
+                          value={providerSettings.providers[providerSettings.active].temperature}
+                          onChange={(e) => updateProviderConfig(providerSettings.active, { temperature: parseFloat(e.target.value) || 0 })}
+                          title="Temperature"
+                          className="w-full bg-[#0a0a0a] border border-neutral-700 rounded py-2 px-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                      </div>
+                      {providerSettings.active !== 'mock' && (
+                        <input
+                          type="text"
+                          value={providerSettings.providers[providerSettings.active].endpoint || ''}
+                          onChange={(e) => updateProviderConfig(providerSettings.active, { endpoint: e.target.value || undefined })}
+                          placeholder={providerSettings.active === 'openai' ? 'http://localhost:1234/v1' : 'Default endpoint'}
+                          className="w-full bg-[#0a0a0a] border border-neutral-700 rounded py-2 px-2 text-xs text-white focus:outline-none focus:border-blue-500 placeholder-neutral-600"
+                        />
+                      )}
+                      <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                        Request timeout (seconds)
+                        <input
+                          type="number"
+                          min={5}
+                          value={providerSettings.timeoutSeconds}
+                          onChange={(e) => setProviderSettings(prev => ({ ...prev, timeoutSeconds: Math.max(5, parseInt(e.target.value, 10) || 5) }))}
+                          className="w-16 bg-[#0a0a0a] border border-neutral-700 rounded py-1 px-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                      </label>
+                      <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                        Retries on 429 / 5xx / network errors
+                        <input
+                          type="number"
+                          min={0}
+                          max={8}
+                          value={providerSettings.maxRetries}
+                          onChange={(e) => setProviderSettings(prev => ({ ...prev, maxRetries: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                          className="w-16 bg-[#0a0a0a] border border-neutral-700 rounded py-1 px-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                      </label>
+                      <label className="flex items-center justify-between gap-2 text-[11px] text-gray-400">
+                        Self-repair attempts
+                        <input
+                          type="number"
+                          min={0}
+                          max={5}
+                          value={providerSettings.maxRepairAttempts}
+                          onChange={(e) => setProviderSettings(prev => ({ ...prev, maxRepairAttempts: Math.max(0, parseInt(e.target.value, 10) || 0) }))}
+                          className="w-16 bg-[#0a0a0a] border border-neutral-700 rounded py-1 px-2 text-xs text-white focus:outline-none focus:border-blue-500"
+                        />
+                      </label>
+                      {providerSettings.active !== 'mock' && (
+                        <label className="flex items-center gap-2 text-[11px] text-gray-400 cursor-pointer">
+                          <input
+                            type="checkbox"
+                            checked={!!providerSettings.providers[providerSettings.active].structuredOutput}
+                            onChange={(e) => updateProviderConfig(providerSettings.active, { structuredOutput: e.target.checked })}
+                          />
+                          Structured output (enforce JSON schema provider-side)
+                        </label>
+                      )}
+                      <p className="text-[10px] text-neutral-500">
+                        {providerSettings.active === 'mock'
+                          ? 'Returns a deterministic graph without any network access.'
+                          : 'Model, temperature and endpoint are stored per provider.'}
+                      </p>
+                   </div>
+
+                   <hr className="border-neutral-800" />
+                   {/* NODE DEFINITIONS */}
+                   <div className="flex flex-col gap-2">
+                      <label className="text-xs font-semibold text-gray-400 uppercase flex items-center gap-1">
+                        <Box size={12} className="text-purple-400" /> Node Definitions
+                      </label>
+                      {nodePacks.map(pack => (
+                        <div key={pack.name} className="flex items-center gap-2 bg-[#0a0a0a] border border-neutral-800 rounded px-2 py-1 text-[11px] text-gray-300">
+                          <span className="truncate">{pack.name}</span>
+                          <span className="text-neutral-500">{pack.nodes.length} nodes</span>
+                          <button onClick={() => handleRemoveNodePack(pack.name)} title="Remove" className="ml-auto text-neutral-500 hover:text-red-400">
+                            <XCircle size={12} />
+                          </button>
+                        </div>
+                      ))}
+                      <button
+                        onClick={() => nodePackInput.current?.click()}
+                        className="self-start text-[11px] text-blue-400 hover:text-blue-300"
+                      >
+                        Load JSON pack...
+                      </button>
+                      <input
+                        ref={nodePackInput}
+                        type="file"
+                        accept=".json,application/json"
+                        className="hidden"
+                        onChange={handleLoadNodePack}
+                      />
+                      <p className="text-[10px] text-neutral-500">Extra or overriding node definitions used by the palette, generation clean-up and compile checks.</p>
                    </div>
 
                    <button 
@@ -535,6 +1568,47 @@ function App() {
           </div>
         )}
 
+        {/* IMPORT FROM UNREAL MODAL */}
+        {showImport && (
+          <div className="absolute inset-0 z-[100] bg-black/70 backdrop-blur-sm flex items-center justify-center">
+             <div className="bg-[#1a1a1a] w-[560px] border border-neutral-700 rounded-lg shadow-2xl overflow-hidden">
+                <div className="bg-[#222] px-4 py-3 border-b border-black flex justify-between items-center">
+                   <div className="flex items-center gap-2">
+                      <ClipboardPaste size={16} className="text-gray-300" />
+                      <span className="text-sm font-semibold text-gray-200">Import from Unreal</span>
+                   </div>
+                   <button onClick={() => setShowImport(false)} className="text-gray-500 hover:text-white">
+                      <XCircle size={16} />
+                   </button>
+                </div>
+                <div className="p-6 flex flex-col gap-4">
+                   <p className="text-[11px] text-neutral-400">
+                      Select nodes in a Blueprint graph, press Ctrl+C and paste the text below. You can also press Ctrl+V directly on the canvas.
+                   </p>
+                   <textarea
+                     value={importText}
+                     onChange={(e) => setImportText(e.target.value)}
+                     placeholder="Begin Object Class=/Script/BlueprintGraph.K2Node_Event Name=..."
+                     spellCheck={false}
+                     className="w-full h-64 bg-[#0a0a0a] border border-neutral-700 rounded p-2 font-mono text-[11px] text-gray-300 focus:outline-none focus:border-blue-500 placeholder-neutral-600 resize-none custom-scrollbar"
+                   />
+                   <button 
+                      onClick={() => {
+                        if (handleImportT3D(importText)) {
+                          setImportText('');
+                          setShowImport(false);
+                        }
+                      }}
+                      disabled={!importText.trim()}
+                      className="bg-blue-600 hover:bg-blue-500 disabled:opacity-40 text-white rounded py-2 text-xs font-semibold uppercase tracking-wide transition-colors"
+                   >
+                      Import Nodes
+                   </button>
+                </div>
+             </div>
+          </div>
+        )}
+
         {/* TOP TOOLBAR */}
         <div className="h-12 bg-[#1a1a1a] border-b border-black flex items-center px-4 justify-between select-none z-50">
           <div className="flex items-center gap-4">
@@ -548,10 +1622,21 @@ function App() {
              <div className="h-6 w-[1px] bg-neutral-700 mx-2"></div>
 
              <div className="flex items-center gap-1">
-                <button className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300">
+                <button onClick={handleSaveProject} className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300">
                    <Save size={14} />
                    <span>Save</span>
                 </button>
+                <button onClick={() => projectFileInput.current?.click()} className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300">
+                   <FolderOpen size={14} />
+                   <span>Open</span>
+                </button>
+                <input
+                   ref={projectFileInput}
+                   type="file"
+                   accept=".json,application/json"
+                   className="hidden"
+                   onChange={handleOpenProject}
+                />
                 <button className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300">
                    <Search size={14} />
                    <span>Find</span>
@@ -581,6 +1666,42 @@ function App() {
                 <LayoutTemplate size={14} />
                 <span>Re-Layout</span>
              </button>
+
+             <button 
+                onClick={handleCopyForUnreal}
+                title="Copy nodes in Unreal Editor clipboard format"
+                className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300"
+             >
+                <ClipboardCopy size={14} />
+                <span>Copy for Unreal</span>
+             </button>
+
+             <button 
+                onClick={() => setShowImport(true)}
+                title="Paste nodes copied from the Unreal Editor"
+                className="flex items-center gap-2 px-3 py-1.5 rounded hover:bg-neutral-700 transition-colors text-xs font-medium text-gray-300"
+             >
+                <ClipboardPaste size={14} />
+                <span>Import from Unreal</span>
+             </button>
+
+             <button 
+                onClick={() => setShowHistory(!showHistory)}
+                className={`flex items-center gap-2 px-3 py-1.5 rounded transition-colors text-xs font-medium ${showHistory ? 'bg-neutral-700 text-white' : 'text-gray-300 hover:bg-neutral-700'}`}
+             >
+                <History size={14} />
+                <span>History</span>
+                {snapshots.length > 0 && <span className="bg-neutral-600 text-gray-200 text-[10px] px-1.5 rounded-full">{snapshots.length}</span>}
+             </button>
+
+             <button 
+                onClick={() => setShowDebugger(!showDebugger)}
+                title="Run the graph in the browser with breakpoints"
+                className={`flex items-center gap-2 px-3 py-1.5 rounded transition-colors text-xs font-medium ${showDebugger ? 'bg-neutral-700 text-white' : 'text-gray-300 hover:bg-neutral-700'}`}
+             >
+                <Bug size={14} />
+                <span>Debug</span>
+             </button>
           </div>
           
           <div className="flex items-center gap-6">
@@ -609,51 +1730,30 @@ function App() {
             
             <div className="flex-1 overflow-y-auto custom-scrollbar">
               {/* Variables */}
-              <div className="mb-1">
-                 <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
-                    <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
-                       <span className="text-neutral-500 text-[10px]">▼</span> Variables
-                    </span>
-                    <button onClick={handleAddVariable} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
-                       <Plus size={12} />
-                    </button>
-                 </div>
-                 <div className="flex flex-col">
-                    {variables.map(v => (
-                       <div key={v.id} className="flex items-center gap-2 px-6 py-1 hover:bg-[#0070e0] hover:text-white cursor-pointer group text-gray-400 text-xs">
-                          <div className={`w-2 h-1 rounded-full 
-                             ${v.type === PinType.Boolean ? 'bg-red-500' : ''}
-                             ${v.type === PinType.Integer ? 'bg-emerald-400' : ''}
-                             ${v.type === PinType.Float ? 'bg-green-400' : ''}
-                             ${v.type === PinType.String ? 'bg-pink-500' : ''}
-                          `}></div>
-                          <span>{v.name}</span>
-                       </div>
-                    ))}
-                    {variables.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No variables</div>}
-                 </div>
-              </div>
+              <VariablesPanel variables={variables} structs={structs} enums={enums} onAdd={handleAddVariable} onUpdate={handleUpdateVariable} />
 
               {/* Functions */}
-              <div className="mt-1">
-                 <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
-                    <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
-                       <span className="text-neutral-500 text-[10px]">▼</span> Functions
-                    </span>
-                    <button onClick={handleAddFunction} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
-                       <Plus size={12} />
-                    </button>
-                 </div>
-                 <div className="flex flex-col">
-                    {functions.map(f => (
-                       <div key={f.id} className="flex items-center gap-2 px-6 py-1 hover:bg-[#0070e0] hover:text-white cursor-pointer group text-gray-400 text-xs">
-                          <div className="text-blue-400 font-serif italic text-[10px]">f</div>
-                          <span>{f.name}</span>
-                       </div>
-                    ))}
-                    {functions.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No functions</div>}
-                 </div>
-              </div>
+              <FunctionsPanel
+                functions={functions}
+                activeId={graphId}
+                onAdd={handleAddFunction}
+                onUpdate={handleUpdateFunction}
+                onOpen={handleOpenGraph}
+              />
+
+              {/* User-defined types */}
+              <StructsPanel structs={structs} enums={enums} onAdd={handleAddStruct} onUpdate={handleUpdateStruct} />
+              <EnumsPanel enums={enums} onAdd={handleAddEnum} onUpdate={handleUpdateEnum} />
+
+              {/* Inter-actor communication */}
+              <DispatchersPanel dispatchers={dispatchers} onAdd={handleAddDispatcher} onUpdate={handleUpdateDispatcher} />
+              <InterfacesPanel
+                interfaces={interfaces}
+                implemented={implementedInterfaces}
+                onAdd={handleAddInterface}
+                onUpdate={handleUpdateInterface}
+                onToggleImplemented={handleToggleInterface}
+              />
             </div>
 
             {/* Prompt */}
@@ -663,12 +1763,22 @@ function App() {
                    <Zap size={12} className="text-yellow-500" />
                    AI Assistant
                  </label>
-                 <div 
-                   className="flex items-center gap-1 cursor-pointer" 
-                   onClick={() => setVerboseMode(!verboseMode)}
-                 >
-                   <span className={`text-[10px] ${verboseMode ? 'text-blue-400' : 'text-gray-600'}`}>Verbose</span>
-                   {verboseMode ? <ToggleRight size={16} className="text-blue-500" /> : <ToggleLeft size={16} className="text-gray-600" />}
+                 <div className="flex items-center gap-3">
+                   <div 
+                     className="flex items-center gap-1 cursor-pointer" 
+                     onClick={() => setRefineMode(!refineMode)}
+                     title="Send the current graph as context and apply the model's changes as a delta"
+                   >
+                     <span className={`text-[10px] ${refineMode ? 'text-blue-400' : 'text-gray-600'}`}>Refine</span>
+                     {refineMode ? <ToggleRight size={16} className="text-blue-500" /> : <ToggleLeft size={16} className="text-gray-600" />}
+                   </div>
+                   <div 
+                     className="flex items-center gap-1 cursor-pointer" 
+                     onClick={() => setVerboseMode(!verboseMode)}
+                   >
+                     <span className={`text-[10px] ${verboseMode ? 'text-blue-400' : 'text-gray-600'}`}>Verbose</span>
+                     {verboseMode ? <ToggleRight size={16} className="text-blue-500" /> : <ToggleLeft size={16} className="text-gray-600" />}
+                   </div>
                  </div>
                </div>
                <form onSubmit={handleGenerate} className="flex flex-col gap-2">
@@ -676,7 +1786,7 @@ function App() {
                    ref={textareaRef}
                    value={prompt}
                    onChange={(e) => setPrompt(e.target.value)}
-                   placeholder="e.g. When the player steps on the trigger..."
+                   placeholder={refineMode && nodes.length > 0 ? "e.g. Now add a 2 second cooldown..." : "e.g. When the player steps on the trigger..."}
                    className="w-full bg-[#0a0a0a] border border-neutral-700 rounded p-2 text-xs text-gray-300 focus:outline-none focus:border-blue-500 resize-none overflow-hidden min-h-[60px]"
                    rows={3}
                    disabled={loading}
@@ -687,8 +1797,18 @@ function App() {
                    className="w-full bg-blue-700 hover:bg-blue-600 disabled:opacity-50 disabled:cursor-not-allowed text-white rounded py-1 text-xs font-semibold uppercase tracking-wide transition-colors flex items-center justify-center gap-2 h-8"
                  >
                    {loading && !verboseMode ? <Loader2 size={12} className="animate-spin" /> : <Zap size={12} fill="white" />}
-                   {loading ? (verboseMode ? 'Generating...' : 'Thinking...') : 'Generate Logic'}
+                   {loading ? (verboseMode ? 'Generating...' : 'Thinking...') : (refineMode && nodes.length > 0 ? 'Refine Logic' : 'Generate Logic')}
                  </button>
+                 {loading && (
+                   <button
+                     type="button"
+                     onClick={handleCancelGeneration}
+                     className="w-full bg-neutral-700 hover:bg-red-700 text-white rounded py-1 text-xs font-semibold uppercase tracking-wide transition-colors flex items-center justify-center gap-2 h-7"
+                   >
+                     <XCircle size={12} />
+                     Cancel
+                   </button>
+                 )}
                </form>
                {error && (
                  <div className="mt-2 p-2 bg-red-900/20 border border-red-900/50 rounded flex items-start gap-2">
@@ -738,19 +1858,7 @@ function App() {
             {/* CANVAS VIEW */}
             {viewMode === 'blueprint' && (
                 <div className="w-full h-full relative">
-                    <BlueprintCanvas 
-                        nodes={nodes} 
-                        edges={edges} 
-                        onNodesChange={onNodesChange} 
-                        onEdgesChange={onEdgesChange} 
-                        onConnect={onConnect}
-                        onReconnect={onReconnect}
-                        onReconnectStart={onReconnectStart}
-                        onReconnectEnd={onReconnectEnd}
-                        onEdgeClick={onEdgeClick}
-                        onNodeClick={(e, node) => setSelectedNodeId(node.id)}
-                        onPaneClick={() => setSelectedNodeId(null)}
-                    />
+                    {renderGraphCanvas()}
                     {/* BLUEPRINT Watermark */}
                     <div className="absolute bottom-12 right-12 pointer-events-none select-none opacity-[0.03]">
                        <span className="text-[120px] font-black text-white tracking-tighter">BLUEPRINT</span>
@@ -763,19 +1871,7 @@ function App() {
             {viewMode === 'split' && (
                 <div className="w-full h-full flex">
                    <div className="w-1/2 h-full border-r border-black relative">
-                      <BlueprintCanvas 
-                        nodes={nodes} 
-                        edges={edges} 
-                        onNodesChange={onNodesChange} 
-                        onEdgesChange={onEdgesChange} 
-                        onConnect={onConnect}
-                        onReconnect={onReconnect}
-                        onReconnectStart={onReconnectStart}
-                        onReconnectEnd={onReconnectEnd}
-                        onEdgeClick={onEdgeClick}
-                        onNodeClick={(e, node) => setSelectedNodeId(node.id)}
-                        onPaneClick={() => setSelectedNodeId(null)}
-                      />
+                      {renderGraphCanvas()}
                    </div>
                    <div className="w-1/2 h-full">
                       {renderCppView()}
@@ -785,57 +1881,67 @@ function App() {
 
           </div>
 
+          {/* RIGHT SIDEBAR: HISTORY */}
+          {showHistory && (
+            <HistoryPanel
+              snapshots={snapshots}
+              activeId={activeSnapshotId}
+              onRestore={handleRestoreSnapshot}
+              onCheckpoint={handleCheckpoint}
+              onCompare={(beforeId, afterId) => setComparePair([beforeId, afterId])}
+              onClose={() => setShowHistory(false)}
+            />
+          )}
+
+          {/* RIGHT SIDEBAR: DEBUGGER */}
+          {showDebugger && (
+            <DebuggerPanel
+              nodes={nodes as Node<BlueprintNodeData>[]}
+              edges={edges}
+              variables={variables}
+              onHighlight={setDebugHighlight}
+              onLog={addLog}
+              onToggleBreakpoint={handleToggleBreakpoint}
+              onClose={() => setShowDebugger(false)}
+            />
+          )}
+
+          {comparePair && (
+            <HistoryDiffView
+              before={snapshots.find(s => s.id === comparePair[0])!}
+              after={snapshots.find(s => s.id === comparePair[1])!}
+              onClose={() => setComparePair(null)}
+            />
+          )}
+
         </div>
 
         {/* OUTPUT LOG PANEL */}
         {showOutputLog && (
-          <div className="h-48 bg-[#111] border-t border-black flex flex-col z-30 transition-all">
-             <div className="h-7 bg-[#1a1a1a] border-b border-black flex items-center px-4 justify-between cursor-pointer" onClick={() => setShowOutputLog(!showOutputLog)}>
-                <div className="flex items-center gap-2">
-                   <Terminal size={12} className="text-gray-400" />
-                   <span className="text-xs font-semibold text-gray-300">Output Log</span>
-                   {logs.length > 0 && <span className="bg-neutral-700 text-gray-300 text-[10px] px-1.5 rounded-full">{logs.length}</span>}
-                </div>
-                <span className="text-[10px] text-neutral-500">▼</span>
-             </div>
-             
-             <div className="flex-1 overflow-y-auto custom-scrollbar p-2 font-mono text-[11px] flex flex-col gap-1">
-                {logs.length === 0 && (
-                   <div className="text-neutral-600 italic p-2">No logs available. Generate logic or compile to see output.</div>
-                )}
-                
-                {/* Blueprint Summary */}
-                {blueprintSummary && (
-                   <div className="mb-2 p-2 bg-blue-900/10 border-l-2 border-blue-500 text-blue-200/80">
-                      <div className="font-bold text-blue-400 mb-1">Blueprint Summary:</div>
-                      <div className="whitespace-pre-line leading-relaxed">{blueprintSummary}</div>
-                      {blueprintSources.length > 0 && (
-                        <div className="mt-2 pt-2 border-t border-blue-800/30">
-                           <div className="text-[10px] text-blue-400 font-semibold mb-1">Sources:</div>
-                           {blueprintSources.map((s, i) => (
-                              <a key={i} href={s.url} target="_blank" rel="noreferrer" className="block text-blue-300 hover:underline truncate">
-                                 {i+1}. {s.title}
-                              </a>
-                           ))}
-                        </div>
-                      )}
-                   </div>
-                )}
-
-                {logs.map(log => (
-                   <div key={log.id} className={`flex items-start gap-2 px-1 py-0.5 hover:bg-white/5 rounded
-                      ${log.type === 'error' ? 'text-red-400' : ''}
-                      ${log.type === 'success' ? 'text-green-400' : ''}
-                      ${log.type === 'warning' ? 'text-yellow-400' : ''}
-                      ${log.type === 'verbose' ? 'text-neutral-500' : 'text-gray-300'}
-                   `}>
-                      <span className="text-neutral-600 select-none">[{log.timestamp}]</span>
-                      <span className="break-all">{log.message}</span>
-                   </div>
-                ))}
-                <div ref={logEndRef} />
-             </div>
-          </div>
+          <OutputLog
+            logs={logs}
+            nodes={nodes as Node<BlueprintNodeData>[]}
+            onNavigate={handleNavigateLog}
+            onCollapse={() => setShowOutputLog(false)}
+          >
+            {/* Blueprint Summary */}
+            {blueprintSummary && (
+               <div className="mb-2 p-2 bg-blue-900/10 border-l-2 border-blue-500 text-blue-200/80">
+                  <div className="font-bold text-blue-400 mb-1">Blueprint Summary:</div>
+                  <div className="whitespace-pre-line leading-relaxed">{blueprintSummary}</div>
+                  {blueprintSources.length > 0 && (
+                    <div className="mt-2 pt-2 border-t border-blue-800/30">
+                       <div className="text-[10px] text-blue-400 font-semibold mb-1">Sources:</div>
+                       {blueprintSources.map((s, i) => (
+                          <a key={i} href={s.url} target="_blank" rel="noreferrer" className="block text-blue-300 hover:underline truncate">
+                             {i+1}. {s.title}
+                          </a>
+                       ))}
+                    </div>
+                  )}
+               </div>
+            )}
+          </OutputLog>
         )}
 
       </div>
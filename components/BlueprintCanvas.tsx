@@ -1,4 +1,4 @@
-import React from 'react';
+import React, { useEffect, useMemo, useRef, useState } from 'react';
 import { 
   ReactFlow, 
   Background, 
@@ -10,12 +10,35 @@ import {
   OnEdgesChange,
   OnConnect,
   OnReconnect,
+  OnConnectEnd,
+  Connection,
   NodeMouseHandler,
   EdgeMouseHandler,
-  SelectionMode
+  SelectionMode,
+  IsValidConnection,
+  OnNodeDrag,
+  XYPosition,
+  useReactFlow
 } from '@xyflow/react';
-import CustomBlueprintNode from './CustomBlueprintNode';
-import { BPNode } from '../types';
+import CustomBlueprintNode, { BreakpointsContext, UserEnumsContext } from './CustomBlueprintNode';
+import CommentNode from './CommentNode';
+import RerouteNode from './RerouteNode';
+import ConnectionLine from './ConnectionLine';
+import NodePalette from './NodePalette';
+import { BPNode, BPEdge, BlueprintDispatcher, BlueprintEnum, BlueprintFunction, BlueprintInterface, BlueprintStruct, BlueprintVariable } from '../types';
+import { canCreateConnection, typeName } from '../utils/pinSchema';
+import { VARIABLE_DRAG_TYPE, VariableAccess } from '../utils/variableNodes';
+import { FUNCTION_DRAG_TYPE } from '../utils/functionGraphs';
+import { PaletteEntry, PinDragContext, buildNodeCatalog, findCompatiblePin } from '../utils/nodeCatalog';
+import { getNodeDefinitions } from '../utils/nodeRegistry';
+import { COMMENT_NODE_TYPE, createCommentAround, isCommentNode, nodesInsideComment } from '../utils/commentNodes';
+import { REROUTE_NODE_TYPE, createRerouteNode } from '../utils/rerouteNodes';
+
+// Nonce lets the same element be focused twice in a row
+export interface CanvasFocusRequest {
+  nodeIds: string[];
+  nonce: number;
+}
 
 interface BlueprintCanvasProps {
   nodes: Node[];
@@ -29,12 +52,56 @@ interface BlueprintCanvasProps {
   onEdgeClick?: EdgeMouseHandler;
   onNodeClick?: NodeMouseHandler;
   onPaneClick?: () => void;
+  readOnly?: boolean; // Used by the history diff view
+  focusRequest?: CanvasFocusRequest | null;
+  variables?: BlueprintVariable[];
+  onDropVariable?: (variableId: string, access: VariableAccess, position: { x: number; y: number }) => void;
+  onDropFunction?: (functionId: string, position: { x: number; y: number }) => void;
+  functions?: BlueprintFunction[];
+  structs?: BlueprintStruct[];
+  enums?: BlueprintEnum[];
+  dispatchers?: BlueprintDispatcher[];
+  interfaces?: BlueprintInterface[];
+  implementedInterfaces?: string[];
+  allowEvents?: boolean; // False in function graphs
+  allowBreakpoints?: boolean; // False in function graphs
+  onPlaceNode?: (node: BPNode, link?: Connection, companions?: { nodes: BPNode[]; edges: BPEdge[] }) => void;
+  onInsertReroute?: (edge: Edge, knot: BPNode) => void;
+}
+
+// Get/Set menu shown where a variable was dropped
+interface VariableDrop {
+  variable: BlueprintVariable;
+  menu: { x: number; y: number };
+  position: { x: number; y: number };
 }
 
+// Right-click palette, optionally opened by dragging a wire off a pin
+interface PaletteState {
+  menu: { x: number; y: number };
+  position: { x: number; y: number };
+  from?: PinDragContext;
+}
+
+const PALETTE_SIZE = { width: 288, height: 340 };
+// Nodes spawned from an input pin go to its left so the new wire doesn't double back
+const SPAWN_LEFT_OFFSET = 240;
+
 const nodeTypes = {
   customBlueprintNode: CustomBlueprintNode,
+  [COMMENT_NODE_TYPE]: CommentNode,
+  [REROUTE_NODE_TYPE]: RerouteNode
 };
 
+// Keeps comments behind every node, even while selected (selection raises z-index by 1000)
+const COMMENT_Z_INDEX = -1001;
+
+// Nodes carried along by the comments being dragged, with where each started
+interface CommentDrag {
+  origins: Map<string, XYPosition>;
+  members: Map<string, { commentId: string; start: XYPosition }>;
+}
+
 const BlueprintCanvas: React.FC<BlueprintCanvasProps> = ({ 
   nodes, 
   edges, 
@@ -46,63 +113,284 @@ const BlueprintCanvas: React.FC<BlueprintCanvasProps> = ({
   onReconnectEnd,
   onEdgeClick,
   onNodeClick,
-  onPaneClick
+  onPaneClick,
+  readOnly,
+  focusRequest,
+  variables = [],
+  onDropVariable,
+  onDropFunction,
+  functions = [],
+  structs = [],
+  enums = [],
+  dispatchers = [],
+  interfaces = [],
+  implementedInterfaces = [],
+  allowEvents = true,
+  allowBreakpoints = true,
+  onPlaceNode,
+  onInsertReroute
 }) => {
+  const { fitView, screenToFlowPosition } = useReactFlow();
+  const [variableDrop, setVariableDrop] = useState<VariableDrop | null>(null);
+  const [palette, setPalette] = useState<PaletteState | null>(null);
+  const wrapperRef = useRef<HTMLDivElement>(null);
+  const rightDown = useRef<{ x: number; y: number } | null>(null);
+  const reconnecting = useRef(false);
+  const commentDrag = useRef<CommentDrag | null>(null);
+
+  const flowNodes = useMemo(
+    () => (nodes as BPNode[]).map(n => (isCommentNode(n) ? { ...n, zIndex: COMMENT_Z_INDEX } : n)),
+    [nodes]
+  );
+
+  const definitions = getNodeDefinitions();
+  const catalog = useMemo(
+    () => buildNodeCatalog(definitions, { variables, functions, structs, enums, dispatchers, interfaces, implementedInterfaces }, { includeEvents: allowEvents }),
+    [definitions, variables, functions, structs, enums, dispatchers, interfaces, implementedInterfaces, allowEvents]
+  );
+  const paletteEntries = useMemo(() => {
+    const from = palette?.from;
+    return from ? catalog.filter(entry => findCompatiblePin(entry.preview, from.pin)) : catalog;
+  }, [catalog, palette?.from]);
+
+  const openPalette = (clientX: number, clientY: number, from?: PinDragContext) => {
+    const bounds = wrapperRef.current?.getBoundingClientRect();
+    if (readOnly || !onPlaceNode || !bounds) return;
+    setVariableDrop(null);
+    setPalette({
+      from,
+      position: screenToFlowPosition({ x: clientX, y: clientY }),
+      menu: {
+        x: Math.max(0, Math.min(clientX - bounds.left, bounds.width - PALETTE_SIZE.width)),
+        y: Math.max(0, Math.min(clientY - bounds.top, bounds.height - PALETTE_SIZE.height))
+      }
+    });
+  };
+
+  const onPaneContextMenu = (e: MouseEvent | React.MouseEvent) => {
+    e.preventDefault();
+    // Right-drag pans; only a right-click without movement opens the palette
+    const down = rightDown.current;
+    if (down && Math.hypot(e.clientX - down.x, e.clientY - down.y) > 4) return;
+    openPalette(e.clientX, e.clientY);
+  };
+
+  // Releasing a wire over empty space opens the palette filtered to that pin
+  const onConnectEnd: OnConnectEnd = (event, state) => {
+    if (reconnecting.current || state.isValid || state.toHandle || !state.fromNode || !state.fromHandle) return;
+    const node = (nodes as BPNode[]).find(n => n.id === state.fromNode!.id);
+    const pins = state.fromHandle.type === 'source' ? node?.data.outputs : node?.data.inputs;
+    const pin = pins?.find(p => p.id === state.fromHandle!.id);
+    if (!node || !pin) return;
+    const point = 'changedTouches' in event ? event.changedTouches[0] : event;
+    openPalette(point.clientX, point.clientY, { nodeId: node.id, pin });
+  };
+
+  const choosePaletteEntry = (entry: PaletteEntry) => {
+    if (!palette) return;
+    const { position, from } = palette;
+    setPalette(null);
+    const node = entry.create(from && !from.pin.isOutput ? { x: position.x - SPAWN_LEFT_OFFSET, y: position.y } : position);
+    const companions = entry.companions?.(node);
+    const pin = from && findCompatiblePin(node, from.pin);
+    if (!from || !pin) return onPlaceNode?.(node, undefined, companions);
+    onPlaceNode?.(node, from.pin.isOutput
+      ? { source: from.nodeId, sourceHandle: from.pin.id, target: node.id, targetHandle: pin.id }
+      : { source: node.id, sourceHandle: pin.id, target: from.nodeId, targetHandle: from.pin.id }, companions);
+  };
+
+  const onDragOver = (e: React.DragEvent) => {
+    const accepts = (onDropVariable && e.dataTransfer.types.includes(VARIABLE_DRAG_TYPE))
+      || (onDropFunction && e.dataTransfer.types.includes(FUNCTION_DRAG_TYPE));
+    if (readOnly || !accepts) return;
+    e.preventDefault();
+    e.dataTransfer.dropEffect = 'copy';
+  };
+
+  // Like the editor: Ctrl-drop places a Get, Alt-drop a Set, otherwise ask.
+  // Functions always drop as a call node.
+  const onDrop = (e: React.DragEvent) => {
+    const functionId = e.dataTransfer.getData(FUNCTION_DRAG_TYPE);
+    if (!readOnly && onDropFunction && functionId) {
+      e.preventDefault();
+      return onDropFunction(functionId, screenToFlowPosition({ x: e.clientX, y: e.clientY }));
+    }
+    const variable = variables.find(v => v.id === e.dataTransfer.getData(VARIABLE_DRAG_TYPE));
+    if (readOnly || !onDropVariable || !variable) return;
+    e.preventDefault();
+    const position = screenToFlowPosition({ x: e.clientX, y: e.clientY });
+    if (e.ctrlKey || e.metaKey) return onDropVariable(variable.id, 'get', position);
+    if (e.altKey) return onDropVariable(variable.id, 'set', position);
+    const bounds = e.currentTarget.getBoundingClientRect();
+    setVariableDrop({ variable, position, menu: { x: e.clientX - bounds.left, y: e.clientY - bounds.top } });
+  };
+
+  const chooseAccess = (access: VariableAccess) => {
+    if (variableDrop) onDropVariable?.(variableDrop.variable.id, access, variableDrop.position);
+    setVariableDrop(null);
+  };
+
+  // Dragging a comment moves the nodes inside it, unless they are being dragged already
+  const onNodeDragStart: OnNodeDrag<BPNode> = (_, __, dragged) => {
+    const moving = new Set(dragged.map(n => n.id));
+    const drag: CommentDrag = { origins: new Map(), members: new Map() };
+    dragged.filter(isCommentNode).forEach(comment => {
+      drag.origins.set(comment.id, comment.position);
+      nodesInsideComment(comment, nodes as BPNode[]).forEach(n => {
+        if (!moving.has(n.id) && !drag.members.has(n.id)) drag.members.set(n.id, { commentId: comment.id, start: n.position });
+      });
+    });
+    commentDrag.current = drag.members.size > 0 ? drag : null;
+  };
+
+  const onNodeDrag: OnNodeDrag<BPNode> = (_, __, dragged) => {
+    const drag = commentDrag.current;
+    if (!drag) return;
+    const positions = new Map(dragged.map(n => [n.id, n.position]));
+    onNodesChange(Array.from(drag.members, ([id, { commentId, start }]) => {
+      const from = drag.origins.get(commentId)!;
+      const to = positions.get(commentId) ?? from;
+      return { type: 'position' as const, id, position: { x: start.x + to.x - from.x, y: start.y + to.y - from.y } };
+    }));
+  };
+
+  // Double-clicking a wire drops a reroute node on it
+  const onEdgeDoubleClick: EdgeMouseHandler = (event, edge) => {
+    if (readOnly || !onInsertReroute) return;
+    const pin = (nodes as BPNode[]).find(n => n.id === edge.source)?.data.outputs.find(p => p.id === edge.sourceHandle);
+    if (!pin) return;
+    const point = screenToFlowPosition({ x: event.clientX, y: event.clientY });
+    onInsertReroute(edge, createRerouteNode(pin, { x: point.x - 6, y: point.y - 6 }));
+  };
+
+  // C frames the selected nodes in a new comment, as in the editor
+  useEffect(() => {
+    if (readOnly || !onPlaceNode) return;
+    const onKeyDown = (e: KeyboardEvent) => {
+      if (e.key.toLowerCase() !== 'c' || e.ctrlKey || e.metaKey || e.altKey) return;
+      if ((e.target as HTMLElement | null)?.closest('input, textarea, select, [contenteditable="true"]')) return;
+      const selected = (nodes as BPNode[]).filter(n => n.selected);
+      if (selected.length === 0) return;
+      e.preventDefault();
+      onPlaceNode(createCommentAround('Comment', selected));
+    };
+    window.addEventListener('keydown', onKeyDown);
+    return () => window.removeEventListener('keydown', onKeyDown);
+  }, [nodes, readOnly, onPlaceNode]);
+
+  const isValidConnection: IsValidConnection = (connection) => {
+    const source = (nodes as BPNode[]).find(n => n.id === connection.source);
+    const target = (nodes as BPNode[]).find(n => n.id === connection.target);
+    return canCreateConnection(source, connection.sourceHandle, target, connection.targetHandle).kind !== 'disallow';
+  };
+
+  useEffect(() => {
+    if (!focusRequest || focusRequest.nodeIds.length === 0) return;
+    fitView({ nodes: focusRequest.nodeIds.map(id => ({ id })), duration: 500, padding: 0.8, maxZoom: 1.25 });
+  }, [focusRequest]);
 
   return (
     <div 
-      className="w-full h-full bg-[#1A1A1A]" 
+      ref={wrapperRef}
+      className="w-full h-full bg-[#1A1A1A] relative" 
       onContextMenu={(e) => e.preventDefault()} // Prevent browser context menu
+      onPointerDownCapture={(e) => { if (e.button === 2) rightDown.current = { x: e.clientX, y: e.clientY }; }}
+      onDragOver={onDragOver}
+      onDrop={onDrop}
     >
-      <ReactFlow<BPNode>
-        nodes={nodes as BPNode[]}
-        edges={edges}
-        onNodesChange={onNodesChange}
-        onEdgesChange={onEdgesChange}
-        onConnect={onConnect}
-        onReconnect={onReconnect}
-        onReconnectStart={onReconnectStart}
-        onReconnectEnd={onReconnectEnd}
-        onEdgeClick={onEdgeClick}
-        onNodeClick={onNodeClick}
-        onPaneClick={onPaneClick}
-        nodeTypes={nodeTypes}
-        fitView
-        minZoom={0.1}
-        maxZoom={2}
-        snapToGrid={true}
-        snapGrid={[16, 16]}
-        proOptions={{ hideAttribution: true }} 
-        
-        /* UE5 Mouse Behavior */
-        panOnDrag={[2]}        
-        selectionOnDrag={true} 
-        panOnScroll={false}    
-        zoomOnScroll={true}    
-        selectionMode={SelectionMode.Partial}
-
-        defaultEdgeOptions={{
-            type: 'default', 
-            animated: false,
-            style: { stroke: '#fff', strokeWidth: 2.5 },
-        }}
-        connectionLineType={ConnectionLineType.Bezier}
-        connectionLineStyle={{ stroke: '#fff', strokeWidth: 2 }}
-      >
-        <Background 
-            variant={BackgroundVariant.Lines} 
-            color="#262626" 
-            gap={16} 
-            size={1} 
-        />
-        <Background 
-            variant={BackgroundVariant.Lines} 
-            color="#000" 
-            gap={128} 
-            size={2} 
-            className="opacity-40"
+      <BreakpointsContext.Provider value={allowBreakpoints}>
+        <UserEnumsContext.Provider value={enums}>
+          <ReactFlow<BPNode>
+            nodes={flowNodes}
+            edges={edges}
+            onNodesChange={onNodesChange}
+            onEdgesChange={onEdgesChange}
+            onConnect={onConnect}
+            onConnectEnd={onConnectEnd}
+            isValidConnection={isValidConnection}
+            onReconnect={onReconnect}
+            onReconnectStart={() => { reconnecting.current = true; onReconnectStart?.(); }}
+            onReconnectEnd={(event, edge) => { reconnecting.current = false; onReconnectEnd?.(event, edge); }}
+            onEdgeClick={onEdgeClick}
+            onEdgeDoubleClick={onEdgeDoubleClick}
+            onNodeClick={onNodeClick}
+            onNodeDragStart={onNodeDragStart}
+            onNodeDrag={onNodeDrag}
+            onNodeDragStop={() => { commentDrag.current = null; }}
+            onPaneClick={() => { setVariableDrop(null); setPalette(null); onPaneClick?.(); }}
+            onPaneContextMenu={onPaneContextMenu}
+            onMove={(event) => { if (event) setPalette(null); }}
+            nodeTypes={nodeTypes}
+            nodesDraggable={!readOnly}
+            zoomOnDoubleClick={false}
+            nodesConnectable={!readOnly}
+            edgesReconnectable={!readOnly}
+            fitView
+            minZoom={0.1}
+            maxZoom={2}
+            snapToGrid={true}
+            snapGrid={[16, 16]}
+            proOptions={{ hideAttribution: true }} 
+          
+            /* UE5 Mouse Behavior */
+            panOnDrag={[2]}        
+            selectionOnDrag={true} 
+            panOnScroll={false}    
+            zoomOnScroll={true}    
+            selectionMode={SelectionMode.Partial}
+
+            defaultEdgeOptions={{
+                type: 'default', 
+                animated: false,
+                style: { stroke: '#fff', strokeWidth: 2.5 },
+            }}
+            connectionLineType={ConnectionLineType.Bezier}
+            connectionLineComponent={ConnectionLine}
+            connectionLineStyle={{ stroke: '#fff', strokeWidth: 2 }}
+          >
+            <Background 
+                variant={BackgroundVariant.Lines} 
+                color="#262626" 
+                gap={16} 
+                size={1} 
+            />
+            <Background 
+                variant={BackgroundVariant.Lines} 
+                color="#000" 
+                gap={128} 
+                size={2} 
+                className="opacity-40"
+            />
+          </ReactFlow>
+        </UserEnumsContext.Provider>
+      </BreakpointsContext.Provider>
+      {palette && (
+        <NodePalette
+          entries={paletteEntries}
+          title={palette.from
+            ? `Actions ${palette.from.pin.isOutput ? 'taking' : 'returning'} ${typeName(palette.from.pin.type)} "${palette.from.pin.name}"`
+            : 'All Actions for this Blueprint'}
+          position={palette.menu}
+          onChoose={choosePaletteEntry}
+          onClose={() => setPalette(null)}
         />
-      </ReactFlow>
+      )}
+      {variableDrop && (
+        <div
+          className="absolute z-30 min-w-[140px] bg-[#1a1a1a] border border-neutral-700 rounded shadow-2xl py-1 text-xs text-gray-300"
+          style={{ left: variableDrop.menu.x, top: variableDrop.menu.y }}
+        >
+          {(['get', 'set'] as const).map(access => (
+            <button
+              key={access}
+              onClick={() => chooseAccess(access)}
+              className="w-full text-left px-3 py-1 hover:bg-[#0070e0] hover:text-white"
+            >
+              {access === 'get' ? 'Get' : 'Set'} {variableDrop.variable.name}
+            </button>
+          ))}
+        </div>
+      )}
     </div>
   );
 };
@@ -0,0 +1,63 @@
+import React, { memo, useCallback, useState } from 'react';
+import { NodeProps, NodeResizer, useReactFlow } from '@xyflow/react';
+import { BPNode, BlueprintNodeData } from '../types';
+import { COMMENT_COLORS } from '../utils/commentNodes';
+
+const CommentNode = ({ id, data, selected }: NodeProps<BPNode>) => {
+  const { setNodes } = useReactFlow<BPNode>();
+  const [editing, setEditing] = useState(false);
+  const color = data.commentColor || COMMENT_COLORS[0];
+
+  const update = useCallback((patch: Partial<BlueprintNodeData>) => {
+    setNodes(nodes => nodes.map(node => (node.id === id ? { ...node, data: { ...node.data, ...patch } } : node)));
+  }, [setNodes, id]);
+
+  const commitTitle = (value: string) => {
+    setEditing(false);
+    if (value.trim() && value !== data.label) update({ label: value.trim() });
+  };
+
+  return (
+    <div
+      className="w-full h-full rounded-sm border"
+      style={{ background: `${color}1f`, borderColor: selected ? '#f5a623' : `${color}59` }}
+    >
+      <NodeResizer isVisible={selected} minWidth={160} minHeight={80} lineClassName="!border-transparent" handleClassName="!w-2 !h-2 !bg-[#f5a623] !border-0" />
+      <div
+        className="flex items-center gap-2 px-3 py-1.5 rounded-t-sm"
+        style={{ background: `${color}59` }}
+        onDoubleClick={(e) => { e.stopPropagation(); setEditing(true); }}
+      >
+        {editing ? (
+          <input
+            autoFocus
+            defaultValue={data.label}
+            onBlur={(e) => commitTitle(e.target.value)}
+            onKeyDown={(e) => {
+              if (e.key === 'Enter') e.currentTarget.blur();
+              if (e.key === 'Escape') setEditing(false);
+            }}
+            className="nodrag flex-1 min-w-0 bg-black/60 border border-white/20 rounded px-1.5 text-sm text-white focus:outline-none"
+          />
+        ) : (
+          <span className="flex-1 truncate text-sm font-semibold text-white drop-shadow" title="Double-click to rename">{data.label}</span>
+        )}
+        {selected && (
+          <div className="nodrag flex gap-1">
+            {COMMENT_COLORS.map(c => (
+              <button
+                key={c}
+                onClick={() => update({ commentColor: c })}
+                title="Comment colour"
+                className={`w-3 h-3 rounded-full border ${c === color ? 'border-white' : 'border-black/40'}`}
+                style={{ background: c }}
+              />
+            ))}
+          </div>
+        )}
+      </div>
+    </div>
+  );
+};
+
+export default memo(CommentNode);
@@ -0,0 +1,50 @@
+import React from 'react';
+import { ConnectionLineComponentProps, getBezierPath } from '@xyflow/react';
+import { BPNode } from '../types';
+import { canCreateConnection } from '../utils/pinSchema';
+
+// Wire preview while dragging off a pin, with a UE-style tooltip describing
+// what will happen when the wire is dropped on the hovered pin
+const ConnectionLine: React.FC<ConnectionLineComponentProps<BPNode>> = ({
+  fromNode,
+  fromHandle,
+  fromX,
+  fromY,
+  toX,
+  toY,
+  fromPosition,
+  toPosition,
+  toNode,
+  toHandle,
+  connectionLineStyle
+}) => {
+  const [path] = getBezierPath({ sourceX: fromX, sourceY: fromY, sourcePosition: fromPosition, targetX: toX, targetY: toY, targetPosition: toPosition });
+
+  let hint: { ok: boolean; text: string } | null = null;
+  if (toNode && toHandle) {
+    // Dragging can start from either end; normalise to output -> input
+    const fromSource = fromHandle.type === 'source';
+    const response = fromSource
+      ? canCreateConnection(fromNode, fromHandle.id, toNode, toHandle.id)
+      : canCreateConnection(toNode, toHandle.id, fromNode, fromHandle.id);
+    hint = response.kind === 'disallow'
+      ? { ok: false, text: response.reason }
+      : { ok: true, text: response.kind === 'convert' ? response.reason : 'Place a new link' };
+  }
+
+  return (
+    <g>
+      <path d={path} fill="none" style={connectionLineStyle} />
+      {hint && (
+        <foreignObject x={toX + 14} y={toY + 10} width={260} height={28} className="overflow-visible pointer-events-none">
+          <div className="inline-flex items-center gap-1 px-2 py-1 rounded bg-black/90 border border-neutral-700 text-[11px] text-gray-200 whitespace-nowrap shadow-lg">
+            <span className={hint.ok ? 'text-green-400' : 'text-red-400'}>{hint.ok ? '✔' : '✖'}</span>
+            {hint.text}
+          </div>
+        </foreignObject>
+      )}
+    </g>
+  );
+};
+
+export default ConnectionLine;
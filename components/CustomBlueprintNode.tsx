@@ -1,11 +1,55 @@
-import React, { memo, useCallback } from 'react';
+import React, { createContext, memo, useCallback, useContext } from 'react';
 import { Handle, Position, NodeProps, useReactFlow, useHandleConnections } from '@xyflow/react';
-import { BlueprintNodeData, NodeType, PinType, BPNode, UE_COLORS } from '../types';
-import { Zap, Layers } from 'lucide-react';
+import { BlueprintEnum, BlueprintNodeData, NodeType, PinDefinition, PinType, BPNode, UE_COLORS } from '../types';
+import { PinTypeDescriptor, pinTypeName } from '../utils/pinSchema';
+import { DIFF_COLORS } from '../utils/graphDiff';
+import { definitionForNode } from '../utils/nodeRegistry';
+import { findEnum } from '../utils/engineTypes';
+import { Zap, Layers, Clock } from 'lucide-react';
+
+// The debugger only runs the EventGraph, so function graphs hide the breakpoint toggle
+export const BreakpointsContext = createContext(true);
+
+// The blueprint's own enums, so Byte pins typed with one get a value picker
+export const UserEnumsContext = createContext<BlueprintEnum[]>([]);
 
 // --- Helper Components ---
 
-const PinIcon = ({ type, isConnected }: { type: PinType; isConnected: boolean }) => {
+const pinColor = (type: PinType) => {
+  switch (type) {
+    case PinType.Boolean: return UE_COLORS.BooleanConnected;
+    case PinType.Integer: return UE_COLORS.Integer;
+    case PinType.Float: return UE_COLORS.Float;
+    case PinType.String: return UE_COLORS.String;
+    case PinType.Vector: return UE_COLORS.Vector;
+    case PinType.Rotator: return UE_COLORS.Rotator;
+    case PinType.Object: return UE_COLORS.Object;
+    case PinType.Class: return UE_COLORS.Class;
+    case PinType.Struct: return UE_COLORS.Struct;
+    case PinType.Byte: return UE_COLORS.Byte;
+    case PinType.Name: return UE_COLORS.Name;
+    case PinType.Text: return UE_COLORS.Text;
+    case PinType.Delegate: return UE_COLORS.Delegate;
+    case PinType.Wildcard: return UE_COLORS.Wildcard;
+    default: return UE_COLORS.Default;
+  }
+};
+
+// 3x3 cell grid used by array and map pins; `colorAt` picks each column's colour
+const GridIcon = ({ colorAt, isConnected }: { colorAt: (column: number) => string; isConnected: boolean }) => (
+  <svg width="12" height="12" viewBox="0 0 12 12" className="mr-2 shrink-0 transition-all">
+    {[0, 1, 2].flatMap(row => [0, 1, 2].map(column => (
+      <rect
+        key={`${row}-${column}`}
+        x={1 + column * 3.6} y={1 + row * 3.6} width="2.8" height="2.8" rx="0.4"
+        fill={colorAt(column)}
+        fillOpacity={isConnected || (row === 1 && column === 1) ? 1 : 0.45}
+      />
+    )))}
+  </svg>
+);
+
+export const PinIcon = ({ type, container, valueType, isConnected }: PinTypeDescriptor & { isConnected: boolean }) => {
   
   // Exec Pin (Wedge Arrow) - Authentic UE5 Shape
   if (type === PinType.Exec) {
@@ -22,30 +66,27 @@ const PinIcon = ({ type, isConnected }: { type: PinType; isConnected: boolean })
     );
   }
 
-  // Data Pins (Circles)
-  let color = UE_COLORS.Default;
-  let fill = "none";
+  const color = pinColor(type);
 
-  switch (type) {
-    case PinType.Boolean: color = UE_COLORS.BooleanConnected; break;
-    case PinType.Integer: color = UE_COLORS.Integer; break;
-    case PinType.Float: color = UE_COLORS.Float; break;
-    case PinType.String: color = UE_COLORS.String; break;
-    case PinType.Vector: color = UE_COLORS.Vector; break;
-    case PinType.Rotator: color = UE_COLORS.Rotator; break;
-    case PinType.Object: color = UE_COLORS.Object; break;
-    case PinType.Class: color = UE_COLORS.Class; break;
-    case PinType.Struct: color = UE_COLORS.Struct; break;
-    case PinType.Byte: color = UE_COLORS.Byte; break;
-    case PinType.Name: color = UE_COLORS.Name; break;
-    case PinType.Text: color = UE_COLORS.Text; break;
-    case PinType.Delegate: color = UE_COLORS.Delegate; break;
+  // Containers: grid for arrays, braces for sets, key/value grid for maps
+  if (container === 'array') return <GridIcon colorAt={() => color} isConnected={isConnected} />;
+  if (container === 'map') {
+    const valueColor = pinColor(valueType ?? PinType.Boolean);
+    return <GridIcon colorAt={column => (column === 0 ? color : valueColor)} isConnected={isConnected} />;
   }
-
-  if (isConnected) {
-    fill = color;
+  if (container === 'set') {
+    return (
+      <svg width="12" height="12" viewBox="0 0 12 12" fill="none" className="mr-2 shrink-0 transition-all">
+        <path d="M 4 1 Q 2.5 1 2.5 2.5 V 4.8 Q 2.5 6 1.2 6 Q 2.5 6 2.5 7.2 V 9.5 Q 2.5 11 4 11" stroke={color} strokeWidth="1.3" strokeLinecap="round" />
+        <path d="M 8 1 Q 9.5 1 9.5 2.5 V 4.8 Q 9.5 6 10.8 6 Q 9.5 6 9.5 7.2 V 9.5 Q 9.5 11 8 11" stroke={color} strokeWidth="1.3" strokeLinecap="round" />
+        <circle cx="6" cy="6" r="1.4" fill={color} fillOpacity={isConnected ? 1 : 0.45} />
+      </svg>
+    );
   }
 
+  // Data Pins (Circles)
+  const fill = isConnected ? color : "none";
+
   return (
     <svg width="12" height="12" viewBox="0 0 12 12" fill="none" className="mr-2 shrink-0 transition-all">
        <circle cx="6" cy="6" r="3.5" stroke={color} strokeWidth="1.5" fill={fill} />
@@ -56,11 +97,13 @@ const PinIcon = ({ type, isConnected }: { type: PinType; isConnected: boolean })
 
 interface BlueprintPinProps {
   nodeId: string;
-  pin: { id: string; name: string; type: PinType; value?: string };
+  pin: PinDefinition;
   side: 'input' | 'output';
   onPinClick: (e: React.MouseEvent, id: string) => void;
   onValueChange: (id: string, val: string) => void;
   compact?: boolean; // For Variable Get nodes
+  diffStatus?: 'added' | 'removed' | 'changed'; // History diff highlight
+  flash?: boolean; // Output Log jump target
 }
 
 const BlueprintPin: React.FC<BlueprintPinProps> = ({ 
@@ -69,15 +112,19 @@ const BlueprintPin: React.FC<BlueprintPinProps> = ({
   side, 
   onPinClick,
   onValueChange,
-  compact
+  compact,
+  diffStatus,
+  flash
 }) => {
   const connections = useHandleConnections({
     type: side === 'input' ? 'target' : 'source',
     id: pin.id,
   });
   
+  const userEnums = useContext(UserEnumsContext);
   const isConnected = connections.length > 0;
-  const showInput = !compact && side === 'input' && !isConnected && pin.type !== PinType.Exec;
+  const showInput = !compact && side === 'input' && !isConnected && pin.type !== PinType.Exec && !pin.container;
+  const enumDef = pin.type === PinType.Byte ? findEnum(pin.subType, userEnums) : undefined;
   
   // Hide label for standard Exec/Output/ReturnValue pins to clean up UI (Standard UE behavior)
   const isStandardPin = (pin.name === 'Exec' || pin.name === 'Output' || pin.name === 'ReturnValue' || pin.name === 'Then');
@@ -85,8 +132,10 @@ const BlueprintPin: React.FC<BlueprintPinProps> = ({
 
   return (
     <div 
-      className={`relative flex items-center min-h-[26px] group cursor-pointer ${side === 'output' ? 'flex-row-reverse' : ''}`}
+      className={`relative flex items-center min-h-[26px] group cursor-pointer rounded-sm ${side === 'output' ? 'flex-row-reverse' : ''} ${flash ? 'bp-pin-flash' : ''}`}
+      style={diffStatus ? { boxShadow: `inset 0 0 0 1px ${DIFF_COLORS[diffStatus]}`, background: `${DIFF_COLORS[diffStatus]}22` } : undefined}
       onMouseDown={(e) => onPinClick(e, pin.id)}
+      title={pin.type === PinType.Exec ? undefined : pinTypeName(pin)}
     >
       <Handle
         type={side === 'input' ? 'target' : 'source'}
@@ -100,7 +149,7 @@ const BlueprintPin: React.FC<BlueprintPinProps> = ({
       />
 
       <div className="z-0 flex items-center">
-        <PinIcon type={pin.type} isConnected={isConnected} />
+        <PinIcon type={pin.type} container={pin.container} valueType={pin.valueType} isConnected={isConnected} />
       </div>
 
       {displayName && !compact && (
@@ -117,6 +166,14 @@ const BlueprintPin: React.FC<BlueprintPinProps> = ({
                     onClick={(e) => { e.stopPropagation(); onValueChange(pin.id, pin.value === 'true' ? 'false' : 'true'); }}>
                    {pin.value === 'true' && <div className="w-2.5 h-2.5 bg-red-600 rounded-[1px]" />}
                </div>
+            ) : enumDef ? (
+              <select
+                  value={pin.value || pin.defaultValue || enumDef.values[0]}
+                  onChange={(e) => onValueChange(pin.id, e.target.value)}
+                  className="h-[18px] bg-[#080808] border border-white/10 text-[11px] text-[#a0a0a0] px-1 rounded-[3px] focus:border-[#00a6f0] focus:text-white focus:outline-none transition-colors"
+               >
+                 {enumDef.values.map(value => <option key={value} value={value}>{value}</option>)}
+               </select>
             ) : (pin.type === PinType.Integer || pin.type === PinType.Float) ? (
                <div className="relative group/input">
                  <input 
@@ -159,26 +216,23 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
      setNodes((nodes) => nodes.map(node => {
         if (node.id !== id) return node;
         const newInputs = node.data.inputs.map(input => 
-            input.id === pinId ? { ...input, value: newValue } : input
+            input.id === pinId ? { ...input, value: newValue, userEdited: true } : input
         );
         return { ...node, data: { ...node.data, inputs: newInputs } };
      }));
   }, [setNodes, id]);
 
-  // --- Styling Heuristics ---
-  let effectiveNodeType = data.nodeType;
-  const label = data.label || "";
+  const breakpointsEnabled = useContext(BreakpointsContext);
+  const toggleBreakpoint = useCallback((e: React.MouseEvent) => {
+    e.stopPropagation();
+    setNodes((nodes) => nodes.map(node => node.id === id ? { ...node, data: { ...node.data, breakpoint: !node.data.breakpoint } } : node));
+  }, [setNodes, id]);
 
-  const FLOW_CONTROL_KEYWORDS = ['Branch', 'Sequence', 'DoOnce', 'DoN', 'FlipFlop', 'ForLoop', 'Gate', 'MultiGate', 'WhileLoop', 'Macro', 'ForEach'];
-  if (FLOW_CONTROL_KEYWORDS.some(kw => label.includes(kw))) {
-    effectiveNodeType = NodeType.FlowControl;
-  }
-  if (label.startsWith("Event") || label.startsWith("Input") || label.startsWith("On ")) {
-    effectiveNodeType = NodeType.Event;
-  }
-  if (label.includes("Input Action") || label.includes("InputAxis")) {
-    effectiveNodeType = NodeType.InputEvent;
-  }
+  // --- Styling ---
+  // Known nodes style from their registry definition, the rest from the nodeType they carry
+  const definition = definitionForNode(data);
+  const effectiveNodeType = definition ? definition.nodeType : data.nodeType;
+  const label = data.label || "";
 
   const isVariableGet = effectiveNodeType === NodeType.VariableGet;
   const isVariableSet = effectiveNodeType === NodeType.VariableSet;
@@ -206,6 +260,13 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
     }
   }
 
+  // History diff outline (added / removed / changed / rewired)
+  const diffOutline = data.diffStatus
+    ? { outline: `2px solid ${DIFF_COLORS[data.diffStatus]}`, outlineOffset: '3px' }
+    : data.debugActive
+      ? { outline: '2px solid #facc15', outlineOffset: '3px', boxShadow: '0 0 18px rgba(250, 204, 21, 0.6)' }
+      : undefined;
+
   // --- Compact Variable GET (Pill) ---
   if (isVariableGet) {
     return (
@@ -216,7 +277,7 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
         bg-gradient-to-b from-[#333] to-[#111]
         hover:brightness-110 transition-all
       "
-      style={{ borderColor: 'rgba(255,255,255,0.1)' }}
+      style={{ borderColor: 'rgba(255,255,255,0.1)', ...diffOutline }}
       >
         <div className="absolute inset-0 rounded-full opacity-30 pointer-events-none" 
              style={{ background: `linear-gradient(90deg, ${variableColorHex} 0%, transparent 60%)` }}></div>
@@ -226,7 +287,7 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
         </span>
         
         {data.outputs.map((pin) => (
-           <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="output" onPinClick={handlePinClick} onValueChange={handleValueChange} compact={true} />
+           <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="output" onPinClick={handlePinClick} onValueChange={handleValueChange} compact={true} diffStatus={data.diffPins?.[pin.id]} flash={data.flashPinId === pin.id} />
         ))}
       </div>
     );
@@ -240,12 +301,13 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
      Event: { bg: '#8F0000', border: '#ff6b6b' },
      Input: { bg: '#8F0000', border: '#ff6b6b' }, // Input Actions are red
      Macro: { bg: '#505050', border: '#aaa' },
+     FunctionTerminal: { bg: '#5E2D86', border: '#c39bff' },
      VariableSet: { bg: variableColorHex, border: variableColorHex }
   };
 
   let activeStyle = COLORS.Function;
   let icon = <span className="text-[#a0c0ff] font-serif italic font-black text-sm mr-2 drop-shadow">f</span>;
-  const isPure = !data.inputs.some(p => p.type === PinType.Exec) && !data.outputs.some(p => p.type === PinType.Exec);
+  const isPure = definition ? definition.pure : !data.inputs.some(p => p.type === PinType.Exec) && !data.outputs.some(p => p.type === PinType.Exec);
 
   switch (effectiveNodeType) {
     case NodeType.Event:
@@ -258,6 +320,10 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
       activeStyle = COLORS.Macro;
       icon = <Layers size={14} className="text-gray-300 mr-2 drop-shadow" />;
       break;
+    case NodeType.FunctionEntry:
+    case NodeType.FunctionResult:
+      activeStyle = COLORS.FunctionTerminal;
+      break;
     case NodeType.VariableSet:
       activeStyle = COLORS.VariableSet;
       icon = <span className="text-white font-bold text-[10px] mr-2">SET</span>;
@@ -271,7 +337,7 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
   }
 
   return (
-    <div className="min-w-[160px] rounded-lg shadow-[0_10px_15px_-3px_rgba(0,0,0,0.6)] bg-[#111]/90 font-sans border border-black/80 group backdrop-blur-sm">
+    <div className="min-w-[160px] rounded-lg shadow-[0_10px_15px_-3px_rgba(0,0,0,0.6)] bg-[#111]/90 font-sans border border-black/80 group backdrop-blur-sm" style={diffOutline}>
       
       {/* Header */}
       <div 
@@ -284,12 +350,23 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
       >
         {/* Authentic Glossy Tube Effect */}
         <div className="absolute top-0 left-0 right-0 h-[50%] bg-gradient-to-b from-white/30 to-transparent pointer-events-none"></div>
+
+        {/* Breakpoint toggle (F9 on the selected node does the same) */}
+        {breakpointsEnabled && (
+          <button
+            onClick={toggleBreakpoint}
+            title={data.breakpoint ? 'Remove breakpoint' : 'Add breakpoint'}
+            className={`absolute left-0.5 top-0.5 w-2.5 h-2.5 rounded-full border z-20 transition-opacity nodrag
+              ${data.breakpoint ? 'bg-red-600 border-red-300 opacity-100' : 'bg-transparent border-white/40 opacity-0 group-hover:opacity-100'}`}
+          />
+        )}
         
         {icon}
         {/* Font Weight adjusted from Bold (700) to Semibold (600) for cleanliness */}
         <span className="text-white font-semibold text-[12px] tracking-wide truncate relative z-10 pt-0.5" style={{ textShadow: '0 1px 2px rgba(0,0,0,0.8)' }}>
           {label}
         </span>
+        {definition?.latent && <Clock size={12} className="ml-auto pl-1 shrink-0 text-white/80 relative z-10" aria-label="Latent" />}
       </div>
 
       {/* Body */}
@@ -300,13 +377,13 @@ const CustomBlueprintNode = ({ id, data }: NodeProps<BPNode>) => {
         {/* Inputs */}
         <div className="flex flex-col gap-2 min-w-[20px] py-1">
             {data.inputs.map((pin) => (
-              <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="input" onPinClick={handlePinClick} onValueChange={handleValueChange} />
+              <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="input" onPinClick={handlePinClick} onValueChange={handleValueChange} diffStatus={data.diffPins?.[pin.id]} flash={data.flashPinId === pin.id} />
             ))}
         </div>
         {/* Outputs */}
         <div className="flex flex-col gap-2 min-w-[20px] items-end text-right py-1">
              {data.outputs.map((pin) => (
-              <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="output" onPinClick={handlePinClick} onValueChange={handleValueChange} />
+              <BlueprintPin key={pin.id} nodeId={id} pin={pin} side="output" onPinClick={handlePinClick} onValueChange={handleValueChange} diffStatus={data.diffPins?.[pin.id]} flash={data.flashPinId === pin.id} />
             ))}
         </div>
       </div>
@@ -0,0 +1,233 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Bug, Play, StepForward, Square, XCircle, CircleDot, Eye } from 'lucide-react';
+import { BPNode, BPEdge, BlueprintVariable, LogLevel, LogReference, NodeType } from '../types';
+import { DebugEvent, InterpreterError, InterpreterSession, createInterpreter } from '../utils/graphInterpreter';
+
+export interface DebugHighlight {
+  activeNodeId: string | null;
+  activeEdgeIds: string[];
+}
+
+interface DebuggerPanelProps {
+  nodes: BPNode[];
+  edges: BPEdge[];
+  variables: BlueprintVariable[];
+  onHighlight: (highlight: DebugHighlight) => void;
+  onLog: (type: LogLevel, message: string, ref?: LogReference) => void;
+  onToggleBreakpoint: (nodeId: string) => void;
+  onClose: () => void;
+}
+
+type DebugStatus = 'idle' | 'running' | 'paused' | 'waiting' | 'finished' | 'error';
+
+const WIRE_GLOW_MS = 700;
+// Yield to the browser every N events so "Continue" on long loops stays responsive
+const EVENTS_PER_FRAME = 200;
+
+const DebuggerPanel: React.FC<DebuggerPanelProps> = ({ nodes, edges, variables, onHighlight, onLog, onToggleBreakpoint, onClose }) => {
+  const entryNodes = nodes.filter(n => n.data.nodeType === NodeType.Event || n.data.nodeType === NodeType.InputEvent);
+  const [eventId, setEventId] = useState<string>('');
+  const [status, setStatus] = useState<DebugStatus>('idle');
+  const [pausedAt, setPausedAt] = useState<string | null>(null);
+  const [watch, setWatch] = useState<ReturnType<InterpreterSession['getVariables']>>([]);
+  const [delaySpeed, setDelaySpeed] = useState(1);
+
+  const session = useRef<InterpreterSession | null>(null);
+  const generator = useRef<Generator<DebugEvent, void, void> | null>(null);
+  const runToken = useRef(0);
+  const wireTimes = useRef(new Map<string, number>());
+  const latest = useRef({ nodes, onHighlight });
+  latest.current = { nodes, onHighlight };
+
+  const selectedEvent = entryNodes.some(n => n.id === eventId) ? eventId : entryNodes[0]?.id || '';
+  const breakpoints = nodes.filter(n => n.data.breakpoint);
+  const label = (id: string) => nodes.find(n => n.id === id)?.data.label || id;
+
+  const publish = (activeNodeId: string | null) => {
+    const now = Date.now();
+    wireTimes.current.forEach((t, id) => { if (now - t > WIRE_GLOW_MS) wireTimes.current.delete(id); });
+    latest.current.onHighlight({ activeNodeId, activeEdgeIds: Array.from(wireTimes.current.keys()) });
+    if (session.current) setWatch(session.current.getVariables());
+  };
+
+  // Fade out wires that fired while paused or after the run ends
+  useEffect(() => {
+    if (status === 'running') return;
+    const timer = setTimeout(() => publish(pausedAt), WIRE_GLOW_MS);
+    return () => clearTimeout(timer);
+  }, [status, pausedAt]);
+
+  useEffect(() => () => {
+    runToken.current++;
+    latest.current.onHighlight({ activeNodeId: null, activeEdgeIds: [] });
+  }, []);
+
+  const stop = () => {
+    runToken.current++;
+    generator.current?.return();
+    generator.current = null;
+    setStatus('idle');
+    setPausedAt(null);
+    wireTimes.current.clear();
+    onHighlight({ activeNodeId: null, activeEdgeIds: [] });
+  };
+
+  const start = () => {
+    stop();
+    const interpreter = createInterpreter(nodes, edges, variables, {
+      onPrint: (message, nodeId) => onLog('info', `[Print] ${message}`, { nodeId }),
+      onWarning: (message, nodeId) => onLog('warning', `Debugger: ${message}`, { nodeId })
+    });
+    session.current = interpreter;
+    generator.current = interpreter.run(selectedEvent);
+    setWatch(interpreter.getVariables());
+    onLog('info', `Debugger: running from "${label(selectedEvent)}".`, { nodeId: selectedEvent });
+  };
+
+  const advance = async (mode: 'step' | 'continue') => {
+    if (!generator.current) start();
+    const gen = generator.current;
+    if (!gen) return;
+    const token = ++runToken.current;
+    const breakpointIds = new Set(latest.current.nodes.filter(n => n.data.breakpoint).map(n => n.id));
+    setStatus('running');
+
+    try {
+      for (let count = 1; ; count++) {
+        const result = gen.next();
+        if (token !== runToken.current) return; // Stopped meanwhile
+        if (result.done) {
+          generator.current = null;
+          setStatus('finished');
+          setPausedAt(null);
+          publish(null);
+          onLog('success', 'Debugger: execution finished.');
+          return;
+        }
+
+        const event = result.value;
+        if (event.kind === 'wire') {
+          wireTimes.current.set(event.edgeId, Date.now());
+        } else if (event.kind === 'delay') {
+          setStatus('waiting');
+          publish(event.nodeId);
+          await new Promise(resolve => setTimeout(resolve, (event.seconds * 1000) / delaySpeed));
+          if (token !== runToken.current) return;
+          setStatus('running');
+        } else if (mode === 'step' || breakpointIds.has(event.nodeId)) {
+          setStatus('paused');
+          setPausedAt(event.nodeId);
+          publish(event.nodeId);
+          if (mode === 'continue') onLog('info', `Debugger: hit breakpoint on "${label(event.nodeId)}".`, { nodeId: event.nodeId });
+          return;
+        } else {
+          publish(event.nodeId);
+        }
+
+        if (count % EVENTS_PER_FRAME === 0) {
+          await new Promise(resolve => setTimeout(resolve, 0));
+          if (token !== runToken.current) return;
+        }
+      }
+    } catch (err) {
+      generator.current = null;
+      setStatus('error');
+      const nodeId = err instanceof InterpreterError ? err.nodeId : undefined;
+      onLog('error', `Debugger: ${err instanceof Error ? err.message : String(err)}`, nodeId ? { nodeId } : undefined);
+    }
+  };
+
+  const isActive = status === 'running' || status === 'waiting';
+
+  return (
+    <div className="w-72 bg-[#111] border-l border-black flex flex-col z-20">
+      <div className="p-2 border-b border-white/5 bg-[#1a1a1a] flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider pl-1 flex items-center gap-1">
+          <Bug size={12} /> Debugger
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          <XCircle size={14} />
+        </button>
+      </div>
+
+      <div className="p-2 border-b border-white/5 flex flex-col gap-2">
+        <select
+          value={selectedEvent}
+          onChange={(e) => { setEventId(e.target.value); stop(); }}
+          disabled={entryNodes.length === 0}
+          className="bg-[#0a0a0a] border border-neutral-700 rounded px-2 py-1 text-[11px] text-gray-300 focus:outline-none focus:border-blue-500"
+        >
+          {entryNodes.length === 0 && <option value="">No event nodes in graph</option>}
+          {entryNodes.map(n => <option key={n.id} value={n.id}>{n.data.label}</option>)}
+        </select>
+
+        <div className="flex gap-1">
+          <button
+            onClick={() => advance('continue')}
+            disabled={!selectedEvent || isActive}
+            title={generator.current ? 'Continue to the next breakpoint' : 'Run from the selected event'}
+            className="flex-1 flex items-center justify-center gap-1 bg-green-700 hover:bg-green-600 disabled:opacity-40 text-white text-[11px] rounded py-1"
+          >
+            <Play size={11} /> {generator.current ? 'Continue' : 'Run'}
+          </button>
+          <button
+            onClick={() => advance('step')}
+            disabled={!selectedEvent || isActive}
+            title="Execute the current node and pause at the next one"
+            className="flex-1 flex items-center justify-center gap-1 bg-neutral-700 hover:bg-neutral-600 disabled:opacity-40 text-gray-200 text-[11px] rounded py-1"
+          >
+            <StepForward size={11} /> Step
+          </button>
+          <button
+            onClick={stop}
+            disabled={status === 'idle'}
+            className="flex items-center justify-center px-2 bg-red-800 hover:bg-red-700 disabled:opacity-40 text-white rounded"
+          >
+            <Square size={11} />
+          </button>
+        </div>
+
+        <div className="flex items-center justify-between text-[10px] text-neutral-500">
+          <span>
+            Status: <span className="text-gray-300">{status}</span>
+            {pausedAt && status === 'paused' && <> at <span className="text-yellow-400">{label(pausedAt)}</span></>}
+          </span>
+          <label className="flex items-center gap-1" title="Speeds up Delay nodes">
+            Delay ×
+            <select value={delaySpeed} onChange={(e) => setDelaySpeed(Number(e.target.value))} className="bg-transparent text-gray-300">
+              {[1, 2, 5, 10, 100].map(v => <option key={v} value={v}>{v}</option>)}
+            </select>
+          </label>
+        </div>
+      </div>
+
+      <div className="px-3 pt-2 pb-1 text-[10px] font-semibold text-gray-500 uppercase flex items-center gap-1">
+        <Eye size={10} /> Watch
+      </div>
+      <div className="px-2 pb-2 border-b border-white/5 flex flex-col gap-0.5 font-mono text-[11px]">
+        {watch.length === 0 && <div className="text-neutral-600 italic px-1">Variables appear once a run starts.</div>}
+        {watch.map(v => (
+          <div key={v.name} className="flex justify-between gap-2 px-1 py-0.5 rounded hover:bg-white/5">
+            <span className="text-gray-400 truncate">{v.name}</span>
+            <span className="text-gray-200 truncate" title={v.value}>{v.value}</span>
+          </div>
+        ))}
+      </div>
+
+      <div className="px-3 pt-2 pb-1 text-[10px] font-semibold text-gray-500 uppercase flex items-center gap-1">
+        <CircleDot size={10} /> Breakpoints
+      </div>
+      <div className="px-2 pb-2 flex-1 overflow-y-auto custom-scrollbar flex flex-col gap-0.5 text-[11px]">
+        {breakpoints.length === 0 && <div className="text-neutral-600 italic px-1">Select a node and press F9, or click the dot in its header.</div>}
+        {breakpoints.map(n => (
+          <div key={n.id} className="flex items-center gap-2 px-1 py-0.5 rounded hover:bg-white/5 text-gray-300">
+            <button onClick={() => onToggleBreakpoint(n.id)} title="Remove breakpoint" className="w-2.5 h-2.5 rounded-full bg-red-600 shrink-0" />
+            <span className="truncate">{n.data.label}</span>
+          </div>
+        ))}
+      </div>
+    </div>
+  );
+};
+
+export default DebuggerPanel;
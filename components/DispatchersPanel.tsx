@@ -0,0 +1,67 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { BlueprintDispatcher, PinType } from '../types';
+import { typeColor } from '../utils/pinSchema';
+import { PinList } from './FunctionsPanel';
+
+interface DispatchersPanelProps {
+  dispatchers: BlueprintDispatcher[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintDispatcher>) => void;
+}
+
+const inputClass = 'bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+const DispatchersPanel: React.FC<DispatchersPanelProps> = ({ dispatchers, onAdd, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Event Dispatchers
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {dispatchers.map(d => (
+          <div key={d.id}>
+            <div
+              onClick={() => setExpandedId(expandedId === d.id ? null : d.id)}
+              title={d.tooltip || 'Call, Bind, Unbind and Assign nodes are in the graph palette'}
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === d.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              <div className="w-2 h-2 shrink-0" style={{ background: typeColor(PinType.Delegate) }}></div>
+              <span className="truncate">{d.name}</span>
+            </div>
+
+            {expandedId === d.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-2">
+                <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+                  <span>Name</span>
+                  <input
+                    key={d.name}
+                    defaultValue={d.name}
+                    onBlur={(e) => { if (e.target.value !== d.name) onUpdate(d.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </label>
+                <PinList title="Inputs" pins={d.inputs} isOutput={false} onChange={(inputs) => onUpdate(d.id, { inputs })} />
+              </div>
+            )}
+          </div>
+        ))}
+        {dispatchers.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No event dispatchers</div>}
+      </div>
+    </div>
+  );
+};
+
+export default DispatchersPanel;
@@ -0,0 +1,98 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlueprintEnum, PinType } from '../types';
+import { typeColor } from '../utils/pinSchema';
+
+interface EnumsPanelProps {
+  enums: BlueprintEnum[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintEnum>) => void;
+}
+
+const inputClass = 'bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+const EnumsPanel: React.FC<EnumsPanelProps> = ({ enums, onAdd, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addValue = (en: BlueprintEnum) => {
+    const taken = new Set(en.values);
+    let value = 'NewEnumerator';
+    for (let i = 0; taken.has(value); i++) value = `NewEnumerator_${i}`;
+    onUpdate(en.id, { values: [...en.values, value] });
+  };
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Enumerations
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {enums.map(en => (
+          <div key={en.id}>
+            <div
+              onClick={() => setExpandedId(expandedId === en.id ? null : en.id)}
+              title={en.tooltip || 'Switch on Enum nodes are in the graph palette'}
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === en.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              <div className="w-2 h-1 rounded-full shrink-0" style={{ background: typeColor(PinType.Byte) }}></div>
+              <span className="truncate">{en.name}</span>
+              <span className="ml-auto text-[9px] text-neutral-500">{en.values.length}</span>
+            </div>
+
+            {expandedId === en.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-2">
+                <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+                  <span>Name</span>
+                  <input
+                    key={en.name}
+                    defaultValue={en.name}
+                    onBlur={(e) => { if (e.target.value !== en.name) onUpdate(en.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </label>
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center justify-between text-[10px] text-neutral-500">
+                    <span>Enumerators</span>
+                    <button onClick={() => addValue(en)} title="Add enumerator" className="text-neutral-500 hover:text-white">
+                      <Plus size={11} />
+                    </button>
+                  </div>
+                  {en.values.map((value, i) => (
+                    <div key={`${i}:${value}`} className="flex items-center gap-1">
+                      <input
+                        defaultValue={value}
+                        onBlur={(e) => {
+                          const next = e.target.value.trim();
+                          if (next && next !== value) onUpdate(en.id, { values: en.values.map((v, j) => (j === i ? next : v)) });
+                        }}
+                        onKeyDown={commitOnEnter}
+                        className={`${inputClass} min-w-0 flex-1`}
+                      />
+                      <button onClick={() => onUpdate(en.id, { values: en.values.filter((_, j) => j !== i) })} title="Remove" className="text-neutral-600 hover:text-red-400">
+                        <X size={11} />
+                      </button>
+                    </div>
+                  ))}
+                  {en.values.length === 0 && <div className="text-[10px] text-neutral-600 italic">None</div>}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+        {enums.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No enumerations</div>}
+      </div>
+    </div>
+  );
+};
+
+export default EnumsPanel;
@@ -0,0 +1,127 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlueprintFunction, PinDefinition, PinType } from '../types';
+import { VARIABLE_TYPES } from '../utils/variableNodes';
+import { typeColor, typeName } from '../utils/pinSchema';
+import { FUNCTION_DRAG_TYPE } from '../utils/functionGraphs';
+
+interface FunctionsPanelProps {
+  functions: BlueprintFunction[];
+  activeId: string | null;
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintFunction>) => void;
+  onOpen: (id: string) => void;
+}
+
+const inputClass = 'bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+// Signature editor, shared with the dispatcher and interface panels
+export const PinList: React.FC<{
+  title: string;
+  pins: PinDefinition[];
+  isOutput: boolean;
+  onChange: (pins: PinDefinition[]) => void;
+}> = ({ title, pins, isOutput, onChange }) => {
+  const dataPins = pins.filter(p => p.type !== PinType.Exec);
+  const update = (id: string, patch: Partial<PinDefinition>) => onChange(dataPins.map(p => (p.id === id ? { ...p, ...patch } : p)));
+  const add = () => {
+    const taken = new Set(dataPins.map(p => p.name));
+    let name = isOutput ? 'ReturnValue' : 'NewParam';
+    for (let i = 0; taken.has(name); i++) name = `${isOutput ? 'ReturnValue' : 'NewParam'}_${i}`;
+    onChange([...dataPins, { id: `Param_${Math.random().toString(36).substr(2, 6)}`, name, type: PinType.Boolean, isOutput }]);
+  };
+
+  return (
+    <div className="flex flex-col gap-1">
+      <div className="flex items-center justify-between text-[10px] text-neutral-500">
+        <span>{title}</span>
+        <button onClick={add} title={`Add ${isOutput ? 'output' : 'input'}`} className="text-neutral-500 hover:text-white">
+          <Plus size={11} />
+        </button>
+      </div>
+      {dataPins.map(pin => (
+        <div key={pin.id} className="flex items-center gap-1">
+          <div className="w-2 h-2 rounded-full shrink-0" style={{ background: typeColor(pin.type) }}></div>
+          <input
+            key={pin.name}
+            defaultValue={pin.name}
+            onBlur={(e) => { if (e.target.value.trim() && e.target.value !== pin.name) update(pin.id, { name: e.target.value.trim() }); }}
+            onKeyDown={commitOnEnter}
+            className={`${inputClass} min-w-0 flex-1`}
+          />
+          <select value={pin.type} onChange={(e) => update(pin.id, { type: e.target.value as PinType })} className={`${inputClass} w-[72px]`}>
+            {VARIABLE_TYPES.map(t => <option key={t} value={t}>{typeName(t)}</option>)}
+          </select>
+          <button onClick={() => onChange(dataPins.filter(p => p.id !== pin.id))} title="Remove" className="text-neutral-600 hover:text-red-400">
+            <X size={11} />
+          </button>
+        </div>
+      ))}
+      {dataPins.length === 0 && <div className="text-[10px] text-neutral-600 italic">None</div>}
+    </div>
+  );
+};
+
+const FunctionsPanel: React.FC<FunctionsPanelProps> = ({ functions, activeId, onAdd, onUpdate, onOpen }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Functions
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {functions.map(f => (
+          <div key={f.id}>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(FUNCTION_DRAG_TYPE, f.id);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              onClick={() => setExpandedId(expandedId === f.id ? null : f.id)}
+              onDoubleClick={() => onOpen(f.id)}
+              title="Double-click to open its graph; drag onto a graph to call it"
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === f.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              <div className="text-blue-400 font-serif italic text-[10px]">f</div>
+              <span className={`truncate ${activeId === f.id ? 'font-semibold' : ''}`}>{f.name}</span>
+            </div>
+
+            {expandedId === f.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-2">
+                <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+                  <span>Name</span>
+                  <input
+                    key={f.name}
+                    defaultValue={f.name}
+                    onBlur={(e) => { if (e.target.value !== f.name) onUpdate(f.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </label>
+                <PinList title="Inputs" pins={f.inputs} isOutput={false} onChange={(inputs) => onUpdate(f.id, { inputs })} />
+                <PinList title="Outputs" pins={f.outputs} isOutput={true} onChange={(outputs) => onUpdate(f.id, { outputs })} />
+                <button onClick={() => onOpen(f.id)} className="self-start text-[10px] text-blue-400 hover:text-blue-300">
+                  Open graph
+                </button>
+              </div>
+            )}
+          </div>
+        ))}
+        {functions.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No functions</div>}
+      </div>
+    </div>
+  );
+};
+
+export default FunctionsPanel;
@@ -0,0 +1,77 @@
+import React, { useMemo } from 'react';
+import { ReactFlowProvider } from '@xyflow/react';
+import { XCircle } from 'lucide-react';
+import BlueprintCanvas from './BlueprintCanvas';
+import { BlueprintSnapshot, DiffStatus } from '../types';
+import { annotateDiff, diffGraphs, DIFF_COLORS } from '../utils/graphDiff';
+
+interface HistoryDiffViewProps {
+  before: BlueprintSnapshot;
+  after: BlueprintSnapshot;
+  onClose: () => void;
+}
+
+const noop = () => {};
+
+const DiffPane = ({ title, snapshot, annotated }: { title: string; snapshot: BlueprintSnapshot; annotated: ReturnType<typeof annotateDiff> }) => (
+  <div className="flex-1 flex flex-col border-r border-black last:border-r-0 min-w-0">
+    <div className="h-8 bg-[#1a1a1a] border-b border-black flex items-center px-3 gap-2 text-[11px] shrink-0">
+      <span className="font-semibold text-gray-300">{title}</span>
+      <span className="text-neutral-500 truncate">{snapshot.label}</span>
+      <span className="ml-auto text-neutral-600 font-mono">{new Date(snapshot.timestamp).toLocaleTimeString()}</span>
+    </div>
+    <div className="flex-1 relative">
+      {/* Each pane gets its own provider so the two viewports are independent */}
+      <ReactFlowProvider>
+        <BlueprintCanvas
+          nodes={annotated.nodes}
+          edges={annotated.edges}
+          structs={snapshot.structs}
+          enums={snapshot.enums}
+          onNodesChange={noop}
+          onEdgesChange={noop}
+          onConnect={noop}
+          readOnly
+        />
+      </ReactFlowProvider>
+    </div>
+  </div>
+);
+
+const HistoryDiffView: React.FC<HistoryDiffViewProps> = ({ before, after, onClose }) => {
+  const diff = useMemo(() => diffGraphs(before, after), [before, after]);
+  const left = useMemo(() => annotateDiff(before.nodes, before.edges, diff, 'before'), [before, diff]);
+  const right = useMemo(() => annotateDiff(after.nodes, after.edges, diff, 'after'), [after, diff]);
+
+  const counts: Partial<Record<DiffStatus, number>> = {};
+  (Object.values(diff.nodes) as DiffStatus[]).forEach(status => {
+    counts[status] = (counts[status] || 0) + 1;
+  });
+
+  return (
+    <div className="absolute inset-0 z-[90] bg-black/80 backdrop-blur-sm flex flex-col">
+      <div className="h-10 bg-[#222] border-b border-black flex items-center px-4 gap-4 shrink-0">
+        <span className="text-sm font-semibold text-gray-200">Compare Versions</span>
+        {(Object.keys(DIFF_COLORS) as DiffStatus[]).map(status => (
+          <span key={status} className="flex items-center gap-1 text-[11px] text-gray-400">
+            <span className="w-2.5 h-2.5 rounded-sm" style={{ background: DIFF_COLORS[status] }} />
+            {status} ({counts[status] || 0})
+          </span>
+        ))}
+        <span className="text-[11px] text-gray-500">
+          links +{diff.addedEdges.size} / -{diff.removedEdges.size}
+        </span>
+        <span className="text-[11px] text-neutral-600 italic">EventGraph only; function graphs and My Blueprint members are not compared</span>
+        <button onClick={onClose} className="ml-auto text-gray-500 hover:text-white">
+          <XCircle size={16} />
+        </button>
+      </div>
+      <div className="flex-1 flex">
+        <DiffPane title="Before" snapshot={before} annotated={left} />
+        <DiffPane title="After" snapshot={after} annotated={right} />
+      </div>
+    </div>
+  );
+};
+
+export default HistoryDiffView;
@@ -0,0 +1,116 @@
+import React, { useState } from 'react';
+import { History, RotateCcw, GitCompare, Bookmark, XCircle, Zap, Wand2 } from 'lucide-react';
+import { BlueprintSnapshot } from '../types';
+
+interface HistoryPanelProps {
+  snapshots: BlueprintSnapshot[];
+  activeId: string | null;
+  onRestore: (id: string) => void;
+  onCheckpoint: (label: string) => void;
+  onCompare: (beforeId: string, afterId: string) => void;
+  onClose: () => void;
+}
+
+const KIND_ICONS = {
+  generation: <Zap size={11} className="text-yellow-500 shrink-0" />,
+  refinement: <Wand2 size={11} className="text-blue-400 shrink-0" />,
+  checkpoint: <Bookmark size={11} className="text-emerald-400 shrink-0" />
+};
+
+const HistoryPanel: React.FC<HistoryPanelProps> = ({ snapshots, activeId, onRestore, onCheckpoint, onCompare, onClose }) => {
+  const [checkpointLabel, setCheckpointLabel] = useState('');
+  const [compareIds, setCompareIds] = useState<string[]>([]);
+
+  const toggleCompare = (id: string) => {
+    setCompareIds(prev => prev.includes(id)
+      ? prev.filter(x => x !== id)
+      : [...prev, id].slice(-2));
+  };
+
+  const handleCompare = () => {
+    // Always diff older -> newer regardless of click order
+    const [a, b] = compareIds
+      .map(id => snapshots.find(s => s.id === id)!)
+      .sort((x, y) => x.timestamp - y.timestamp);
+    onCompare(a.id, b.id);
+  };
+
+  return (
+    <div className="w-72 bg-[#111] border-l border-black flex flex-col z-20">
+      <div className="p-2 border-b border-white/5 bg-[#1a1a1a] flex items-center justify-between">
+        <span className="text-xs font-semibold text-gray-400 uppercase tracking-wider pl-1 flex items-center gap-1">
+          <History size={12} /> History
+        </span>
+        <button onClick={onClose} className="text-gray-500 hover:text-white">
+          <XCircle size={14} />
+        </button>
+      </div>
+
+      <form
+        className="p-2 border-b border-white/5 flex gap-1"
+        onSubmit={(e) => {
+          e.preventDefault();
+          onCheckpoint(checkpointLabel.trim() || 'Manual checkpoint');
+          setCheckpointLabel('');
+        }}
+      >
+        <input
+          value={checkpointLabel}
+          onChange={(e) => setCheckpointLabel(e.target.value)}
+          placeholder="Checkpoint name..."
+          className="flex-1 bg-[#0a0a0a] border border-neutral-700 rounded px-2 py-1 text-[11px] text-gray-300 focus:outline-none focus:border-blue-500"
+        />
+        <button type="submit" className="px-2 rounded bg-neutral-700 hover:bg-neutral-600 text-[11px] text-gray-200 flex items-center gap-1">
+          <Bookmark size={11} /> Save
+        </button>
+      </form>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar">
+        {snapshots.length === 0 && (
+          <div className="px-3 py-2 text-[10px] text-neutral-600 italic">No versions yet. Generate logic or save a checkpoint.</div>
+        )}
+        {[...snapshots].reverse().map(snap => (
+          <div
+            key={snap.id}
+            className={`px-3 py-2 border-b border-white/5 text-xs group ${snap.id === activeId ? 'bg-blue-900/20' : 'hover:bg-white/5'}`}
+          >
+            <div className="flex items-center gap-2">
+              <input
+                type="checkbox"
+                checked={compareIds.includes(snap.id)}
+                onChange={() => toggleCompare(snap.id)}
+                title="Select for comparison"
+              />
+              {KIND_ICONS[snap.kind]}
+              <span className="text-gray-300 truncate flex-1" title={snap.label}>{snap.label}</span>
+              <button
+                onClick={() => onRestore(snap.id)}
+                className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white"
+                title="Restore this version"
+              >
+                <RotateCcw size={12} />
+              </button>
+            </div>
+            <div className="pl-6 mt-0.5 text-[10px] text-neutral-500 flex gap-2">
+              <span className="font-mono">{new Date(snap.timestamp).toLocaleTimeString()}</span>
+              <span>{snap.nodes.length} nodes</span>
+              {snap.model && <span className="truncate">{snap.model}</span>}
+            </div>
+          </div>
+        ))}
+      </div>
+
+      <div className="p-2 border-t border-black">
+        <button
+          disabled={compareIds.length !== 2}
+          onClick={handleCompare}
+          className="w-full bg-blue-700 hover:bg-blue-600 disabled:opacity-40 disabled:cursor-not-allowed text-white rounded py-1 text-[11px] font-semibold uppercase tracking-wide flex items-center justify-center gap-2"
+        >
+          <GitCompare size={12} /> Compare Selected
+        </button>
+      </div>
+    </div>
+  );
+};
+
+export default HistoryPanel;
@@ -0,0 +1,115 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlueprintInterface, InterfaceFunction } from '../types';
+import { PinList } from './FunctionsPanel';
+
+interface InterfacesPanelProps {
+  interfaces: BlueprintInterface[];
+  implemented: string[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintInterface>) => void;
+  onToggleImplemented: (id: string) => void;
+}
+
+const inputClass = 'bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+const InterfacesPanel: React.FC<InterfacesPanelProps> = ({ interfaces, implemented, onAdd, onUpdate, onToggleImplemented }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const updateFunction = (iface: BlueprintInterface, id: string, patch: Partial<InterfaceFunction>) =>
+    onUpdate(iface.id, { functions: iface.functions.map(f => (f.id === id ? { ...f, ...patch } : f)) });
+
+  const addFunction = (iface: BlueprintInterface) => {
+    const taken = new Set(iface.functions.map(f => f.name));
+    let name = 'NewFunction';
+    for (let i = 0; taken.has(name); i++) name = `NewFunction_${i}`;
+    onUpdate(iface.id, { functions: [...iface.functions, { id: `IFunc_${Math.random().toString(36).substr(2, 6)}`, name, inputs: [], outputs: [] }] });
+  };
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Interfaces
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {interfaces.map(iface => (
+          <div key={iface.id}>
+            <div
+              onClick={() => setExpandedId(expandedId === iface.id ? null : iface.id)}
+              title="Message and Event nodes are in the graph palette"
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === iface.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              <input
+                type="checkbox"
+                checked={implemented.includes(iface.id)}
+                onClick={(e) => e.stopPropagation()}
+                onChange={() => onToggleImplemented(iface.id)}
+                title="Implemented by this Blueprint"
+                className="accent-[#0070e0]"
+              />
+              <span className="truncate">{iface.name}</span>
+              <span className="ml-auto text-[9px] text-neutral-500">{iface.functions.length}</span>
+            </div>
+
+            {expandedId === iface.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-2">
+                <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+                  <span>Name</span>
+                  <input
+                    key={iface.name}
+                    defaultValue={iface.name}
+                    onBlur={(e) => { if (e.target.value !== iface.name) onUpdate(iface.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </label>
+                <div className="flex items-center justify-between text-[10px] text-neutral-500">
+                  <span>Functions</span>
+                  <button onClick={() => addFunction(iface)} title="Add function" className="text-neutral-500 hover:text-white">
+                    <Plus size={11} />
+                  </button>
+                </div>
+                {iface.functions.map(fn => (
+                  <div key={fn.id} className="flex flex-col gap-1.5 pl-2 border-l border-neutral-700">
+                    <div className="flex items-center gap-1">
+                      <span className="text-blue-400 font-serif italic text-[10px]">f</span>
+                      <input
+                        key={fn.name}
+                        defaultValue={fn.name}
+                        onBlur={(e) => { if (e.target.value.trim() && e.target.value !== fn.name) updateFunction(iface, fn.id, { name: e.target.value.trim() }); }}
+                        onKeyDown={commitOnEnter}
+                        className={`${inputClass} min-w-0 flex-1`}
+                      />
+                      <button
+                        onClick={() => onUpdate(iface.id, { functions: iface.functions.filter(f => f.id !== fn.id) })}
+                        title="Remove"
+                        className="text-neutral-600 hover:text-red-400"
+                      >
+                        <X size={11} />
+                      </button>
+                    </div>
+                    <PinList title="Inputs" pins={fn.inputs} isOutput={false} onChange={(inputs) => updateFunction(iface, fn.id, { inputs })} />
+                    <PinList title="Outputs" pins={fn.outputs} isOutput={true} onChange={(outputs) => updateFunction(iface, fn.id, { outputs })} />
+                  </div>
+                ))}
+                {iface.functions.length === 0 && <div className="text-[10px] text-neutral-600 italic">None</div>}
+              </div>
+            )}
+          </div>
+        ))}
+        {interfaces.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No interfaces</div>}
+      </div>
+    </div>
+  );
+};
+
+export default InterfacesPanel;
@@ -0,0 +1,87 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Search } from 'lucide-react';
+import { PaletteEntry, searchCatalog } from '../utils/nodeCatalog';
+
+interface NodePaletteProps {
+  entries: PaletteEntry[];
+  title: string;
+  position: { x: number; y: number };   // Relative to the canvas wrapper
+  onChoose: (entry: PaletteEntry) => void;
+  onClose: () => void;
+}
+
+const NodePalette: React.FC<NodePaletteProps> = ({ entries, title, position, onChoose, onClose }) => {
+  const [query, setQuery] = useState('');
+  const [highlighted, setHighlighted] = useState(0);
+  const listRef = useRef<HTMLDivElement>(null);
+
+  const results = useMemo(() => searchCatalog(entries, query), [entries, query]);
+
+  // Without a query the list reads like the editor's: grouped by category
+  const rows = useMemo(() => {
+    if (query.trim()) return results.map(entry => ({ entry, header: undefined as string | undefined }));
+    return results.map((entry, i) => ({ entry, header: i === 0 || results[i - 1].category !== entry.category ? entry.category : undefined }));
+  }, [results, query]);
+
+  useEffect(() => setHighlighted(0), [query]);
+
+  useEffect(() => {
+    listRef.current?.querySelector(`[data-index="${highlighted}"]`)?.scrollIntoView({ block: 'nearest' });
+  }, [highlighted]);
+
+  const onKeyDown = (e: React.KeyboardEvent) => {
+    if (e.key === 'ArrowDown') {
+      e.preventDefault();
+      setHighlighted(i => Math.min(i + 1, results.length - 1));
+    } else if (e.key === 'ArrowUp') {
+      e.preventDefault();
+      setHighlighted(i => Math.max(i - 1, 0));
+    } else if (e.key === 'Enter') {
+      e.preventDefault();
+      if (results[highlighted]) onChoose(results[highlighted]);
+    } else if (e.key === 'Escape') {
+      e.preventDefault();
+      onClose();
+    }
+  };
+
+  return (
+    <div
+      className="absolute z-30 w-72 bg-[#1a1a1a] border border-neutral-700 rounded shadow-2xl text-xs text-gray-300 flex flex-col"
+      style={{ left: position.x, top: position.y }}
+      onContextMenu={(e) => e.preventDefault()}
+    >
+      <div className="px-2 pt-2 pb-1 text-[10px] font-semibold text-neutral-400 truncate">{title}</div>
+      <div className="mx-2 mb-1 flex items-center gap-1.5 bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 focus-within:border-blue-500">
+        <Search size={11} className="text-neutral-500 shrink-0" />
+        <input
+          autoFocus
+          value={query}
+          onChange={(e) => setQuery(e.target.value)}
+          onKeyDown={onKeyDown}
+          placeholder="Search"
+          className="flex-1 min-w-0 bg-transparent py-1 text-[11px] text-gray-200 focus:outline-none"
+        />
+      </div>
+      <div ref={listRef} className="max-h-72 overflow-y-auto custom-scrollbar pb-1">
+        {rows.map(({ entry, header }, i) => (
+          <React.Fragment key={entry.key}>
+            {header && <div className="px-2 pt-1.5 pb-0.5 text-[10px] font-semibold text-neutral-500">{header}</div>}
+            <button
+              data-index={i}
+              onClick={() => onChoose(entry)}
+              onMouseEnter={() => setHighlighted(i)}
+              className={`w-full flex items-center gap-2 text-left px-4 py-0.5 ${i === highlighted ? 'bg-[#0070e0] text-white' : ''}`}
+            >
+              <span className="truncate">{entry.label}</span>
+              {query.trim() && <span className="ml-auto shrink-0 text-[9px] text-neutral-500">{entry.category}</span>}
+            </button>
+          </React.Fragment>
+        ))}
+        {rows.length === 0 && <div className="px-4 py-1 text-[10px] text-neutral-600 italic">No matching nodes</div>}
+      </div>
+    </div>
+  );
+};
+
+export default NodePalette;
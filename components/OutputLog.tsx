@@ -0,0 +1,171 @@
+import React, { useEffect, useMemo, useRef, useState } from 'react';
+import { Terminal, Search, Download, Crosshair } from 'lucide-react';
+import { BPNode, LogEntry, LogLevel, LogReference } from '../types';
+import { downloadBlob } from '../utils/download';
+
+interface OutputLogProps {
+  logs: LogEntry[];
+  nodes: BPNode[];
+  onNavigate: (ref: LogReference) => void;
+  onCollapse: () => void;
+  children?: React.ReactNode; // Pinned content above the entries (blueprint summary)
+}
+
+type SeverityFilter = 'error' | 'warning' | 'info' | 'verbose';
+
+const FILTERS: Array<{ id: SeverityFilter; label: string; className: string }> = [
+  { id: 'error', label: 'Errors', className: 'text-red-400' },
+  { id: 'warning', label: 'Warnings', className: 'text-yellow-400' },
+  { id: 'info', label: 'Info', className: 'text-gray-300' },
+  { id: 'verbose', label: 'Verbose', className: 'text-neutral-500' }
+];
+
+// Success messages are shown with info
+const filterFor = (type: LogLevel): SeverityFilter => (type === 'success' ? 'info' : type);
+
+type MessagePart = string | { text: string; ref: LogReference };
+
+// Quoted tokens ("Print String", "pin_id") become links when they name a node or pin
+const linkifyMessage = (entry: LogEntry, nodes: BPNode[]): MessagePart[] => {
+  const refNode = entry.ref?.nodeId ? nodes.find(n => n.id === entry.ref!.nodeId) : undefined;
+
+  const resolve = (token: string): LogReference | null => {
+    if (refNode) {
+      const pin = [...refNode.data.inputs, ...refNode.data.outputs].find(p => p.id === token || p.name === token);
+      if (pin) return { nodeId: refNode.id, pinId: pin.id };
+      if (refNode.id === token || refNode.data.label === token) return { nodeId: refNode.id };
+    }
+    const byId = nodes.find(n => n.id === token);
+    if (byId) return { nodeId: byId.id };
+    const byLabel = nodes.filter(n => n.data.label === token);
+    if (byLabel.length === 1) return { nodeId: byLabel[0].id };
+    return null;
+  };
+
+  const parts: MessagePart[] = [];
+  const pattern = /"([^"]+)"/g;
+  let last = 0;
+  let match: RegExpExecArray | null;
+  while ((match = pattern.exec(entry.message))) {
+    const ref = resolve(match[1]);
+    if (!ref) continue;
+    if (match.index > last) parts.push(entry.message.slice(last, match.index));
+    parts.push({ text: match[0], ref });
+    last = match.index + match[0].length;
+  }
+  if (last < entry.message.length) parts.push(entry.message.slice(last));
+  return parts;
+};
+
+const exportLog = (logs: LogEntry[]) => {
+  const text = logs
+    .map(log => `[${log.timestamp}] ${log.type.toUpperCase().padEnd(7)} ${log.message}`)
+    .join('\n');
+  downloadBlob(new Blob([text], { type: 'text/plain' }), `OutputLog_${new Date().toISOString().replace(/[:.]/g, '-')}.txt`);
+};
+
+const OutputLog: React.FC<OutputLogProps> = ({ logs, nodes, onNavigate, onCollapse, children }) => {
+  const [enabled, setEnabled] = useState<Record<SeverityFilter, boolean>>({ error: true, warning: true, info: true, verbose: true });
+  const [query, setQuery] = useState('');
+  const endRef = useRef<HTMLDivElement>(null);
+
+  const visible = useMemo(() => {
+    const q = query.trim().toLowerCase();
+    return logs.filter(log => enabled[filterFor(log.type)] && (!q || log.message.toLowerCase().includes(q)));
+  }, [logs, enabled, query]);
+
+  const counts = useMemo(() => {
+    const result: Record<SeverityFilter, number> = { error: 0, warning: 0, info: 0, verbose: 0 };
+    logs.forEach(log => { result[filterFor(log.type)]++; });
+    return result;
+  }, [logs]);
+
+  useEffect(() => {
+    endRef.current?.scrollIntoView({ behavior: 'smooth' });
+  }, [logs]);
+
+  return (
+    <div className="h-48 bg-[#111] border-t border-black flex flex-col z-30 transition-all">
+      <div className="h-7 bg-[#1a1a1a] border-b border-black flex items-center px-4 gap-3">
+        <div className="flex items-center gap-2 cursor-pointer" onClick={onCollapse}>
+          <Terminal size={12} className="text-gray-400" />
+          <span className="text-xs font-semibold text-gray-300">Output Log</span>
+          {logs.length > 0 && <span className="bg-neutral-700 text-gray-300 text-[10px] px-1.5 rounded-full">{logs.length}</span>}
+        </div>
+
+        <div className="flex items-center gap-1 ml-2">
+          {FILTERS.map(f => (
+            <button
+              key={f.id}
+              onClick={() => setEnabled(prev => ({ ...prev, [f.id]: !prev[f.id] }))}
+              className={`text-[10px] px-1.5 py-0.5 rounded border transition-colors ${enabled[f.id] ? `${f.className} border-neutral-600 bg-neutral-800` : 'text-neutral-600 border-transparent line-through'}`}
+            >
+              {f.label} {counts[f.id]}
+            </button>
+          ))}
+        </div>
+
+        <div className="relative ml-auto">
+          <Search size={10} className="absolute left-2 top-1/2 -translate-y-1/2 text-neutral-500" />
+          <input
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Search log..."
+            className="bg-[#0a0a0a] border border-neutral-700 rounded py-0.5 pl-6 pr-2 text-[10px] text-gray-300 w-40 focus:outline-none focus:border-blue-500 placeholder-neutral-600"
+          />
+        </div>
+        <button
+          onClick={() => exportLog(visible)}
+          disabled={visible.length === 0}
+          title="Save the visible entries to a text file"
+          className="text-neutral-400 hover:text-white disabled:opacity-30"
+        >
+          <Download size={12} />
+        </button>
+        <span className="text-[10px] text-neutral-500 cursor-pointer" onClick={onCollapse}>▼</span>
+      </div>
+
+      <div className="flex-1 overflow-y-auto custom-scrollbar p-2 font-mono text-[11px] flex flex-col gap-1">
+        {logs.length === 0 && (
+          <div className="text-neutral-600 italic p-2">No logs available. Generate logic or compile to see output.</div>
+        )}
+
+        {children}
+
+        {visible.map(log => (
+          <div
+            key={log.id}
+            onClick={log.ref ? () => onNavigate(log.ref!) : undefined}
+            title={log.ref ? 'Click to show in graph' : undefined}
+            className={`flex items-start gap-2 px-1 py-0.5 hover:bg-white/5 rounded
+              ${log.ref ? 'cursor-pointer' : ''}
+              ${log.type === 'error' ? 'text-red-400' : ''}
+              ${log.type === 'success' ? 'text-green-400' : ''}
+              ${log.type === 'warning' ? 'text-yellow-400' : ''}
+              ${log.type === 'verbose' ? 'text-neutral-500' : 'text-gray-300'}
+            `}
+          >
+            <span className="text-neutral-600 select-none">[{log.timestamp}]</span>
+            <span className="break-all flex-1">
+              {linkifyMessage(log, nodes).map((part, i) => typeof part === 'string' ? (
+                <React.Fragment key={i}>{part}</React.Fragment>
+              ) : (
+                <span
+                  key={i}
+                  onClick={(e) => { e.stopPropagation(); onNavigate(part.ref); }}
+                  className="text-[#4da6ff] hover:underline cursor-pointer"
+                >
+                  {part.text}
+                </span>
+              ))}
+            </span>
+            {log.ref && <Crosshair size={10} className="mt-0.5 shrink-0 opacity-50" />}
+          </div>
+        ))}
+        <div ref={endRef} />
+      </div>
+    </div>
+  );
+};
+
+export default OutputLog;
@@ -0,0 +1,24 @@
+import React, { memo } from 'react';
+import { Handle, NodeProps, Position } from '@xyflow/react';
+import { BPNode, PinType } from '../types';
+import { typeColor } from '../utils/pinSchema';
+
+// A knot: one dot in the wire's colour, with the input and output handles on top of each other
+const RerouteNode = ({ data, selected }: NodeProps<BPNode>) => {
+  const [input] = data.inputs;
+  const [output] = data.outputs;
+  const color = input?.type === PinType.Exec ? '#ffffff' : typeColor(input?.type ?? PinType.Boolean);
+  const handleClass = '!w-4 !h-4 !min-w-0 !bg-transparent !border-0 !top-1/2 !left-1/2 !-translate-x-1/2 !-translate-y-1/2';
+
+  return (
+    <div
+      className="w-3 h-3 rounded-full"
+      style={{ background: color, boxShadow: selected ? '0 0 0 2px #f5a623' : '0 0 0 1px rgba(0,0,0,0.6)' }}
+    >
+      {input && <Handle type="target" position={Position.Left} id={input.id} className={handleClass} />}
+      {output && <Handle type="source" position={Position.Right} id={output.id} className={handleClass} />}
+    </div>
+  );
+};
+
+export default memo(RerouteNode);
@@ -0,0 +1,139 @@
+import React, { useState } from 'react';
+import { Plus, X } from 'lucide-react';
+import { BlueprintEnum, BlueprintStruct, PinType, StructMember } from '../types';
+import { VARIABLE_TYPES } from '../utils/variableNodes';
+import { pinTypeName, typeColor, typeName } from '../utils/pinSchema';
+import { UserTypes, subTypesFor } from '../utils/engineTypes';
+
+interface StructsPanelProps {
+  structs: BlueprintStruct[];
+  enums: BlueprintEnum[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintStruct>) => void;
+}
+
+const inputClass = 'bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+  if (e.key === 'Enter') e.currentTarget.blur();
+};
+
+const MemberRow: React.FC<{
+  member: StructMember;
+  userTypes: UserTypes;
+  onChange: (patch: Partial<StructMember>) => void;
+  onRemove: () => void;
+}> = ({ member, userTypes, onChange, onRemove }) => {
+  const subTypes = subTypesFor(member.type, userTypes);
+  return (
+    <div className="flex flex-col gap-0.5" title={pinTypeName(member)}>
+      <div className="flex items-center gap-1">
+        <div className="w-2 h-2 rounded-full shrink-0" style={{ background: typeColor(member.type) }}></div>
+        <input
+          key={member.name}
+          defaultValue={member.name}
+          onBlur={(e) => { if (e.target.value.trim() && e.target.value !== member.name) onChange({ name: e.target.value.trim() }); }}
+          onKeyDown={commitOnEnter}
+          className={`${inputClass} min-w-0 flex-1`}
+        />
+        <select value={member.type} onChange={(e) => onChange({ type: e.target.value as PinType, subType: undefined, defaultValue: undefined })} className={`${inputClass} w-[72px]`}>
+          {VARIABLE_TYPES.map(t => <option key={t} value={t}>{typeName(t)}</option>)}
+        </select>
+        <button onClick={onRemove} title="Remove" className="text-neutral-600 hover:text-red-400">
+          <X size={11} />
+        </button>
+      </div>
+      {subTypes.length > 0 && (
+        <input
+          key={`${member.type}:${member.subType}`}
+          defaultValue={member.subType || ''}
+          list={`struct-member-subtypes-${member.type}`}
+          placeholder={member.type === PinType.Byte ? 'Enum' : member.type === PinType.Struct ? 'Struct' : 'Class'}
+          onBlur={(e) => { if ((e.target.value.trim() || undefined) !== member.subType) onChange({ subType: e.target.value.trim() || undefined }); }}
+          onKeyDown={commitOnEnter}
+          className={`${inputClass} ml-3`}
+        />
+      )}
+      {subTypes.length > 0 && (
+        <datalist id={`struct-member-subtypes-${member.type}`}>
+          {subTypes.map(name => <option key={name} value={name} />)}
+        </datalist>
+      )}
+    </div>
+  );
+};
+
+const StructsPanel: React.FC<StructsPanelProps> = ({ structs, enums, onAdd, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  const addMember = (st: BlueprintStruct) => {
+    const taken = new Set(st.members.map(m => m.name));
+    let name = 'NewMember';
+    for (let i = 0; taken.has(name); i++) name = `NewMember_${i}`;
+    onUpdate(st.id, { members: [...st.members, { id: `Member_${Math.random().toString(36).substr(2, 6)}`, name, type: PinType.Boolean }] });
+  };
+
+  return (
+    <div className="mt-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Structures
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {structs.map(st => (
+          <div key={st.id}>
+            <div
+              onClick={() => setExpandedId(expandedId === st.id ? null : st.id)}
+              title={st.tooltip || 'Make/Break nodes are in the graph palette'}
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === st.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              <div className="w-2 h-1 rounded-full shrink-0" style={{ background: typeColor(PinType.Struct) }}></div>
+              <span className="truncate">{st.name}</span>
+              <span className="ml-auto text-[9px] text-neutral-500">{st.members.length}</span>
+            </div>
+
+            {expandedId === st.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-2">
+                <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+                  <span>Name</span>
+                  <input
+                    key={st.name}
+                    defaultValue={st.name}
+                    onBlur={(e) => { if (e.target.value !== st.name) onUpdate(st.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </label>
+                <div className="flex flex-col gap-1">
+                  <div className="flex items-center justify-between text-[10px] text-neutral-500">
+                    <span>Members</span>
+                    <button onClick={() => addMember(st)} title="Add member" className="text-neutral-500 hover:text-white">
+                      <Plus size={11} />
+                    </button>
+                  </div>
+                  {st.members.map(member => (
+                    <MemberRow
+                      key={member.id}
+                      member={member}
+                      userTypes={{ structs, enums }}
+                      onChange={(patch) => onUpdate(st.id, { members: st.members.map(m => (m.id === member.id ? { ...m, ...patch } : m)) })}
+                      onRemove={() => onUpdate(st.id, { members: st.members.filter(m => m.id !== member.id) })}
+                    />
+                  ))}
+                  {st.members.length === 0 && <div className="text-[10px] text-neutral-600 italic">None</div>}
+                </div>
+              </div>
+            )}
+          </div>
+        ))}
+        {structs.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No structures</div>}
+      </div>
+    </div>
+  );
+};
+
+export default StructsPanel;
@@ -0,0 +1,188 @@
+import React, { useState } from 'react';
+import { Plus } from 'lucide-react';
+import { BlueprintEnum, BlueprintStruct, BlueprintVariable, PinContainer, PinType } from '../types';
+import { VARIABLE_DRAG_TYPE, VARIABLE_TYPES } from '../utils/variableNodes';
+import { PIN_CONTAINERS, typeColor, typeName } from '../utils/pinSchema';
+import { PinIcon } from './CustomBlueprintNode';
+import { findEnum, subTypesFor } from '../utils/engineTypes';
+
+interface VariablesPanelProps {
+  variables: BlueprintVariable[];
+  structs: BlueprintStruct[];
+  enums: BlueprintEnum[];
+  onAdd: () => void;
+  onUpdate: (id: string, patch: Partial<BlueprintVariable>) => void;
+}
+
+const inputClass = 'w-full bg-[#0a0a0a] border border-neutral-700 rounded px-1.5 py-0.5 text-[11px] text-gray-200 focus:outline-none focus:border-blue-500';
+
+const Field: React.FC<{ label: string; children: React.ReactNode }> = ({ label, children }) => (
+  <label className="grid grid-cols-[64px_1fr] items-center gap-2 text-[10px] text-neutral-500">
+    <span className="truncate">{label}</span>
+    {children}
+  </label>
+);
+
+const VariablesPanel: React.FC<VariablesPanelProps> = ({ variables, structs, enums, onAdd, onUpdate }) => {
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+
+  // Text fields commit on blur/Enter so a rename isn't applied per keystroke
+  const commitOnEnter = (e: React.KeyboardEvent<HTMLInputElement>) => {
+    if (e.key === 'Enter') e.currentTarget.blur();
+  };
+
+  return (
+    <div className="mb-1">
+      <div className="flex items-center justify-between px-3 py-1 bg-neutral-800/50 hover:bg-neutral-800 cursor-pointer group">
+        <span className="text-xs font-semibold text-gray-300 flex items-center gap-1">
+          <span className="text-neutral-500 text-[10px]">▼</span> Variables
+        </span>
+        <button onClick={onAdd} className="opacity-0 group-hover:opacity-100 text-neutral-400 hover:text-white">
+          <Plus size={12} />
+        </button>
+      </div>
+      <div className="flex flex-col">
+        {variables.map(v => (
+          <div key={v.id}>
+            <div
+              draggable
+              onDragStart={(e) => {
+                e.dataTransfer.setData(VARIABLE_DRAG_TYPE, v.id);
+                e.dataTransfer.effectAllowed = 'copy';
+              }}
+              onClick={() => setExpandedId(expandedId === v.id ? null : v.id)}
+              title={v.tooltip || 'Drag onto the graph to create a Get/Set node'}
+              className={`flex items-center gap-2 px-6 py-1 cursor-pointer text-xs ${expandedId === v.id ? 'bg-[#0070e0] text-white' : 'text-gray-400 hover:bg-[#0070e0]/40 hover:text-white'}`}
+            >
+              {v.container
+                ? <PinIcon type={v.type} container={v.container} valueType={v.valueType} isConnected={true} />
+                : <div className="w-2 h-1 rounded-full shrink-0" style={{ background: typeColor(v.type) }}></div>}
+              <span className="truncate">{v.name}</span>
+              {v.category && v.category !== 'Default' && <span className="ml-auto text-[9px] text-neutral-500 truncate">{v.category}</span>}
+            </div>
+
+            {expandedId === v.id && (
+              <div className="px-4 py-2 bg-[#161616] border-y border-white/5 flex flex-col gap-1.5">
+                <Field label="Name">
+                  <input
+                    key={v.name}
+                    defaultValue={v.name}
+                    onBlur={(e) => { if (e.target.value !== v.name) onUpdate(v.id, { name: e.target.value }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label={v.container === 'map' ? 'Key Type' : 'Type'}>
+                  <select value={v.type} onChange={(e) => onUpdate(v.id, { type: e.target.value as PinType, subType: undefined })} className={inputClass}>
+                    {VARIABLE_TYPES.map(t => <option key={t} value={t}>{typeName(t)}</option>)}
+                  </select>
+                </Field>
+                {subTypesFor(v.type, { structs, enums }).length > 0 && (
+                  <Field label={v.type === PinType.Byte ? 'Enum' : v.type === PinType.Struct ? 'Struct' : 'Class'}>
+                    <input
+                      key={`${v.type}:${v.subType}`}
+                      defaultValue={v.subType || ''}
+                      list={`subtypes-${v.type}`}
+                      placeholder="Any"
+                      onBlur={(e) => { if ((e.target.value.trim() || undefined) !== v.subType) onUpdate(v.id, { subType: e.target.value.trim() || undefined }); }}
+                      onKeyDown={commitOnEnter}
+                      className={inputClass}
+                    />
+                    <datalist id={`subtypes-${v.type}`}>
+                      {subTypesFor(v.type, { structs, enums }).map(name => <option key={name} value={name} />)}
+                    </datalist>
+                  </Field>
+                )}
+                <Field label="Container">
+                  <select
+                    value={v.container || ''}
+                    onChange={(e) => {
+                      const container = (e.target.value || undefined) as PinContainer | undefined;
+                      onUpdate(v.id, { container, valueType: container === 'map' ? v.valueType ?? PinType.Boolean : undefined });
+                    }}
+                    className={inputClass}
+                  >
+                    <option value="">Single</option>
+                    {PIN_CONTAINERS.map(c => <option key={c} value={c}>{c.charAt(0).toUpperCase() + c.slice(1)}</option>)}
+                  </select>
+                </Field>
+                {v.container === 'map' && (
+                  <Field label="Value Type">
+                    <select value={v.valueType ?? PinType.Boolean} onChange={(e) => onUpdate(v.id, { valueType: e.target.value as PinType })} className={inputClass}>
+                      {VARIABLE_TYPES.map(t => <option key={t} value={t}>{typeName(t)}</option>)}
+                    </select>
+                  </Field>
+                )}
+                {!v.container && (
+                  <Field label="Default">
+                    {v.type === PinType.Boolean ? (
+                      <input
+                        type="checkbox"
+                        checked={v.defaultValue === 'true'}
+                        onChange={(e) => onUpdate(v.id, { defaultValue: e.target.checked ? 'true' : 'false' })}
+                        className="justify-self-start accent-blue-500"
+                      />
+                    ) : findEnum(v.type === PinType.Byte ? v.subType : undefined, enums) ? (
+                      <select value={v.defaultValue || ''} onChange={(e) => onUpdate(v.id, { defaultValue: e.target.value })} className={inputClass}>
+                        {findEnum(v.subType, enums)!.values.map(value => <option key={value} value={value}>{value}</option>)}
+                      </select>
+                    ) : (
+                      <input
+                        key={`${v.type}:${v.defaultValue}`}
+                        defaultValue={v.defaultValue || ''}
+                        placeholder={v.type === PinType.Vector || v.type === PinType.Rotator ? '0, 0, 0' : ''}
+                        onBlur={(e) => { if (e.target.value !== (v.defaultValue || '')) onUpdate(v.id, { defaultValue: e.target.value }); }}
+                        onKeyDown={commitOnEnter}
+                        className={inputClass}
+                      />
+                    )}
+                  </Field>
+                )}
+                <Field label="Category">
+                  <input
+                    key={v.category}
+                    defaultValue={v.category || ''}
+                    placeholder="Default"
+                    onBlur={(e) => { if ((e.target.value.trim() || undefined) !== v.category) onUpdate(v.id, { category: e.target.value.trim() || undefined }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </Field>
+                <Field label="Tooltip">
+                  <input
+                    key={v.tooltip}
+                    defaultValue={v.tooltip || ''}
+                    onBlur={(e) => { if ((e.target.value.trim() || undefined) !== v.tooltip) onUpdate(v.id, { tooltip: e.target.value.trim() || undefined }); }}
+                    onKeyDown={commitOnEnter}
+                    className={inputClass}
+                  />
+                </Field>
+                <label className="flex items-center gap-2 text-[10px] text-neutral-400">
+                  <input
+                    type="checkbox"
+                    checked={v.instanceEditable !== false}
+                    onChange={(e) => onUpdate(v.id, { instanceEditable: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  Instance Editable
+                </label>
+                <label className="flex items-center gap-2 text-[10px] text-neutral-400">
+                  <input
+                    type="checkbox"
+                    checked={!!v.exposeOnSpawn}
+                    onChange={(e) => onUpdate(v.id, { exposeOnSpawn: e.target.checked })}
+                    className="accent-blue-500"
+                  />
+                  Expose on Spawn
+                </label>
+              </div>
+            )}
+          </div>
+        ))}
+        {variables.length === 0 && <div className="px-6 py-1 text-[10px] text-neutral-600 italic">No variables</div>}
+      </div>
+    </div>
+  );
+};
+
+export default VariablesPanel;
@@ -0,0 +1,283 @@
+import { NodeType, PinType } from "../types";
+import { PIN_CONTAINERS } from "../utils/pinSchema";
+
+// Minimal JSON Schema subset: enough to describe GeneratedBlueprint for
+// provider-side structured output AND to validate the response locally.
+export interface JsonSchema {
+  type?: 'object' | 'array' | 'string' | 'number' | 'boolean';
+  properties?: Record<string, JsonSchema>;
+  required?: string[];
+  items?: JsonSchema;
+  enum?: string[];
+  description?: string;
+}
+
+export interface SchemaIssue {
+  path: string;    // e.g. "nodes[2].inputs[0].type"
+  message: string;
+}
+
+export class SchemaValidationError extends Error {
+  issues: SchemaIssue[];
+
+  constructor(issues: SchemaIssue[]) {
+    super(`Schema validation failed with ${issues.length} issue(s)`);
+    this.name = 'SchemaValidationError';
+    this.issues = issues;
+  }
+}
+
+const PIN_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string', description: 'Unique pin id, "{NodeID}_{PinName}"' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: Object.values(PinType), description: 'Element type for container pins (key type for maps)' },
+    container: { type: 'string', enum: PIN_CONTAINERS, description: 'Omit for single values' },
+    valueType: { type: 'string', enum: Object.values(PinType), description: 'Map value type' },
+    subType: { type: 'string', description: 'Class, struct or enum of an object/class/struct/byte pin, e.g. "AActor"' },
+    defaultValue: { type: 'string' },
+    value: { type: 'string' }
+  },
+  required: ['id', 'name', 'type']
+};
+
+const NODE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    label: { type: 'string' },
+    // Comment boxes and reroute nodes are drawn by the editor; the model groups nodes instead
+    nodeType: { type: 'string', enum: Object.values(NodeType).filter(t => t !== NodeType.Comment && t !== NodeType.Reroute) },
+    inputs: { type: 'array', items: PIN_SCHEMA },
+    outputs: { type: 'array', items: PIN_SCHEMA },
+    comment: { type: 'string' },
+    group: { type: 'string', description: 'Title of the comment region framing this node' }
+  },
+  required: ['id', 'label', 'nodeType', 'inputs', 'outputs']
+};
+
+const EDGE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    source: { type: 'string' },
+    target: { type: 'string' },
+    sourceHandle: { type: 'string', description: "Must match an id in the source node's outputs" },
+    targetHandle: { type: 'string', description: "Must match an id in the target node's inputs" }
+  },
+  required: ['source', 'target', 'sourceHandle', 'targetHandle']
+};
+
+const VARIABLE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: Object.values(PinType) },
+    container: { type: 'string', enum: PIN_CONTAINERS },
+    valueType: { type: 'string', enum: Object.values(PinType) },
+    subType: { type: 'string' },
+    defaultValue: { type: 'string' },
+    category: { type: 'string' },
+    tooltip: { type: 'string' },
+    instanceEditable: { type: 'boolean' },
+    exposeOnSpawn: { type: 'boolean' }
+  },
+  required: ['id', 'name', 'type']
+};
+
+const FUNCTION_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    inputs: { type: 'array', items: PIN_SCHEMA },
+    outputs: { type: 'array', items: PIN_SCHEMA },
+    nodes: { type: 'array', items: NODE_SCHEMA, description: 'Function body, from a function_entry node to a function_result node' },
+    edges: { type: 'array', items: EDGE_SCHEMA }
+  },
+  required: ['id', 'name', 'inputs', 'outputs']
+};
+
+const STRUCT_MEMBER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string' },
+    type: { type: 'string', enum: Object.values(PinType) },
+    container: { type: 'string', enum: PIN_CONTAINERS },
+    valueType: { type: 'string', enum: Object.values(PinType) },
+    subType: { type: 'string' },
+    defaultValue: { type: 'string' },
+    tooltip: { type: 'string' }
+  },
+  required: ['id', 'name', 'type']
+};
+
+const STRUCT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', description: 'C++ name with the F prefix, e.g. "FInventoryItem"' },
+    members: { type: 'array', items: STRUCT_MEMBER_SCHEMA },
+    tooltip: { type: 'string' }
+  },
+  required: ['id', 'name', 'members']
+};
+
+const ENUM_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', description: 'C++ name with the E prefix, e.g. "EWeaponState"' },
+    values: { type: 'array', items: { type: 'string' } },
+    tooltip: { type: 'string' }
+  },
+  required: ['id', 'name', 'values']
+};
+
+const DISPATCHER_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', description: 'e.g. "OnHealthChanged"' },
+    inputs: { type: 'array', items: PIN_SCHEMA, description: 'Signature; bound events receive these' },
+    tooltip: { type: 'string' }
+  },
+  required: ['id', 'name', 'inputs']
+};
+
+const INTERFACE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    id: { type: 'string' },
+    name: { type: 'string', description: 'e.g. "BPI_Interactable"' },
+    functions: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          id: { type: 'string' },
+          name: { type: 'string' },
+          inputs: { type: 'array', items: PIN_SCHEMA },
+          outputs: { type: 'array', items: PIN_SCHEMA }
+        },
+        required: ['id', 'name', 'inputs', 'outputs']
+      }
+    }
+  },
+  required: ['id', 'name', 'functions']
+};
+
+export const BLUEPRINT_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    nodes: { type: 'array', items: NODE_SCHEMA },
+    edges: { type: 'array', items: EDGE_SCHEMA },
+    variables: { type: 'array', items: VARIABLE_SCHEMA },
+    functions: { type: 'array', items: FUNCTION_SCHEMA },
+    structs: { type: 'array', items: STRUCT_SCHEMA },
+    enums: { type: 'array', items: ENUM_SCHEMA },
+    dispatchers: { type: 'array', items: DISPATCHER_SCHEMA },
+    interfaces: { type: 'array', items: INTERFACE_SCHEMA },
+    implementedInterfaces: { type: 'array', items: { type: 'string' }, description: 'Ids of the interfaces this blueprint implements' },
+    targetClass: { type: 'string' },
+    cppCode: { type: 'string' },
+    summary: { type: 'string' },
+    sources: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: { title: { type: 'string' }, url: { type: 'string' } },
+        required: ['title', 'url']
+      }
+    }
+  },
+  required: ['nodes', 'edges', 'summary']
+};
+
+const MODIFY_NODE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: { ...NODE_SCHEMA.properties },
+  required: ['id']
+};
+
+// Refinement mode: the model returns only what changed relative to the current graph
+export const DELTA_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    addNodes: { type: 'array', items: NODE_SCHEMA },
+    removeNodes: { type: 'array', items: { type: 'string' } },
+    modifyNodes: { type: 'array', items: MODIFY_NODE_SCHEMA },
+    addEdges: { type: 'array', items: EDGE_SCHEMA },
+    removeEdges: { type: 'array', items: { type: 'string' } },
+    variables: { type: 'array', items: VARIABLE_SCHEMA },
+    functions: { type: 'array', items: FUNCTION_SCHEMA },
+    structs: { type: 'array', items: STRUCT_SCHEMA },
+    enums: { type: 'array', items: ENUM_SCHEMA },
+    dispatchers: { type: 'array', items: DISPATCHER_SCHEMA },
+    interfaces: { type: 'array', items: INTERFACE_SCHEMA },
+    implementedInterfaces: { type: 'array', items: { type: 'string' }, description: 'Ids of the interfaces this blueprint implements' },
+    targetClass: { type: 'string' },
+    cppCode: { type: 'string' },
+    summary: { type: 'string' }
+  },
+  required: ['addNodes', 'removeNodes', 'modifyNodes', 'addEdges', 'removeEdges', 'summary']
+};
+
+const typeOf = (value: unknown): string => {
+  if (value === null) return 'null';
+  if (Array.isArray(value)) return 'array';
+  return typeof value;
+};
+
+const validateValue = (value: unknown, schema: JsonSchema, path: string, issues: SchemaIssue[]) => {
+  const actual = typeOf(value);
+
+  if (schema.type && actual !== schema.type) {
+    issues.push({ path, message: `Expected ${schema.type}, got ${actual}` });
+    return;
+  }
+
+  if (schema.enum && !schema.enum.includes(value as string)) {
+    issues.push({ path, message: `Invalid value ${JSON.stringify(value)}. Allowed: ${schema.enum.join(', ')}` });
+  }
+
+  if (schema.type === 'object' && schema.properties) {
+    const obj = value as Record<string, unknown>;
+    (schema.required || []).forEach(key => {
+      if (obj[key] === undefined) issues.push({ path: `${path}.${key}`, message: 'Missing required field' });
+    });
+    Object.entries(schema.properties).forEach(([key, propSchema]) => {
+      if (obj[key] !== undefined) validateValue(obj[key], propSchema, `${path}.${key}`, issues);
+    });
+  }
+
+  if (schema.type === 'array' && schema.items) {
+    (value as unknown[]).forEach((item, i) => validateValue(item, schema.items!, `${path}[${i}]`, issues));
+  }
+};
+
+export const validateJson = (value: unknown, schema: JsonSchema): SchemaIssue[] => {
+  const issues: SchemaIssue[] = [];
+  validateValue(value, schema, '$', issues);
+  // Drop the "$." root prefix so paths read like "nodes[0].label"
+  return issues.map(issue => ({ ...issue, path: issue.path.replace(/^\$\.?/, '') || '(root)' }));
+};
+
+export const validateBlueprintJson = (value: unknown): SchemaIssue[] => validateJson(value, BLUEPRINT_SCHEMA);
+
+// Parses raw model text into JSON. Structured output gives us bare JSON; models
+// without it sometimes still wrap the payload in a single markdown fence.
+export const parseModelJson = (text: string): unknown => {
+  let body = text.trim();
+  const fenced = body.match(/^```(?:json)?\s*([\s\S]*?)\s*```$/i);
+  if (fenced) body = fenced[1];
+
+  try {
+    return JSON.parse(body);
+  } catch (e) {
+    throw new SchemaValidationError([{ path: '(root)', message: `Response is not valid JSON: ${(e as Error).message}` }]);
+  }
+};
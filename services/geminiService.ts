@@ -1,88 +1,39 @@
-import { GoogleGenAI } from "@google/genai";
-import { GeneratedBlueprint, BPNode, BPEdge } from "../types";
-
-// Helper to safely get Env vars in both Vite (import.meta) and Webpack/Node (process.env)
-const getEnvVar = (key: string): string | undefined => {
-  try {
-    // Vite / Modern Browsers
-    // @ts-ignore
-    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env[key]) {
-      // @ts-ignore
-      return import.meta.env[key];
-    }
-  } catch (e) {}
-
-  try {
-    // Webpack / Node
-    if (typeof process !== 'undefined' && process.env && process.env[key]) {
-      return process.env[key];
-    }
-  } catch (e) {}
-
-  return undefined;
-};
-
-// Helper to inject missing pins for standard nodes if the AI forgets them
+import { GeneratedBlueprint, BPNode, BPEdge, LogLevel, LogReference, BlueprintDelta, BlueprintVariable, BlueprintFunction, BlueprintStruct, BlueprintEnum, BlueprintDispatcher, BlueprintInterface } from "../types";
+import { LLMProvider, LLMRequest, LLMResponse, ProviderConfig, ProviderSettings, getApiKey, getProvider, loadProviderSettings } from "./llmProviders";
+import { LLMError, classifyError } from "./llmErrors";
+import { BLUEPRINT_SCHEMA, DELTA_SCHEMA, JsonSchema, SchemaValidationError, parseModelJson, validateJson } from "./blueprintSchema";
+import { applyBlueprintDelta, placeNewNodes } from "../utils/graphDelta";
+import { extractStreamedItems } from "../utils/streamingJson";
+import { conformToDefinition, findNodeDefinition, propagateWildcards } from "../utils/nodeRegistry";
+import { logicalGraph } from "../utils/rerouteNodes";
+import { isCommentNode } from "../utils/commentNodes";
+
+// Known nodes are reshaped to their registry definition. Anything else only
+// gets the pins its nodeType implies; the label alone says nothing reliable.
 const ensureDefaultPins = (node: any) => {
-  const label = node.label || "";
   const type = node.nodeType;
-  
+
   if (!node.inputs) node.inputs = [];
   if (!node.outputs) node.outputs = [];
 
-  // SKIP PURE NODES: Don't inject Exec pins into Getters, Math, or Questions
-  // This ensures they stay Green (Pure) instead of turning Blue (Impure)
-  const isLikelyPure = 
-     type === 'variable_get' ||
-     label.startsWith('Get ') ||
-     label.startsWith('Make ') ||
-     label.startsWith('Break ') ||
-     label.startsWith('Is ') ||
-     label.startsWith('Find ') ||
-     label.startsWith('Select ') ||
-     label.includes('Math') ||
-     label.includes('+') ||
-     label.includes('-');
-
-  // 1. BRANCH / IF
-  if (label === "Branch" || label === "If") {
-     if (!node.inputs.some((p:any) => p.type === 'exec')) {
-        node.inputs.unshift({ id: `${node.id}_Exec`, name: "Exec", type: 'exec' });
-     }
-     if (!node.inputs.some((p:any) => p.type === 'boolean')) {
-        node.inputs.push({ id: `${node.id}_Condition`, name: "Condition", type: 'boolean' });
-     }
-     if (!node.outputs.some((p:any) => p.name === 'True')) {
-        node.outputs.push({ id: `${node.id}_True`, name: "True", type: 'exec' });
-     }
-     if (!node.outputs.some((p:any) => p.name === 'False')) {
-        node.outputs.push({ id: `${node.id}_False`, name: "False", type: 'exec' });
-     }
-     return node;
+  // Entry/return pins are rebuilt from the function signature, so leave them alone
+  if (type === 'function_entry' || type === 'function_result') return node;
+
+  const definition = type === 'variable_get' || type === 'variable_set' ? undefined : findNodeDefinition(node.label || "");
+  if (definition) {
+     return { ...node, ...conformToDefinition(node.id, definition, node.inputs, node.outputs) };
   }
 
-  // 2. EVENTS
-  if (type === 'event' || label.startsWith('Event') || label.startsWith('On ') || label.startsWith('Input')) {
+  // EVENTS
+  if (type === 'event' || type === 'input_event') {
      if (!node.outputs.some((p:any) => p.type === 'exec')) {
          node.outputs.unshift({ id: `${node.id}_Output`, name: "Output", type: 'exec' });
      }
      return node;
   }
 
-  // 3. SEQUENCE
-  if (label === "Sequence") {
-     if (!node.inputs.some((p:any) => p.type === 'exec')) {
-         node.inputs.unshift({ id: `${node.id}_Exec`, name: "Exec", type: 'exec' });
-     }
-     if (node.outputs.length < 2) {
-         node.outputs.push({ id: `${node.id}_Then0`, name: "Then 0", type: 'exec' });
-         node.outputs.push({ id: `${node.id}_Then1`, name: "Then 1", type: 'exec' });
-     }
-     return node;
-  }
-
-  // 4. SET VARIABLE
-  if (type === 'variable_set' || label.startsWith('Set ')) {
+  // SET VARIABLE
+  if (type === 'variable_set') {
       if (!node.inputs.some((p:any) => p.type === 'exec')) {
           node.inputs.unshift({ id: `${node.id}_Exec`, name: "Exec", type: 'exec' });
       }
@@ -92,7 +43,7 @@ const ensureDefaultPins = (node: any) => {
       return node;
   }
 
-  // 5. GET VARIABLE
+  // GET VARIABLE
   if (type === 'variable_get') {
       if (node.inputs.length > 0 && node.outputs.length === 0) {
           node.outputs = [...node.inputs];
@@ -104,242 +55,575 @@ const ensureDefaultPins = (node: any) => {
       return node;
   }
 
-  // 6. FOR LOOP
-  if (label === "For Loop" || label === "ForEach Loop") {
-      if (!node.inputs.some((p:any) => p.type === 'exec')) {
-          node.inputs.unshift({ id: `${node.id}_Exec`, name: "Exec", type: 'exec' });
+  return node;
+};
+
+const SYSTEM_INSTRUCTION = `
+  You are a world-class Unreal Engine 5.3 Senior Gameplay Programmer. Your primary goal is to generate **100% correct and accurate** Blueprint graphs and C++ code.
+
+  **LOGIC VERIFICATION PROTOCOL (MANDATORY)**:
+  Before outputting JSON, you must perform a silent, internal review of your generated logic. Follow these steps:
+  1.  **Requirement Mapping**: Re-read the user's prompt. Does your graph address every single part of their request?
+  2.  **Execution Flow Analysis**: Trace the white "Exec" wires from the starting Event node. Does the flow make logical sense? Are there any dead ends or infinite loops that are not intentional?
+  3.  **API Validation**: For every function node (e.g., "Get Actor Location", "Apply Damage"), confirm that this function exists on the assumed 'targetClass' (e.g., 'AActor', 'ACharacter'). Verify the pin names and data types match the official Unreal Engine 5.3 documentation. If a function doesn't exist, state that it's not possible or use a known alternative.
+  4.  **Data Flow Analysis**: Trace the colored data wires. Is the output of one node a valid input for the next? (e.g., you cannot plug a Vector into a Boolean).
+  5.  **Correction**: If you find any errors during this review, you MUST correct them before generating the final JSON output. This self-correction phase is critical for accuracy.
+
+  **CRITICAL C++ COMPLIANCE INSTRUCTIONS (STRICT)**:
+  1.  **COMPILER SIMULATION**: Verify that every class, function, and macro exists in the Unreal Engine 5.3 API.
+  2.  **HEADER MANDATE**: You MUST include the specific headers for every class used (e.g., "Components/CapsuleComponent.h").
+  3.  **CONTEXT**: Code is within 'AGeneratedActor'. Use 'GetWorld()', 'GetController()' correctly. For components, use 'GetOwner()->...'.
+  4.  **NAMING**: Booleans 'bIsActive', Classes 'U', Actors 'A', Enums 'E'.
+  5.  **NO HALLUCINATIONS**: Do not invent functions.
+
+  **STRICT JSON OUTPUT RULES**:
+  1. Output MUST be valid JSON.
+  2. **ALL Keys MUST be enclosed in double quotes** (e.g., "nodes": ...).
+  3. All string values MUST be double-quoted.
+  4. **NO Trailing commas**.
+  5. **NO Comments** inside the JSON structure.
+  6. **NO Markdown** code blocks (e.g. \`\`\`json).
+
+  **CRITICAL EDGE GENERATION RULES**:
+  1. **PIN IDs MUST BE EXPLICIT**: Every input and output pin MUST have a unique 'id' field. 
+     - Convention: "{NodeID}_{PinName}" (e.g., "Branch1_True", "Event1_Output").
+  2. **EDGES MUST MATCH PIN IDs**: The 'sourceHandle' of an edge MUST match an 'id' in the source node's 'outputs'. The 'targetHandle' MUST match an 'id' in the target node's 'inputs'.
+  3. If these IDs do not match exactly, the link will be invisible.
+
+  **FUNCTIONS**:
+  - Each entry in "functions" may carry its own "nodes" and "edges" (same shape as the top level) holding the function body.
+  - A function body starts at one "function_entry" node (outputs: a "Then" exec pin plus one pin per input) and ends at one "function_result" node (inputs: an "Exec" pin plus one pin per output).
+  - To call a function from any graph, use a "function" node whose label is exactly the function's name, with an Exec/Then pair plus its inputs and outputs.
+
+  **CONTAINERS**:
+  - Array, set and map pins/variables keep the element type in "type" and add "container": "array" | "set" | "map".
+  - A map's "type" is the key type and "valueType" the value type (TMap<FString, int32> is type "string", container "map", valueType "integer").
+
+  **SUB-TYPES**:
+  - Object, class, struct and byte pins/variables may name what they hold in "subType", using the C++ name: "AActor", "ACharacter", "UPrimitiveComponent", "FHitResult", "ECollisionChannel".
+  - An object pin only connects to the same class or a parent class. To use a parent-class value as a child class (e.g. "Other Actor" as a Character), go through a "Cast To Character" node (inputs: Exec, Object; outputs: Then, Cast Failed, "As Character").
+  - Enum pins (byte with an enum subType) take the value name as their defaultValue, e.g. "ECC_Visibility".
+
+  **STRUCTS AND ENUMS**:
+  - Declare blueprint-specific data types in "structs" (id, name, members) and "enums" (id, name, values). Members use the variable shape; name structs "F..." and enums "E...".
+  - Refer to them by name in any "subType": a struct pin is type "struct" with subType "FInventoryItem", an enum pin is type "byte" with subType "EWeaponState".
+  - "Make FInventoryItem" (one input per member, one struct output) and "Break FInventoryItem" (the reverse) are "function" nodes; "Switch on EWeaponState" is a "flow_control" node with Exec and Selection inputs and one exec output per value, named after it.
+
+  **EVENT DISPATCHERS AND INTERFACES** (use these for communication between actors, not loose function nodes):
+  - Declare dispatchers in "dispatchers" (id, name, inputs = the signature). Nodes: "Call OnDied" (Exec, Target, one input per parameter; Then), "Bind Event to OnDied" / "Unbind Event from OnDied" (Exec, Target, "Event" delegate input with subType "OnDied"; Then), "Unbind all Events from OnDied" (Exec, Target; Then).
+  - The event bound to a dispatcher is an "event" node (e.g. "OnDied_Event") whose outputs are Output (exec), "Delegate" (delegate, subType "OnDied") and one pin per parameter; link its Delegate pin to the Bind node's Event pin.
+  - Declare Blueprint Interfaces in "interfaces" (id, name like "BPI_Interactable", functions with inputs/outputs) and list the ids this blueprint implements in "implementedInterfaces".
+  - Call an interface function on another actor with a "function" node labelled "Interact (Message)" (Exec, Target, inputs; Then, outputs). Implement one without outputs with an "event" node labelled "Event Interact"; one with outputs is a function of the same name in "functions".
+
+  **COMMENT REGIONS**:
+  - Give nodes that form one piece of behaviour the same "group" title (e.g. "Damage handling", "Cooldown"); each group is framed in a titled comment box. Leave "group" out of nodes that belong to no region.
+
+  **COMMON MISTAKES TO AVOID**:
+  - For "Branch", you MUST include outputs "True" and "False".
+  - For "Sequence", you MUST include outputs "Then 0", "Then 1", etc.
+  - For "Variable Set", you MUST include an Exec input and an Exec output.
+  - **Summary**: Must be point-form (bullet points).
+
+  **JSON STRUCTURE EXAMPLE (Connected Logic)**:
+  {
+    "nodes": [
+      { 
+        "id": "Event1", 
+        "label": "Event BeginPlay", 
+        "nodeType": "event", 
+        "inputs": [], 
+        "outputs": [{"id":"Event1_ExecOut","name":"Output","type":"exec"}] 
       }
-      if (!node.outputs.some((p:any) => p.name === 'Loop Body')) {
-          node.outputs.push({ id: `${node.id}_LoopBody`, name: "Loop Body", type: 'exec' });
+    ],
+    "edges": [],
+    "variables": [],
+    "functions": [],
+    "targetClass": "BP_PlayerCharacter",
+    "cppCode": "#include \"GeneratedActor.h\"\\n// Code...",
+    "summary": "- Logic step 1\\n- Logic step 2"
+  }
+
+  **TARGET CLASS IDENTIFICATION**:
+  Identify the most appropriate Blueprint Class name for this logic based on the user's request.
+  - If logic implies a player, use "BP_Player" or "BP_Character".
+  - If logic implies an enemy, use "BP_Enemy".
+  - If generic, use "BP_GeneratedActor".
+  - Field: "targetClass".
+`;
+
+export interface GraphIssue {
+  kind: 'schema' | 'guessed_handle' | 'dropped_edge' | 'type_conflict';
+  message: string;
+  ref?: LogReference;
+}
+
+export interface GenerateOptions {
+  onLog?: (type: LogLevel, message: string, ref?: LogReference) => void;
+  // Called with the partial graph as nodes/edges stream in (full generation only)
+  onPartial?: (partial: { nodes: BPNode[]; edges: BPEdge[] }) => void;
+  signal?: AbortSignal;
+}
+
+const transformNodes = (parsed: any): BPNode[] => (parsed.nodes || []).map((node: any) => {
+  const enrichedNode = ensureDefaultPins(node);
+  return {
+    id: enrichedNode.id,
+    type: 'customBlueprintNode',
+    position: { x: 0, y: 0 }, 
+    data: {
+        label: enrichedNode.label,
+        nodeType: enrichedNode.nodeType,
+        inputs: enrichedNode.inputs || [],
+        outputs: enrichedNode.outputs || [],
+        comment: enrichedNode.comment,
+        group: enrichedNode.group
+    }
+  };
+});
+
+// Function bodies go through the same node/edge clean-up as the main graph;
+// their issues point back at the function's graph tab
+const transformFunctions = (rawFunctions: any[] | undefined): { functions: BlueprintFunction[]; issues: GraphIssue[] } => {
+  const issues: GraphIssue[] = [];
+  const functions = (rawFunctions || []).map((fn: any): BlueprintFunction => {
+    if (!fn.nodes) return fn;
+    const nodes = transformNodes(fn);
+    const resolved = resolveEdges(fn.edges || [], nodes);
+    resolved.issues.forEach(issue => issues.push({
+      ...issue,
+      message: `Function ${fn.name}: ${issue.message}`,
+      ref: { ...issue.ref, graphId: fn.id }
+    }));
+    return { ...fn, ...propagateWildcards(nodes, resolved.edges) };
+  });
+  return { functions, issues };
+};
+
+// Resolves edge handles against the actual node pins. Anything that had to be
+// guessed or dropped is reported so it can be sent back to the model.
+const resolveEdges = (rawEdges: any[], nodes: BPNode[]): { edges: BPEdge[]; issues: GraphIssue[] } => {
+  const issues: GraphIssue[] = [];
+  const edges: BPEdge[] = [];
+
+  rawEdges.forEach((edge: any, index: number) => {
+      const edgeLabel = edge.id || `#${index}`;
+      const sourceNode = nodes.find(n => n.id === edge.source);
+      const targetNode = nodes.find(n => n.id === edge.target);
+
+      if (!sourceNode || !targetNode) {
+          const missing = !sourceNode ? `source node "${edge.source}"` : `target node "${edge.target}"`;
+          issues.push({ kind: 'dropped_edge', message: `Edge ${edgeLabel} dropped: ${missing} does not exist.` });
+          return;
       }
-      if (!node.outputs.some((p:any) => p.name === 'Completed')) {
-          node.outputs.push({ id: `${node.id}_Completed`, name: "Completed", type: 'exec' });
+
+      let finalSourceHandle = edge.sourceHandle;
+      let finalTargetHandle = edge.targetHandle;
+
+      const sourceHandleStr = finalSourceHandle ? String(finalSourceHandle).toLowerCase() : "";
+      const sourcePinExists = finalSourceHandle && sourceNode.data.outputs.some(p => p.id === finalSourceHandle);
+      
+      if (!sourcePinExists) {
+          const isExecLike = !finalSourceHandle || sourceHandleStr.includes('exec') || sourceHandleStr.includes('then') || sourceHandleStr.includes('true') || sourceHandleStr.includes('out');
+          
+          if (isExecLike) {
+               const execPin = sourceNode.data.outputs.find(p => p.type === 'exec');
+               if (execPin) finalSourceHandle = execPin.id;
+               else if (sourceNode.data.outputs.length > 0) finalSourceHandle = sourceNode.data.outputs[0].id;
+          } else {
+               if (sourceNode.data.outputs.length > 0) {
+                   finalSourceHandle = sourceNode.data.outputs[0].id;
+               }
+          }
+          if (finalSourceHandle && finalSourceHandle !== edge.sourceHandle) {
+              issues.push({ kind: 'guessed_handle', message: `Edge ${edgeLabel}: sourceHandle "${edge.sourceHandle}" is not an output of "${sourceNode.id}" (outputs: ${sourceNode.data.outputs.map(p => p.id).join(', ') || 'none'}). Guessed "${finalSourceHandle}".`, ref: { nodeId: sourceNode.id, pinId: finalSourceHandle || undefined } });
+          }
       }
-      return node;
-  }
 
-  // 7. GENERIC EXECUTION NODES
-  // Only inject Exec pins if it's NOT a pure node and NOT a comment
-  if (!isLikelyPure && type !== 'comment' && type !== 'variable_get') {
-      if (!node.inputs.some((p:any) => p.type === 'exec')) {
-          node.inputs.unshift({ id: `${node.id}_Exec`, name: "Exec", type: 'exec' });
+      const targetHandleStr = finalTargetHandle ? String(finalTargetHandle).toLowerCase() : "";
+      const targetPinExists = finalTargetHandle && targetNode.data.inputs.some(p => p.id === finalTargetHandle);
+      
+      if (!targetPinExists) {
+           const isExecLike = !finalTargetHandle || targetHandleStr.includes('exec');
+           if (isExecLike) {
+               const execPin = targetNode.data.inputs.find(p => p.type === 'exec');
+               if (execPin) finalTargetHandle = execPin.id;
+               else if (targetNode.data.inputs.length > 0) finalTargetHandle = targetNode.data.inputs[0].id;
+           } else {
+               if (targetNode.data.inputs.length > 0) {
+                   finalTargetHandle = targetNode.data.inputs[0].id;
+               }
+           }
+          if (finalTargetHandle && finalTargetHandle !== edge.targetHandle) {
+              issues.push({ kind: 'guessed_handle', message: `Edge ${edgeLabel}: targetHandle "${edge.targetHandle}" is not an input of "${targetNode.id}" (inputs: ${targetNode.data.inputs.map(p => p.id).join(', ') || 'none'}). Guessed "${finalTargetHandle}".`, ref: { nodeId: targetNode.id, pinId: finalTargetHandle || undefined } });
+          }
       }
-      if (!node.outputs.some((p:any) => p.type === 'exec')) {
-          node.outputs.unshift({ id: `${node.id}_Output`, name: "Output", type: 'exec' });
+
+      if (!finalSourceHandle || !finalTargetHandle) {
+          issues.push({ kind: 'dropped_edge', message: `Edge ${edgeLabel} dropped: "${!finalSourceHandle ? sourceNode.id : targetNode.id}" has no ${!finalSourceHandle ? 'output' : 'input'} pins to connect.` });
+          return;
       }
-  }
 
-  return node;
+      const sourcePin = sourceNode.data.outputs.find(p => p.id === finalSourceHandle);
+      const targetPin = targetNode.data.inputs.find(p => p.id === finalTargetHandle);
+      if (sourcePin && targetPin && sourcePin.type !== targetPin.type) {
+          issues.push({ kind: 'type_conflict', message: `Edge ${edgeLabel}: ${sourcePin.type} pin "${sourcePin.id}" is wired into ${targetPin.type} pin "${targetPin.id}".`, ref: { nodeId: targetNode.id, pinId: targetPin.id } });
+      }
+
+      edges.push({
+          id: edge.id || `e_${edge.source}_${edge.target}_${index}`,
+          source: edge.source,
+          target: edge.target,
+          sourceHandle: finalSourceHandle,
+          targetHandle: finalTargetHandle,
+          type: 'default',
+          animated: false
+      });
+  });
+
+  return { edges, issues };
 };
 
-export const generateBlueprint = async (prompt: string): Promise<GeneratedBlueprint> => {
-  // PRIORITY: 
-  // 1. LocalStorage (User entered key)
-  // 2. Vite Env Var (Local Dev)
-  // 3. Process Env Var (Node/Webpack)
-  const apiKey = localStorage.getItem("BLUEPRINT_VIBE_GEMINI_KEY") || 
-                 localStorage.getItem("BLUEPRINT_VIBE_API_KEY") || 
-                 getEnvVar("VITE_GEMINI_API_KEY") ||
-                 getEnvVar("API_KEY");
-  
+const buildRepairPrompt = (originalPrompt: string, previousOutput: string, issues: GraphIssue[]) => `
+Original request:
+${originalPrompt}
+
+Your previous JSON output:
+${previousOutput}
+
+That output has the following problems:
+${issues.map((issue, i) => `${i + 1}. [${issue.kind}] ${issue.message}`).join('\n')}
+
+Return the COMPLETE corrected JSON (not a diff). Every edge's sourceHandle/targetHandle must exactly match a pin id on the referenced nodes, and connected pins must have matching types.
+`;
+
+const sleep = (ms: number, signal?: AbortSignal) => new Promise<void>((resolve, reject) => {
+  const cancelled = () => new LLMError('cancelled', 'Cancelled during retry backoff');
+  if (signal?.aborted) return reject(cancelled());
+  const onAbort = () => {
+    clearTimeout(timer);
+    reject(cancelled());
+  };
+  const timer = setTimeout(() => {
+    signal?.removeEventListener('abort', onAbort);
+    resolve();
+  }, ms);
+  signal?.addEventListener('abort', onAbort, { once: true });
+});
+
+// One provider call with a per-request timeout and exponential backoff on
+// transient failures. User cancellation is never retried.
+const completeWithRetry = async (
+  provider: LLMProvider,
+  request: LLMRequest,
+  config: ProviderConfig,
+  apiKey: string | undefined,
+  settings: ProviderSettings,
+  options: GenerateOptions,
+  onText: (textSoFar: string) => void
+): Promise<LLMResponse> => {
+  const log = options.onLog || (() => {});
+
+  for (let retry = 0; ; retry++) {
+    if (options.signal?.aborted) throw new LLMError('cancelled', 'Generation cancelled');
+
+    const controller = new AbortController();
+    let timedOut = false;
+    const timer = setTimeout(() => { timedOut = true; controller.abort(); }, settings.timeoutSeconds * 1000);
+    const onUserAbort = () => controller.abort();
+    options.signal?.addEventListener('abort', onUserAbort, { once: true });
+
+    try {
+      return await provider.complete({ ...request, signal: controller.signal }, config, apiKey, onText);
+    } catch (err) {
+      let error = classifyError(err);
+      if (options.signal?.aborted) error = new LLMError('cancelled', 'Generation cancelled');
+      else if (timedOut) error = new LLMError('timeout', `No complete response within ${settings.timeoutSeconds}s`);
+
+      if (!error.retryable || retry >= settings.maxRetries) throw error;
+
+      const delayMs = Math.min(30000, 1000 * 2 ** retry) + Math.floor(Math.random() * 250);
+      log('warning', `${error.kind.toUpperCase()}: ${error.message}. Retrying in ${(delayMs / 1000).toFixed(1)}s (${retry + 1}/${settings.maxRetries})...`);
+      await sleep(delayMs, options.signal);
+    } finally {
+      clearTimeout(timer);
+      options.signal?.removeEventListener('abort', onUserAbort);
+    }
+  }
+};
+
+interface AttemptResult<T> {
+  result: T;
+  issues: GraphIssue[];
+}
+
+interface RepairableRequest<T> {
+  prompt: string;
+  systemInstruction: string;
+  schema: JsonSchema;
+  streamKeys: { nodes: string; edges: string };
+  onStreamItems?: (rawNodes: any[], rawEdges: any[]) => void;
+  build: (parsed: any) => AttemptResult<T>;
+}
+
+// Shared request -> validate -> build -> repair loop used by both full
+// generation and refinement.
+const runWithRepair = async <T>(request: RepairableRequest<T>, options: GenerateOptions): Promise<T> => {
+  const settings = loadProviderSettings();
+  const provider = getProvider(settings.active);
+  const config = settings.providers[settings.active];
+  const apiKey = getApiKey(provider.id);
+  const maxRepairAttempts = Math.max(0, settings.maxRepairAttempts);
+  const log = options.onLog || (() => {});
+
   // SPECIFIC ERROR MESSAGE: This string is checked in App.tsx to auto-open settings
-  if (!apiKey) {
+  if (!apiKey && provider.requiresApiKey(config)) {
       throw new Error("MISSING_API_KEY");
   }
 
-  const ai = new GoogleGenAI({ apiKey });
-
-  const systemInstruction = `
-    You are a world-class Unreal Engine 5.3 Senior Gameplay Programmer. Your primary goal is to generate **100% correct and accurate** Blueprint graphs and C++ code.
-
-    **LOGIC VERIFICATION PROTOCOL (MANDATORY)**:
-    Before outputting JSON, you must perform a silent, internal review of your generated logic. Follow these steps:
-    1.  **Requirement Mapping**: Re-read the user's prompt. Does your graph address every single part of their request?
-    2.  **Execution Flow Analysis**: Trace the white "Exec" wires from the starting Event node. Does the flow make logical sense? Are there any dead ends or infinite loops that are not intentional?
-    3.  **API Validation**: For every function node (e.g., "Get Actor Location", "Apply Damage"), confirm that this function exists on the assumed 'targetClass' (e.g., 'AActor', 'ACharacter'). Verify the pin names and data types match the official Unreal Engine 5.3 documentation. If a function doesn't exist, state that it's not possible or use a known alternative.
-    4.  **Data Flow Analysis**: Trace the colored data wires. Is the output of one node a valid input for the next? (e.g., you cannot plug a Vector into a Boolean).
-    5.  **Correction**: If you find any errors during this review, you MUST correct them before generating the final JSON output. This self-correction phase is critical for accuracy.
-
-    **CRITICAL C++ COMPLIANCE INSTRUCTIONS (STRICT)**:
-    1.  **COMPILER SIMULATION**: Verify that every class, function, and macro exists in the Unreal Engine 5.3 API.
-    2.  **HEADER MANDATE**: You MUST include the specific headers for every class used (e.g., "Components/CapsuleComponent.h").
-    3.  **CONTEXT**: Code is within 'AGeneratedActor'. Use 'GetWorld()', 'GetController()' correctly. For components, use 'GetOwner()->...'.
-    4.  **NAMING**: Booleans 'bIsActive', Classes 'U', Actors 'A', Enums 'E'.
-    5.  **NO HALLUCINATIONS**: Do not invent functions.
-
-    **STRICT JSON OUTPUT RULES**:
-    1. Output MUST be valid JSON.
-    2. **ALL Keys MUST be enclosed in double quotes** (e.g., "nodes": ...).
-    3. All string values MUST be double-quoted.
-    4. **NO Trailing commas**.
-    5. **NO Comments** inside the JSON structure.
-    6. **NO Markdown** code blocks (e.g. \`\`\`json).
-
-    **CRITICAL EDGE GENERATION RULES**:
-    1. **PIN IDs MUST BE EXPLICIT**: Every input and output pin MUST have a unique 'id' field. 
-       - Convention: "{NodeID}_{PinName}" (e.g., "Branch1_True", "Event1_Output").
-    2. **EDGES MUST MATCH PIN IDs**: The 'sourceHandle' of an edge MUST match an 'id' in the source node's 'outputs'. The 'targetHandle' MUST match an 'id' in the target node's 'inputs'.
-    3. If these IDs do not match exactly, the link will be invisible.
-
-    **COMMON MISTAKES TO AVOID**:
-    - For "Branch", you MUST include outputs "True" and "False".
-    - For "Sequence", you MUST include outputs "Then 0", "Then 1", etc.
-    - For "Variable Set", you MUST include an Exec input and an Exec output.
-    - **Summary**: Must be point-form (bullet points).
-
-    **JSON STRUCTURE EXAMPLE (Connected Logic)**:
-    {
-      "nodes": [
-        { 
-          "id": "Event1", 
-          "label": "Event BeginPlay", 
-          "nodeType": "event", 
-          "inputs": [], 
-          "outputs": [{"id":"Event1_ExecOut","name":"Output","type":"exec"}] 
-        }
-      ],
-      "edges": [],
-      "variables": [],
-      "functions": [],
-      "targetClass": "BP_PlayerCharacter",
-      "cppCode": "#include \"GeneratedActor.h\"\\n// Code...",
-      "summary": "- Logic step 1\\n- Logic step 2"
-    }
+  try {
+    let attemptPrompt = request.prompt;
+
+    for (let attempt = 0; ; attempt++) {
+      const canRepair = attempt < maxRepairAttempts;
+      if (attempt > 0) log('info', `Repair attempt ${attempt}/${maxRepairAttempts}...`);
+
+      let lastCounts = '';
+      const onText = (textSoFar: string) => {
+        const items = extractStreamedItems(textSoFar, [request.streamKeys.nodes, request.streamKeys.edges]);
+        const rawNodes = items[request.streamKeys.nodes];
+        const rawEdges = items[request.streamKeys.edges];
+        const counts = `${rawNodes.length}/${rawEdges.length}`;
+        if (counts === lastCounts) return;
+        lastCounts = counts;
+        log('verbose', `Streaming: ${rawNodes.length} node(s), ${rawEdges.length} edge(s) received (${(textSoFar.length / 1024).toFixed(1)} KB)`);
+        request.onStreamItems?.(rawNodes, rawEdges);
+      };
 
-    **TARGET CLASS IDENTIFICATION**:
-    Identify the most appropriate Blueprint Class name for this logic based on the user's request.
-    - If logic implies a player, use "BP_Player" or "BP_Character".
-    - If logic implies an enemy, use "BP_Enemy".
-    - If generic, use "BP_GeneratedActor".
-    - Field: "targetClass".
-  `;
+      const response = await completeWithRetry(provider, { systemInstruction: request.systemInstruction, prompt: attemptPrompt, responseSchema: request.schema }, config, apiKey, settings, options, onText);
+      const rawText = response.text || "";
 
-  try {
-    const response = await ai.models.generateContent({
-      model: "gemini-3-pro-preview", 
-      contents: [
-        { role: "user", parts: [{ text: prompt }] }
-      ],
-      config: {
-        systemInstruction,
-        tools: [{ googleSearch: {} }],
-        temperature: 0.05, // Lowered for maximum predictability and accuracy
+      let parsed: any;
+      try {
+        parsed = parseModelJson(rawText);
+        const schemaIssues = validateJson(parsed, request.schema);
+        if (schemaIssues.length > 0) throw new SchemaValidationError(schemaIssues);
+      } catch (e) {
+        if (!(e instanceof SchemaValidationError) || !canRepair) throw e;
+        const issues: GraphIssue[] = e.issues.map(issue => ({ kind: 'schema', message: `${issue.path}: ${issue.message}` }));
+        log('warning', `Attempt ${attempt + 1}: ${issues.length} schema violation(s), requesting correction.`);
+        issues.forEach(issue => log('verbose', `  [${issue.kind}] ${issue.message}`));
+        attemptPrompt = buildRepairPrompt(request.prompt, rawText, issues);
+        continue;
       }
-    });
-
-    let result = response.text || "";
-    
-    // Cleanup JSON
-    result = result.replace(/```json/gi, '').replace(/```/g, '').trim();
-    const firstBrace = result.indexOf('{');
-    const lastBrace = result.lastIndexOf('}');
-    
-    if (firstBrace !== -1 && lastBrace !== -1) {
-      result = result.substring(firstBrace, lastBrace + 1);
-    } else {
-      throw new Error("No JSON object found in response");
-    }
 
-    result = result.replace(/[\x00-\x08\x0B\x0C\x0E-\x1F\x7F]/g, '');
+      const { result, issues } = request.build(parsed);
 
-    let parsed: any;
-    try {
-      parsed = JSON.parse(result);
-    } catch (e) {
-      console.warn("Initial parse failed, attempting to fix trailing commas...");
-      result = result.replace(/,(\s*[}\]])/g, '$1');
-      try {
-        parsed = JSON.parse(result);
-      } catch (e2) {
-         throw new Error(`JSON Parse Failed: ${(e2 as Error).message}`);
+      if (issues.length > 0) {
+        log('warning', `Attempt ${attempt + 1}: ${issues.length} graph issue(s) found.`);
+        issues.forEach(issue => log('verbose', `  [${issue.kind}] ${issue.message}`, issue.ref));
+      } else if (attempt > 0) {
+        log('success', `Repair attempt ${attempt} produced a clean graph.`);
       }
+
+      if (issues.length > 0 && canRepair) {
+        attemptPrompt = buildRepairPrompt(request.prompt, rawText, issues);
+        continue;
+      }
+
+      if (issues.length > 0) {
+        log('warning', `Repair limit reached (${maxRepairAttempts}). Using best-effort wiring with guessed handles.`);
+      }
+
+      return result;
     }
-    
-    const transformedNodes: BPNode[] = (parsed.nodes || []).map((node: any) => {
-      const enrichedNode = ensureDefaultPins(node);
+
+  } catch (error) {
+    console.error(`${provider.label} API Error:`, error);
+    if (error instanceof SchemaValidationError) throw error;
+    throw classifyError(error);
+  }
+};
+
+export const generateBlueprint = async (prompt: string, options: GenerateOptions = {}): Promise<GeneratedBlueprint> => {
+  return runWithRepair({
+    prompt,
+    systemInstruction: SYSTEM_INSTRUCTION,
+    schema: BLUEPRINT_SCHEMA,
+    streamKeys: { nodes: 'nodes', edges: 'edges' },
+    onStreamItems: (rawNodes, rawEdges) => {
+      if (!options.onPartial) return;
+      const nodes = transformNodes({ nodes: rawNodes });
+      const nodeIds = new Set(nodes.map(n => n.id));
+      // Edges whose endpoints haven't arrived yet are held back until the next update
+      const ready = rawEdges.filter((e: any) => nodeIds.has(e.source) && nodeIds.has(e.target));
+      options.onPartial({ nodes, edges: resolveEdges(ready, nodes).edges });
+    },
+    build: (parsed) => {
+      const transformedNodes = transformNodes(parsed);
+      const { edges: validEdges, issues } = resolveEdges(parsed.edges || [], transformedNodes);
+      const { functions, issues: functionIssues } = transformFunctions(parsed.functions);
+      const graph = propagateWildcards(transformedNodes, validEdges);
       return {
-        id: enrichedNode.id,
-        type: 'customBlueprintNode',
-        position: { x: 0, y: 0 }, 
-        data: {
-            label: enrichedNode.label,
-            nodeType: enrichedNode.nodeType,
-            inputs: enrichedNode.inputs || [],
-            outputs: enrichedNode.outputs || [],
-            comment: enrichedNode.comment
+        issues: [...issues, ...functionIssues],
+        result: {
+          nodes: graph.nodes,
+          edges: graph.edges,
+          summary: parsed.summary || "No summary provided.",
+          cppCode: parsed.cppCode || "// No C++ code generated.",
+          targetClass: parsed.targetClass || "BP_GeneratedActor",
+          variables: parsed.variables || [],
+          functions,
+          structs: parsed.structs,
+          enums: parsed.enums,
+          dispatchers: parsed.dispatchers,
+          interfaces: parsed.interfaces,
+          implementedInterfaces: parsed.implementedInterfaces,
+          sources: parsed.sources || []
         }
       };
-    });
-
-    const validEdges: BPEdge[] = (parsed.edges || []).map((edge: any, index: number) => {
-        const sourceNode = transformedNodes.find(n => n.id === edge.source);
-        const targetNode = transformedNodes.find(n => n.id === edge.target);
-
-        if (!sourceNode || !targetNode) return null;
-
-        let finalSourceHandle = edge.sourceHandle;
-        let finalTargetHandle = edge.targetHandle;
-
-        const sourceHandleStr = finalSourceHandle ? String(finalSourceHandle).toLowerCase() : "";
-        const sourcePinExists = finalSourceHandle && sourceNode.data.outputs.some(p => p.id === finalSourceHandle);
-        
-        if (!sourcePinExists) {
-            const isExecLike = !finalSourceHandle || sourceHandleStr.includes('exec') || sourceHandleStr.includes('then') || sourceHandleStr.includes('true') || sourceHandleStr.includes('out');
-            
-            if (isExecLike) {
-                 const execPin = sourceNode.data.outputs.find(p => p.type === 'exec');
-                 if (execPin) finalSourceHandle = execPin.id;
-                 else if (sourceNode.data.outputs.length > 0) finalSourceHandle = sourceNode.data.outputs[0].id;
-            } else {
-                 if (sourceNode.data.outputs.length > 0) {
-                     finalSourceHandle = sourceNode.data.outputs[0].id;
-                 }
-            }
-        }
+    }
+  }, options);
+};
 
-        const targetHandleStr = finalTargetHandle ? String(finalTargetHandle).toLowerCase() : "";
-        const targetPinExists = finalTargetHandle && targetNode.data.inputs.some(p => p.id === finalTargetHandle);
-        
-        if (!targetPinExists) {
-             const isExecLike = !finalTargetHandle || targetHandleStr.includes('exec');
-             if (isExecLike) {
-                 const execPin = targetNode.data.inputs.find(p => p.type === 'exec');
-                 if (execPin) finalTargetHandle = execPin.id;
-                 else if (targetNode.data.inputs.length > 0) finalTargetHandle = targetNode.data.inputs[0].id;
-             } else {
-                 if (targetNode.data.inputs.length > 0) {
-                     finalTargetHandle = targetNode.data.inputs[0].id;
-                 }
-             }
-        }
+// --- Conversational refinement ---
+
+export interface RefinementContext {
+  nodes: BPNode[];
+  edges: BPEdge[];
+  variables: BlueprintVariable[];
+  functions: BlueprintFunction[];
+  structs: BlueprintStruct[];
+  enums: BlueprintEnum[];
+  dispatchers: BlueprintDispatcher[];
+  interfaces: BlueprintInterface[];
+  implementedInterfaces: string[];
+  cppCode: string;
+  targetClass: string;
+  history: string[]; // Earlier prompts in this conversation, oldest first
+}
+
+export interface RefinementResult extends GeneratedBlueprint {
+  stats: { added: number; removed: number; modified: number; addedEdges: number; removedEdges: number };
+}
+
+const REFINE_INSTRUCTION = `${SYSTEM_INSTRUCTION}
+
+  **REFINEMENT MODE (OVERRIDES THE FULL-GRAPH OUTPUT FORMAT ABOVE)**:
+  You are editing an EXISTING graph. Return ONLY the changes as a delta:
+  {
+    "addNodes": [ ...new nodes, same shape as "nodes" above... ],
+    "removeNodes": [ "NodeId", ... ],
+    "modifyNodes": [ { "id": "ExistingId", ...only the fields that change... } ],
+    "addEdges": [ ...new edges... ],
+    "removeEdges": [ "EdgeId", ... ],
+    "variables": [ ...new or changed variables... ],
+    "functions": [ ...new or changed functions; include "nodes"/"edges" only when the body changes, and then in full... ],
+    "structs": [ ...new or changed structs, in full... ],
+    "enums": [ ...new or changed enums, in full... ],
+    "dispatchers": [ ...new or changed dispatchers, in full... ],
+    "interfaces": [ ...new or changed interfaces, in full... ],
+    "implementedInterfaces": [ ...the full list of implemented interface ids, when it changes... ],
+    "cppCode": "...full updated C++...",
+    "summary": "- What changed"
+  }
+  - Reuse existing node ids and pin ids exactly; never re-create a node that already exists.
+  - New node ids must not collide with existing ones.
+  - Edges may connect new nodes to existing nodes.
+  - Leave untouched nodes out of the delta entirely.
+  - Nodes with nodeType "reroute" are knots a wire passes through unchanged. To cut such a wire, remove its reroute nodes; never add new ones.
+`;
+
+// Compact graph description sent to the model (positions are irrelevant to it)
+const compactNodes = (nodes: BPNode[]) => nodes.map(n => ({
+  id: n.id,
+  label: n.data.label,
+  nodeType: n.data.nodeType,
+  inputs: n.data.inputs,
+  outputs: n.data.outputs,
+  comment: n.data.comment
+}));
+
+const compactEdges = (edges: BPEdge[]) =>
+  edges.map(e => ({ id: e.id, source: e.source, target: e.target, sourceHandle: e.sourceHandle, targetHandle: e.targetHandle }));
+
+// Function bodies come back in full, so the model sees their logic only: comment
+// boxes are left out and reroute nodes joined up
+const compactGraph = (nodes: BPNode[], edges: BPEdge[]) => {
+  const graph = logicalGraph(nodes, edges);
+  return { nodes: compactNodes(graph.nodes), edges: compactEdges(graph.edges) };
+};
 
-        const edgeId = edge.id || `e_${edge.source}_${edge.target}_${index}`;
-        if (!finalSourceHandle || !finalTargetHandle) return null;
-
-        return {
-            id: edgeId,
-            source: edge.source,
-            target: edge.target,
-            sourceHandle: finalSourceHandle,
-            targetHandle: finalTargetHandle,
-            type: 'default',
-            animated: false
-        };
-    }).filter((e: BPEdge | null) => e !== null);
-
-    return {
-        nodes: transformedNodes,
-        edges: validEdges,
-        summary: parsed.summary || "No summary provided.",
-        cppCode: parsed.cppCode || "// No C++ code generated.",
-        targetClass: parsed.targetClass || "BP_GeneratedActor",
-        variables: parsed.variables || [],
-        functions: parsed.functions || [],
-        sources: parsed.sources || []
-    };
+// The EventGraph delta is applied to the real edges, so its knots stay in with their own links
+const compactEventGraph = (nodes: BPNode[], edges: BPEdge[]) =>
+  ({ nodes: compactNodes(nodes.filter(n => !isCommentNode(n))), edges: compactEdges(edges) });
+
+const serializeContext = (context: RefinementContext) => JSON.stringify({
+  targetClass: context.targetClass,
+  ...compactEventGraph(context.nodes, context.edges),
+  variables: context.variables,
+  functions: context.functions.map(fn => ({ ...fn, ...(fn.nodes ? compactGraph(fn.nodes, fn.edges || []) : {}) })),
+  structs: context.structs,
+  enums: context.enums,
+  dispatchers: context.dispatchers,
+  interfaces: context.interfaces,
+  implementedInterfaces: context.implementedInterfaces
+});
+
+export const refineBlueprint = async (prompt: string, context: RefinementContext, options: GenerateOptions = {}): Promise<RefinementResult> => {
+  const conversation = context.history.length > 0
+    ? `Earlier requests in this session:\n${context.history.map((h, i) => `${i + 1}. ${h}`).join('\n')}\n\n`
+    : '';
+
+  const fullPrompt = `${conversation}Current graph:
+${serializeContext(context)}
+
+Current C++:
+${context.cppCode || '// none'}
+
+Requested change:
+${prompt}`;
+
+  return runWithRepair({
+    prompt: fullPrompt,
+    systemInstruction: REFINE_INSTRUCTION,
+    schema: DELTA_SCHEMA,
+    streamKeys: { nodes: 'addNodes', edges: 'addEdges' },
+    build: (parsed: BlueprintDelta) => {
+      const addedNodes = transformNodes({ nodes: parsed.addNodes });
+      const applied = applyBlueprintDelta(context.nodes, context.edges, parsed, addedNodes);
+      const { edges: newEdges, issues } = resolveEdges(parsed.addEdges, applied.nodes);
+      const deltaIssues: GraphIssue[] = applied.issues.map(message => ({ kind: 'dropped_edge', message }));
+      const { functions, issues: functionIssues } = transformFunctions(parsed.functions);
+
+      const existingIds = new Set(context.nodes.map(n => n.id));
+      const newNodeIds = new Set(addedNodes.filter(n => !existingIds.has(n.id)).map(n => n.id));
+      const graph = propagateWildcards(applied.nodes, [...applied.edges, ...newEdges]);
 
-  } catch (error) {
-    console.error("Gemini API Error:", error);
-    throw new Error(`${error instanceof Error ? error.message : "Unknown error"}`);
-  }
-};
\ No newline at end of file
+      return {
+        issues: [...deltaIssues, ...issues, ...functionIssues],
+        result: {
+          nodes: placeNewNodes(graph.nodes, graph.edges, newNodeIds),
+          edges: graph.edges,
+          summary: parsed.summary || "No summary provided.",
+          cppCode: parsed.cppCode || context.cppCode,
+          targetClass: parsed.targetClass || context.targetClass,
+          variables: parsed.variables || [],
+          functions,
+          structs: parsed.structs,
+          enums: parsed.enums,
+          dispatchers: parsed.dispatchers,
+          interfaces: parsed.interfaces,
+          implementedInterfaces: parsed.implementedInterfaces,
+          sources: [],
+          stats: {
+            added: newNodeIds.size,
+            removed: context.nodes.length + newNodeIds.size - applied.nodes.length,
+            modified: parsed.modifyNodes.length,
+            addedEdges: newEdges.length,
+            removedEdges: context.edges.length - applied.edges.length
+          }
+        }
+      };
+    }
+  }, options);
+};
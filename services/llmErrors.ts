@@ -0,0 +1,58 @@
+import { SchemaValidationError } from "./blueprintSchema";
+
+export type LLMErrorKind = 'auth' | 'quota' | 'network' | 'server' | 'timeout' | 'cancelled' | 'parse' | 'safety' | 'unknown';
+
+export class LLMError extends Error {
+  kind: LLMErrorKind;
+  status?: number;
+
+  constructor(kind: LLMErrorKind, message: string, status?: number) {
+    super(message);
+    this.name = 'LLMError';
+    this.kind = kind;
+    this.status = status;
+  }
+
+  // 429s, 5xx, dropped connections and timeouts are worth retrying
+  get retryable(): boolean {
+    return this.kind === 'quota' || this.kind === 'server' || this.kind === 'network' || this.kind === 'timeout';
+  }
+}
+
+// User-facing headline per error class (details go to the Output Log)
+export const LLM_ERROR_MESSAGES: Record<LLMErrorKind, string> = {
+  auth: "Authentication failed. Check the API key in Settings.",
+  quota: "Rate limit or quota exceeded. Wait a moment and try again.",
+  network: "Network error. Check your connection or the provider endpoint.",
+  server: "The provider returned a server error. Try again shortly.",
+  timeout: "The request timed out. Increase the timeout in Settings or simplify the prompt.",
+  cancelled: "Generation cancelled.",
+  parse: "The model returned output that could not be parsed.",
+  safety: "The response was blocked by the provider's safety filters. Rephrase the prompt.",
+  unknown: "Failed to generate blueprint. Please try again."
+};
+
+export const kindFromStatus = (status: number): LLMErrorKind => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status >= 500) return 'server';
+  return 'unknown';
+};
+
+// Normalises anything thrown by a provider SDK / fetch into an LLMError
+export const classifyError = (err: unknown): LLMError => {
+  if (err instanceof LLMError) return err;
+  if (err instanceof SchemaValidationError) return new LLMError('parse', err.message);
+
+  const message = err instanceof Error ? err.message : String(err);
+  const name = err instanceof Error ? err.name : '';
+  const status = typeof (err as any)?.status === 'number' ? (err as any).status as number : undefined;
+
+  if (name === 'AbortError') return new LLMError('cancelled', message);
+  if (status !== undefined) return new LLMError(kindFromStatus(status), message, status);
+  if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) return new LLMError('quota', message);
+  if (/API key|PERMISSION_DENIED|UNAUTHENTICATED/i.test(message)) return new LLMError('auth', message);
+  if (/SAFETY|blocked/i.test(message)) return new LLMError('safety', message);
+  if (err instanceof TypeError || /Failed to fetch|NetworkError|ECONNREFUSED|network/i.test(message)) return new LLMError('network', message);
+  return new LLMError('unknown', message);
+};
@@ -0,0 +1,358 @@
+import { GoogleGenAI } from "@google/genai";
+import { JsonSchema } from "./blueprintSchema";
+import { LLMError, kindFromStatus } from "./llmErrors";
+
+export type ProviderId = 'gemini' | 'openai' | 'mock';
+
+export interface ProviderConfig {
+  model: string;
+  temperature: number;
+  endpoint?: string; // Optional base URL override (e.g. a local OpenAI-compatible server)
+  structuredOutput?: boolean; // Ask the provider to enforce the response JSON schema
+}
+
+export interface ProviderSettings {
+  active: ProviderId;
+  providers: Record<ProviderId, ProviderConfig>;
+  maxRepairAttempts: number; // How many times graph errors are fed back to the model
+  timeoutSeconds: number;    // Per request, including streaming
+  maxRetries: number;        // Retries for transient errors (429, 5xx, network, timeout)
+}
+
+export interface LLMRequest {
+  systemInstruction: string;
+  prompt: string;
+  responseSchema?: JsonSchema;
+  signal?: AbortSignal;
+}
+
+export interface LLMResponse {
+  text: string;
+}
+
+export interface LLMProvider {
+  id: ProviderId;
+  label: string;
+  requiresApiKey: (config: ProviderConfig) => boolean;
+  // onText receives the accumulated response text as it streams in
+  complete: (request: LLMRequest, config: ProviderConfig, apiKey?: string, onText?: (textSoFar: string) => void) => Promise<LLMResponse>;
+}
+
+const SETTINGS_KEY = "BLUEPRINT_VIBE_PROVIDER_SETTINGS";
+
+export const OPENAI_DEFAULT_ENDPOINT = "https://api.openai.com/v1";
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  active: 'gemini',
+  providers: {
+    gemini: { model: "gemini-3-pro-preview", temperature: 0.05, structuredOutput: true },
+    openai: { model: "gpt-4o", temperature: 0.05, endpoint: OPENAI_DEFAULT_ENDPOINT, structuredOutput: true },
+    mock: { model: "mock-deterministic", temperature: 0 }
+  },
+  maxRepairAttempts: 2,
+  timeoutSeconds: 120,
+  maxRetries: 3
+};
+
+// Helper to safely get Env vars in both Vite (import.meta) and Webpack/Node (process.env)
+const getEnvVar = (key: string): string | undefined => {
+  try {
+    // Vite / Modern Browsers
+    // @ts-ignore
+    if (typeof import.meta !== 'undefined' && import.meta.env && import.meta.env[key]) {
+      // @ts-ignore
+      return import.meta.env[key];
+    }
+  } catch (e) {}
+
+  try {
+    // Webpack / Node
+    if (typeof process !== 'undefined' && process.env && process.env[key]) {
+      return process.env[key];
+    }
+  } catch (e) {}
+
+  return undefined;
+};
+
+export const loadProviderSettings = (): ProviderSettings => {
+  try {
+    const raw = localStorage.getItem(SETTINGS_KEY);
+    if (!raw) return DEFAULT_PROVIDER_SETTINGS;
+    const stored = JSON.parse(raw) as Partial<ProviderSettings>;
+    // Merge per provider so newly added providers/fields pick up defaults
+    const providers = { ...DEFAULT_PROVIDER_SETTINGS.providers };
+    (Object.keys(providers) as ProviderId[]).forEach(id => {
+      providers[id] = { ...providers[id], ...(stored.providers?.[id] || {}) };
+    });
+    const active = stored.active && stored.active in providers ? stored.active : DEFAULT_PROVIDER_SETTINGS.active;
+    const numberOr = (value: unknown, fallback: number) => typeof value === 'number' ? value : fallback;
+    return {
+      active,
+      providers,
+      maxRepairAttempts: numberOr(stored.maxRepairAttempts, DEFAULT_PROVIDER_SETTINGS.maxRepairAttempts),
+      timeoutSeconds: numberOr(stored.timeoutSeconds, DEFAULT_PROVIDER_SETTINGS.timeoutSeconds),
+      maxRetries: numberOr(stored.maxRetries, DEFAULT_PROVIDER_SETTINGS.maxRetries)
+    };
+  } catch (e) {
+    return DEFAULT_PROVIDER_SETTINGS;
+  }
+};
+
+export const saveProviderSettings = (settings: ProviderSettings) => {
+  localStorage.setItem(SETTINGS_KEY, JSON.stringify(settings));
+};
+
+// PRIORITY:
+// 1. LocalStorage (User entered key)
+// 2. Vite Env Var (Local Dev)
+// 3. Process Env Var (Node/Webpack)
+export const getApiKey = (id: ProviderId): string | undefined => {
+  switch (id) {
+    case 'gemini':
+      return localStorage.getItem("BLUEPRINT_VIBE_GEMINI_KEY") ||
+             localStorage.getItem("BLUEPRINT_VIBE_API_KEY") ||
+             getEnvVar("VITE_GEMINI_API_KEY") ||
+             getEnvVar("API_KEY");
+    case 'openai':
+      return localStorage.getItem("BLUEPRINT_VIBE_OPENAI_KEY") ||
+             getEnvVar("VITE_OPENAI_API_KEY") ||
+             undefined;
+    default:
+      return undefined;
+  }
+};
+
+// --- Gemini ---
+
+// Search grounding can be combined with a JSON response schema from Gemini 3 on;
+// older models reject the request, so they get schema-only requests
+const supportsSearchWithSchema = (model: string) => {
+  const major = Number(model.match(/gemini-(\d+)/)?.[1]);
+  return major >= 3;
+};
+
+const geminiProvider: LLMProvider = {
+  id: 'gemini',
+  label: 'Google Gemini',
+  requiresApiKey: () => true,
+  complete: async (request, config, apiKey, onText) => {
+    const enforceSchema = Boolean(config.structuredOutput && request.responseSchema);
+    const ai = new GoogleGenAI({
+      apiKey: apiKey!,
+      httpOptions: config.endpoint ? { baseUrl: config.endpoint } : undefined
+    });
+
+    const stream = await ai.models.generateContentStream({
+      model: config.model,
+      contents: [
+        { role: "user", parts: [{ text: request.prompt }] }
+      ],
+      config: {
+        systemInstruction: request.systemInstruction,
+        ...(!enforceSchema || supportsSearchWithSchema(config.model) ? { tools: [{ googleSearch: {} }] } : {}),
+        temperature: config.temperature,
+        abortSignal: request.signal,
+        ...(enforceSchema ? {
+          responseMimeType: "application/json",
+          responseJsonSchema: request.responseSchema
+        } : {})
+      }
+    });
+
+    let text = "";
+    for await (const chunk of stream) {
+      const blockReason = chunk.promptFeedback?.blockReason;
+      const finishReason = chunk.candidates?.[0]?.finishReason;
+      if (blockReason || finishReason === 'SAFETY' || finishReason === 'PROHIBITED_CONTENT') {
+        throw new LLMError('safety', `Response blocked (${blockReason || finishReason})`);
+      }
+      text += chunk.text || "";
+      onText?.(text);
+    }
+
+    return { text };
+  }
+};
+
+// --- OpenAI-compatible (OpenAI, LM Studio, Ollama, vLLM, llama.cpp server...) ---
+
+const openAIProvider: LLMProvider = {
+  id: 'openai',
+  label: 'OpenAI-compatible',
+  // Local servers usually don't check keys, only the hosted API needs one
+  requiresApiKey: (config) => !config.endpoint || config.endpoint.replace(/\/+$/, '') === OPENAI_DEFAULT_ENDPOINT,
+  complete: async (request, config, apiKey, onText) => {
+    const baseUrl = (config.endpoint || OPENAI_DEFAULT_ENDPOINT).replace(/\/+$/, '');
+    const headers: Record<string, string> = { "Content-Type": "application/json" };
+    if (apiKey) headers["Authorization"] = `Bearer ${apiKey}`;
+
+    const res = await fetch(`${baseUrl}/chat/completions`, {
+      method: "POST",
+      headers,
+      signal: request.signal,
+      body: JSON.stringify({
+        model: config.model,
+        temperature: config.temperature,
+        stream: true,
+        messages: [
+          { role: "system", content: request.systemInstruction },
+          { role: "user", content: request.prompt }
+        ],
+        ...(config.structuredOutput && request.responseSchema ? {
+          response_format: {
+            type: "json_schema",
+            json_schema: { name: "generated_blueprint", schema: request.responseSchema }
+          }
+        } : {})
+      })
+    });
+
+    if (!res.ok) {
+      const body = await res.text().catch(() => "");
+      throw new LLMError(kindFromStatus(res.status), `OpenAI request failed (${res.status}): ${body.slice(0, 300)}`, res.status);
+    }
+
+    // Server-sent events: "data: {...}" lines terminated by "data: [DONE]"
+    const reader = res.body!.getReader();
+    const decoder = new TextDecoder();
+    let buffer = "";
+    let text = "";
+
+    // Keep-alives are ":" comment lines; a data line that isn't JSON means the stream is corrupt
+    const readLine = (line: string) => {
+      const data = line.trim().replace(/^data:\s*/, "");
+      if (!line.trim().startsWith("data:") || data === "[DONE]") return;
+      let json: any;
+      try {
+        json = JSON.parse(data);
+      } catch {
+        throw new LLMError('parse', `Malformed stream event: ${data.slice(0, 200)}`);
+      }
+      if (json?.choices?.[0]?.finish_reason === 'content_filter') {
+        throw new LLMError('safety', 'Response blocked by content filter');
+      }
+      text += json?.choices?.[0]?.delta?.content || "";
+    };
+
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      buffer += decoder.decode(value, { stream: true });
+      const lines = buffer.split("\n");
+      buffer = lines.pop() || "";
+      lines.forEach(readLine);
+      onText?.(text);
+    }
+
+    // The last event may arrive without a trailing newline
+    buffer += decoder.decode();
+    if (buffer.trim()) {
+      readLine(buffer);
+      onText?.(text);
+    }
+
+    return { text };
+  }
+};
+
+// --- Mock (offline, deterministic) ---
+
+const MOCK_CHUNK_SIZE = 120;
+const MOCK_CHUNK_DELAY_MS = 40;
+
+// Builds a small but fully wired graph whose labels depend only on the prompt,
+// so the same prompt always yields the same blueprint.
+const buildMockBlueprint = (prompt: string) => {
+  const words = prompt.trim().split(/\s+/).filter(Boolean);
+  const topic = words.slice(0, 4).join(' ') || 'Mock Logic';
+  const hash = Array.from(prompt).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  const useTick = hash % 2 === 1;
+  const eventLabel = useTick ? "Event Tick" : "Event BeginPlay";
+
+  return {
+    nodes: [
+      { id: "Event1", label: eventLabel, nodeType: "event", inputs: [], outputs: [{ id: "Event1_Output", name: "Output", type: "exec" }] },
+      {
+        id: "Branch1", label: "Branch", nodeType: "flow_control",
+        inputs: [{ id: "Branch1_Exec", name: "Exec", type: "exec" }, { id: "Branch1_Condition", name: "Condition", type: "boolean" }],
+        outputs: [{ id: "Branch1_True", name: "True", type: "exec" }, { id: "Branch1_False", name: "False", type: "exec" }]
+      },
+      { id: "GetVar1", label: "Get bIsEnabled", nodeType: "variable_get", inputs: [], outputs: [{ id: "GetVar1_Value", name: "bIsEnabled", type: "boolean" }] },
+      {
+        id: "Print1", label: "Print String", nodeType: "function",
+        inputs: [{ id: "Print1_Exec", name: "Exec", type: "exec" }, { id: "Print1_InString", name: "In String", type: "string", value: topic }],
+        outputs: [{ id: "Print1_Output", name: "Output", type: "exec" }]
+      }
+    ],
+    edges: [
+      { id: "e1", source: "Event1", target: "Branch1", sourceHandle: "Event1_Output", targetHandle: "Branch1_Exec" },
+      { id: "e2", source: "GetVar1", target: "Branch1", sourceHandle: "GetVar1_Value", targetHandle: "Branch1_Condition" },
+      { id: "e3", source: "Branch1", target: "Print1", sourceHandle: "Branch1_True", targetHandle: "Print1_Exec" }
+    ],
+    variables: [{ id: "Var_bIsEnabled", name: "bIsEnabled", type: "boolean", defaultValue: "true" }],
+    functions: [],
+    targetClass: "BP_GeneratedActor",
+    cppCode: [
+      "#include \"GeneratedActor.h\"",
+      "#include \"Kismet/KismetSystemLibrary.h\"",
+      "",
+      `void AGeneratedActor::${useTick ? 'Tick(float DeltaSeconds)' : 'BeginPlay()'}`,
+      "{",
+      `    Super::${useTick ? 'Tick(DeltaSeconds)' : 'BeginPlay()'};`,
+      "    if (bIsEnabled)",
+      "    {",
+      `        UKismetSystemLibrary::PrintString(this, TEXT("${topic.replace(/"/g, '\\"')}"));`,
+      "    }",
+      "}"
+    ].join("\n"),
+    summary: `- Mock provider output for: "${topic}"\n- On ${eventLabel}, prints a message when bIsEnabled is true`
+  };
+};
+
+// Refinement requests expect a delta; the mock appends a single Print String node
+const buildMockDelta = (prompt: string) => {
+  const requested = prompt.split("Requested change:").pop()!.trim();
+  const hash = Array.from(requested).reduce((acc, ch) => (acc * 31 + ch.charCodeAt(0)) >>> 0, 7);
+  const id = `MockPrint_${hash.toString(36)}`;
+  return {
+    addNodes: [{
+      id, label: "Print String", nodeType: "function",
+      inputs: [{ id: `${id}_Exec`, name: "Exec", type: "exec" }, { id: `${id}_InString`, name: "In String", type: "string", value: requested.slice(0, 40) }],
+      outputs: [{ id: `${id}_Output`, name: "Output", type: "exec" }]
+    }],
+    removeNodes: [],
+    modifyNodes: [],
+    addEdges: [],
+    removeEdges: [],
+    summary: `- Mock refinement: added a Print String for "${requested.slice(0, 40)}"`
+  };
+};
+
+const mockProvider: LLMProvider = {
+  id: 'mock',
+  label: 'Local Mock (offline)',
+  requiresApiKey: () => false,
+  complete: async (request, _config, _apiKey, onText) => {
+    const isRefinement = !!request.responseSchema?.properties?.addNodes;
+    const text = JSON.stringify(isRefinement ? buildMockDelta(request.prompt) : buildMockBlueprint(request.prompt), null, 2);
+    // Drip the response out in chunks so the streaming path is exercised offline
+    if (onText) {
+      for (let i = MOCK_CHUNK_SIZE; i < text.length; i += MOCK_CHUNK_SIZE) {
+        if (request.signal?.aborted) throw new LLMError('cancelled', 'Mock generation aborted');
+        onText(text.slice(0, i));
+        await new Promise(resolve => setTimeout(resolve, MOCK_CHUNK_DELAY_MS));
+      }
+      onText(text);
+    }
+    return { text };
+  }
+};
+
+export const PROVIDERS: Record<ProviderId, LLMProvider> = {
+  gemini: geminiProvider,
+  openai: openAIProvider,
+  mock: mockProvider
+};
+
+export const getProvider = (id: ProviderId): LLMProvider => PROVIDERS[id] || geminiProvider;
@@ -0,0 +1,83 @@
+import { NodeType, PinType } from "../types";
+import { JsonSchema, SchemaValidationError, validateJson } from "./blueprintSchema";
+import { NodeDefinition, setExtensionDefinitions } from "../utils/nodeRegistry";
+import { PIN_CONTAINERS } from "../utils/pinSchema";
+
+// A JSON file of team-specific node definitions layered over the built-in registry
+export interface NodePack {
+  name: string;
+  nodes: NodeDefinition[];
+}
+
+const STORAGE_KEY = "BLUEPRINT_VIBE_NODE_PACKS";
+
+const PIN_TEMPLATE_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    type: { type: 'string', enum: Object.values(PinType) },
+    container: { type: 'string', enum: PIN_CONTAINERS },
+    valueType: { type: 'string', enum: Object.values(PinType) },
+    subType: { type: 'string' },
+    defaultValue: { type: 'string' }
+  },
+  required: ['name', 'type']
+};
+
+export const NODE_PACK_SCHEMA: JsonSchema = {
+  type: 'object',
+  properties: {
+    name: { type: 'string' },
+    nodes: {
+      type: 'array',
+      items: {
+        type: 'object',
+        properties: {
+          label: { type: 'string' },
+          nodeType: { type: 'string', enum: Object.values(NodeType) },
+          category: { type: 'string' },
+          pure: { type: 'boolean' },
+          latent: { type: 'boolean' },
+          keywords: { type: 'string' },
+          aliases: { type: 'array', items: { type: 'string' } },
+          inputs: { type: 'array', items: PIN_TEMPLATE_SCHEMA },
+          outputs: { type: 'array', items: PIN_TEMPLATE_SCHEMA }
+        },
+        required: ['label', 'nodeType', 'category', 'pure', 'inputs', 'outputs']
+      }
+    }
+  },
+  required: ['name', 'nodes']
+};
+
+export const parseNodePack = (text: string): NodePack => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Node pack is not valid JSON: ${(e as Error).message}`);
+  }
+  const issues = validateJson(raw, NODE_PACK_SCHEMA);
+  if (issues.length > 0) throw new SchemaValidationError(issues);
+  return raw as NodePack;
+};
+
+export const applyNodePacks = (packs: NodePack[]) => {
+  setExtensionDefinitions(packs.flatMap(pack => pack.nodes));
+};
+
+// Packs that no longer validate (e.g. after a pin type was renamed) are dropped
+export const loadNodePacks = (): NodePack[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+    return stored.filter(pack => validateJson(pack, NODE_PACK_SCHEMA).length === 0);
+  } catch (e) {
+    return [];
+  }
+};
+
+export const saveNodePacks = (packs: NodePack[]) => {
+  localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+  applyNodePacks(packs);
+};
@@ -0,0 +1,168 @@
+import { BlueprintDocument, BPNode, BPEdge } from "../types";
+import { downloadBlob } from "../utils/download";
+
+export const PROJECT_FORMAT = "blueprint-vibe-project";
+export const PROJECT_FILE_EXTENSION = ".bpvibe.json";
+
+// Bump this and add a migration below whenever the saved shape changes
+export const CURRENT_PROJECT_VERSION = 3;
+
+export interface ProjectFile {
+  format: typeof PROJECT_FORMAT;
+  version: number;
+  savedAt: string;
+  name: string;
+  blueprint: BlueprintDocument;
+}
+
+// Each entry upgrades a file from version N to N + 1. Version 0 is the
+// unversioned shape: a bare GeneratedBlueprint-style object with top-level nodes.
+const MIGRATIONS: Record<number, (raw: any) => any> = {
+  0: (raw) => ({
+    format: PROJECT_FORMAT,
+    version: 1,
+    savedAt: new Date().toISOString(),
+    name: raw.targetClass || "Untitled",
+    blueprint: {
+      nodes: raw.nodes || [],
+      edges: raw.edges || [],
+      variables: raw.variables || [],
+      functions: raw.functions || [],
+      structs: raw.structs || [],
+      enums: raw.enums || [],
+      dispatchers: raw.dispatchers || [],
+      interfaces: raw.interfaces || [],
+      implementedInterfaces: raw.implementedInterfaces || [],
+      cppCode: raw.cppCode || "",
+      summary: raw.summary || "",
+      targetClass: raw.targetClass || "BP_GeneratedActor",
+      sources: raw.sources || []
+    }
+  }),
+  // v2 added user-defined structs and enums
+  1: (raw) => ({
+    ...raw,
+    version: 2,
+    blueprint: { ...raw.blueprint, structs: raw.blueprint?.structs || [], enums: raw.blueprint?.enums || [] }
+  }),
+  // v3 added event dispatchers and Blueprint Interfaces
+  2: (raw) => ({
+    ...raw,
+    version: 3,
+    blueprint: {
+      ...raw.blueprint,
+      dispatchers: raw.blueprint?.dispatchers || [],
+      interfaces: raw.blueprint?.interfaces || [],
+      implementedInterfaces: raw.blueprint?.implementedInterfaces || []
+    }
+  })
+};
+
+// Drops React Flow runtime fields (selection, measured size, diff highlights)
+const cleanNode = (node: BPNode): BPNode => ({
+  id: node.id,
+  type: node.type,
+  position: { x: node.position.x, y: node.position.y },
+  // Comment boxes keep their resized bounds
+  ...(node.width !== undefined ? { width: node.width, height: node.height } : {}),
+  data: {
+    label: node.data.label,
+    nodeType: node.data.nodeType,
+    inputs: node.data.inputs,
+    outputs: node.data.outputs,
+    ...(node.data.comment ? { comment: node.data.comment } : {}),
+    // Member nodes stay bound to their declaration by id
+    ...(node.data.variableId ? { variableId: node.data.variableId } : {}),
+    ...(node.data.functionId ? { functionId: node.data.functionId } : {}),
+    ...(node.data.typeId ? { typeId: node.data.typeId } : {}),
+    ...(node.data.dispatcherId ? { dispatcherId: node.data.dispatcherId } : {}),
+    ...(node.data.interfaceFunctionId ? { interfaceFunctionId: node.data.interfaceFunctionId } : {}),
+    ...(node.data.commentColor ? { commentColor: node.data.commentColor } : {})
+  }
+});
+
+const cleanEdge = (edge: BPEdge): BPEdge => ({
+  id: edge.id,
+  source: edge.source,
+  target: edge.target,
+  sourceHandle: edge.sourceHandle,
+  targetHandle: edge.targetHandle
+});
+
+const cleanDocument = (doc: BlueprintDocument): BlueprintDocument => ({
+  ...doc,
+  nodes: doc.nodes.map(cleanNode),
+  edges: doc.edges.map(cleanEdge),
+  functions: doc.functions.map(fn => ({
+    ...fn,
+    ...(fn.nodes ? { nodes: fn.nodes.map(cleanNode) } : {}),
+    ...(fn.edges ? { edges: fn.edges.map(cleanEdge) } : {})
+  }))
+});
+
+export const serializeProject = (doc: BlueprintDocument, name: string): ProjectFile => ({
+  format: PROJECT_FORMAT,
+  version: CURRENT_PROJECT_VERSION,
+  savedAt: new Date().toISOString(),
+  name,
+  blueprint: cleanDocument(doc)
+});
+
+const DOCUMENT_FIELDS: Array<keyof BlueprintDocument> = [
+  "nodes", "edges", "variables", "functions", "structs", "enums", "dispatchers",
+  "interfaces", "implementedInterfaces", "cppCode", "summary", "targetClass", "sources"
+];
+
+// Whether two documents hold the same blueprint, ignoring selection and other runtime state
+export const sameDocument = (a: BlueprintDocument, b: BlueprintDocument) => {
+  const left = cleanDocument(a);
+  const right = cleanDocument(b);
+  return DOCUMENT_FIELDS.every(field => JSON.stringify(left[field]) === JSON.stringify(right[field]));
+};
+
+export const migrateProject = (raw: any): ProjectFile => {
+  if (!raw || typeof raw !== "object") {
+    throw new Error("Project file is not a JSON object.");
+  }
+
+  let current = raw;
+  let version = raw.format === PROJECT_FORMAT ? Number(raw.version) : 0;
+
+  if (raw.format !== PROJECT_FORMAT && !Array.isArray(raw.nodes)) {
+    throw new Error("Not a blueprint-vibe project file.");
+  }
+  if (!Number.isInteger(version) || version < 0) {
+    throw new Error(`Project file has an invalid format version (${JSON.stringify(raw.version)}).`);
+  }
+  if (version > CURRENT_PROJECT_VERSION) {
+    throw new Error(`Project was saved by a newer version (format v${version}, this build supports v${CURRENT_PROJECT_VERSION}).`);
+  }
+
+  while (version < CURRENT_PROJECT_VERSION) {
+    const migrate = MIGRATIONS[version];
+    if (!migrate) throw new Error(`No migration from project format v${version}.`);
+    current = migrate(current);
+    version = current.version;
+  }
+
+  const bp = current.blueprint;
+  if (!bp || !Array.isArray(bp.nodes) || !Array.isArray(bp.edges)) {
+    throw new Error("Project file is missing nodes or edges.");
+  }
+  return current as ProjectFile;
+};
+
+export const parseProject = (text: string): ProjectFile => {
+  let raw: unknown;
+  try {
+    raw = JSON.parse(text);
+  } catch (e) {
+    throw new Error(`Project file is not valid JSON: ${(e as Error).message}`);
+  }
+  return migrateProject(raw);
+};
+
+export const downloadProject = (project: ProjectFile) => {
+  const blob = new Blob([JSON.stringify(project, null, 2)], { type: "application/json" });
+  downloadBlob(blob, `${project.name.replace(/[^\w.-]+/g, "_") || "Blueprint"}${PROJECT_FILE_EXTENSION}`);
+};
@@ -0,0 +1,41 @@
+import { ProjectFile, migrateProject } from "./projectFile";
+
+const DB_NAME = "blueprint-vibe";
+const DB_VERSION = 1;
+const STORE = "projects";
+const AUTOSAVE_KEY = "autosave";
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+  const request = indexedDB.open(DB_NAME, DB_VERSION);
+  request.onupgradeneeded = () => {
+    if (!request.result.objectStoreNames.contains(STORE)) {
+      request.result.createObjectStore(STORE);
+    }
+  };
+  request.onsuccess = () => resolve(request.result);
+  request.onerror = () => reject(request.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDb();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const request = run(db.transaction(STORE, mode).objectStore(STORE));
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => reject(request.error);
+    });
+  } finally {
+    db.close();
+  }
+};
+
+export const saveAutosave = async (project: ProjectFile): Promise<void> => {
+  await withStore("readwrite", store => store.put(project, AUTOSAVE_KEY));
+};
+
+// Autosaves go through the same migrations as files on disk
+export const loadAutosave = async (): Promise<ProjectFile | null> => {
+  const raw = await withStore<unknown>("readonly", store => store.get(AUTOSAVE_KEY));
+  return raw ? migrateProject(raw) : null;
+};
+
@@ -14,7 +14,9 @@ export enum PinType {
   Byte = 'byte',
   Name = 'name',
   Text = 'text',
-  Delegate = 'delegate'
+  Delegate = 'delegate',
+  // Takes the type of whatever is wired in, e.g. a For Each Loop's array
+  Wildcard = 'wildcard'
 }
 
 // UE5 Standard Colors
@@ -34,6 +36,7 @@ export const UE_COLORS = {
   Name: '#C671FF',
   Text: '#E27294',
   Delegate: '#FF3838',
+  Wildcard: '#7F7F7F',
   Default: '#9ca3af'
 };
 
@@ -44,24 +47,79 @@ export enum NodeType {
   Macro = 'macro',
   VariableGet = 'variable_get',
   VariableSet = 'variable_set',
-  FlowControl = 'flow_control'
+  FlowControl = 'flow_control',
+  FunctionEntry = 'function_entry',
+  FunctionResult = 'function_result',
+  // Canvas-only: a titled region behind other nodes, and a knot on a wire
+  Comment = 'comment',
+  Reroute = 'reroute'
 }
 
+// UE's pin container kinds. On a container pin `type` holds the element type,
+// or the key type for maps.
+export type PinContainer = 'array' | 'set' | 'map';
+
 export interface PinDefinition {
   id: string;
   name: string;
   type: PinType;
+  container?: PinContainer;
+  valueType?: PinType; // Map value type
+  subType?: string; // Class, struct or enum for Object/Class/Struct/Byte pins, e.g. AActor; dispatcher for Delegate pins
   isOutput: boolean;
   defaultValue?: string;
   value?: string; // Current user-editable value
+  userEdited?: boolean; // Value was typed in by the user, so refinements keep it
 }
 
+export type DiffStatus = 'added' | 'removed' | 'changed' | 'rewired';
+
 export interface BlueprintNodeData extends Record<string, unknown> {
   label: string;
   nodeType: NodeType;
   inputs: PinDefinition[];
   outputs: PinDefinition[];
   comment?: string;
+  // Comment boxes: fill colour of the region (the title is the label)
+  commentColor?: string;
+  // Title of the comment region the generator placed this node in; replaced by a comment box on arrival
+  group?: string;
+  // Variable Get/Set nodes created from the sidebar point back at their variable
+  variableId?: string;
+  // Call nodes for a function in My Blueprint point back at it
+  functionId?: string;
+  // Make/Break nodes of a user struct and Switch nodes of a user enum point back at it
+  typeId?: string;
+  // Call/Bind/Unbind nodes and custom events matching a dispatcher's signature point back at it
+  dispatcherId?: string;
+  // Message and Event nodes of an interface function point back at it
+  interfaceFunctionId?: string;
+  // Set only on nodes rendered inside the history diff view
+  diffStatus?: DiffStatus;
+  diffPins?: Record<string, 'added' | 'removed' | 'changed'>;
+  // Briefly set when an Output Log entry jumps to this pin
+  flashPinId?: string;
+  // Debugger state (not saved with the project)
+  breakpoint?: boolean;
+  debugActive?: boolean;
+}
+
+export type LogLevel = 'info' | 'success' | 'error' | 'warning' | 'verbose';
+
+// What a log message points at on the canvas
+export interface LogReference {
+  graphId?: string; // Function graph the element lives in; EventGraph when unset
+  nodeId?: string;
+  pinId?: string;
+  edgeId?: string;
+}
+
+export interface LogEntry {
+  id: string;
+  type: LogLevel;
+  message: string;
+  timestamp: string;
+  ref?: LogReference;
 }
 
 // React Flow specific types
@@ -72,7 +130,31 @@ export interface BlueprintVariable {
   id: string;
   name: string;
   type: PinType;
+  container?: PinContainer;
+  valueType?: PinType; // Map value type
+  subType?: string;
   defaultValue?: string;
+  category?: string;
+  tooltip?: string;
+  instanceEditable?: boolean; // Editable per placed instance; treated as true when unset
+  exposeOnSpawn?: boolean;
+}
+
+// User-defined struct and enum assets; pins and variables name them in `subType`
+export type StructMember = Pick<BlueprintVariable, 'id' | 'name' | 'type' | 'container' | 'valueType' | 'subType' | 'defaultValue' | 'tooltip'>;
+
+export interface BlueprintStruct {
+  id: string;
+  name: string; // e.g. "FInventoryItem"
+  members: StructMember[];
+  tooltip?: string;
+}
+
+export interface BlueprintEnum {
+  id: string;
+  name: string; // e.g. "EWeaponState"
+  values: string[];
+  tooltip?: string;
 }
 
 export interface BlueprintFunction {
@@ -80,6 +162,26 @@ export interface BlueprintFunction {
   name: string;
   inputs: PinDefinition[];
   outputs: PinDefinition[];
+  // The function's own graph; entry/result nodes mirror the signature
+  nodes?: BPNode[];
+  edges?: BPEdge[];
+}
+
+// Event dispatcher (multicast delegate); bound events receive `inputs` as their outputs
+export interface BlueprintDispatcher {
+  id: string;
+  name: string;
+  inputs: PinDefinition[];
+  tooltip?: string;
+}
+
+// Blueprint Interface asset: signatures only, implemented by blueprints that list it
+export type InterfaceFunction = Pick<BlueprintFunction, 'id' | 'name' | 'inputs' | 'outputs'>;
+
+export interface BlueprintInterface {
+  id: string;
+  name: string; // e.g. "BPI_Interactable"
+  functions: InterfaceFunction[];
 }
 
 export interface GeneratedBlueprint {
@@ -94,4 +196,72 @@ export interface GeneratedBlueprint {
   }>;
   variables?: BlueprintVariable[];
   functions?: BlueprintFunction[];
-}
\ No newline at end of file
+  structs?: BlueprintStruct[];
+  enums?: BlueprintEnum[];
+  dispatchers?: BlueprintDispatcher[];
+  interfaces?: BlueprintInterface[];
+  implementedInterfaces?: string[]; // Interface ids
+}
+
+// Raw node/edge shapes as the model emits them (before React Flow transformation)
+export interface RawBlueprintNode {
+  id: string;
+  label: string;
+  nodeType: NodeType;
+  inputs: PinDefinition[];
+  outputs: PinDefinition[];
+  comment?: string;
+}
+
+export interface RawBlueprintEdge {
+  id?: string;
+  source: string;
+  target: string;
+  sourceHandle: string;
+  targetHandle: string;
+}
+
+// Incremental change set returned by the model in refinement mode
+export interface BlueprintDelta {
+  addNodes: RawBlueprintNode[];
+  removeNodes: string[];
+  modifyNodes: Array<Partial<RawBlueprintNode> & { id: string }>;
+  addEdges: RawBlueprintEdge[];
+  removeEdges: string[];
+  variables?: BlueprintVariable[];
+  functions?: BlueprintFunction[];
+  structs?: BlueprintStruct[];
+  enums?: BlueprintEnum[];
+  dispatchers?: BlueprintDispatcher[];
+  interfaces?: BlueprintInterface[];
+  implementedInterfaces?: string[];
+  summary: string;
+  cppCode?: string;
+  targetClass?: string;
+}
+
+// Everything that makes up the user's blueprint (what gets snapshotted and saved)
+export interface BlueprintDocument {
+  nodes: BPNode[];
+  edges: BPEdge[];
+  variables: BlueprintVariable[];
+  functions: BlueprintFunction[];
+  structs: BlueprintStruct[];
+  enums: BlueprintEnum[];
+  dispatchers: BlueprintDispatcher[];
+  interfaces: BlueprintInterface[];
+  implementedInterfaces: string[];
+  cppCode: string;
+  summary: string;
+  targetClass: string;
+  sources: Array<{ title: string; url: string }>;
+}
+
+// Point-in-time copy of the whole blueprint, recorded by the history panel
+export interface BlueprintSnapshot extends BlueprintDocument {
+  id: string;
+  kind: 'generation' | 'refinement' | 'checkpoint';
+  label: string;       // Prompt for generations, user text for checkpoints
+  timestamp: number;
+  model?: string;      // e.g. "Google Gemini / gemini-3-pro-preview"
+}
@@ -0,0 +1,221 @@
+import { BPNode, BPEdge, LogReference, NodeType, PinDefinition, PinType } from '../types';
+import { canConnectPinTypes, pinTypeName, samePinType } from './pinSchema';
+import { definitionForNode } from './nodeRegistry';
+import { logicalGraph } from './rerouteNodes';
+
+export type CompileSeverity = 'error' | 'warning';
+
+export interface CompileMessage {
+  severity: CompileSeverity;
+  message: string;
+  ref?: LogReference;
+}
+
+export interface CompileResult {
+  messages: CompileMessage[];
+  errorCount: number;
+  warningCount: number;
+}
+
+// Macros that legitimately route exec back into themselves
+const LOOP_NODE_PATTERN = /\b(for\s*(each\s*)?loop|while\s*loop|foreach)\b/i;
+// Latent nodes break a cycle across frames (e.g. Delay -> ... -> Delay). The
+// registry flags known ones; the pattern covers nodes it doesn't define.
+const LATENT_NODE_PATTERN = /\b(delay|retriggerable delay|set timer|timeline|move component to)\b/i;
+
+const isLatent = (node: BPNode) => definitionForNode(node.data)?.latent ?? LATENT_NODE_PATTERN.test(node.data.label);
+
+const ENTRY_TYPES = new Set<NodeType>([NodeType.Event, NodeType.InputEvent, NodeType.FunctionEntry]);
+
+const hasExecInput = (node: BPNode) => node.data.inputs.some(p => p.type === PinType.Exec);
+
+// Strongly connected components of the exec graph (Tarjan)
+const findExecCycles = (nodeIds: string[], execAdjacency: Map<string, string[]>): string[][] => {
+  let index = 0;
+  const indices = new Map<string, number>();
+  const lowLinks = new Map<string, number>();
+  const stack: string[] = [];
+  const onStack = new Set<string>();
+  const cycles: string[][] = [];
+
+  const visit = (id: string) => {
+    indices.set(id, index);
+    lowLinks.set(id, index);
+    index++;
+    stack.push(id);
+    onStack.add(id);
+
+    (execAdjacency.get(id) || []).forEach(next => {
+      if (!indices.has(next)) {
+        visit(next);
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, lowLinks.get(next)!));
+      } else if (onStack.has(next)) {
+        lowLinks.set(id, Math.min(lowLinks.get(id)!, indices.get(next)!));
+      }
+    });
+
+    if (lowLinks.get(id) === indices.get(id)) {
+      const component: string[] = [];
+      let member: string;
+      do {
+        member = stack.pop()!;
+        onStack.delete(member);
+        component.push(member);
+      } while (member !== id);
+      const selfLoop = (execAdjacency.get(id) || []).includes(id);
+      if (component.length > 1 || selfLoop) cycles.push(component.reverse());
+    }
+  };
+
+  nodeIds.forEach(id => { if (!indices.has(id)) visit(id); });
+  return cycles;
+};
+
+export const compileBlueprint = (graphNodes: BPNode[], graphEdges: BPEdge[]): CompileResult => {
+  // Comments never run and reroute nodes only pass a wire through
+  const { nodes, edges } = logicalGraph(graphNodes, graphEdges);
+  const messages: CompileMessage[] = [];
+  const error = (message: string, ref?: LogReference) => messages.push({ severity: 'error', message, ref });
+  const warning = (message: string, ref?: LogReference) => messages.push({ severity: 'warning', message, ref });
+
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const label = (id: string) => nodeById.get(id)?.data.label || id;
+
+  // Duplicate pin ids make handles ambiguous, so links to them can't be trusted
+  nodes.forEach(node => {
+    const seen = new Set<string>();
+    [...node.data.inputs, ...node.data.outputs].forEach(pin => {
+      if (seen.has(pin.id)) {
+        error(`Node "${node.data.label}" has more than one pin with id "${pin.id}".`, { nodeId: node.id, pinId: pin.id });
+      }
+      seen.add(pin.id);
+    });
+  });
+
+  // Known nodes must carry their canonical pins
+  const isFunctionGraph = nodes.some(n => n.data.nodeType === NodeType.FunctionEntry);
+  nodes.forEach(node => {
+    const definition = definitionForNode(node.data);
+    if (!definition) return;
+    ([['input', definition.inputs, node.data.inputs], ['output', definition.outputs, node.data.outputs]] as const).forEach(([side, templates, pins]) => {
+      templates.forEach(template => {
+        const pin = pins.find(p => p.name === template.name);
+        if (!pin) {
+          warning(`"${node.data.label}" is missing its "${template.name}" ${side} pin.`, { nodeId: node.id });
+        } else if (!samePinType({ ...pin, subType: template.subType && (pin.subType ?? template.subType) }, template)) {
+          warning(`Pin "${pin.name}" on "${node.data.label}" should be ${pinTypeName(template)}, not ${pinTypeName(pin)}.`, { nodeId: node.id, pinId: pin.id });
+        }
+      });
+    });
+    if (definition.latent && isFunctionGraph) {
+      error(`Latent node "${node.data.label}" can't be used inside a function; move it to the Event Graph.`, { nodeId: node.id });
+    }
+  });
+
+  const validEdges: Array<{ edge: BPEdge; source: PinDefinition; target: PinDefinition }> = [];
+  edges.forEach(edge => {
+    const sourceNode = nodeById.get(edge.source);
+    const targetNode = nodeById.get(edge.target);
+    if (!sourceNode || !targetNode) {
+      error(`Link ${edge.id} references missing node "${!sourceNode ? edge.source : edge.target}".`, { edgeId: edge.id });
+      return;
+    }
+    const source = sourceNode.data.outputs.find(p => p.id === edge.sourceHandle);
+    const target = targetNode.data.inputs.find(p => p.id === edge.targetHandle);
+    if (!source) {
+      error(`Link from "${sourceNode.data.label}" uses output pin "${edge.sourceHandle ?? '(none)'}", which does not exist.`, { edgeId: edge.id, nodeId: sourceNode.id });
+      return;
+    }
+    if (!target) {
+      error(`Link into "${targetNode.data.label}" uses input pin "${edge.targetHandle ?? '(none)'}", which does not exist.`, { edgeId: edge.id, nodeId: targetNode.id });
+      return;
+    }
+    const response = canConnectPinTypes(source, target);
+    if (response.kind === 'disallow') {
+      error(`Can't connect "${source.name}" on "${sourceNode.data.label}" to "${target.name}" on "${targetNode.data.label}": ${response.reason}.`, { edgeId: edge.id, nodeId: targetNode.id, pinId: target.id });
+      return;
+    }
+    if (response.kind === 'convert') {
+      // Direct links between convertible types still need the autocast node
+      error(`Link into "${target.name}" on "${targetNode.data.label}" needs a "${response.conversion.label}" node (${pinTypeName(source)} to ${pinTypeName(target)}).`, { edgeId: edge.id, nodeId: targetNode.id, pinId: target.id });
+      return;
+    }
+    validEdges.push({ edge, source, target });
+  });
+
+  // A data input reads exactly one value
+  const dataInputLinks = new Map<string, BPEdge[]>();
+  validEdges.forEach(({ edge, target }) => {
+    if (target.type === PinType.Exec) return;
+    const key = `${edge.target}\u0000${target.id}`;
+    dataInputLinks.set(key, [...(dataInputLinks.get(key) || []), edge]);
+  });
+  dataInputLinks.forEach(links => {
+    if (links.length < 2) return;
+    const { target, targetHandle } = links[0];
+    const pinName = nodeById.get(target)?.data.inputs.find(p => p.id === targetHandle)?.name || targetHandle;
+    error(`Input pin "${pinName}" on "${label(target)}" has ${links.length} incoming links; only one is allowed.`, { nodeId: target, pinId: targetHandle ?? undefined, edgeId: links[1].id });
+  });
+
+  // Exec flow
+  const execAdjacency = new Map<string, string[]>();
+  const execTargets = new Set<string>();
+  validEdges.forEach(({ edge, source }) => {
+    if (source.type !== PinType.Exec) return;
+    execAdjacency.set(edge.source, [...(execAdjacency.get(edge.source) || []), edge.target]);
+    execTargets.add(edge.target);
+  });
+
+  nodes.forEach(node => {
+    // An unwired return node is fine: the function just falls off the end
+    if (ENTRY_TYPES.has(node.data.nodeType) || node.data.nodeType === NodeType.FunctionResult) return;
+    const execPin = node.data.inputs.find(p => p.type === PinType.Exec);
+    if (execPin && !execTargets.has(node.id)) {
+      error(`Exec input on "${node.data.label}" is not connected; the node will never run.`, { nodeId: node.id, pinId: execPin.id });
+    }
+  });
+
+  findExecCycles(nodes.map(n => n.id), execAdjacency).forEach(cycle => {
+    const breaksCycle = cycle.some(id => {
+      const node = nodeById.get(id)!;
+      return LOOP_NODE_PATTERN.test(node.data.label) || isLatent(node);
+    });
+    if (!breaksCycle) {
+      error(`Infinite loop: exec wires form a cycle (${cycle.map(label).join(' -> ')}). Use a loop node instead.`, { nodeId: cycle[0] });
+    }
+  });
+
+  // Reachability: exec nodes from events, pure nodes through the data they feed
+  const reachable = new Set<string>();
+  const queue = nodes.filter(n => ENTRY_TYPES.has(n.data.nodeType)).map(n => n.id);
+  while (queue.length > 0) {
+    const id = queue.shift()!;
+    if (reachable.has(id)) continue;
+    reachable.add(id);
+    (execAdjacency.get(id) || []).forEach(next => queue.push(next));
+  }
+  let grew = true;
+  while (grew) {
+    grew = false;
+    validEdges.forEach(({ edge, source }) => {
+      if (source.type === PinType.Exec || reachable.has(edge.source) || !reachable.has(edge.target)) return;
+      const sourceNode = nodeById.get(edge.source)!;
+      if (hasExecInput(sourceNode) || ENTRY_TYPES.has(sourceNode.data.nodeType)) return;
+      reachable.add(edge.source);
+      grew = true;
+    });
+  }
+  nodes.forEach(node => {
+    if (reachable.has(node.id)) return;
+    // Already reported as an unconnected exec input
+    if (hasExecInput(node) && !execTargets.has(node.id)) return;
+    warning(`"${node.data.label}" is unreachable from any event and will never be evaluated.`, { nodeId: node.id });
+  });
+
+  if (nodes.length > 0 && !nodes.some(n => ENTRY_TYPES.has(n.data.nodeType))) {
+    warning('Blueprint has no Entry Point (Event). Logic may not execute.');
+  }
+
+  const errorCount = messages.filter(m => m.severity === 'error').length;
+  return { messages, errorCount, warningCount: messages.length - errorCount };
+};
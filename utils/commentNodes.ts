@@ -0,0 +1,84 @@
+import { BPNode, NodeType } from '../types';
+
+// Comment boxes are titled, coloured regions drawn behind the graph. Like the
+// editor, dragging one carries along every node that lies entirely inside it.
+
+export const COMMENT_NODE_TYPE = 'commentNode';
+
+// UE's default comment is white; the rest tell regions apart
+export const COMMENT_COLORS = ['#ffffff', '#60a5fa', '#4ade80', '#facc15', '#fb923c', '#f87171', '#c084fc'];
+
+const DEFAULT_SIZE = { width: 400, height: 200 };
+// Room around the framed nodes, with the title bar on top
+const PADDING = { side: 32, top: 56, bottom: 32 };
+
+export const isCommentNode = (node: BPNode) => node.data.nodeType === NodeType.Comment;
+
+export const createCommentNode = (
+  title: string,
+  position: { x: number; y: number },
+  size = DEFAULT_SIZE,
+  color = COMMENT_COLORS[0]
+): BPNode => ({
+  id: `Comment_${Math.random().toString(36).substr(2, 6)}`,
+  type: COMMENT_NODE_TYPE,
+  position,
+  width: size.width,
+  height: size.height,
+  selected: true,
+  data: { label: title, nodeType: NodeType.Comment, inputs: [], outputs: [], commentColor: color }
+});
+
+// Freshly generated nodes haven't been measured yet, so their height is estimated from the pin rows
+const nodeSize = (node: BPNode) => ({
+  width: node.measured?.width ?? node.width ?? 240,
+  height: node.measured?.height ?? node.height ?? 48 + 24 * Math.max(node.data.inputs.length, node.data.outputs.length)
+});
+
+// Nodes lying entirely inside the comment, nested comments included
+export const nodesInsideComment = (comment: BPNode, nodes: BPNode[]) => {
+  const { width, height } = nodeSize(comment);
+  return nodes.filter(node => {
+    if (node.id === comment.id) return false;
+    const size = nodeSize(node);
+    return node.position.x >= comment.position.x
+      && node.position.y >= comment.position.y
+      && node.position.x + size.width <= comment.position.x + width
+      && node.position.y + size.height <= comment.position.y + height;
+  });
+};
+
+// A comment sized to frame the given nodes
+export const createCommentAround = (title: string, nodes: BPNode[], color?: string) => {
+  const left = Math.min(...nodes.map(n => n.position.x));
+  const top = Math.min(...nodes.map(n => n.position.y));
+  const right = Math.max(...nodes.map(n => n.position.x + nodeSize(n).width));
+  const bottom = Math.max(...nodes.map(n => n.position.y + nodeSize(n).height));
+  return createCommentNode(
+    title,
+    { x: left - PADDING.side, y: top - PADDING.top },
+    { width: right - left + 2 * PADDING.side, height: bottom - top + PADDING.top + PADDING.bottom },
+    color
+  );
+};
+
+// Generated nodes name the region they belong to; each region becomes a comment
+// around its (already laid out) nodes, listed first so it draws behind them
+export const frameGroups = (nodes: BPNode[]): BPNode[] => {
+  const groups = new Map<string, BPNode[]>();
+  nodes.forEach(node => {
+    const title = node.data.group?.trim();
+    if (title) groups.set(title, [...(groups.get(title) || []), node]);
+  });
+  if (groups.size === 0) return nodes;
+  const comments = Array.from(groups, ([title, members], i) =>
+    ({ ...createCommentAround(title, members, COMMENT_COLORS[(i + 1) % COMMENT_COLORS.length]), selected: false }));
+  return [
+    ...comments,
+    ...nodes.map(node => {
+      if (node.data.group === undefined) return node;
+      const { group, ...data } = node.data;
+      return { ...node, data };
+    })
+  ];
+};
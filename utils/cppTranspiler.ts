@@ -0,0 +1,1037 @@
+import { BPNode, BPEdge, BlueprintDocument, BlueprintEnum, BlueprintFunction, BlueprintStruct, BlueprintVariable, InterfaceFunction, NodeType, PinDefinition, PinType } from '../types';
+import { KNOWN_FUNCTIONS } from './t3dExport';
+import { referencesFunction } from './functionGraphs';
+import { PinTypeDescriptor } from './pinSchema';
+import { castTargetClass, displayTypeName, findEnum, findUserEnum, findUserStruct } from './engineTypes';
+import { parseTypeNodeLabel } from './userTypes';
+import { parseDispatcherLabel } from './dispatchers';
+import { findInterfaceFunction, parseMessageLabel } from './interfaces';
+import { logicalGraph } from './rerouteNodes';
+
+// Walks the graph and produces a C++ class model, then renders it as a .h/.cpp
+// pair. Output depends only on the graph, so it is stable between edits.
+
+export interface CppFunction {
+  name: string;
+  params: string;                 // "float DeltaSeconds"
+  returnType?: string;            // Defaults to void
+  kind: 'override' | 'event' | 'bound' | 'input' | 'callable' | 'interface';
+  superCall?: string;
+  body: string[];
+}
+
+export interface CppMember {
+  type: string;
+  name: string;
+  init?: string;                  // In-class default initialiser, if any
+  property?: string;              // UPROPERTY specifiers; state members have none
+  tooltip?: string;
+  isVariable?: boolean;           // Declared in My Blueprint (or referenced by a Get/Set node)
+  isState?: boolean;              // Generated bookkeeping (DoOnce flags, timer handles)
+}
+
+// User-defined types declared ahead of the class
+export interface CppEnum {
+  name: string;
+  values: string[];
+  tooltip?: string;
+}
+
+export interface CppStruct {
+  name: string;
+  members: CppMember[];
+  tooltip?: string;
+}
+
+// DECLARE_DYNAMIC_MULTICAST_DELEGATE signature for an event dispatcher
+export interface CppDelegate {
+  signature: string;              // FOnDiedSignature
+  params: { type: string; name: string }[];
+}
+
+export interface CppInterface {
+  name: string;                   // Without the U/I prefix
+  functions: { name: string; params: string; returnType?: string }[];
+}
+
+export interface CppClassModel {
+  className: string;
+  fileName: string;
+  parentClass: string;
+  includes: string[];
+  enums: CppEnum[];
+  structs: CppStruct[];
+  delegates: CppDelegate[];
+  interfaces: CppInterface[];
+  implementedInterfaces: string[];
+  members: CppMember[];
+  functions: CppFunction[];
+  bindings: string[];             // Delegate bindings run in BeginPlay
+  inputBindings: string[];        // Lines for SetupPlayerInputComponent
+  tickEnabled: boolean;
+}
+
+export const CPP_TYPES: Record<PinType, string> = {
+  [PinType.Exec]: 'void',
+  [PinType.Boolean]: 'bool',
+  [PinType.Integer]: 'int32',
+  [PinType.Float]: 'float',
+  [PinType.String]: 'FString',
+  [PinType.Vector]: 'FVector',
+  [PinType.Rotator]: 'FRotator',
+  [PinType.Object]: 'UObject*',
+  [PinType.Class]: 'UClass*',
+  [PinType.Struct]: 'FInstancedStruct',
+  [PinType.Byte]: 'uint8',
+  [PinType.Name]: 'FName',
+  [PinType.Text]: 'FText',
+  [PinType.Delegate]: 'FScriptDelegate',
+  // Only left when nothing is wired into the wildcard
+  [PinType.Wildcard]: 'auto'
+};
+
+// Engine events with a native virtual to override
+const EVENT_OVERRIDES: Record<string, { name: string; params: string; superArgs: string }> = {
+  'BeginPlay': { name: 'BeginPlay', params: '', superArgs: '' },
+  'Tick': { name: 'Tick', params: 'float DeltaSeconds', superArgs: 'DeltaSeconds' },
+  'EndPlay': { name: 'EndPlay', params: 'const EEndPlayReason::Type EndPlayReason', superArgs: 'EndPlayReason' },
+  'Destroyed': { name: 'Destroyed', params: '', superArgs: '' },
+  'ActorBeginOverlap': { name: 'NotifyActorBeginOverlap', params: 'AActor* OtherActor', superArgs: 'OtherActor' },
+  'ActorEndOverlap': { name: 'NotifyActorEndOverlap', params: 'AActor* OtherActor', superArgs: 'OtherActor' },
+  'Hit': {
+    name: 'NotifyHit',
+    params: 'UPrimitiveComponent* MyComp, AActor* Other, UPrimitiveComponent* OtherComp, bool bSelfMoved, FVector HitLocation, FVector HitNormal, FVector NormalImpulse, const FHitResult& Hit',
+    superArgs: 'MyComp, Other, OtherComp, bSelfMoved, HitLocation, HitNormal, NormalImpulse, Hit'
+  }
+};
+
+// Events only reachable through a multicast delegate
+const BOUND_EVENTS: Record<string, { handler: string; params: string; delegate: string }> = {
+  'AnyDamage': {
+    handler: 'HandleAnyDamage',
+    params: 'AActor* DamagedActor, float Damage, const UDamageType* DamageType, AController* InstigatedBy, AActor* DamageCauser',
+    delegate: 'OnTakeAnyDamage'
+  },
+  'ActorOnClicked': { handler: 'HandleClicked', params: 'AActor* TouchedActor, FKey ButtonPressed', delegate: 'OnClicked' }
+};
+
+const COMPONENT_OVERLAP_PARAMS = 'UPrimitiveComponent* OverlappedComponent, AActor* OtherActor, UPrimitiveComponent* OtherComp, int32 OtherBodyIndex, bool bFromSweep, const FHitResult& SweepResult';
+const COMPONENT_END_OVERLAP_PARAMS = 'UPrimitiveComponent* OverlappedComponent, AActor* OtherActor, UPrimitiveComponent* OtherComp, int32 OtherBodyIndex';
+
+const LIBRARY_INCLUDES: Record<string, string> = {
+  UKismetSystemLibrary: 'Kismet/KismetSystemLibrary.h',
+  UGameplayStatics: 'Kismet/GameplayStatics.h',
+  UKismetMathLibrary: 'Kismet/KismetMathLibrary.h',
+  UKismetStringLibrary: 'Kismet/KismetStringLibrary.h',
+  UKismetTextLibrary: 'Kismet/KismetTextLibrary.h'
+};
+
+// Libraries whose functions take a WorldContextObject first
+const WORLD_CONTEXT_LIBRARIES = new Set(['UKismetSystemLibrary', 'UGameplayStatics']);
+
+const INFIX: Record<string, string> = {
+  '+': '+', 'add': '+', '-': '-', 'subtract': '-', '*': '*', '×': '*', 'multiply': '*', '/': '/', '÷': '/', 'divide': '/',
+  '%': '%', 'modulo': '%', '>': '>', 'greater': '>', '<': '<', 'less': '<', '>=': '>=', 'greater equal': '>=',
+  '<=': '<=', 'less equal': '<=', '==': '==', 'equal': '==', '!=': '!=', 'not equal': '!=',
+  'and': '&&', 'boolean and': '&&', 'or': '||', 'boolean or': '||', 'xor': '!=', 'boolean xor': '!='
+};
+
+const FMATH: Record<string, string> = {
+  'min': 'FMath::Min', 'max': 'FMath::Max', 'abs': 'FMath::Abs', 'absolute': 'FMath::Abs', 'clamp': 'FMath::Clamp',
+  'sqrt': 'FMath::Sqrt', 'square root': 'FMath::Sqrt', 'power': 'FMath::Pow',
+  'random float in range': 'FMath::FRandRange', 'random integer in range': 'FMath::RandRange'
+};
+
+const opName = (label: string) => label.replace(/\(.*?\)/g, '').trim().toLowerCase();
+const norm = (s: string) => s.toLowerCase().replace(/[\s_]+/g, '');
+
+export const toIdentifier = (text: string) => {
+  const id = text
+    .replace(/[^A-Za-z0-9]+(.)?/g, (_, c: string | undefined) => (c ? c.toUpperCase() : ''))
+    .replace(/^[^A-Za-z_]+/, '');
+  return id || 'Unnamed';
+};
+
+export const cppClassName = (targetClass: string) => {
+  const base = toIdentifier(targetClass.replace(/^BP_/, ''));
+  return /^A[A-Z]/.test(base) ? base : `A${base}`;
+};
+
+const cppString = (s: string) => `TEXT("${s.replace(/\\/g, '\\\\').replace(/"/g, '\\"')}")`;
+
+const floatLiteral = (n: number) => {
+  const text = String(Number.isFinite(n) ? n : 0);
+  return `${text.includes('.') || text.includes('e') ? text : `${text}.0`}f`;
+};
+
+export const cppLiteral = (type: PinType, value: string | undefined): string => {
+  const raw = (value ?? '').trim();
+  const nums = () => (raw.match(/-?\d+(\.\d+)?/g) || []).map(Number);
+  switch (type) {
+    case PinType.Boolean: return raw.toLowerCase() === 'true' ? 'true' : 'false';
+    case PinType.Integer:
+    case PinType.Byte: return String(parseInt(raw, 10) || 0);
+    case PinType.Float: return floatLiteral(parseFloat(raw) || 0);
+    case PinType.String: return cppString(raw);
+    case PinType.Name: return raw ? `FName(${cppString(raw)})` : 'NAME_None';
+    case PinType.Text: return raw ? `FText::FromString(${cppString(raw)})` : 'FText::GetEmpty()';
+    case PinType.Vector: {
+      const [x = 0, y = 0, z = 0] = nums();
+      return x === 0 && y === 0 && z === 0 ? 'FVector::ZeroVector' : `FVector(${floatLiteral(x)}, ${floatLiteral(y)}, ${floatLiteral(z)})`;
+    }
+    case PinType.Rotator: {
+      const [p = 0, y = 0, r = 0] = nums();
+      return p === 0 && y === 0 && r === 0 ? 'FRotator::ZeroRotator' : `FRotator(${floatLiteral(p)}, ${floatLiteral(y)}, ${floatLiteral(r)})`;
+    }
+    case PinType.Object:
+    case PinType.Class: return 'nullptr';
+    default: return `${CPP_TYPES[type]}()`;
+  }
+};
+
+// Sub-typed pins name their class, struct or enum: AActor*, TSubclassOf<AActor>, FHitResult
+const elementType = (type: PinType, subType: string | undefined, enums: BlueprintEnum[]) => {
+  if (!subType) return CPP_TYPES[type];
+  switch (type) {
+    case PinType.Object: return `${subType}*`;
+    case PinType.Class: return `TSubclassOf<${subType}>`;
+    case PinType.Struct: return subType;
+    // Blueprint enums are declared as enum class : uint8, engine ones are mostly old-style
+    case PinType.Byte: return findUserEnum(subType, enums) ? subType : `TEnumAsByte<${subType}>`;
+    default: return CPP_TYPES[type];
+  }
+};
+
+export const cppTypeOf = ({ type, container, valueType, subType }: PinTypeDescriptor, enums: BlueprintEnum[]) => {
+  const element = elementType(type, subType, enums);
+  switch (container) {
+    case 'array': return `TArray<${element}>`;
+    case 'set': return `TSet<${element}>`;
+    case 'map': return `TMap<${element}, ${CPP_TYPES[valueType ?? PinType.Boolean]}>`;
+    default: return element;
+  }
+};
+
+// Containers have no literal form; they start empty. Enum values are written by name.
+const valueLiteral = (t: PinTypeDescriptor, value: string | undefined, enums: BlueprintEnum[]) => {
+  if (t.container) return `${cppTypeOf(t, enums)}()`;
+  if (t.subType && t.type === PinType.Struct) return `${t.subType}()`;
+  if (t.subType && t.type === PinType.Byte) {
+    const name = value?.trim() || findEnum(t.subType, enums)?.values[0];
+    if (name && !/^\d+$/.test(name)) return `${t.subType}::${name}`;
+  }
+  return cppLiteral(t.type, value);
+};
+
+const eventKey = (label: string) => toIdentifier(label.replace(/^Event\s+/, ''));
+
+const VARIABLE_PROPERTY = 'EditAnywhere, BlueprintReadWrite, Category = "Default"';
+
+const variableProperty = (v: BlueprintVariable) => {
+  const specifiers = [
+    v.instanceEditable === false ? 'EditDefaultsOnly' : 'EditAnywhere',
+    'BlueprintReadWrite',
+    `Category = "${(v.category || 'Default').replace(/"/g, '')}"`
+  ];
+  if (v.exposeOnSpawn) specifiers.push('meta = (ExposeOnSpawn = "true")');
+  return specifiers.join(', ');
+};
+const COMPONENT_PROPERTY = 'VisibleAnywhere, BlueprintReadOnly, Category = "Components"';
+const INPUT_PROPERTY = 'EditAnywhere, BlueprintReadOnly, Category = "Input"';
+
+// Small value types go by value, everything else by const reference
+const BY_VALUE = new Set(['bool', 'int32', 'float', 'uint8']);
+const paramType = (t: PinTypeDescriptor, enums: BlueprintEnum[]) => {
+  const cpp = cppTypeOf(t, enums);
+  return BY_VALUE.has(cpp) || cpp.endsWith('*') ? cpp : `const ${cpp}&`;
+};
+
+// A single output becomes the return value; several become reference out-params,
+// which is how UHT turns C++ signatures back into Blueprint output pins
+const callableSignature = (fn: Pick<BlueprintFunction, 'inputs' | 'outputs'>, enums: BlueprintEnum[]) => {
+  const inputs = fn.inputs.filter(p => p.type !== PinType.Exec);
+  const outputs = fn.outputs.filter(p => p.type !== PinType.Exec);
+  const returned = outputs.length === 1 ? outputs[0] : undefined;
+  const params = [
+    ...inputs.map(p => `${paramType(p, enums)} ${toIdentifier(p.name)}`),
+    ...(returned ? [] : outputs.map(p => `${cppTypeOf(p, enums)}& ${toIdentifier(p.name)}`))
+  ].join(', ');
+  return { params, returned };
+};
+
+// A struct held by value in another has to be declared first
+const declarationOrder = (structs: BlueprintStruct[]) => {
+  const ordered: BlueprintStruct[] = [];
+  const visit = (st: BlueprintStruct, path: Set<string>) => {
+    if (ordered.includes(st) || path.has(st.id)) return;
+    path.add(st.id);
+    st.members.forEach(m => {
+      const held = m.type === PinType.Struct && structs.find(s => s.name === m.subType);
+      if (held) visit(held, path);
+    });
+    ordered.push(st);
+  };
+  structs.forEach(st => visit(st, new Set()));
+  return ordered;
+};
+
+// Members of the blueprint declared outside the graphs
+export type CppUserTypes = Partial<Pick<BlueprintDocument, 'structs' | 'enums' | 'dispatchers' | 'interfaces' | 'implementedInterfaces'>>;
+
+const delegateSignature = (name: string) => `F${toIdentifier(name)}Signature`;
+
+export const buildCppModel = (
+  graphNodes: BPNode[],
+  graphEdges: BPEdge[],
+  variables: BlueprintVariable[],
+  targetClass: string,
+  callables: BlueprintFunction[] = [],
+  userTypes: CppUserTypes = {}
+): CppClassModel => {
+  const className = cppClassName(targetClass);
+  // Comments and reroute nodes never reach the C++
+  const { nodes, edges: eventGraphEdges } = logicalGraph(graphNodes, graphEdges);
+  let edges = eventGraphEdges;
+  // The EventGraph is transpiled first, then edges/nodeById are switched to each function graph
+  let nodeById = new Map(nodes.map(n => [n.id, n]));
+  let graphKey = '';
+  const includes = new Set<string>();
+  const structs = userTypes.structs || [];
+  const enums = userTypes.enums || [];
+  const dispatchers = userTypes.dispatchers || [];
+  const interfaces = userTypes.interfaces || [];
+  const implemented = interfaces.filter(i => (userTypes.implementedInterfaces || []).includes(i.id));
+  const members: CppMember[] = [
+    ...variables.map(v => ({
+      type: cppTypeOf(v, enums),
+      name: toIdentifier(v.name),
+      init: v.container ? undefined : valueLiteral(v, v.defaultValue, enums),
+      property: variableProperty(v),
+      tooltip: v.tooltip,
+      isVariable: true
+    })),
+    ...dispatchers.map(d => ({
+      type: delegateSignature(d.name),
+      name: toIdentifier(d.name),
+      property: 'BlueprintAssignable, Category = "Events"',
+      tooltip: d.tooltip,
+      isVariable: true
+    }))
+  ];
+  const functions: CppFunction[] = [];
+  const bindings: string[] = [];
+  const inputBindings: string[] = [];
+  const usedNames = new Set<string>(members.map(m => m.name));
+
+  const uniqueName = (base: string) => {
+    let name = toIdentifier(base);
+    for (let i = 1; usedNames.has(name); i++) name = `${toIdentifier(base)}_${i}`;
+    usedNames.add(name);
+    return name;
+  };
+
+  const stateMember = (type: string, base: string, init?: string) => {
+    const name = uniqueName(base);
+    members.push({ type, name, init, isState: true });
+    return name;
+  };
+
+  const memberFor = (label: string, pin: PinTypeDescriptor) => {
+    const name = toIdentifier(label.replace(/^(Get|Set)\s+/, ''));
+    if (!members.some(m => m.name === name)) {
+      members.push({ type: cppTypeOf(pin, enums), name, init: pin.container ? undefined : valueLiteral(pin, undefined, enums), property: VARIABLE_PROPERTY, isVariable: true });
+      usedNames.add(name);
+    }
+    return name;
+  };
+
+  // Engine objects the generated code refers to by name (components, input assets)
+  const referencedMember = (type: string, base: string, property: string) => {
+    const name = toIdentifier(base);
+    const existing = members.find(m => m.name === name);
+    if (existing) return existing.name;
+    members.push({ type, name: uniqueName(base), init: 'nullptr', property });
+    return members[members.length - 1].name;
+  };
+
+  // Custom events are named on first use, so a Bind node can name its handler before it is emitted
+  const eventNames = new Map<string, string>();
+  const customEventName = (node: BPNode) => {
+    if (!eventNames.has(node.id)) eventNames.set(node.id, uniqueName(node.data.label.replace(/^(Event|Custom Event)\s+/, '')));
+    return eventNames.get(node.id)!;
+  };
+
+  // Implementations of BlueprintNativeEvent interface functions keep their UHT suffix
+  const implementationName = (name: string) => {
+    const implementation = `${toIdentifier(name)}_Implementation`;
+    usedNames.add(implementation);
+    return implementation;
+  };
+
+  // Per-node generated state, so reaching a node twice reuses the same names
+  const nodeMembers = new Map<string, string>();
+  const nodeMember = (nodeId: string, type: string, base: string, init?: string) => {
+    const key = `${graphKey}${nodeId}`;
+    if (!nodeMembers.has(key)) nodeMembers.set(key, stateMember(type, base, init));
+    return nodeMembers.get(key)!;
+  };
+
+  // Names bound to data outputs: event params, loop counters, locals of impure calls
+  const outputNames = new Map<string, string>();
+  const outKey = (nodeId: string, pinId: string) => `${nodeId}:${pinId}`;
+
+  const incomingEdge = (nodeId: string, pinId: string) => edges.find(e => e.target === nodeId && e.targetHandle === pinId);
+  const execOutputs = (node: BPNode) => node.data.outputs.filter(p => p.type === PinType.Exec);
+  const dataInputs = (node: BPNode) => node.data.inputs.filter(p => p.type !== PinType.Exec);
+  const findPin = (pins: PinDefinition[], ...names: string[]) => pins.find(p => names.map(norm).includes(norm(p.name)));
+
+  const callFor = (label: string): { callee: string; staticClass?: string } | null => {
+    const known = KNOWN_FUNCTIONS[label];
+    if (!known) return null;
+    const [classPath, fn] = known;
+    const cls = `U${classPath.split('.').pop()}`;
+    if (LIBRARY_INCLUDES[cls]) {
+      includes.add(LIBRARY_INCLUDES[cls]);
+      return { callee: `${cls}::${fn}`, staticClass: cls };
+    }
+    // Actor member functions drop the K2_ blueprint prefix in C++
+    return { callee: fn.replace(/^K2_/, '') };
+  };
+
+  const expression = (node: BPNode, pin: PinDefinition, depth = 0): string => {
+    const edge = incomingEdge(node.id, pin.id);
+    if (!edge) return valueLiteral(pin, pin.value ?? pin.defaultValue, enums);
+    const named = outputNames.get(outKey(edge.source, edge.sourceHandle || ''));
+    if (named) return named;
+    const source = nodeById.get(edge.source);
+    if (!source) return valueLiteral(pin, undefined, enums);
+    const isPure = !source.data.inputs.some(p => p.type === PinType.Exec) && source.data.nodeType !== NodeType.Event && source.data.nodeType !== NodeType.InputEvent;
+    if (!isPure) return `${valueLiteral(pin, undefined, enums)} /* TODO: "${source.data.label}" runs after this read */`;
+    if (depth > 64) return `${valueLiteral(pin, undefined, enums)} /* TODO: pure node cycle */`;
+    const outPin = source.data.outputs.find(p => p.id === edge.sourceHandle);
+    return pureExpression(source, outPin, depth + 1);
+  };
+
+  const args = (node: BPNode, depth = 0) => dataInputs(node)
+    .filter(p => norm(p.name) !== 'target' && norm(p.name) !== 'self')
+    .map(p => expression(node, p, depth));
+
+  const pureExpression = (node: BPNode, outPin: PinDefinition | undefined, depth: number): string => {
+    const label = node.data.label;
+    if (node.data.nodeType === NodeType.VariableGet) return memberFor(label, outPin ?? { type: PinType.Boolean });
+
+    const op = opName(label);
+    const a = args(node, depth);
+    if (INFIX[op] && a.length >= 2) return `(${a.join(` ${INFIX[op]} `)})`;
+    if ((op === 'not' || op === 'not boolean') && a.length === 1) return `!${a[0]}`;
+    if (op === 'negate' && a.length === 1) return `-${a[0]}`;
+    if (FMATH[op]) return `${FMATH[op]}(${a.join(', ')})`;
+    if (op === 'select' && a.length === 3) return `(${a[0]} ? ${a[1]} : ${a[2]})`;
+    if (op === 'is valid') return `IsValid(${a[0] ?? 'nullptr'})`;
+    if (op === 'vector length' || op === 'vector size') return `${a[0]}.Size()`;
+    if (op === 'make vector') return `FVector(${a.join(', ')})`;
+    if (op === 'make rotator') return `FRotator(${a.join(', ')})`;
+    if (op.startsWith('append')) return `(${a.join(' + ')})`;
+    if (op === 'break vector' && outPin) return `${a[0]}.${outPin.name.toUpperCase().charAt(0)}`;
+    const typeNode = parseTypeNodeLabel(label);
+    if (typeNode?.kind === 'make' && findUserStruct(typeNode.name, structs)) {
+      const fields = dataInputs(node).map((p, i) => ` Value.${toIdentifier(p.name)} = ${a[i]};`).join('');
+      return `[&] { ${typeNode.name} Value;${fields} return Value; }()`;
+    }
+    if (typeNode?.kind === 'break' && findUserStruct(typeNode.name, structs) && outPin) return `${a[0]}.${toIdentifier(outPin.name)}`;
+    const castClass = castTargetClass(label);
+    if (castClass) {
+      const cast = `Cast<${castClass}>(${a[0] ?? 'nullptr'})`;
+      return outPin?.type === PinType.Boolean ? `(${cast} != nullptr)` : cast;
+    }
+
+    const call = callFor(label);
+    if (call) {
+      const callArgs = call.staticClass && WORLD_CONTEXT_LIBRARIES.has(call.staticClass) ? ['this', ...a] : a;
+      return `${call.callee}(${callArgs.join(', ')})`;
+    }
+    return `${valueLiteral(outPin ?? { type: PinType.Boolean }, undefined, enums)} /* TODO: "${label}" has no C++ mapping */`;
+  };
+
+  // Emits the statements for an exec chain starting at nodeId
+  const emitChain = (nodeId: string | undefined, indent: string, out: string[], stack: Set<string>) => {
+    if (!nodeId) return;
+    const node = nodeById.get(nodeId);
+    if (!node) return;
+    if (stack.has(nodeId)) {
+      out.push(`${indent}// Exec wire loops back to "${node.data.label}"; use a loop node instead.`);
+      return;
+    }
+    if (stack.size > 200) {
+      out.push(`${indent}// TODO: exec chain too deep to transpile.`);
+      return;
+    }
+    const nextStack = new Set(stack).add(nodeId);
+    const follow = (pin: PinDefinition | undefined, ind: string) => {
+      if (!pin) return;
+      edges.filter(e => e.source === node.id && e.sourceHandle === pin.id)
+        .forEach(e => emitChain(e.target, ind, out, nextStack));
+    };
+    const followNamed = (fallbackIndex: number, ...names: string[]) => follow(findPin(execOutputs(node), ...names) || execOutputs(node)[fallbackIndex], indent);
+    const input = (fallbackIndex: number, ...names: string[]) => {
+      const pin = findPin(dataInputs(node), ...names) || dataInputs(node)[fallbackIndex];
+      return pin ? expression(node, pin) : 'false';
+    };
+    const inner = `${indent}\t`;
+    const op = opName(node.data.label);
+
+    if (node.data.nodeType === NodeType.FunctionResult) {
+      const values = dataInputs(node);
+      // Mirrors callableSignature: one output is returned, several are written to out-params
+      if (values.length === 1) {
+        out.push(`${indent}return ${expression(node, values[0])};`);
+      } else {
+        values.forEach(p => out.push(`${indent}${toIdentifier(p.name)} = ${expression(node, p)};`));
+        if (indent !== '\t') out.push(`${indent}return;`);
+      }
+      return;
+    }
+
+    if (node.data.nodeType === NodeType.VariableSet) {
+      const valuePin = dataInputs(node)[0];
+      const name = memberFor(node.data.label, valuePin ?? { type: PinType.Boolean });
+      out.push(`${indent}${name} = ${valuePin ? expression(node, valuePin) : `${name}`};`);
+      node.data.outputs.filter(p => p.type !== PinType.Exec).forEach(p => outputNames.set(outKey(node.id, p.id), name));
+      followNamed(0, 'Output', 'Then');
+      return;
+    }
+
+    // Impure cast: the "As X" pin is only valid on the success path
+    const castClass = castTargetClass(node.data.label);
+    if (castClass) {
+      const local = uniqueName(`As ${displayTypeName(castClass)}`);
+      const asPin = node.data.outputs.find(p => p.type === PinType.Object);
+      if (asPin) outputNames.set(outKey(node.id, asPin.id), local);
+      out.push(`${indent}if (${castClass}* ${local} = Cast<${castClass}>(${input(0, 'Object')}))`, `${indent}{`);
+      follow(findPin(execOutputs(node), 'Then') || execOutputs(node)[0], inner);
+      out.push(`${indent}}`);
+      const failedLines: string[] = [];
+      const failedPin = findPin(execOutputs(node), 'Cast Failed', 'CastFailed');
+      if (failedPin) edges.filter(e => e.source === node.id && e.sourceHandle === failedPin.id).forEach(e => emitChain(e.target, inner, failedLines, nextStack));
+      if (failedLines.length > 0) out.push(`${indent}else`, `${indent}{`, ...failedLines, `${indent}}`);
+      return;
+    }
+
+    const typeNode = parseTypeNodeLabel(node.data.label);
+    if (typeNode?.kind === 'switch' && findUserEnum(typeNode.name, enums)) {
+      out.push(`${indent}switch (${input(0, 'Selection')})`, `${indent}{`);
+      execOutputs(node).forEach(pin => {
+        out.push(`${indent}case ${typeNode.name}::${toIdentifier(pin.name)}:`);
+        follow(pin, inner);
+        out.push(`${inner}break;`);
+      });
+      out.push(`${indent}}`);
+      return;
+    }
+
+    const dispatch = parseDispatcherLabel(node.data.label);
+    const dispatcher = dispatch && dispatchers.find(d => d.name === dispatch.name);
+    if (dispatch && dispatcher) {
+      const targetPin = findPin(dataInputs(node), 'Target');
+      const member = `${targetPin && incomingEdge(node.id, targetPin.id) ? `${expression(node, targetPin)}->` : ''}${toIdentifier(dispatcher.name)}`;
+      if (dispatch.kind === 'call') {
+        out.push(`${indent}${member}.Broadcast(${dataInputs(node).filter(p => p !== targetPin).map(p => expression(node, p)).join(', ')});`);
+      } else if (dispatch.kind === 'unbindAll') {
+        out.push(`${indent}${member}.Clear();`);
+      } else {
+        const eventPin = node.data.inputs.find(p => p.type === PinType.Delegate);
+        const eventEdge = eventPin && incomingEdge(node.id, eventPin.id);
+        const handler = eventEdge && nodeById.get(eventEdge.source);
+        out.push(handler?.data.nodeType === NodeType.Event
+          ? `${indent}${member}.${dispatch.kind === 'bind' ? 'AddDynamic' : 'RemoveDynamic'}(this, &${className}::${customEventName(handler)});`
+          : `${indent}// TODO: connect a custom event to "${node.data.label}"`);
+      }
+      followNamed(0, 'Then');
+      return;
+    }
+
+    switch (op) {
+      case 'branch':
+      case 'if': {
+        out.push(`${indent}if (${input(0, 'Condition')})`, `${indent}{`);
+        follow(findPin(execOutputs(node), 'True') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`);
+        const elseLines: string[] = [];
+        const falsePin = findPin(execOutputs(node), 'False') || execOutputs(node)[1];
+        if (falsePin) edges.filter(e => e.source === node.id && e.sourceHandle === falsePin.id).forEach(e => emitChain(e.target, inner, elseLines, nextStack));
+        if (elseLines.length > 0) out.push(`${indent}else`, `${indent}{`, ...elseLines, `${indent}}`);
+        return;
+      }
+
+      case 'sequence':
+        execOutputs(node).forEach(pin => {
+          out.push(`${indent}// ${node.data.label}: ${pin.name}`);
+          follow(pin, indent);
+        });
+        return;
+
+      case 'for loop':
+      case 'forloop':
+      case 'for loop with break':
+      case 'forloopwithbreak':
+      case 'while loop':
+      case 'whileloop': {
+        if (op.startsWith('while')) {
+          out.push(`${indent}while (${input(0, 'Condition')})`, `${indent}{`);
+        } else {
+          const index = uniqueName('Index');
+          const indexPin = findPin(node.data.outputs, 'Index');
+          if (indexPin) outputNames.set(outKey(node.id, indexPin.id), index);
+          out.push(`${indent}for (int32 ${index} = ${input(0, 'First Index', 'FirstIndex')}; ${index} <= ${input(1, 'Last Index', 'LastIndex')}; ++${index})`, `${indent}{`);
+        }
+        follow(findPin(execOutputs(node), 'Loop Body', 'LoopBody') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`);
+        followNamed(1, 'Completed');
+        return;
+      }
+
+      case 'for each loop':
+      case 'foreach':
+      case 'foreachloop':
+      case 'for each loop with break': {
+        const index = uniqueName('ArrayIndex');
+        const array = input(0, 'Array');
+        const elementPin = findPin(node.data.outputs, 'Array Element', 'Element');
+        const indexPin = findPin(node.data.outputs, 'Array Index', 'Index');
+        const element = uniqueName('Element');
+        if (elementPin) outputNames.set(outKey(node.id, elementPin.id), element);
+        if (indexPin) outputNames.set(outKey(node.id, indexPin.id), index);
+        out.push(`${indent}for (int32 ${index} = 0; ${index} < ${array}.Num(); ++${index})`, `${indent}{`, `${inner}const auto& ${element} = ${array}[${index}];`);
+        follow(findPin(execOutputs(node), 'Loop Body', 'LoopBody') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`);
+        followNamed(1, 'Completed');
+        return;
+      }
+
+      case 'do once':
+      case 'doonce': {
+        const flag = nodeMember(node.id, 'bool', 'bDoOnceDone', 'false');
+        out.push(`${indent}if (!${flag})`, `${indent}{`, `${inner}${flag} = true;`);
+        follow(findPin(execOutputs(node), 'Completed') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`);
+        return;
+      }
+
+      case 'flip flop':
+      case 'flipflop': {
+        const flag = nodeMember(node.id, 'bool', 'bFlipFlopIsA', 'false');
+        const isAPin = findPin(node.data.outputs, 'Is A', 'IsA');
+        if (isAPin) outputNames.set(outKey(node.id, isAPin.id), flag);
+        out.push(`${indent}${flag} = !${flag};`, `${indent}if (${flag})`, `${indent}{`);
+        follow(findPin(execOutputs(node), 'A') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`, `${indent}else`, `${indent}{`);
+        follow(findPin(execOutputs(node), 'B') || execOutputs(node)[1], inner);
+        out.push(`${indent}}`);
+        return;
+      }
+
+      case 'gate': {
+        const open = nodeMember(node.id, 'bool', 'bGateOpen', input(0, 'Start Closed') === 'true' ? 'false' : 'true');
+        out.push(`${indent}if (${open})`, `${indent}{`);
+        follow(findPin(execOutputs(node), 'Exit') || execOutputs(node)[0], inner);
+        out.push(`${indent}}`);
+        return;
+      }
+
+      case 'delay':
+      case 'retriggerable delay': {
+        includes.add('TimerManager.h');
+        const handle = nodeMember(node.id, 'FTimerHandle', 'DelayHandle');
+        const body: string[] = [];
+        const completed = findPin(execOutputs(node), 'Completed') || execOutputs(node)[0];
+        if (completed) edges.filter(e => e.source === node.id && e.sourceHandle === completed.id).forEach(e => emitChain(e.target, inner, body, nextStack));
+        // Latent: the rest of the chain runs when the timer fires
+        out.push(`${indent}GetWorldTimerManager().SetTimer(${handle}, [this]()`, `${indent}{`, ...body, `${indent}}, ${input(0, 'Duration')}, false);`);
+        return;
+      }
+
+      case 'print string':
+      case 'print text':
+        includes.add(LIBRARY_INCLUDES.UKismetSystemLibrary);
+        out.push(`${indent}UKismetSystemLibrary::PrintString(this, ${input(0, 'In String', 'In Text')});`);
+        followNamed(0, 'Output', 'Then');
+        return;
+    }
+
+    // Generic call: this class's functions, interface messages, known library / actor functions, otherwise a TODO stub
+    const call = callFor(node.data.label);
+    const dataOuts = node.data.outputs.filter(p => p.type !== PinType.Exec);
+    const callable = callables.find(fn => referencesFunction(node, fn));
+    const messageName = parseMessageLabel(node.data.label);
+    const message = messageName ? findInterfaceFunction(messageName, interfaces) : undefined;
+    // Mirrors callableSignature: a single linked output is returned, several are passed as out-params
+    const emitCall = (callee: string, callArgs: string[], baseName: string) => {
+      const linked = dataOuts.filter(p => edges.some(e => e.source === node.id && e.sourceHandle === p.id));
+      if (dataOuts.length === 1 && linked.length === 1) {
+        const local = uniqueName(`${baseName} ${dataOuts[0].name}`);
+        outputNames.set(outKey(node.id, dataOuts[0].id), local);
+        out.push(`${indent}const auto ${local} = ${callee}(${callArgs.join(', ')});`);
+      } else if (dataOuts.length > 1) {
+        const locals = dataOuts.map(p => {
+          const local = uniqueName(`${baseName} ${p.name}`);
+          outputNames.set(outKey(node.id, p.id), local);
+          out.push(`${indent}${cppTypeOf(p, enums)} ${local} = ${valueLiteral(p, undefined, enums)};`);
+          return local;
+        });
+        out.push(`${indent}${callee}(${[...callArgs, ...locals].join(', ')});`);
+      } else {
+        out.push(`${indent}${callee}(${callArgs.join(', ')});`);
+      }
+    };
+    if (callable) {
+      emitCall(callableNames.get(callable.id)!, dataInputs(node).map(p => expression(node, p)), callable.name);
+    } else if (message) {
+      // Execute_ dispatches to C++ and Blueprint implementations alike
+      const targetPin = findPin(dataInputs(node), 'Target');
+      const target = targetPin && incomingEdge(node.id, targetPin.id) ? expression(node, targetPin) : 'this';
+      const callArgs = dataInputs(node).filter(p => p !== targetPin).map(p => expression(node, p));
+      emitCall(`I${toIdentifier(message.iface.name)}::Execute_${toIdentifier(message.fn.name)}`, [target, ...callArgs], message.fn.name);
+    } else if (call) {
+      const targetPin = findPin(dataInputs(node), 'Target', 'self');
+      const target = targetPin && incomingEdge(node.id, targetPin.id) ? `${expression(node, targetPin)}->` : '';
+      const callArgs = call.staticClass && WORLD_CONTEXT_LIBRARIES.has(call.staticClass) ? ['this', ...args(node)] : args(node);
+      const callText = `${target}${call.callee}(${callArgs.join(', ')})`;
+      const result = dataOuts[0];
+      if (result && edges.some(e => e.source === node.id && e.sourceHandle === result.id)) {
+        const local = uniqueName(`${node.data.label} ${result.name === 'Return Value' ? 'Result' : result.name}`);
+        outputNames.set(outKey(node.id, result.id), local);
+        out.push(`${indent}const auto ${local} = ${callText};`);
+      } else {
+        out.push(`${indent}${callText};`);
+      }
+    } else {
+      const inputs = dataInputs(node).map(p => `${p.name}=${expression(node, p)}`).join(', ');
+      out.push(`${indent}// TODO: "${node.data.label}" has no C++ mapping${inputs ? ` (${inputs})` : ''}`);
+      dataOuts.forEach(p => {
+        if (!edges.some(e => e.source === node.id && e.sourceHandle === p.id)) return;
+        const local = uniqueName(`${node.data.label} ${p.name}`);
+        outputNames.set(outKey(node.id, p.id), local);
+        out.push(`${indent}${cppTypeOf(p, enums)} ${local} = ${valueLiteral(p, undefined, enums)};`);
+      });
+    }
+    followNamed(0, 'Output', 'Then');
+  };
+
+  const bindParams = (node: BPNode, params: string) => {
+    // Event data outputs map onto the handler's parameters by name
+    const paramNames = params.split(',').map(p => p.trim().split(/[\s*&]+/).pop() || '').filter(Boolean);
+    node.data.outputs.filter(p => p.type !== PinType.Exec).forEach(pin => {
+      const id = toIdentifier(pin.name);
+      const match = paramNames.find(n => norm(n) === norm(id)) || id;
+      outputNames.set(outKey(node.id, pin.id), match);
+    });
+  };
+
+  const chainFrom = (node: BPNode, pin: PinDefinition | undefined) => {
+    const body: string[] = [];
+    if (pin) edges.filter(e => e.source === node.id && e.sourceHandle === pin.id).forEach(e => emitChain(e.target, '\t', body, new Set([node.id])));
+    return body;
+  };
+
+  let tickEnabled = false;
+
+  // Function names are reserved up front so call nodes in any graph can refer to them
+  const callableNames = new Map(callables.map(fn => [fn.id, findInterfaceFunction(fn.name, implemented) ? implementationName(fn.name) : uniqueName(fn.name)]));
+
+  nodes.filter(n => n.data.nodeType === NodeType.Event || n.data.nodeType === NodeType.InputEvent).forEach(node => {
+    const label = node.data.label;
+
+    if (node.data.nodeType === NodeType.InputEvent || /^(InputAction|EnhancedInputAction|InputAxis)\b/.test(label)) {
+      const action = label.replace(/^(EnhancedInputAction|InputAction|InputAxis)\s*/, '').trim() || 'Action';
+      const enhanced = label.startsWith('EnhancedInputAction');
+      const params = enhanced ? 'const FInputActionValue& ActionValue' : '';
+      const connected = execOutputs(node).filter(pin => edges.some(e => e.source === node.id && e.sourceHandle === pin.id));
+      (connected.length > 0 ? connected : execOutputs(node).slice(0, 1)).forEach(pin => {
+        const handler = uniqueName(`On ${action} ${execOutputs(node).length > 1 ? pin.name : ''}`);
+        bindParams(node, params);
+        functions.push({ name: handler, params, kind: 'input', body: chainFrom(node, pin) });
+        if (enhanced) {
+          const trigger = norm(pin.name) === 'completed' ? 'Completed' : norm(pin.name) === 'started' ? 'Started' : 'Triggered';
+          const asset = referencedMember('TObjectPtr<UInputAction>', action, INPUT_PROPERTY);
+          inputBindings.push(`Input->BindAction(${asset}, ETriggerEvent::${trigger}, this, &${className}::${handler});`);
+        } else {
+          const event = norm(pin.name) === 'released' ? 'IE_Released' : 'IE_Pressed';
+          inputBindings.push(`PlayerInputComponent->BindAction(${cppString(action)}, ${event}, this, &${className}::${handler});`);
+        }
+      });
+      return;
+    }
+
+    const key = eventKey(label);
+    const override = EVENT_OVERRIDES[key];
+    const execOut = execOutputs(node)[0];
+    if (override) {
+      if (functions.some(f => f.name === override.name)) return; // Duplicate event node; UE rejects these too
+      if (key === 'Tick') tickEnabled = true;
+      usedNames.add(override.name);
+      bindParams(node, override.params);
+      functions.push({
+        name: override.name,
+        params: override.params,
+        kind: 'override',
+        superCall: `Super::${override.name}(${override.superArgs});`,
+        body: chainFrom(node, execOut)
+      });
+      return;
+    }
+
+    const bound = BOUND_EVENTS[key];
+    const componentOverlap = label.match(/^On Component (Begin|End) Overlap\s*\((\w+)\)/);
+    if (bound || componentOverlap) {
+      const handler = uniqueName(bound ? bound.handler : `On ${componentOverlap![2]} ${componentOverlap![1]} Overlap`);
+      const params = bound ? bound.params : componentOverlap![1] === 'Begin' ? COMPONENT_OVERLAP_PARAMS : COMPONENT_END_OVERLAP_PARAMS;
+      bindParams(node, params);
+      functions.push({ name: handler, params, kind: 'bound', body: chainFrom(node, execOut) });
+      const component = componentOverlap ? referencedMember('TObjectPtr<UPrimitiveComponent>', componentOverlap[2], COMPONENT_PROPERTY) : '';
+      bindings.push(bound
+        ? `${bound.delegate}.AddDynamic(this, &${className}::${handler});`
+        : `${component}->OnComponent${componentOverlap![1]}Overlap.AddDynamic(this, &${className}::${handler});`);
+      return;
+    }
+
+    const implementedEvent = findInterfaceFunction(label.replace(/^Event\s+/, ''), implemented);
+    if (implementedEvent) {
+      const { params } = callableSignature(implementedEvent.fn, enums);
+      bindParams(node, params);
+      functions.push({ name: implementationName(implementedEvent.fn.name), params, kind: 'interface', body: chainFrom(node, execOut) });
+      return;
+    }
+
+    // Custom events become callable member functions with their outputs as parameters;
+    // the delegate pin only exists for binding
+    const dataOuts = node.data.outputs.filter(p => p.type !== PinType.Exec && p.type !== PinType.Delegate);
+    const params = dataOuts.map(p => `${cppTypeOf(p, enums)} ${toIdentifier(p.name)}`).join(', ');
+    bindParams(node, params);
+    functions.push({ name: customEventName(node), params, kind: 'event', body: chainFrom(node, execOut) });
+  });
+
+  // Sidebar functions: each body is transpiled from its own graph, starting at the entry node
+  callables.forEach(fn => {
+    const { params, returned } = callableSignature(fn, enums);
+    const entry = fn.nodes?.find(n => n.data.nodeType === NodeType.FunctionEntry);
+    let body: string[] = [];
+    if (entry) {
+      const graph = logicalGraph(fn.nodes!, fn.edges || []);
+      edges = graph.edges;
+      nodeById = new Map(graph.nodes.map(n => [n.id, n]));
+      graphKey = `${fn.id}:`;
+      outputNames.clear();
+      bindParams(entry, params);
+      body = chainFrom(entry, execOutputs(entry)[0]);
+    }
+    if (body.length === 0) body.push('\t// TODO: implement');
+    if (returned && !/^\treturn\b/.test(body[body.length - 1])) body.push(`\treturn ${valueLiteral(returned, returned.defaultValue, enums)};`);
+    const kind = findInterfaceFunction(fn.name, implemented) ? 'interface' : 'callable';
+    functions.push({ name: callableNames.get(fn.id)!, params, returnType: returned ? cppTypeOf(returned, enums) : undefined, kind, body });
+  });
+
+  // Delegate bindings must run in BeginPlay even if the graph has no BeginPlay node
+  if (bindings.length > 0 && !functions.some(f => f.name === 'BeginPlay')) {
+    functions.unshift({ name: 'BeginPlay', params: '', kind: 'override', superCall: 'Super::BeginPlay();', body: [] });
+  }
+  if (inputBindings.some(l => l.startsWith('Input->'))) includes.add('EnhancedInputComponent.h');
+  const interfaceSignature = (fn: InterfaceFunction) => {
+    const { params, returned } = callableSignature(fn, enums);
+    return { name: toIdentifier(fn.name), params, returnType: returned ? cppTypeOf(returned, enums) : undefined };
+  };
+
+  return {
+    className,
+    fileName: className.replace(/^A/, ''),
+    parentClass: inputBindings.length > 0 ? 'APawn' : 'AActor',
+    includes: Array.from(includes).sort(),
+    enums: enums.map(e => ({ name: e.name, values: e.values.map(toIdentifier), tooltip: e.tooltip })),
+    structs: declarationOrder(structs).map(st => ({
+      name: st.name,
+      tooltip: st.tooltip,
+      members: st.members.map(m => ({
+        type: cppTypeOf(m, enums),
+        name: toIdentifier(m.name),
+        init: m.container ? undefined : valueLiteral(m, m.defaultValue, enums),
+        property: 'EditAnywhere, BlueprintReadWrite',
+        tooltip: m.tooltip
+      }))
+    })),
+    delegates: dispatchers.map(d => ({
+      signature: delegateSignature(d.name),
+      params: d.inputs.filter(p => p.type !== PinType.Exec).map(p => ({ type: paramType(p, enums), name: toIdentifier(p.name) }))
+    })),
+    interfaces: interfaces.map(i => ({ name: toIdentifier(i.name), functions: i.functions.map(interfaceSignature) })),
+    implementedInterfaces: implemented.map(i => toIdentifier(i.name)),
+    members,
+    functions,
+    bindings,
+    inputBindings,
+    tickEnabled
+  };
+};
+
+export const renderCppSource = (model: CppClassModel): string => {
+  const { className } = model;
+  const lines: string[] = [
+    `// ${model.fileName}.cpp`,
+    '// Generated from the Blueprint graph. Edits to the graph regenerate this file.',
+    '',
+    `#include "${model.fileName}.h"`,
+    ...model.includes.map(i => `#include "${i}"`),
+    '',
+    `${className}::${className}()`,
+    '{',
+    `\tPrimaryActorTick.bCanEverTick = ${model.tickEnabled ? 'true' : 'false'};`,
+    '}'
+  ];
+
+  model.functions.forEach(fn => {
+    lines.push('', `${fn.returnType || 'void'} ${className}::${fn.name}(${fn.params})`, '{');
+    if (fn.superCall) lines.push(`\t${fn.superCall}`);
+    if (fn.name === 'BeginPlay' && model.bindings.length > 0) {
+      lines.push('', '\t// Delegate bindings', ...model.bindings.map(b => `\t${b}`));
+    }
+    if (fn.superCall && fn.body.length > 0) lines.push('');
+    lines.push(...(fn.body.length > 0 ? fn.body : fn.superCall ? [] : ['\t// Nothing connected to this event yet.']));
+    lines.push('}');
+  });
+
+  if (model.inputBindings.length > 0) {
+    lines.push('', `void ${className}::SetupPlayerInputComponent(UInputComponent* PlayerInputComponent)`, '{', '\tSuper::SetupPlayerInputComponent(PlayerInputComponent);');
+    if (model.inputBindings.some(l => l.startsWith('Input->'))) {
+      lines.push('\tUEnhancedInputComponent* Input = CastChecked<UEnhancedInputComponent>(PlayerInputComponent);');
+    }
+    lines.push(...model.inputBindings.map(l => `\t${l}`), '}');
+  }
+
+  return lines.join('\n') + '\n';
+};
+
+// Macro suffix by parameter count; UE stops at nine
+const DELEGATE_ARITY = ['', '_OneParam', '_TwoParams', '_ThreeParams', '_FourParams', '_FiveParams', '_SixParams', '_SevenParams', '_EightParams', '_NineParams'];
+
+export const renderCppHeader = (model: CppClassModel): string => {
+  const { className } = model;
+  const enhancedInput = model.inputBindings.some(l => l.startsWith('Input->'));
+  const signatures = model.members.concat(model.structs.flatMap(st => st.members)).map(m => m.type)
+    .concat(model.functions.map(f => f.params), model.delegates.flatMap(d => d.params.map(p => p.type)));
+  const lines: string[] = [
+    `// ${model.fileName}.h`,
+    '// Generated from the Blueprint graph. Edits to the graph regenerate this file.',
+    '',
+    '#pragma once',
+    '',
+    '#include "CoreMinimal.h"',
+    `#include "${model.parentClass === 'APawn' ? 'GameFramework/Pawn.h' : 'GameFramework/Actor.h'}"`
+  ];
+  if (model.interfaces.length > 0) lines.push('#include "UObject/Interface.h"');
+  if (signatures.some(s => s.includes('FInstancedStruct'))) lines.push('#include "StructUtils/InstancedStruct.h"');
+  lines.push(`#include "${model.fileName}.generated.h"`, '');
+  if (enhancedInput) lines.push('class UInputAction;', 'struct FInputActionValue;', '');
+
+  const declare = (fn: CppFunction) => {
+    const virtual = fn.kind === 'override' || fn.kind === 'interface';
+    return `\t${virtual ? 'virtual ' : ''}${fn.returnType || 'void'} ${fn.name}(${fn.params})${virtual ? ' override' : ''};`;
+  };
+  const section = (label: string, body: string[]) => {
+    if (body.length > 0) lines.push('', `${label}:`, ...body);
+  };
+  const docComment = (text: string | undefined, indent: string) => (text ? [`${indent}/** ${text.replace(/\*\//g, '* /')} */`] : []);
+  const properties = (members: CppMember[]) => members.flatMap(m => [
+    // UHT turns the doc comment into the editor tooltip
+    ...docComment(m.tooltip, '\t'),
+    `\tUPROPERTY(${m.property})`,
+    `\t${m.type} ${m.name}${m.init !== undefined ? ` = ${m.init}` : ''};`,
+    ''
+  ]);
+  const ufunctions = (fns: CppFunction[], specifiers: string) => fns.flatMap(fn => [`\tUFUNCTION(${specifiers})`, declare(fn), '']);
+  const byKind = (kind: CppFunction['kind']) => model.functions.filter(f => f.kind === kind);
+  const trim = (block: string[]) => (block[block.length - 1] === '' ? block.slice(0, -1) : block);
+
+  model.enums.forEach(e => lines.push(
+    ...docComment(e.tooltip, ''),
+    'UENUM(BlueprintType)',
+    `enum class ${e.name} : uint8`,
+    '{',
+    ...e.values.map((v, i) => `\t${v}${i < e.values.length - 1 ? ',' : ''}`),
+    '};',
+    ''
+  ));
+  model.structs.forEach(st => lines.push(
+    ...docComment(st.tooltip, ''),
+    'USTRUCT(BlueprintType)',
+    `struct ${st.name}`,
+    '{',
+    '\tGENERATED_BODY()',
+    ...(st.members.length > 0 ? [''] : []),
+    ...trim(properties(st.members)),
+    '};',
+    ''
+  ));
+
+  model.delegates.forEach(d => {
+    const params = d.params.slice(0, DELEGATE_ARITY.length - 1);
+    lines.push(`DECLARE_DYNAMIC_MULTICAST_DELEGATE${DELEGATE_ARITY[params.length]}(${[d.signature, ...params.flatMap(p => [p.type, p.name])].join(', ')});`);
+  });
+  if (model.delegates.length > 0) lines.push('');
+  model.interfaces.forEach(i => lines.push(
+    'UINTERFACE(MinimalAPI, Blueprintable)',
+    `class U${i.name} : public UInterface`,
+    '{',
+    '\tGENERATED_BODY()',
+    '};',
+    '',
+    `class I${i.name}`,
+    '{',
+    '\tGENERATED_BODY()',
+    ...(i.functions.length > 0 ? ['', 'public:'] : []),
+    ...trim(i.functions.flatMap(fn => [
+      '\tUFUNCTION(BlueprintCallable, BlueprintNativeEvent, Category = "Interface")',
+      `\t${fn.returnType || 'void'} ${fn.name}(${fn.params});`,
+      ''
+    ])),
+    '};',
+    ''
+  ));
+
+  const bases = [model.parentClass, ...model.implementedInterfaces.map(i => `I${i}`)].map(b => `public ${b}`).join(', ');
+  lines.push('UCLASS()', `class ${className} : ${bases}`, '{', '\tGENERATED_BODY()');
+
+  section('public', trim([
+    `\t${className}();`,
+    '',
+    ...properties(model.members.filter(m => m.isVariable)),
+    ...ufunctions(byKind('callable'), 'BlueprintCallable, Category = "Default"'),
+    ...ufunctions(byKind('event'), 'BlueprintCallable, Category = "Events"'),
+    ...byKind('interface').map(declare)
+  ]));
+
+  const overrides = byKind('override').map(declare);
+  if (model.inputBindings.length > 0) overrides.push('\tvirtual void SetupPlayerInputComponent(UInputComponent* PlayerInputComponent) override;');
+  section('protected', trim([
+    ...properties(model.members.filter(m => !m.isState && !m.isVariable && m.property)),
+    ...overrides,
+    ...(overrides.length > 0 ? [''] : []),
+    // AddDynamic needs reflected handlers
+    ...ufunctions(byKind('bound'), ''),
+    ...byKind('input').map(declare)
+  ]));
+
+  section('private', model.members.filter(m => m.isState).map(m => `\t${m.type} ${m.name}${m.init !== undefined ? ` = ${m.init}` : ''};`));
+
+  lines.push('};');
+  return lines.join('\n') + '\n';
+};
+
+export const transpileToCpp = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  variables: BlueprintVariable[],
+  targetClass: string,
+  callables: BlueprintFunction[] = [],
+  userTypes: CppUserTypes = {}
+) => {
+  const model = buildCppModel(nodes, edges, variables, targetClass, callables, userTypes);
+  return { header: renderCppHeader(model), source: renderCppSource(model) };
+};
@@ -0,0 +1,142 @@
+import { BPNode, BPEdge, BlueprintDispatcher, NodeType, PinDefinition, PinType } from '../types';
+import { dropInvalidEdges, reconcilePins } from './pinSchema';
+
+// Dispatcher nodes are labelled after the dispatcher, as in the editor
+const LABELS = {
+  call: /^Call (\w+)$/,
+  bind: /^Bind Event to (\w+)$/,
+  unbind: /^Unbind Event from (\w+)$/,
+  unbindAll: /^Unbind all Events from (\w+)$/
+};
+
+export type DispatcherNodeKind = keyof typeof LABELS;
+
+export const DISPATCHER_NODE_KINDS = Object.keys(LABELS) as DispatcherNodeKind[];
+
+export const dispatcherNodeLabel = (kind: DispatcherNodeKind, name: string) => ({
+  call: `Call ${name}`,
+  bind: `Bind Event to ${name}`,
+  unbind: `Unbind Event from ${name}`,
+  unbindAll: `Unbind all Events from ${name}`
+})[kind];
+
+export const parseDispatcherLabel = (label: string): { kind: DispatcherNodeKind; name: string } | undefined => {
+  for (const kind of DISPATCHER_NODE_KINDS) {
+    const match = label.match(LABELS[kind]);
+    if (match) return { kind, name: match[1] };
+  }
+  return undefined;
+};
+
+const exec = (nodeId: string, name: string, isOutput: boolean): PinDefinition =>
+  ({ id: `${nodeId}_${name}`, name, type: PinType.Exec, isOutput });
+
+// The red delegate pin: an input on Bind/Unbind, the output of a matching custom event
+export const delegatePin = (nodeId: string, dispatcher: BlueprintDispatcher, isOutput: boolean): PinDefinition =>
+  ({ id: `${nodeId}_${isOutput ? 'Delegate' : 'Event'}`, name: isOutput ? 'Delegate' : 'Event', type: PinType.Delegate, subType: dispatcher.name, isOutput });
+
+const signaturePins = (nodeId: string, dispatcher: BlueprintDispatcher, isOutput: boolean): PinDefinition[] =>
+  dispatcher.inputs.filter(p => p.type !== PinType.Exec).map(p => ({
+    id: `${nodeId}_${p.id}`,
+    name: p.name,
+    type: p.type,
+    container: p.container,
+    valueType: p.valueType,
+    subType: p.subType,
+    isOutput,
+    defaultValue: isOutput ? undefined : p.defaultValue
+  }));
+
+type DispatcherNodeData = Pick<BPNode['data'], 'label' | 'nodeType' | 'inputs' | 'outputs'>;
+
+const dispatcherNodeData = (nodeId: string, kind: DispatcherNodeKind, dispatcher: BlueprintDispatcher): DispatcherNodeData => {
+  const target: PinDefinition = { id: `${nodeId}_Target`, name: 'Target', type: PinType.Object, isOutput: false };
+  const extra = kind === 'call' ? signaturePins(nodeId, dispatcher, false)
+    : kind === 'unbindAll' ? []
+    : [delegatePin(nodeId, dispatcher, false)];
+  return {
+    label: dispatcherNodeLabel(kind, dispatcher.name),
+    nodeType: NodeType.Function,
+    inputs: [exec(nodeId, 'Exec', false), target, ...extra],
+    outputs: [exec(nodeId, 'Then', true)]
+  };
+};
+
+// A custom event whose outputs follow the dispatcher's signature, ready to be bound
+const boundEventData = (nodeId: string, label: string, dispatcher: BlueprintDispatcher): DispatcherNodeData => ({
+  label,
+  nodeType: NodeType.Event,
+  inputs: [],
+  outputs: [exec(nodeId, 'Output', true), delegatePin(nodeId, dispatcher, true), ...signaturePins(nodeId, dispatcher, true)]
+});
+
+const newId = (prefix: string, name: string) => `${prefix}_${name}_${Math.random().toString(36).substr(2, 6)}`;
+
+export const createDispatcherNode = (dispatcher: BlueprintDispatcher, kind: DispatcherNodeKind, position: { x: number; y: number }): BPNode => {
+  const id = newId(kind.charAt(0).toUpperCase() + kind.slice(1), dispatcher.name);
+  return { id, type: 'customBlueprintNode', position, selected: true, data: { ...dispatcherNodeData(id, kind, dispatcher), dispatcherId: dispatcher.id } };
+};
+
+export const createBoundEventNode = (dispatcher: BlueprintDispatcher, position: { x: number; y: number }): BPNode => {
+  const id = newId('Event', dispatcher.name);
+  return { id, type: 'customBlueprintNode', position, selected: true, data: { ...boundEventData(id, `${dispatcher.name}_Event`, dispatcher), dispatcherId: dispatcher.id } };
+};
+
+const ASSIGN_EVENT_OFFSET = { x: -340, y: 140 };
+
+// "Assign": the matching custom event for a new Bind node, already wired into it
+export const createAssignedEvent = (dispatcher: BlueprintDispatcher, bind: BPNode) => {
+  const event = { ...createBoundEventNode(dispatcher, { x: bind.position.x + ASSIGN_EVENT_OFFSET.x, y: bind.position.y + ASSIGN_EVENT_OFFSET.y }), selected: false };
+  const edge: BPEdge = {
+    id: `e_${event.id}_${bind.id}`,
+    source: event.id,
+    sourceHandle: `${event.id}_Delegate`,
+    target: bind.id,
+    targetHandle: `${bind.id}_Event`
+  };
+  return { event, edge };
+};
+
+// Dispatcher nodes follow their dispatcher by id, or by label when unbound.
+// Custom events are matched by id or by a delegate pin naming the dispatcher.
+const resolveDispatcherNode = (node: BPNode, dispatchers: BlueprintDispatcher[]) => {
+  const { dispatcherId, label, nodeType } = node.data;
+  if (nodeType === NodeType.Event) {
+    const delegateOf = node.data.outputs.find(p => p.type === PinType.Delegate)?.subType;
+    const dispatcher = dispatchers.find(d => (dispatcherId ? d.id === dispatcherId : d.name === delegateOf));
+    return dispatcher && { dispatcher, build: (nodeId: string) => boundEventData(nodeId, label, dispatcher) };
+  }
+  const parsed = parseDispatcherLabel(label);
+  if (!parsed || nodeType === NodeType.Comment) return undefined;
+  const dispatcher = dispatchers.find(d => (dispatcherId ? d.id === dispatcherId : d.name === parsed.name));
+  return dispatcher && { dispatcher, build: (nodeId: string) => dispatcherNodeData(nodeId, parsed.kind, dispatcher) };
+};
+
+// Brings one graph in line with the blueprint's dispatchers and drops links
+// that no longer type-check
+export const syncDispatcherNodes = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  dispatchers: BlueprintDispatcher[]
+): { nodes: BPNode[]; edges: BPEdge[]; brokenLinks: number } => {
+  const touched = new Set<string>();
+  const updatedNodes = nodes.map(node => {
+    const resolved = resolveDispatcherNode(node, dispatchers);
+    if (!resolved) return node;
+    touched.add(node.id);
+    const wanted = resolved.build(node.id);
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        ...wanted,
+        dispatcherId: resolved.dispatcher.id,
+        inputs: reconcilePins(node.data.inputs, wanted.inputs),
+        outputs: reconcilePins(node.data.outputs, wanted.outputs)
+      }
+    };
+  });
+  if (touched.size === 0) return { nodes, edges, brokenLinks: 0 };
+  const keptEdges = dropInvalidEdges(updatedNodes, edges, touched);
+  return { nodes: updatedNodes, edges: keptEdges, brokenLinks: edges.length - keptEdges.length };
+};
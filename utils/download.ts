@@ -0,0 +1,13 @@
+// Saves a blob through a temporary link. The object URL outlives the click
+// because Firefox and Safari start the download asynchronously.
+
+const REVOKE_DELAY_MS = 10000;
+
+export const downloadBlob = (blob: Blob, fileName: string) => {
+  const url = URL.createObjectURL(blob);
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  setTimeout(() => URL.revokeObjectURL(url), REVOKE_DELAY_MS);
+};
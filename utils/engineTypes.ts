@@ -0,0 +1,162 @@
+import { BPNode, BlueprintEnum, BlueprintStruct, NodeType, PinType } from '../types';
+
+// Engine classes, structs and enums a pin can name as its sub-type (UE's
+// PinSubCategoryObject). Sub-types use the C++ names: AActor, FVector2D, ECollisionChannel.
+
+interface EngineClass {
+  parent?: string;
+  path: string;        // Script path, used by the T3D exporter/importer
+}
+
+export interface EngineEnum {
+  path: string;
+  values: string[];
+}
+
+const engine = (name: string) => `/Script/Engine.${name}`;
+
+export const ENGINE_CLASSES: Record<string, EngineClass> = {
+  UObject: { path: '/Script/CoreUObject.Object' },
+  AActor: { parent: 'UObject', path: engine('Actor') },
+  APawn: { parent: 'AActor', path: engine('Pawn') },
+  ACharacter: { parent: 'APawn', path: engine('Character') },
+  AController: { parent: 'AActor', path: engine('Controller') },
+  APlayerController: { parent: 'AController', path: engine('PlayerController') },
+  AAIController: { parent: 'AController', path: '/Script/AIModule.AIController' },
+  AGameModeBase: { parent: 'AActor', path: engine('GameModeBase') },
+  UActorComponent: { parent: 'UObject', path: engine('ActorComponent') },
+  USceneComponent: { parent: 'UActorComponent', path: engine('SceneComponent') },
+  UPrimitiveComponent: { parent: 'USceneComponent', path: engine('PrimitiveComponent') },
+  UShapeComponent: { parent: 'UPrimitiveComponent', path: engine('ShapeComponent') },
+  UBoxComponent: { parent: 'UShapeComponent', path: engine('BoxComponent') },
+  USphereComponent: { parent: 'UShapeComponent', path: engine('SphereComponent') },
+  UCapsuleComponent: { parent: 'UShapeComponent', path: engine('CapsuleComponent') },
+  UMeshComponent: { parent: 'UPrimitiveComponent', path: engine('MeshComponent') },
+  UStaticMeshComponent: { parent: 'UMeshComponent', path: engine('StaticMeshComponent') },
+  USkinnedMeshComponent: { parent: 'UMeshComponent', path: engine('SkinnedMeshComponent') },
+  USkeletalMeshComponent: { parent: 'USkinnedMeshComponent', path: engine('SkeletalMeshComponent') },
+  UCameraComponent: { parent: 'USceneComponent', path: engine('CameraComponent') },
+  USpringArmComponent: { parent: 'USceneComponent', path: engine('SpringArmComponent') },
+  UAudioComponent: { parent: 'USceneComponent', path: engine('AudioComponent') },
+  UMovementComponent: { parent: 'UActorComponent', path: engine('MovementComponent') },
+  UPawnMovementComponent: { parent: 'UMovementComponent', path: engine('PawnMovementComponent') },
+  UCharacterMovementComponent: { parent: 'UPawnMovementComponent', path: engine('CharacterMovementComponent') },
+  UDamageType: { parent: 'UObject', path: engine('DamageType') },
+  USoundBase: { parent: 'UObject', path: engine('SoundBase') },
+  UStaticMesh: { parent: 'UObject', path: engine('StaticMesh') },
+  UMaterialInterface: { parent: 'UObject', path: engine('MaterialInterface') },
+  UUserWidget: { parent: 'UObject', path: '/Script/UMG.UserWidget' }
+};
+
+export const ENGINE_STRUCTS: Record<string, string> = {
+  FVector2D: '/Script/CoreUObject.Vector2D',
+  FTransform: '/Script/CoreUObject.Transform',
+  FLinearColor: '/Script/CoreUObject.LinearColor',
+  FHitResult: engine('HitResult'),
+  FTimerHandle: engine('TimerHandle'),
+  FKey: '/Script/InputCore.Key'
+};
+
+export const ENGINE_ENUMS: Record<string, EngineEnum> = {
+  ECollisionChannel: {
+    path: engine('ECollisionChannel'),
+    values: ['ECC_WorldStatic', 'ECC_WorldDynamic', 'ECC_Pawn', 'ECC_Visibility', 'ECC_Camera', 'ECC_PhysicsBody', 'ECC_Vehicle', 'ECC_Destructible']
+  },
+  ECollisionEnabled: { path: engine('ECollisionEnabled'), values: ['NoCollision', 'QueryOnly', 'PhysicsOnly', 'QueryAndPhysics'] },
+  EEndPlayReason: { path: engine('EEndPlayReason'), values: ['Destroyed', 'LevelTransition', 'EndPlayInEditor', 'RemovedFromWorld', 'Quit'] },
+  EMovementMode: { path: engine('EMovementMode'), values: ['MOVE_None', 'MOVE_Walking', 'MOVE_NavWalking', 'MOVE_Falling', 'MOVE_Swimming', 'MOVE_Flying', 'MOVE_Custom'] },
+  EDrawDebugTrace: { path: engine('EDrawDebugTrace'), values: ['None', 'ForOneFrame', 'ForDuration', 'Persistent'] }
+};
+
+// The open blueprint's own structs and enums resolve alongside the engine ones
+export interface UserTypes {
+  structs: BlueprintStruct[];
+  enums: BlueprintEnum[];
+}
+
+export const findUserStruct = (name: string | undefined, structs: BlueprintStruct[]) => structs.find(s => s.name === name);
+export const findUserEnum = (name: string | undefined, enums: BlueprintEnum[]) => enums.find(e => e.name === name);
+
+// User assets live under /Game, like a struct or enum created in the Content Browser
+export const userTypePath = (name: string) => `/Game/Blueprints/${name}.${name}`;
+
+// Sub-types a pin of the given type can carry, for pickers
+export const subTypesFor = (type: PinType, { structs, enums }: UserTypes): string[] => {
+  switch (type) {
+    case PinType.Object:
+    case PinType.Class: return Object.keys(ENGINE_CLASSES);
+    case PinType.Struct: return [...structs.map(s => s.name), ...Object.keys(ENGINE_STRUCTS)];
+    case PinType.Byte: return [...enums.map(e => e.name), ...Object.keys(ENGINE_ENUMS)];
+    default: return [];
+  }
+};
+
+// "ACharacter" -> "Character", as the editor shows it; enums keep their name
+export const displayTypeName = (subType: string) => subType.replace(/^[AUF](?=[A-Z])/, '');
+
+export const isKnownClass = (name: string | undefined): name is string => !!name && name in ENGINE_CLASSES;
+
+export const isChildOfClass = (child: string, ancestor: string) => {
+  for (let current: string | undefined = child; current; current = ENGINE_CLASSES[current]?.parent) {
+    if (current === ancestor) return true;
+  }
+  return false;
+};
+
+export const findEnum = (name: string | undefined, enums: BlueprintEnum[]): EngineEnum | undefined => {
+  if (!name) return undefined;
+  const user = findUserEnum(name, enums);
+  return user ? { path: userTypePath(user.name), values: user.values } : ENGINE_ENUMS[name];
+};
+
+export const subTypePath = (type: PinType, subType: string, { structs, enums }: UserTypes): string | undefined => {
+  if (type === PinType.Object || type === PinType.Class) return ENGINE_CLASSES[subType]?.path;
+  if (type === PinType.Struct) return findUserStruct(subType, structs) ? userTypePath(subType) : ENGINE_STRUCTS[subType];
+  if (type === PinType.Byte) return findEnum(subType, enums)?.path;
+  return undefined;
+};
+
+// Reverse of subTypePath for imported pins; unknown (e.g. Blueprint) classes keep their short name
+export const subTypeFromPath = (type: PinType, path: string): string | undefined => {
+  const known = type === PinType.Struct
+    ? Object.entries(ENGINE_STRUCTS).find(([, p]) => p === path)?.[0]
+    : type === PinType.Byte
+      ? Object.entries(ENGINE_ENUMS).find(([, e]) => e.path === path)?.[0]
+      : Object.entries(ENGINE_CLASSES).find(([, c]) => c.path === path)?.[0];
+  return known || path.split(/[./]/).pop()?.replace(/_C$/, '') || undefined;
+};
+
+// "Cast To Character": pure casts have a Success flag instead of exec pins
+export const createCastNode = (className: string, position: { x: number; y: number }, pure = false): BPNode => {
+  const display = displayTypeName(className);
+  const id = `Cast_${display}_${Math.random().toString(36).substr(2, 6)}`;
+  return {
+    id,
+    type: 'customBlueprintNode',
+    position,
+    selected: true,
+    data: {
+      label: `Cast To ${display}`,
+      nodeType: NodeType.Function,
+      inputs: [
+        ...(pure ? [] : [{ id: `${id}_Exec`, name: 'Exec', type: PinType.Exec, isOutput: false }]),
+        { id: `${id}_Object`, name: 'Object', type: PinType.Object, subType: 'UObject', isOutput: false }
+      ],
+      outputs: [
+        ...(pure ? [] : [
+          { id: `${id}_Then`, name: 'Then', type: PinType.Exec, isOutput: true },
+          { id: `${id}_CastFailed`, name: 'Cast Failed', type: PinType.Exec, isOutput: true }
+        ]),
+        { id: `${id}_As`, name: `As ${display}`, type: PinType.Object, subType: className, isOutput: true },
+        ...(pure ? [{ id: `${id}_Success`, name: 'Success', type: PinType.Boolean, isOutput: true }] : [])
+      ]
+    }
+  };
+};
+
+// "Cast To Character" -> "ACharacter" for known classes
+export const castTargetClass = (label: string): string | undefined => {
+  const display = label.match(/^Cast To (\w+)$/)?.[1];
+  if (!display) return undefined;
+  return Object.keys(ENGINE_CLASSES).find(name => displayTypeName(name) === display) || display;
+};
@@ -0,0 +1,129 @@
+import { BPNode, BPEdge, BlueprintFunction, NodeType, PinDefinition, PinType } from '../types';
+import { dropInvalidEdges } from './pinSchema';
+
+// dataTransfer type used when dragging a function from the sidebar onto the canvas
+export const FUNCTION_DRAG_TYPE = 'application/x-bp-function';
+
+const RESULT_OFFSET_X = 640;
+
+// Rebuilds one side of a node from a signature. Existing pins are matched by id,
+// then by their old name, so links and typed-in values survive renames.
+const syncPins = (
+  nodeId: string,
+  existing: PinDefinition[],
+  signature: PinDefinition[],
+  previous: PinDefinition[] | undefined,
+  isOutput: boolean,
+  exec: { suffix: string; name: string }
+): PinDefinition[] => {
+  const execPin = existing.find(p => p.type === PinType.Exec);
+  const used = new Set<string>();
+  const pins: PinDefinition[] = [
+    execPin ? { ...execPin, isOutput } : { id: `${nodeId}_${exec.suffix}`, name: exec.name, type: PinType.Exec, isOutput }
+  ];
+
+  signature.filter(p => p.type !== PinType.Exec).forEach(sig => {
+    const oldName = previous?.find(p => p.id === sig.id)?.name ?? sig.name;
+    const candidates = existing.filter(p => p.type !== PinType.Exec && !used.has(p.id));
+    const match = candidates.find(p => p.id === `${nodeId}_${sig.id}`)
+      || candidates.find(p => p.name === oldName)
+      || candidates.find(p => p.name === sig.name);
+    if (match) used.add(match.id);
+    pins.push({
+      id: match?.id ?? `${nodeId}_${sig.id}`,
+      name: sig.name,
+      type: sig.type,
+      container: sig.container,
+      valueType: sig.valueType,
+      subType: sig.subType,
+      isOutput,
+      defaultValue: isOutput ? undefined : sig.defaultValue,
+      value: match && match.type === sig.type ? match.value : undefined,
+      userEdited: match && match.type === sig.type ? match.userEdited : undefined
+    });
+  });
+  return pins;
+};
+
+// Ensures the function graph has entry and return nodes whose pins match the signature
+export const syncFunctionGraph = (fn: BlueprintFunction, previous?: BlueprintFunction): BlueprintFunction => {
+  const nodes = fn.nodes ? [...fn.nodes] : [];
+  const blank = (id: string, nodeType: NodeType, x: number): BPNode =>
+    ({ id, type: 'customBlueprintNode', position: { x, y: 0 }, data: { label: '', nodeType, inputs: [], outputs: [] } });
+
+  let entry = nodes.find(n => n.data.nodeType === NodeType.FunctionEntry);
+  if (!entry) nodes.unshift(entry = blank(`${fn.id}_Entry`, NodeType.FunctionEntry, 0));
+  let result = nodes.find(n => n.data.nodeType === NodeType.FunctionResult);
+  if (!result) nodes.push(result = blank(`${fn.id}_Return`, NodeType.FunctionResult, entry.position.x + RESULT_OFFSET_X));
+
+  const synced = nodes.map(node => {
+    if (node === entry) {
+      return { ...node, data: { ...node.data, label: fn.name, inputs: [], outputs: syncPins(node.id, node.data.outputs, fn.inputs, previous?.inputs, true, { suffix: 'Then', name: 'Then' }) } };
+    }
+    if (node === result) {
+      return { ...node, data: { ...node.data, label: 'Return Node', outputs: [], inputs: syncPins(node.id, node.data.inputs, fn.outputs, previous?.outputs, false, { suffix: 'Exec', name: 'Exec' }) } };
+    }
+    return node;
+  });
+
+  return { ...fn, nodes: synced, edges: dropInvalidEdges(synced, fn.edges || [], new Set([entry.id, result.id])) };
+};
+
+export const referencesFunction = (node: BPNode, fn: BlueprintFunction) =>
+  node.data.nodeType === NodeType.Function && (node.data.functionId
+    ? node.data.functionId === fn.id
+    : node.data.label === fn.name);
+
+export const createCallNode = (fn: BlueprintFunction, position: { x: number; y: number }): BPNode => {
+  const id = `Call_${fn.name.replace(/\W+/g, '')}_${Math.random().toString(36).substr(2, 6)}`;
+  return {
+    id,
+    type: 'customBlueprintNode',
+    position,
+    selected: true,
+    data: {
+      label: fn.name,
+      nodeType: NodeType.Function,
+      functionId: fn.id,
+      inputs: syncPins(id, [], fn.inputs, undefined, false, { suffix: 'Exec', name: 'Exec' }),
+      outputs: syncPins(id, [], fn.outputs, undefined, true, { suffix: 'Then', name: 'Then' })
+    }
+  };
+};
+
+// Propagates a signature change to every call node in one graph
+export const updateFunctionReferences = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  previous: BlueprintFunction,
+  next: BlueprintFunction
+): { nodes: BPNode[]; edges: BPEdge[]; brokenLinks: number } => {
+  const touched = new Set<string>();
+  const updatedNodes = nodes.map(node => {
+    if (!referencesFunction(node, previous)) return node;
+    touched.add(node.id);
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        label: next.name,
+        functionId: next.id,
+        inputs: syncPins(node.id, node.data.inputs, next.inputs, previous.inputs, false, { suffix: 'Exec', name: 'Exec' }),
+        outputs: syncPins(node.id, node.data.outputs, next.outputs, previous.outputs, true, { suffix: 'Then', name: 'Then' })
+      }
+    };
+  });
+  if (touched.size === 0) return { nodes, edges, brokenLinks: 0 };
+  const keptEdges = dropInvalidEdges(updatedNodes, edges, touched);
+  return { nodes: updatedNodes, edges: keptEdges, brokenLinks: edges.length - keptEdges.length };
+};
+
+// Binds generated call nodes (matched by label) to their functions and fixes up their pins
+export const linkFunctionCalls = (nodes: BPNode[], edges: BPEdge[], functions: BlueprintFunction[]) =>
+  functions.reduce(
+    (graph, fn) => {
+      const result = updateFunctionReferences(graph.nodes, graph.edges, fn, fn);
+      return { nodes: result.nodes, edges: result.edges };
+    },
+    { nodes, edges }
+  );
@@ -0,0 +1,139 @@
+import { BPNode, BPEdge, BlueprintDelta, PinDefinition } from '../types';
+
+const RANK_SPACING = 450;
+const ROW_SPACING = 200;
+
+// When the model re-sends a node's pins, values the user typed in win; any other
+// value (including one the model set earlier) takes the model's new value
+const mergePins = (oldPins: PinDefinition[], newPins: PinDefinition[] | undefined): PinDefinition[] => {
+  if (!newPins) return oldPins;
+  return newPins.map(({ userEdited, ...pin }) => {
+    const previous = oldPins.find(p => p.id === pin.id);
+    if (previous?.userEdited && previous.value !== undefined) {
+      return { ...pin, value: previous.value, userEdited: true };
+    }
+    return { ...pin, value: pin.value ?? previous?.value };
+  });
+};
+
+export interface AppliedDelta {
+  nodes: BPNode[];
+  edges: BPEdge[];
+  issues: string[];
+}
+
+// Applies node/edge removals and modifications from a delta. Added nodes are
+// passed in already transformed; added edges are resolved by the caller once
+// the merged node set is known.
+export const applyBlueprintDelta = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  delta: Pick<BlueprintDelta, 'removeNodes' | 'modifyNodes' | 'removeEdges'>,
+  addedNodes: BPNode[]
+): AppliedDelta => {
+  const issues: string[] = [];
+  const existingIds = new Set(nodes.map(n => n.id));
+
+  delta.removeNodes.forEach(id => {
+    if (!existingIds.has(id)) issues.push(`removeNodes: node "${id}" does not exist.`);
+  });
+  delta.modifyNodes.forEach(mod => {
+    const node = nodes.find(n => n.id === mod.id);
+    if (!node) {
+      issues.push(`modifyNodes: node "${mod.id}" does not exist.`);
+      return;
+    }
+    // A value change must land on a pin the node already has, or it is silently lost
+    (mod.inputs || []).filter(pin => pin.value !== undefined && !node.data.inputs.some(p => p.id === pin.id)).forEach(pin => {
+      issues.push(`modifyNodes: node "${mod.id}" has no input pin "${pin.id}" to set to "${pin.value}".`);
+    });
+  });
+  addedNodes.forEach(node => {
+    if (existingIds.has(node.id)) issues.push(`addNodes: node "${node.id}" already exists; use modifyNodes instead.`);
+  });
+
+  const removedNodeIds = new Set(delta.removeNodes);
+  const modifications = new Map(delta.modifyNodes.map(mod => [mod.id, mod]));
+
+  const keptNodes = nodes
+    .filter(node => !removedNodeIds.has(node.id))
+    .map(node => {
+      const mod = modifications.get(node.id);
+      if (!mod) return node;
+      return {
+        ...node, // position is intentionally preserved
+        data: {
+          ...node.data,
+          label: mod.label ?? node.data.label,
+          nodeType: mod.nodeType ?? node.data.nodeType,
+          inputs: mergePins(node.data.inputs, mod.inputs),
+          outputs: mergePins(node.data.outputs, mod.outputs),
+          comment: mod.comment ?? node.data.comment
+        }
+      };
+    });
+
+  const mergedNodes = [...keptNodes, ...addedNodes.filter(n => !existingIds.has(n.id))];
+  const nodeById = new Map(mergedNodes.map(n => [n.id, n]));
+  const removedEdgeIds = new Set(delta.removeEdges);
+
+  delta.removeEdges.forEach(id => {
+    if (!edges.some(e => e.id === id)) issues.push(`removeEdges: edge "${id}" does not exist.`);
+  });
+
+  // Drop explicitly removed edges and any edge whose node or pin went away
+  const keptEdges = edges.filter(edge => {
+    if (removedEdgeIds.has(edge.id)) return false;
+    const source = nodeById.get(edge.source);
+    const target = nodeById.get(edge.target);
+    if (!source || !target) return false;
+    return source.data.outputs.some(p => p.id === edge.sourceHandle) &&
+           target.data.inputs.some(p => p.id === edge.targetHandle);
+  });
+
+  return { nodes: mergedNodes, edges: keptEdges, issues };
+};
+
+// Positions newly added nodes next to the existing nodes they are wired to,
+// leaving every existing (possibly hand-moved) node where it is.
+export const placeNewNodes = (nodes: BPNode[], edges: BPEdge[], newNodeIds: Set<string>): BPNode[] => {
+  const placed = new Map<string, { x: number; y: number }>();
+  nodes.forEach(n => {
+    if (!newNodeIds.has(n.id)) placed.set(n.id, n.position);
+  });
+
+  const existing = Array.from(placed.values());
+  const minX = existing.length ? Math.min(...existing.map(p => p.x)) : 0;
+  const freeY = existing.length ? Math.max(...existing.map(p => p.y)) + ROW_SPACING * 1.5 : 0;
+
+  const isOccupied = (pos: { x: number; y: number }) =>
+    Array.from(placed.values()).some(p => Math.abs(p.x - pos.x) < RANK_SPACING / 2 && Math.abs(p.y - pos.y) < ROW_SPACING / 2);
+
+  // Multiple passes so chains of new nodes anchor off each other
+  let pending = nodes.filter(n => newNodeIds.has(n.id)).map(n => n.id);
+  for (let pass = 0; pass < 3 && pending.length > 0; pass++) {
+    pending = pending.filter(id => {
+      const incoming = edges.find(e => e.target === id && placed.has(e.source));
+      const outgoing = edges.find(e => e.source === id && placed.has(e.target));
+      let candidate: { x: number; y: number } | null = null;
+      if (incoming) {
+        const anchor = placed.get(incoming.source)!;
+        candidate = { x: anchor.x + RANK_SPACING, y: anchor.y };
+      } else if (outgoing) {
+        const anchor = placed.get(outgoing.target)!;
+        candidate = { x: anchor.x - RANK_SPACING, y: anchor.y };
+      }
+      if (!candidate) return true;
+      while (isOccupied(candidate)) candidate = { ...candidate, y: candidate.y + ROW_SPACING };
+      placed.set(id, candidate);
+      return false;
+    });
+  }
+
+  // Unconnected leftovers go in a row below the existing graph
+  pending.forEach((id, i) => {
+    placed.set(id, { x: minX + i * RANK_SPACING, y: freeY });
+  });
+
+  return nodes.map(n => newNodeIds.has(n.id) ? { ...n, position: placed.get(n.id)! } : n);
+};
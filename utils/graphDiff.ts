@@ -0,0 +1,105 @@
+import { BPNode, BPEdge, DiffStatus, PinDefinition } from '../types';
+import { samePinType } from './pinSchema';
+
+type PinStatus = 'added' | 'removed' | 'changed';
+
+export interface GraphDiff {
+  nodes: Record<string, DiffStatus>;                   // Unchanged nodes are absent
+  pins: Record<string, Record<string, PinStatus>>;     // nodeId -> pinId -> status
+  addedEdges: Set<string>;
+  removedEdges: Set<string>;
+}
+
+export const DIFF_COLORS: Record<DiffStatus, string> = {
+  added: '#22c55e',
+  removed: '#ef4444',
+  changed: '#eab308',
+  rewired: '#3b82f6'
+};
+
+// Edges are compared by what they connect, not by id (ids differ between generations)
+export const edgeKey = (e: BPEdge) => `${e.source}:${e.sourceHandle}->${e.target}:${e.targetHandle}`;
+
+const diffPins = (before: PinDefinition[], after: PinDefinition[], out: Record<string, PinStatus>) => {
+  after.forEach(pin => {
+    const old = before.find(p => p.id === pin.id);
+    if (!old) out[pin.id] = 'added';
+    else if (!samePinType(old, pin) || (old.value ?? '') !== (pin.value ?? '')) out[pin.id] = 'changed';
+  });
+  before.forEach(pin => {
+    if (!after.some(p => p.id === pin.id)) out[pin.id] = 'removed';
+  });
+};
+
+export const diffGraphs = (
+  before: { nodes: BPNode[]; edges: BPEdge[] },
+  after: { nodes: BPNode[]; edges: BPEdge[] }
+): GraphDiff => {
+  const diff: GraphDiff = { nodes: {}, pins: {}, addedEdges: new Set(), removedEdges: new Set() };
+  const beforeById = new Map(before.nodes.map(n => [n.id, n]));
+  const afterById = new Map(after.nodes.map(n => [n.id, n]));
+
+  after.nodes.forEach(node => {
+    const old = beforeById.get(node.id);
+    if (!old) {
+      diff.nodes[node.id] = 'added';
+      return;
+    }
+    const pinChanges: Record<string, PinStatus> = {};
+    diffPins(old.data.inputs, node.data.inputs, pinChanges);
+    diffPins(old.data.outputs, node.data.outputs, pinChanges);
+    if (Object.keys(pinChanges).length > 0) diff.pins[node.id] = pinChanges;
+    if (old.data.label !== node.data.label || old.data.nodeType !== node.data.nodeType || Object.keys(pinChanges).length > 0) {
+      diff.nodes[node.id] = 'changed';
+    }
+  });
+  before.nodes.forEach(node => {
+    if (!afterById.has(node.id)) diff.nodes[node.id] = 'removed';
+  });
+
+  const beforeKeys = new Set(before.edges.map(edgeKey));
+  const afterKeys = new Set(after.edges.map(edgeKey));
+  afterKeys.forEach(k => { if (!beforeKeys.has(k)) diff.addedEdges.add(k); });
+  beforeKeys.forEach(k => { if (!afterKeys.has(k)) diff.removedEdges.add(k); });
+
+  // Nodes present on both sides whose links changed are "rewired"
+  const markRewired = (e: BPEdge) => {
+    [e.source, e.target].forEach(id => {
+      if (beforeById.has(id) && afterById.has(id) && !diff.nodes[id]) diff.nodes[id] = 'rewired';
+    });
+  };
+  after.edges.filter(e => diff.addedEdges.has(edgeKey(e))).forEach(markRewired);
+  before.edges.filter(e => diff.removedEdges.has(edgeKey(e))).forEach(markRewired);
+
+  return diff;
+};
+
+// Decorates one side of the comparison for rendering: the "before" side shows
+// removals, the "after" side shows additions; both show changed/rewired nodes.
+export const annotateDiff = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  diff: GraphDiff,
+  side: 'before' | 'after'
+): { nodes: BPNode[]; edges: BPEdge[] } => {
+  const hiddenStatus: DiffStatus = side === 'before' ? 'added' : 'removed';
+  const edgeHighlight = side === 'before' ? diff.removedEdges : diff.addedEdges;
+
+  return {
+    nodes: nodes.map(node => {
+      const status = diff.nodes[node.id];
+      const pins = diff.pins[node.id];
+      const visiblePins = pins
+        ? Object.fromEntries(Object.entries(pins).filter(([, s]) => s !== hiddenStatus))
+        : undefined;
+      return {
+        ...node,
+        selected: false,
+        data: { ...node.data, diffStatus: status && status !== hiddenStatus ? status : undefined, diffPins: visiblePins }
+      };
+    }),
+    edges: edges.map(edge => edgeHighlight.has(edgeKey(edge))
+      ? { ...edge, style: { ...(edge.style || {}), stroke: DIFF_COLORS[side === 'before' ? 'removed' : 'added'], strokeWidth: 4 } }
+      : { ...edge, style: { ...(edge.style || {}), opacity: 0.5 } })
+  };
+};
@@ -0,0 +1,385 @@
+import { BPNode, BPEdge, BlueprintVariable, NodeType, PinDefinition, PinType } from '../types';
+import { PIN_CONVERSIONS } from './pinSchema';
+import { logicalGraph } from './rerouteNodes';
+
+// Runs a blueprint graph in the browser against a small library of stubbed UE
+// nodes. Execution is a generator so a debugger can pause before every node:
+// it yields 'node' before a node runs, 'wire' when an exec link fires and
+// 'delay' when a latent node wants the caller to wait.
+
+export type DebugEvent =
+  | { kind: 'node'; nodeId: string }
+  | { kind: 'wire'; edgeId: string }
+  | { kind: 'delay'; nodeId: string; seconds: number };
+
+export type RuntimeValue = boolean | number | string | { x: number; y: number; z: number } | unknown[] | null;
+
+export class InterpreterError extends Error {
+  nodeId?: string;
+
+  constructor(message: string, nodeId?: string) {
+    super(message);
+    this.name = 'InterpreterError';
+    this.nodeId = nodeId;
+  }
+}
+
+export interface InterpreterHooks {
+  onPrint?: (message: string, nodeId: string) => void;
+  onWarning?: (message: string, nodeId: string) => void;
+}
+
+export interface InterpreterSession {
+  run: (eventNodeId: string) => Generator<DebugEvent, void, void>;
+  getVariables: () => Array<{ name: string; type: PinType; value: string }>;
+  getPinValue: (nodeId: string, pinId: string) => string | undefined;
+}
+
+const MAX_STEPS = 10000;
+const MAX_PURE_DEPTH = 200;
+
+const norm = (s: string) => s.toLowerCase().replace(/[\s_]+/g, '');
+
+// "Add (Float)" -> "add"
+const opName = (label: string) => label.replace(/\(.*?\)/g, '').trim().toLowerCase();
+
+const isEntry = (node: BPNode) => node.data.nodeType === NodeType.Event || node.data.nodeType === NodeType.InputEvent;
+const isImpure = (node: BPNode) => isEntry(node) || node.data.inputs.some(p => p.type === PinType.Exec);
+
+const variableName = (label: string) => label.replace(/^(Get|Set)\s+/, '').trim();
+
+const parseVector = (text: string) => {
+  const nums = (text.match(/-?\d+(\.\d+)?(e-?\d+)?/gi) || []).map(Number);
+  return { x: nums[0] || 0, y: nums[1] || 0, z: nums[2] || 0 };
+};
+
+export const parseLiteral = (type: PinType, text: string | undefined): RuntimeValue => {
+  const raw = (text ?? '').trim();
+  switch (type) {
+    case PinType.Boolean: return raw.toLowerCase() === 'true';
+    case PinType.Integer:
+    case PinType.Byte: return parseInt(raw, 10) || 0;
+    case PinType.Float: return parseFloat(raw) || 0;
+    case PinType.Vector:
+    case PinType.Rotator: return parseVector(raw);
+    case PinType.String:
+    case PinType.Name:
+    case PinType.Text: return raw;
+    default:
+      if (raw.startsWith('[')) {
+        try { return JSON.parse(raw); } catch { return []; }
+      }
+      return raw === '' || raw === 'None' ? null : raw;
+  }
+};
+
+export const formatValue = (value: RuntimeValue): string => {
+  if (value === null || value === undefined) return 'None';
+  if (typeof value === 'number') return Number.isInteger(value) ? String(value) : value.toFixed(6).replace(/0+$/, '').replace(/\.$/, '.0');
+  if (typeof value === 'boolean') return value ? 'true' : 'false';
+  if (Array.isArray(value)) return `[${value.map(v => formatValue(v as RuntimeValue)).join(', ')}]`;
+  if (typeof value === 'object') return `X=${formatValue(value.x)} Y=${formatValue(value.y)} Z=${formatValue(value.z)}`;
+  return value;
+};
+
+const coerce = (type: PinType, value: RuntimeValue): RuntimeValue => {
+  switch (type) {
+    case PinType.Boolean: return typeof value === 'string' ? value.toLowerCase() === 'true' : Boolean(value);
+    case PinType.Integer:
+    case PinType.Byte: return Math.trunc(Number(value) || 0);
+    case PinType.Float: return Number(value) || 0;
+    case PinType.String:
+    case PinType.Name:
+    case PinType.Text: return formatValue(value);
+    default: return value;
+  }
+};
+
+const isVec = (v: RuntimeValue): v is { x: number; y: number; z: number } =>
+  typeof v === 'object' && v !== null && !Array.isArray(v);
+
+const binary = (a: RuntimeValue, b: RuntimeValue, fn: (x: number, y: number) => number): RuntimeValue => {
+  if (isVec(a) || isVec(b)) {
+    const va = isVec(a) ? a : { x: Number(a), y: Number(a), z: Number(a) };
+    const vb = isVec(b) ? b : { x: Number(b), y: Number(b), z: Number(b) };
+    return { x: fn(va.x, vb.x), y: fn(va.y, vb.y), z: fn(va.z, vb.z) };
+  }
+  return fn(Number(a), Number(b));
+};
+
+const equals = (a: RuntimeValue, b: RuntimeValue) => formatValue(a) === formatValue(b);
+
+// Pure library: label -> outputs from data inputs
+const pureOperation = (label: string, args: RuntimeValue[]): RuntimeValue | undefined => {
+  const op = opName(label);
+  const [a, b, c] = args;
+  const reduce = (fn: (x: number, y: number) => number) => args.slice(1).reduce((acc, v) => binary(acc, v, fn), a);
+
+  if (op === '+' || op.startsWith('add')) return reduce((x, y) => x + y);
+  if (op === '-' || op.startsWith('subtract')) return reduce((x, y) => x - y);
+  if (op === '*' || op === '×' || op.startsWith('multiply')) return reduce((x, y) => x * y);
+  if (op === '/' || op === '÷' || op.startsWith('divide')) {
+    return reduce((x, y) => (y === 0 ? 0 : x / y));
+  }
+  if (op === '%' || op.startsWith('modulo') || op.startsWith('percent')) return binary(a, b, (x, y) => (y === 0 ? 0 : x % y));
+  if (op === 'min') return Math.min(Number(a), Number(b));
+  if (op === 'max') return Math.max(Number(a), Number(b));
+  if (op === 'abs' || op === 'absolute') return Math.abs(Number(a));
+  if (op === 'clamp') return Math.min(Math.max(Number(a), Number(b)), Number(c));
+  if (op === 'sqrt' || op === 'square root') return Math.sqrt(Number(a));
+  if (op === 'power') return Math.pow(Number(a), Number(b));
+  if (op === 'negate') return binary(a, -1, (x, y) => x * y);
+  if (op.startsWith('random float in range')) return Number(a) + Math.random() * (Number(b) - Number(a));
+  if (op.startsWith('random integer in range')) return Math.floor(Number(a) + Math.random() * (Number(b) - Number(a) + 1));
+  if (op === 'vector length' || op === 'vector size') return isVec(a) ? Math.hypot(a.x, a.y, a.z) : 0;
+
+  if (op === '>=' || op.startsWith('greater equal')) return Number(a) >= Number(b);
+  if (op === '<=' || op.startsWith('less equal')) return Number(a) <= Number(b);
+  if (op === '>' || op.startsWith('greater')) return Number(a) > Number(b);
+  if (op === '<' || op.startsWith('less')) return Number(a) < Number(b);
+  if (op === '!=' || op.startsWith('not equal')) return !equals(a, b);
+  if (op === '==' || op.startsWith('equal')) return equals(a, b);
+  if (op === 'and' || op === 'boolean and') return args.every(Boolean);
+  if (op === 'or' || op === 'boolean or') return args.some(Boolean);
+  if (op === 'xor' || op === 'boolean xor') return Boolean(a) !== Boolean(b);
+  if (op === 'not' || op === 'not boolean') return !a;
+
+  if (op.startsWith('append')) return args.map(formatValue).join('');
+  if (op === 'is valid') return a !== null && a !== undefined && a !== '';
+  if (op === 'select') return a ? b : c;
+  return undefined;
+};
+
+export const createInterpreter = (
+  graphNodes: BPNode[],
+  graphEdges: BPEdge[],
+  variables: BlueprintVariable[],
+  hooks: InterpreterHooks = {}
+): InterpreterSession => {
+  const { nodes, edges } = logicalGraph(graphNodes, graphEdges);
+  const nodeById = new Map(nodes.map(n => [n.id, n]));
+  const vars = new Map<string, { type: PinType; value: RuntimeValue }>();
+  variables.forEach(v => vars.set(v.name, { type: v.type, value: parseLiteral(v.type, v.defaultValue) }));
+
+  // Values produced by impure nodes when they ran, keyed "nodeId:pinId"
+  const outputs = new Map<string, RuntimeValue>();
+  // Per-node latch state (DoOnce, FlipFlop, Gate, loop break flags)
+  const state = new Map<string, Record<string, unknown>>();
+  let steps = 0;
+
+  const nodeState = (id: string) => {
+    if (!state.has(id)) state.set(id, {});
+    return state.get(id)!;
+  };
+
+  const findPin = (pins: PinDefinition[], ...names: string[]) => {
+    const wanted = names.map(norm);
+    return pins.find(p => wanted.includes(norm(p.name)) || wanted.includes(norm(p.id.split('_').pop() || '')));
+  };
+
+  const dataInputs = (node: BPNode) => node.data.inputs.filter(p => p.type !== PinType.Exec);
+  const execOutputs = (node: BPNode) => node.data.outputs.filter(p => p.type === PinType.Exec);
+
+  const evaluatePure = (node: BPNode, depth: number): void => {
+    if (depth > MAX_PURE_DEPTH) throw new InterpreterError(`Pure node cycle through "${node.data.label}".`, node.id);
+    const label = node.data.label;
+
+    if (node.data.nodeType === NodeType.VariableGet) {
+      const name = variableName(label);
+      const out = node.data.outputs.find(p => p.type !== PinType.Exec);
+      if (!out) return;
+      if (!vars.has(name)) vars.set(name, { type: out.type, value: coerce(out.type, parseLiteral(out.type, out.defaultValue)) });
+      outputs.set(`${node.id}:${out.id}`, vars.get(name)!.value);
+      return;
+    }
+
+    const args = dataInputs(node).map(p => readInput(node, p, depth + 1));
+    const conversion = PIN_CONVERSIONS.find(c => c.label === label);
+    const result = conversion ? args[0] : pureOperation(label, args);
+    if (result === undefined) {
+      hooks.onWarning?.(`No stub for pure node "${label}"; using default output values.`, node.id);
+    }
+    node.data.outputs.forEach(out => {
+      if (out.type === PinType.Exec) return;
+      const value = result === undefined ? parseLiteral(out.type, out.defaultValue) : coerce(out.type, result);
+      outputs.set(`${node.id}:${out.id}`, value);
+    });
+  };
+
+  const readInput = (node: BPNode, pin: PinDefinition, depth = 0): RuntimeValue => {
+    const edge = edges.find(e => e.target === node.id && e.targetHandle === pin.id);
+    if (!edge) return parseLiteral(pin.type, pin.value ?? pin.defaultValue);
+    const source = nodeById.get(edge.source);
+    if (!source) return parseLiteral(pin.type, pin.value ?? pin.defaultValue);
+    // Pure nodes are re-evaluated on every read, like in UE
+    if (!isImpure(source)) evaluatePure(source, depth);
+    const key = `${source.id}:${edge.sourceHandle}`;
+    return coerce(pin.type, outputs.has(key) ? outputs.get(key)! : null);
+  };
+
+  const input = (node: BPNode, fallbackIndex: number, ...names: string[]): RuntimeValue => {
+    const pin = findPin(dataInputs(node), ...names) || dataInputs(node)[fallbackIndex];
+    return pin ? readInput(node, pin) : null;
+  };
+
+  const setOutput = (node: BPNode, value: RuntimeValue, ...names: string[]) => {
+    const pin = findPin(node.data.outputs.filter(p => p.type !== PinType.Exec), ...names);
+    if (pin) outputs.set(`${node.id}:${pin.id}`, coerce(pin.type, value));
+  };
+
+  function* fire(node: BPNode, pin: PinDefinition | undefined): Generator<DebugEvent, void, void> {
+    if (!pin) return;
+    for (const edge of edges.filter(e => e.source === node.id && e.sourceHandle === pin.id)) {
+      yield { kind: 'wire', edgeId: edge.id };
+      yield* execute(edge.target, edge.targetHandle ?? undefined);
+    }
+  }
+
+  const fireNamed = (node: BPNode, fallbackIndex: number, ...names: string[]) =>
+    fire(node, findPin(execOutputs(node), ...names) || execOutputs(node)[fallbackIndex]);
+
+  function* execute(nodeId: string, entryPinId?: string): Generator<DebugEvent, void, void> {
+    const node = nodeById.get(nodeId);
+    if (!node) return;
+    if (++steps > MAX_STEPS) throw new InterpreterError(`Execution limit reached (${MAX_STEPS} nodes). Is there an infinite loop?`, nodeId);
+
+    yield { kind: 'node', nodeId };
+
+    const entry = node.data.inputs.find(p => p.id === entryPinId);
+    const entryName = entry ? norm(entry.name) : 'exec';
+    const op = opName(node.data.label);
+    const s = nodeState(node.id);
+
+    if (node.data.nodeType === NodeType.VariableSet) {
+      const name = variableName(node.data.label);
+      const valuePin = dataInputs(node)[0];
+      if (valuePin) {
+        const value = readInput(node, valuePin);
+        vars.set(name, { type: valuePin.type, value });
+        node.data.outputs.filter(p => p.type !== PinType.Exec).forEach(p => outputs.set(`${node.id}:${p.id}`, value));
+      }
+      yield* fireNamed(node, 0, 'Output', 'Then');
+      return;
+    }
+
+    switch (op) {
+      case 'branch':
+      case 'if': {
+        const condition = Boolean(input(node, 0, 'Condition'));
+        yield* fireNamed(node, condition ? 0 : 1, condition ? 'True' : 'False');
+        return;
+      }
+
+      case 'sequence':
+        for (const pin of execOutputs(node)) yield* fire(node, pin);
+        return;
+
+      case 'for loop':
+      case 'forloop':
+      case 'for loop with break':
+      case 'forloopwithbreak': {
+        if (entryName === 'break') {
+          s.broken = true;
+          return;
+        }
+        s.broken = false;
+        const first = Number(input(node, 0, 'First Index', 'FirstIndex'));
+        const last = Number(input(node, 1, 'Last Index', 'LastIndex'));
+        for (let i = first; i <= last && !s.broken; i++) {
+          setOutput(node, i, 'Index');
+          yield* fireNamed(node, 0, 'Loop Body', 'LoopBody');
+        }
+        yield* fireNamed(node, 1, 'Completed');
+        return;
+      }
+
+      case 'for each loop':
+      case 'foreach':
+      case 'foreachloop':
+      case 'for each loop with break': {
+        if (entryName === 'break') {
+          s.broken = true;
+          return;
+        }
+        s.broken = false;
+        const raw = input(node, 0, 'Array');
+        const items = Array.isArray(raw) ? raw : typeof raw === 'string' && raw ? raw.split(',').map(v => v.trim()) : [];
+        for (let i = 0; i < items.length && !s.broken; i++) {
+          setOutput(node, items[i] as RuntimeValue, 'Array Element', 'Element');
+          setOutput(node, i, 'Array Index', 'Index');
+          yield* fireNamed(node, 0, 'Loop Body', 'LoopBody');
+        }
+        yield* fireNamed(node, 1, 'Completed');
+        return;
+      }
+
+      case 'do once':
+      case 'doonce':
+        if (entryName === 'reset') {
+          s.done = false;
+          return;
+        }
+        if (s.done === undefined) s.done = Boolean(input(node, 0, 'Start Closed'));
+        if (!s.done) {
+          s.done = true;
+          yield* fireNamed(node, 0, 'Completed');
+        }
+        return;
+
+      case 'flip flop':
+      case 'flipflop': {
+        const isA = s.isA === undefined ? true : !s.isA;
+        s.isA = isA;
+        setOutput(node, isA, 'Is A', 'IsA');
+        yield* fireNamed(node, isA ? 0 : 1, isA ? 'A' : 'B');
+        return;
+      }
+
+      case 'gate':
+        if (s.open === undefined) s.open = !input(node, 0, 'Start Closed');
+        if (entryName === 'open') s.open = true;
+        else if (entryName === 'close') s.open = false;
+        else if (entryName === 'toggle') s.open = !s.open;
+        else if (s.open) yield* fireNamed(node, 0, 'Exit');
+        return;
+
+      case 'delay':
+      case 'retriggerable delay':
+        yield { kind: 'delay', nodeId: node.id, seconds: Math.max(0, Number(input(node, 0, 'Duration'))) };
+        yield* fireNamed(node, 0, 'Completed');
+        return;
+
+      case 'print string':
+      case 'print text':
+      case 'print':
+        hooks.onPrint?.(formatValue(input(node, 0, 'In String', 'InString', 'In Text', 'String', 'Text')), node.id);
+        yield* fireNamed(node, 0, 'Output', 'Then');
+        return;
+    }
+
+    if (!isEntry(node)) {
+      hooks.onWarning?.(`No stub for "${node.data.label}"; continuing through its first exec output.`, node.id);
+    }
+    // Give data outputs something sensible so downstream reads don't fail
+    node.data.outputs.forEach(out => {
+      if (out.type === PinType.Exec) return;
+      const value = norm(out.name) === 'deltaseconds' ? 1 / 60 : parseLiteral(out.type, out.defaultValue);
+      outputs.set(`${node.id}:${out.id}`, value);
+    });
+    yield* fire(node, execOutputs(node)[0]);
+  }
+
+  return {
+    run: function* (eventNodeId: string) {
+      const node = nodeById.get(eventNodeId);
+      if (!node) throw new InterpreterError(`Event node "${eventNodeId}" not found.`);
+      steps = 0;
+      yield* execute(eventNodeId);
+    },
+    getVariables: () => Array.from(vars.entries()).map(([name, v]) => ({ name, type: v.type, value: formatValue(v.value) })),
+    getPinValue: (nodeId, pinId) => {
+      const key = `${nodeId}:${pinId}`;
+      return outputs.has(key) ? formatValue(outputs.get(key)!) : undefined;
+    }
+  };
+};
@@ -0,0 +1,117 @@
+import { BPNode, BPEdge, BlueprintInterface, InterfaceFunction, NodeType, PinDefinition, PinType } from '../types';
+import { dropInvalidEdges, reconcilePins } from './pinSchema';
+
+// Message nodes call an interface function on any object; Event nodes implement
+// one that has no outputs. Functions with outputs are implemented as a function
+// graph of the same name, as in the editor.
+const MESSAGE = /^(\w+) \(Message\)$/;
+const EVENT = /^Event (\w+)$/;
+
+export const findInterfaceFunction = (name: string, interfaces: BlueprintInterface[]) => {
+  for (const iface of interfaces) {
+    const fn = iface.functions.find(f => f.name === name);
+    if (fn) return { iface, fn };
+  }
+  return undefined;
+};
+
+export const interfaceMessageLabel = (fn: InterfaceFunction) => `${fn.name} (Message)`;
+
+export const parseMessageLabel = (label: string) => label.match(MESSAGE)?.[1];
+
+export const implementsAsEvent = (fn: InterfaceFunction) => !fn.outputs.some(p => p.type !== PinType.Exec);
+
+// Blueprint asset paths for interfaces, used by the clipboard export
+export const interfaceClassPath = (iface: BlueprintInterface) => `/Game/Blueprints/${iface.name}.${iface.name}_C`;
+
+const signaturePins = (nodeId: string, pins: PinDefinition[], isOutput: boolean): PinDefinition[] =>
+  pins.filter(p => p.type !== PinType.Exec).map(p => ({
+    id: `${nodeId}_${p.id}`,
+    name: p.name,
+    type: p.type,
+    container: p.container,
+    valueType: p.valueType,
+    subType: p.subType,
+    isOutput,
+    defaultValue: isOutput ? undefined : p.defaultValue
+  }));
+
+type InterfaceNodeData = Pick<BPNode['data'], 'label' | 'nodeType' | 'inputs' | 'outputs'>;
+
+const messageData = (nodeId: string, fn: InterfaceFunction): InterfaceNodeData => ({
+  label: interfaceMessageLabel(fn),
+  nodeType: NodeType.Function,
+  inputs: [
+    { id: `${nodeId}_Exec`, name: 'Exec', type: PinType.Exec, isOutput: false },
+    { id: `${nodeId}_Target`, name: 'Target', type: PinType.Object, isOutput: false },
+    ...signaturePins(nodeId, fn.inputs, false)
+  ],
+  outputs: [{ id: `${nodeId}_Then`, name: 'Then', type: PinType.Exec, isOutput: true }, ...signaturePins(nodeId, fn.outputs, true)]
+});
+
+const eventData = (nodeId: string, fn: InterfaceFunction): InterfaceNodeData => ({
+  label: `Event ${fn.name}`,
+  nodeType: NodeType.Event,
+  inputs: [],
+  outputs: [{ id: `${nodeId}_Output`, name: 'Output', type: PinType.Exec, isOutput: true }, ...signaturePins(nodeId, fn.inputs, true)]
+});
+
+const placed = (prefix: string, fn: InterfaceFunction, position: { x: number; y: number }, build: (id: string) => InterfaceNodeData): BPNode => {
+  const id = `${prefix}_${fn.name}_${Math.random().toString(36).substr(2, 6)}`;
+  return { id, type: 'customBlueprintNode', position, selected: true, data: { ...build(id), interfaceFunctionId: fn.id } };
+};
+
+export const createInterfaceMessageNode = (fn: InterfaceFunction, position: { x: number; y: number }) =>
+  placed('Message', fn, position, id => messageData(id, fn));
+
+export const createInterfaceEventNode = (fn: InterfaceFunction, position: { x: number; y: number }) =>
+  placed('Event', fn, position, id => eventData(id, fn));
+
+// Bound nodes follow their function by id. Unbound Message nodes match any
+// interface by name; unbound events only match an implemented interface, so
+// engine events like "Event BeginPlay" are left alone.
+const resolveInterfaceNode = (node: BPNode, interfaces: BlueprintInterface[], implemented: string[]) => {
+  const { interfaceFunctionId, label, nodeType } = node.data;
+  const all = interfaces.flatMap(i => i.functions);
+  if (nodeType === NodeType.Event) {
+    const name = label.match(EVENT)?.[1];
+    const fn = interfaceFunctionId
+      ? all.find(f => f.id === interfaceFunctionId)
+      : name ? findInterfaceFunction(name, interfaces.filter(i => implemented.includes(i.id)))?.fn : undefined;
+    return fn && implementsAsEvent(fn) ? { fn, build: (nodeId: string) => eventData(nodeId, fn) } : undefined;
+  }
+  const name = parseMessageLabel(label);
+  if (!name || nodeType === NodeType.Comment) return undefined;
+  const fn = interfaceFunctionId ? all.find(f => f.id === interfaceFunctionId) : findInterfaceFunction(name, interfaces)?.fn;
+  return fn && { fn, build: (nodeId: string) => messageData(nodeId, fn) };
+};
+
+// Brings one graph in line with the blueprint's interfaces and drops links
+// that no longer type-check
+export const syncInterfaceNodes = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  interfaces: BlueprintInterface[],
+  implemented: string[]
+): { nodes: BPNode[]; edges: BPEdge[]; brokenLinks: number } => {
+  const touched = new Set<string>();
+  const updatedNodes = nodes.map(node => {
+    const resolved = resolveInterfaceNode(node, interfaces, implemented);
+    if (!resolved) return node;
+    touched.add(node.id);
+    const wanted = resolved.build(node.id);
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        ...wanted,
+        interfaceFunctionId: resolved.fn.id,
+        inputs: reconcilePins(node.data.inputs, wanted.inputs),
+        outputs: reconcilePins(node.data.outputs, wanted.outputs)
+      }
+    };
+  });
+  if (touched.size === 0) return { nodes, edges, brokenLinks: 0 };
+  const keptEdges = dropInvalidEdges(updatedNodes, edges, touched);
+  return { nodes: updatedNodes, edges: keptEdges, brokenLinks: edges.length - keptEdges.length };
+};
@@ -0,0 +1,220 @@
+import { BPNode, BPEdge, BlueprintDocument, NodeType, PinDefinition } from '../types';
+import { canConnectPinTypes } from './pinSchema';
+import { createVariableNode } from './variableNodes';
+import { createCallNode } from './functionGraphs';
+import { NodeDefinition, PinTemplate } from './nodeRegistry';
+import { ENGINE_CLASSES, createCastNode, displayTypeName } from './engineTypes';
+import { createBreakStructNode, createMakeStructNode, createSwitchOnEnumNode } from './userTypes';
+import { DISPATCHER_NODE_KINDS, createAssignedEvent, createBoundEventNode, createDispatcherNode, dispatcherNodeLabel } from './dispatchers';
+import { createInterfaceEventNode, createInterfaceMessageNode, implementsAsEvent, interfaceMessageLabel } from './interfaces';
+import { createCommentNode } from './commentNodes';
+
+// One row of the right-click palette
+export interface PaletteEntry {
+  key: string;
+  label: string;
+  category: string;
+  keywords: string;
+  preview: BPNode;     // Canonical pins, used for context-sensitive filtering
+  create: (position: { x: number; y: number }) => BPNode;
+  // Extra nodes placed and wired along with the created one (e.g. Assign's custom event)
+  companions?: (node: BPNode) => { nodes: BPNode[]; edges: BPEdge[] };
+}
+
+// What the blueprint itself contributes to the palette
+export type CatalogMembers = Pick<BlueprintDocument, 'variables' | 'functions' | 'structs' | 'enums' | 'dispatchers' | 'interfaces' | 'implementedInterfaces'>;
+
+const compactName = (text: string) => text.replace(/\W+/g, '');
+
+export const instantiateDefinition = (def: NodeDefinition, position: { x: number; y: number }): BPNode => {
+  const id = `${compactName(def.label)}_${Math.random().toString(36).substr(2, 6)}`;
+  const used = new Set<string>();
+  const pins = (templates: PinTemplate[], isOutput: boolean): PinDefinition[] => templates.map(({ name, ...pinType }) => {
+    let pinId = `${id}_${compactName(name)}`;
+    if (used.has(pinId)) pinId = `${pinId}_${isOutput ? 'Out' : 'In'}`;
+    used.add(pinId);
+    return { id: pinId, name, ...pinType, isOutput };
+  });
+  return {
+    id,
+    type: 'customBlueprintNode',
+    position,
+    selected: true,
+    data: { label: def.label, nodeType: def.nodeType, inputs: pins(def.inputs, false), outputs: pins(def.outputs, true) }
+  };
+};
+
+const ORIGIN = { x: 0, y: 0 };
+
+// Registry nodes, a Cast To node per engine class, plus Get/Set, call, Make/Break,
+// Switch, dispatcher and interface nodes for this blueprint's own members and
+// types, and comment boxes. Function graphs can't hold events, as in the editor.
+export const buildNodeCatalog = (
+  definitions: NodeDefinition[],
+  { variables, functions, structs, enums, dispatchers, interfaces, implementedInterfaces }: CatalogMembers,
+  options: { includeEvents?: boolean } = {}
+): PaletteEntry[] => [
+  ...definitions
+    .filter(def => options.includeEvents !== false || (def.nodeType !== NodeType.Event && def.nodeType !== NodeType.InputEvent))
+    .map(def => ({
+      key: `${def.category}/${def.label}`,
+      label: def.label,
+      category: def.category,
+      keywords: def.keywords || '',
+      preview: instantiateDefinition(def, ORIGIN),
+      create: (position: { x: number; y: number }) => instantiateDefinition(def, position)
+    })),
+  ...Object.keys(ENGINE_CLASSES).filter(name => name !== 'UObject').map(name => ({
+    key: `Casting/${name}`,
+    label: `Cast To ${displayTypeName(name)}`,
+    category: 'Casting',
+    keywords: 'cast convert downcast',
+    preview: createCastNode(name, ORIGIN),
+    create: (position: { x: number; y: number }) => createCastNode(name, position)
+  })),
+  ...variables.flatMap(v => (['get', 'set'] as const).map(access => ({
+    key: `Variables/${v.id}/${access}`,
+    label: `${access === 'get' ? 'Get' : 'Set'} ${v.name}`,
+    category: 'Variables',
+    keywords: v.category || '',
+    preview: createVariableNode(v, access, ORIGIN, enums),
+    create: (position: { x: number; y: number }) => createVariableNode(v, access, position, enums)
+  }))),
+  ...functions.map(fn => ({
+    key: `Functions/${fn.id}`,
+    label: fn.name,
+    category: 'Functions',
+    keywords: 'call',
+    preview: createCallNode(fn, ORIGIN),
+    create: (position: { x: number; y: number }) => createCallNode(fn, position)
+  })),
+  ...structs.flatMap(st => ([
+    ['Make', (position: { x: number; y: number }) => createMakeStructNode(st, position, enums)],
+    ['Break', (position: { x: number; y: number }) => createBreakStructNode(st, position)]
+  ] as const).map(([verb, create]) => ({
+    key: `Structs/${st.id}/${verb}`,
+    label: `${verb} ${st.name}`,
+    category: 'Structs',
+    keywords: 'struct',
+    preview: create(ORIGIN),
+    create
+  }))),
+  ...enums.map(en => ({
+    key: `Enums/${en.id}`,
+    label: `Switch on ${en.name}`,
+    category: 'Enums',
+    keywords: 'enum switch case',
+    preview: createSwitchOnEnumNode(en, ORIGIN),
+    create: (position: { x: number; y: number }) => createSwitchOnEnumNode(en, position)
+  })),
+  ...dispatchers.flatMap(d => [
+    ...DISPATCHER_NODE_KINDS.map(kind => ({
+      key: `Event Dispatchers/${d.id}/${kind}`,
+      label: dispatcherNodeLabel(kind, d.name),
+      category: 'Event Dispatchers',
+      keywords: 'dispatcher delegate broadcast',
+      preview: createDispatcherNode(d, kind, ORIGIN),
+      create: (position: { x: number; y: number }) => createDispatcherNode(d, kind, position)
+    })),
+    {
+      key: `Event Dispatchers/${d.id}/assign`,
+      label: `Assign ${d.name}`,
+      category: 'Event Dispatchers',
+      keywords: 'dispatcher delegate bind event',
+      preview: createDispatcherNode(d, 'bind', ORIGIN),
+      create: (position: { x: number; y: number }) => createDispatcherNode(d, 'bind', position),
+      companions: (bind: BPNode) => {
+        const { event, edge } = createAssignedEvent(d, bind);
+        return { nodes: [event], edges: [edge] };
+      }
+    },
+    ...(options.includeEvents !== false ? [{
+      key: `Event Dispatchers/${d.id}/event`,
+      label: `Custom Event for ${d.name}`,
+      category: 'Event Dispatchers',
+      keywords: 'dispatcher delegate signature',
+      preview: createBoundEventNode(d, ORIGIN),
+      create: (position: { x: number; y: number }) => createBoundEventNode(d, position)
+    }] : [])
+  ]),
+  ...interfaces.flatMap(iface => iface.functions.flatMap(fn => [
+    {
+      key: `Interfaces/${fn.id}/message`,
+      label: interfaceMessageLabel(fn),
+      category: `Interface ${iface.name}`,
+      keywords: 'interface message',
+      preview: createInterfaceMessageNode(fn, ORIGIN),
+      create: (position: { x: number; y: number }) => createInterfaceMessageNode(fn, position)
+    },
+    ...(options.includeEvents !== false && implementedInterfaces.includes(iface.id) && implementsAsEvent(fn) ? [{
+      key: `Interfaces/${fn.id}/event`,
+      label: `Event ${fn.name}`,
+      category: `Interface ${iface.name}`,
+      keywords: 'interface event implement',
+      preview: createInterfaceEventNode(fn, ORIGIN),
+      create: (position: { x: number; y: number }) => createInterfaceEventNode(fn, position)
+    }] : [])
+  ])),
+  {
+    key: 'Utilities/Comment',
+    label: 'Add Comment',
+    category: 'Utilities',
+    keywords: 'comment box region group note',
+    preview: createCommentNode('Comment', ORIGIN),
+    create: (position: { x: number; y: number }) => createCommentNode('Comment', position)
+  }
+];
+
+// Subsequence match; consecutive letters, word starts and whole-substring hits score higher
+export const fuzzyScore = (query: string, text: string): number | null => {
+  const q = query.toLowerCase().replace(/\s+/g, '');
+  if (!q) return 0;
+  const t = text.toLowerCase();
+  let score = 0;
+  let from = 0;
+  let previous = -2;
+  for (const ch of q) {
+    const index = t.indexOf(ch, from);
+    if (index < 0) return null;
+    score += 1;
+    if (index === previous + 1) score += 3;
+    if (index === 0 || /[\s(_]/.test(t[index - 1])) score += 2;
+    previous = index;
+    from = index + 1;
+  }
+  const whole = query.toLowerCase().trim();
+  if (t.startsWith(whole)) score += 10;
+  else if (t.includes(whole)) score += 8;
+  return score;
+};
+
+export const searchCatalog = (entries: PaletteEntry[], query: string): PaletteEntry[] => {
+  if (!query.trim()) return entries;
+  return entries
+    .map(entry => {
+      const byLabel = fuzzyScore(query, entry.label);
+      const byKeyword = entry.keywords ? fuzzyScore(query, entry.keywords) : null;
+      // Keywords only help a node surface; a label match always ranks above them
+      const score = Math.max(byLabel ?? -Infinity, byKeyword === null ? -Infinity : byKeyword / 2);
+      return { entry, score };
+    })
+    .filter(r => r.score > -Infinity)
+    .sort((a, b) => b.score - a.score || a.entry.label.length - b.entry.label.length)
+    .map(r => r.entry);
+};
+
+// The pin a palette drag started from
+export interface PinDragContext {
+  nodeId: string;
+  pin: PinDefinition;
+}
+
+// Best pin on `node` to wire to the dragged pin: a direct match before an autocast
+export const findCompatiblePin = (node: BPNode, from: PinDefinition): PinDefinition | undefined => {
+  const candidates = from.isOutput ? node.data.inputs : node.data.outputs;
+  const responses = candidates.map(pin => ({
+    pin,
+    kind: (from.isOutput ? canConnectPinTypes(from, pin) : canConnectPinTypes(pin, from)).kind
+  }));
+  return (responses.find(r => r.kind === 'allow') || responses.find(r => r.kind === 'convert'))?.pin;
+};
@@ -0,0 +1,292 @@
+import { BPEdge, BPNode, BlueprintNodeData, NodeType, PinContainer, PinDefinition, PinType } from '../types';
+import { dropInvalidEdges } from './pinSchema';
+
+export interface PinTemplate {
+  name: string;
+  type: PinType;
+  container?: PinContainer;
+  valueType?: PinType;
+  subType?: string;
+  defaultValue?: string;
+}
+
+// Canonical description of a known engine node. Drives model-output
+// normalisation, node styling, the right-click palette and compile checks.
+export interface NodeDefinition {
+  label: string;
+  nodeType: NodeType;
+  category: string;
+  pure: boolean;
+  latent?: boolean;
+  keywords?: string;
+  aliases?: string[];     // Other labels the model (or an older project) may use
+  inputs: PinTemplate[];
+  outputs: PinTemplate[];
+}
+
+// [name, type, default value, container]; sub-typed pins use sub(type, 'AActor')
+type PinSpec = [string, PinType | SubTyped, string?, PinContainer?];
+
+interface SubTyped {
+  type: PinType;
+  subType: string;
+}
+
+const { Exec, Boolean: Bool, Integer: Int, Float, String: Str, Vector, Rotator, Object: Obj, Class, Byte, Name, Struct, Wildcard } = PinType;
+
+const sub = (type: PinType, subType: string): SubTyped => ({ type, subType });
+
+const pins = (specs: PinSpec[]): PinTemplate[] => specs.map(([name, spec, defaultValue, container]) => ({
+  name,
+  ...(typeof spec === 'string' ? { type: spec } : spec),
+  defaultValue,
+  ...(container ? { container } : {})
+}));
+
+type Extra = Pick<NodeDefinition, 'keywords' | 'aliases' | 'latent'>;
+
+const event = (label: string, outputs: PinSpec[] = [], extra: Extra = {}): NodeDefinition =>
+  ({ label, nodeType: NodeType.Event, category: 'Events', pure: false, ...extra, inputs: [], outputs: pins([['Output', Exec], ...outputs]) });
+
+// Impure calls get the standard Exec/Then pair around their data pins
+const call = (label: string, category: string, inputs: PinSpec[], outputs: PinSpec[] = [], extra: Extra = {}): NodeDefinition =>
+  ({ label, nodeType: NodeType.Function, category, pure: false, ...extra, inputs: pins([['Exec', Exec], ...inputs]), outputs: pins([['Then', Exec], ...outputs]) });
+
+const pure = (label: string, category: string, inputs: PinSpec[], outputs: PinSpec[], extra: Extra = {}): NodeDefinition =>
+  ({ label, nodeType: NodeType.Function, category, pure: true, ...extra, inputs: pins(inputs), outputs: pins(outputs) });
+
+const flow = (label: string, inputs: PinSpec[], outputs: PinSpec[], extra: Extra = {}): NodeDefinition =>
+  ({ label, nodeType: NodeType.FlowControl, category: 'Flow Control', pure: false, ...extra, inputs: pins(inputs), outputs: pins(outputs) });
+
+const actor = sub(Obj, 'AActor');
+const controller = sub(Obj, 'AController');
+const primitive = sub(Obj, 'UPrimitiveComponent');
+const sceneComponent = sub(Obj, 'USceneComponent');
+
+const binaryMath = (op: string, type: PinType, keywords: string, result: PinType = type): NodeDefinition =>
+  pure(`${op} (${type === Int ? 'Integer' : 'Float'})`, 'Math', [['A', type, type === Int ? '0' : '0.0'], ['B', type, type === Int ? '0' : '0.0']], [['Return Value', result]], { keywords });
+
+export const CORE_NODE_DEFINITIONS: NodeDefinition[] = [
+  event('Event BeginPlay', [], { keywords: 'start spawn' }),
+  event('Event Tick', [['Delta Seconds', Float]], { keywords: 'update frame' }),
+  event('Event EndPlay', [['End Play Reason', sub(Byte, 'EEndPlayReason')]]),
+  event('Event Destroyed'),
+  event('Event ActorBeginOverlap', [['Other Actor', actor]], { keywords: 'collision trigger', aliases: ['On Actor Begin Overlap'] }),
+  event('Event ActorEndOverlap', [['Other Actor', actor]], { keywords: 'collision trigger', aliases: ['On Actor End Overlap'] }),
+  event('Event Hit', [['My Comp', primitive], ['Other', actor], ['Other Comp', primitive], ['Self Moved', Bool], ['Hit Location', Vector], ['Hit Normal', Vector], ['Normal Impulse', Vector], ['Hit', sub(Struct, 'FHitResult')]], { keywords: 'collision' }),
+  event('Event AnyDamage', [['Damage', Float], ['Damage Type', sub(Obj, 'UDamageType')], ['Instigated By', controller], ['Damage Causer', actor]], { keywords: 'health' }),
+  event('Custom Event', [], { keywords: 'delegate' }),
+
+  flow('Branch', [['Exec', Exec], ['Condition', Bool, 'true']], [['True', Exec], ['False', Exec]], { keywords: 'if else condition', aliases: ['If'] }),
+  flow('Sequence', [['Exec', Exec]], [['Then 0', Exec], ['Then 1', Exec]], { keywords: 'then order' }),
+  flow('For Loop', [['Exec', Exec], ['First Index', Int, '0'], ['Last Index', Int, '0']], [['Loop Body', Exec], ['Index', Int], ['Completed', Exec]], { keywords: 'repeat iterate' }),
+  flow('For Loop with Break', [['Exec', Exec], ['First Index', Int, '0'], ['Last Index', Int, '0'], ['Break', Exec]], [['Loop Body', Exec], ['Index', Int], ['Completed', Exec]], { keywords: 'repeat iterate' }),
+  flow('For Each Loop', [['Exec', Exec], ['Array', Wildcard, undefined, 'array']], [['Loop Body', Exec], ['Array Element', Wildcard], ['Array Index', Int], ['Completed', Exec]], { keywords: 'iterate array list', aliases: ['ForEach Loop', 'For Each'] }),
+  flow('For Each Loop with Break', [['Exec', Exec], ['Array', Wildcard, undefined, 'array'], ['Break', Exec]], [['Loop Body', Exec], ['Array Element', Wildcard], ['Array Index', Int], ['Completed', Exec]], { keywords: 'iterate array list', aliases: ['ForEach Loop with Break'] }),
+  flow('While Loop', [['Exec', Exec], ['Condition', Bool]], [['Loop Body', Exec], ['Completed', Exec]], { keywords: 'repeat' }),
+  flow('Do Once', [['Exec', Exec], ['Reset', Exec], ['Start Closed', Bool, 'false']], [['Completed', Exec]], { keywords: 'single first' }),
+  flow('Flip Flop', [['Exec', Exec]], [['A', Exec], ['B', Exec], ['Is A', Bool]], { keywords: 'toggle alternate' }),
+  flow('Gate', [['Enter', Exec], ['Open', Exec], ['Close', Exec], ['Toggle', Exec], ['Start Closed', Bool, 'false']], [['Exit', Exec]]),
+  flow('Delay', [['Exec', Exec], ['Duration', Float, '0.2']], [['Completed', Exec]], { keywords: 'wait timer', latent: true }),
+  flow('Retriggerable Delay', [['Exec', Exec], ['Duration', Float, '0.2']], [['Completed', Exec]], { keywords: 'wait timer', latent: true }),
+
+  binaryMath('Add', Float, '+ plus sum'),
+  binaryMath('Subtract', Float, '- minus'),
+  binaryMath('Multiply', Float, '* times'),
+  binaryMath('Divide', Float, '/'),
+  binaryMath('Add', Int, '+ plus sum'),
+  binaryMath('Subtract', Int, '- minus'),
+  binaryMath('Multiply', Int, '* times'),
+  binaryMath('Divide', Int, '/'),
+  binaryMath('Modulo', Int, '% remainder'),
+  binaryMath('Greater', Float, '>', Bool),
+  binaryMath('Greater Equal', Float, '>=', Bool),
+  binaryMath('Less', Float, '<', Bool),
+  binaryMath('Less Equal', Float, '<=', Bool),
+  binaryMath('Equal', Float, '==', Bool),
+  binaryMath('Greater', Int, '>', Bool),
+  binaryMath('Less', Int, '<', Bool),
+  binaryMath('Equal', Int, '==', Bool),
+  binaryMath('Not Equal', Int, '!=', Bool),
+  binaryMath('Min', Float, 'smallest'),
+  binaryMath('Max', Float, 'largest'),
+  binaryMath('Power', Float, 'exponent pow'),
+  pure('Abs (Float)', 'Math', [['A', Float, '0.0']], [['Return Value', Float]], { keywords: 'absolute' }),
+  pure('Square Root', 'Math', [['A', Float, '0.0']], [['Return Value', Float]], { keywords: 'sqrt', aliases: ['Sqrt'] }),
+  pure('Clamp (Float)', 'Math', [['Value', Float, '0.0'], ['Min', Float, '0.0'], ['Max', Float, '1.0']], [['Return Value', Float]], { keywords: 'limit range' }),
+  pure('Random Float in Range', 'Math', [['Min', Float, '0.0'], ['Max', Float, '1.0']], [['Return Value', Float]], { keywords: 'rand' }),
+  pure('Random Integer in Range', 'Math', [['Min', Int, '0'], ['Max', Int, '10']], [['Return Value', Int]], { keywords: 'rand' }),
+  pure('AND', 'Math', [['A', Bool, 'false'], ['B', Bool, 'false']], [['Return Value', Bool]], { keywords: 'boolean &&', aliases: ['AND Boolean'] }),
+  pure('OR', 'Math', [['A', Bool, 'false'], ['B', Bool, 'false']], [['Return Value', Bool]], { keywords: 'boolean ||', aliases: ['OR Boolean'] }),
+  pure('XOR', 'Math', [['A', Bool, 'false'], ['B', Bool, 'false']], [['Return Value', Bool]], { keywords: 'boolean', aliases: ['XOR Boolean'] }),
+  pure('NOT', 'Math', [['A', Bool, 'false']], [['Return Value', Bool]], { keywords: 'boolean ! negate', aliases: ['NOT Boolean'] }),
+  pure('Make Vector', 'Math', [['X', Float, '0.0'], ['Y', Float, '0.0'], ['Z', Float, '0.0']], [['Return Value', Vector]]),
+  pure('Break Vector', 'Math', [['In Vec', Vector]], [['X', Float], ['Y', Float], ['Z', Float]], { keywords: 'split' }),
+  pure('Vector Length', 'Math', [['A', Vector]], [['Return Value', Float]], { keywords: 'size magnitude' }),
+  pure('Make Rotator', 'Math', [['Roll', Float, '0.0'], ['Pitch', Float, '0.0'], ['Yaw', Float, '0.0']], [['Return Value', Rotator]]),
+
+  call('Print String', 'Utilities', [['In String', Str, 'Hello']], [], { keywords: 'log debug message', aliases: ['Print'] }),
+  pure('Is Valid', 'Utilities', [['Input Object', Obj]], [['Return Value', Bool]], { keywords: 'null check' }),
+  pure('Append', 'Utilities', [['A', Str], ['B', Str]], [['Return Value', Str]], { keywords: 'string concat join' }),
+  call('Set Timer by Function Name', 'Utilities', [['Object', Obj], ['Function Name', Str], ['Time', Float, '1.0'], ['Looping', Bool, 'false']], [['Return Value', sub(Struct, 'FTimerHandle')]], { keywords: 'delay repeat' }),
+  pure('Get World Delta Seconds', 'Utilities', [], [['Return Value', Float]], { keywords: 'frame time' }),
+
+  pure('Get Actor Location', 'Actor', [['Target', actor]], [['Return Value', Vector]], { keywords: 'position' }),
+  call('Set Actor Location', 'Actor', [['Target', actor], ['New Location', Vector], ['Sweep', Bool, 'false']], [['Return Value', Bool]], { keywords: 'move teleport position' }),
+  pure('Get Actor Rotation', 'Actor', [['Target', actor]], [['Return Value', Rotator]]),
+  call('Set Actor Rotation', 'Actor', [['Target', actor], ['New Rotation', Rotator], ['Teleport Physics', Bool, 'false']], [['Return Value', Bool]], { keywords: 'turn' }),
+  call('Destroy Actor', 'Actor', [['Target', actor]], [], { keywords: 'delete remove kill' }),
+  pure('Get Player Character', 'Actor', [['Player Index', Int, '0']], [['Return Value', sub(Obj, 'ACharacter')]]),
+  pure('Get Player Controller', 'Actor', [['Player Index', Int, '0']], [['Return Value', sub(Obj, 'APlayerController')]]),
+  pure('Get Player Pawn', 'Actor', [['Player Index', Int, '0']], [['Return Value', sub(Obj, 'APawn')]]),
+  call('Apply Damage', 'Actor', [['Damaged Actor', actor], ['Base Damage', Float, '0.0'], ['Event Instigator', controller], ['Damage Causer', actor], ['Damage Type Class', sub(Class, 'UDamageType')]], [['Return Value', Float]], { keywords: 'health hurt' }),
+  call('Play Sound at Location', 'Actor', [['Sound', sub(Obj, 'USoundBase')], ['Location', Vector]], [], { keywords: 'audio' }),
+  call('Get All Actors Of Class', 'Actor', [['Actor Class', sub(Class, 'AActor')]], [['Out Actors', actor, undefined, 'array']], { keywords: 'find' }),
+
+  call('Set Visibility', 'Components', [['Target', sceneComponent], ['New Visibility', Bool, 'true'], ['Propagate to Children', Bool, 'false']], [], { keywords: 'hide show' }),
+  call('Set Simulate Physics', 'Components', [['Target', primitive], ['Simulate', Bool, 'true']], [], { keywords: 'ragdoll' }),
+  call('Add Impulse', 'Components', [['Target', primitive], ['Impulse', Vector], ['Bone Name', Name], ['Vel Change', Bool, 'false']], [], { keywords: 'force push physics' }),
+  call('Set Relative Location', 'Components', [['Target', sceneComponent], ['New Location', Vector], ['Sweep', Bool, 'false']], [], { keywords: 'move offset' })
+];
+
+// "For Each Loop", "ForEachLoop" and "for_each_loop" all resolve to the same node
+const lookupKey = (label: string) => label.toLowerCase().replace(/[\s_]+/g, '');
+
+const compactName = (text: string) => text.replace(/\W+/g, '');
+
+// Extension packs only list their data pins for impure nodes if they like;
+// the Exec/Then pair is filled in the same way call() does for core nodes
+const completeDefinition = (def: NodeDefinition): NodeDefinition => {
+  const hasExec = [...def.inputs, ...def.outputs].some(p => p.type === Exec);
+  if (def.pure || hasExec || def.nodeType === NodeType.Event || def.nodeType === NodeType.InputEvent) return def;
+  return {
+    ...def,
+    inputs: [{ name: 'Exec', type: Exec }, ...def.inputs],
+    outputs: [{ name: 'Then', type: Exec }, ...def.outputs]
+  };
+};
+
+let extensionDefinitions: NodeDefinition[] = [];
+let allDefinitions: NodeDefinition[] = CORE_NODE_DEFINITIONS;
+let index = new Map<string, NodeDefinition>();
+
+const rebuildIndex = () => {
+  index = new Map();
+  const register = (def: NodeDefinition) => [def.label, ...(def.aliases || [])].forEach(name => index.set(lookupKey(name), def));
+  CORE_NODE_DEFINITIONS.forEach(register);
+  // Registered last so a pack can redefine a core node
+  extensionDefinitions.forEach(register);
+  const overrides = new Map(extensionDefinitions.map(def => [lookupKey(def.label), def]));
+  const merged = [
+    ...CORE_NODE_DEFINITIONS.map(def => overrides.get(lookupKey(def.label)) || def),
+    ...extensionDefinitions.filter(def => !CORE_NODE_DEFINITIONS.some(core => lookupKey(core.label) === lookupKey(def.label)))
+  ];
+  // Keep each category together so the palette shows one header per category
+  const categories = [...new Set(merged.map(def => def.category))];
+  allDefinitions = categories.flatMap(category => merged.filter(def => def.category === category));
+};
+rebuildIndex();
+
+export const setExtensionDefinitions = (definitions: NodeDefinition[]) => {
+  extensionDefinitions = definitions.map(completeDefinition);
+  rebuildIndex();
+};
+
+// Stable until the extension set changes, so it can be used as a memo dependency
+export const getNodeDefinitions = (): NodeDefinition[] => allDefinitions;
+
+export const findNodeDefinition = (label: string): NodeDefinition | undefined => index.get(lookupKey(label || ''));
+
+// Variable, call and function entry/result nodes are named by the user, so a
+// Get/Set or a function called "Append" must not pick up an engine definition
+export const definitionForNode = (data: BlueprintNodeData): NodeDefinition | undefined => {
+  const { nodeType, variableId, functionId, label } = data;
+  if (variableId || functionId) return undefined;
+  if (nodeType === NodeType.VariableGet || nodeType === NodeType.VariableSet || nodeType === NodeType.FunctionEntry || nodeType === NodeType.FunctionResult) return undefined;
+  return findNodeDefinition(label);
+};
+
+const pinKey = (name: string) => name.toLowerCase().replace(/\W+/g, '');
+
+// Reshapes a node's pins to the definition: canonical pins are matched by name,
+// then by type in order, and keep their existing ids so links survive. Missing
+// pins are added; extra pins are kept (e.g. "Then 2" on a Sequence) except
+// exec pins on a pure node.
+export const conformToDefinition = (
+  nodeId: string,
+  def: NodeDefinition,
+  inputs: PinDefinition[],
+  outputs: PinDefinition[]
+): { nodeType: NodeType; inputs: PinDefinition[]; outputs: PinDefinition[] } => {
+  const usedIds = new Set([...inputs, ...outputs].map(p => p.id).filter(Boolean));
+
+  const conform = (templates: PinTemplate[], existing: PinDefinition[], isOutput: boolean): PinDefinition[] => {
+    const available = [...existing];
+    const take = (predicate: (pin: PinDefinition) => boolean) => {
+      const i = available.findIndex(predicate);
+      return i < 0 ? undefined : available.splice(i, 1)[0];
+    };
+    const byName = templates.map(t => take(p => pinKey(p.name || '') === pinKey(t.name)));
+    const matched = templates.map((t, i) => byName[i] || take(p => p.type === t.type));
+
+    const result = templates.map((t, i): PinDefinition => {
+      const pin = matched[i];
+      let id = pin?.id;
+      if (!id) {
+        id = `${nodeId}_${compactName(t.name)}`;
+        if (usedIds.has(id)) id = `${id}_${isOutput ? 'Out' : 'In'}`;
+        usedIds.add(id);
+      }
+      const defaultValue = pin?.defaultValue ?? t.defaultValue;
+      return {
+        ...pin,
+        id,
+        name: t.name,
+        type: t.type,
+        container: t.container,
+        valueType: t.valueType,
+        subType: t.subType ?? (pin?.type === t.type ? pin.subType : undefined),
+        isOutput,
+        ...(defaultValue !== undefined ? { defaultValue } : {})
+      };
+    });
+    const extras = available
+      .filter(p => !(def.pure && p.type === Exec))
+      .map(p => ({ ...p, isOutput }));
+    return [...result, ...extras];
+  };
+
+  return {
+    nodeType: def.nodeType,
+    inputs: conform(def.inputs, inputs, false),
+    outputs: conform(def.outputs, outputs, true)
+  };
+};
+
+// Wildcard pins take the element type of whatever is wired into the node's
+// wildcard input, as the editor does, and go back to wildcards once it is unplugged.
+// Links that no longer fit the resolved type are dropped.
+export const propagateWildcards = (nodes: BPNode[], edges: BPEdge[]): { nodes: BPNode[]; edges: BPEdge[] } => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  const touched = new Set<string>();
+  const resolved = nodes.map(node => {
+    const def = definitionForNode(node.data);
+    const wildcards = new Set([...(def?.inputs || []), ...(def?.outputs || [])].filter(t => t.type === Wildcard).map(t => t.name));
+    if (wildcards.size === 0) return node;
+    const isWildcard = (pin: PinDefinition) => wildcards.has(pin.name);
+    const source = edges
+      .filter(e => e.target === node.id && node.data.inputs.some(p => p.id === e.targetHandle && isWildcard(p)))
+      .map(e => byId.get(e.source)?.data.outputs.find(p => p.id === e.sourceHandle))
+      .find(pin => pin && pin.type !== Wildcard);
+    const element = { type: source?.type ?? Wildcard, subType: source?.subType };
+    const retype = (pins: PinDefinition[]) => pins.map(pin =>
+      isWildcard(pin) && (pin.type !== element.type || pin.subType !== element.subType) ? { ...pin, ...element } : pin);
+    const inputs = retype(node.data.inputs);
+    const outputs = retype(node.data.outputs);
+    if (inputs.every((p, i) => p === node.data.inputs[i]) && outputs.every((p, i) => p === node.data.outputs[i])) return node;
+    touched.add(node.id);
+    return { ...node, data: { ...node.data, inputs, outputs } };
+  });
+  if (touched.size === 0) return { nodes, edges };
+  return { nodes: resolved, edges: dropInvalidEdges(resolved, edges, touched) };
+};
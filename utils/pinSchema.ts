@@ -0,0 +1,237 @@
+import { BPNode, BPEdge, NodeType, PinContainer, PinDefinition, PinType, UE_COLORS } from '../types';
+import { createCastNode, displayTypeName, isChildOfClass, isKnownClass } from './engineTypes';
+
+// Connection rules modelled on UE's UEdGraphSchema_K2::CanCreateConnection.
+// A response either allows the link, refuses it with a reason that can be
+// shown inline, or asks for a conversion node to be placed in between.
+export type ConnectionResponse =
+  | { kind: 'allow' }
+  | { kind: 'disallow'; reason: string }
+  | { kind: 'convert'; conversion: PinConversion; reason: string };
+
+export interface PinConversion {
+  from: PinType;
+  to: PinType;
+  label: string;
+  classPath: string;   // Owning library, used by the T3D exporter
+  functionName: string;
+  inputName: string;   // UE parameter name on the conversion function
+  castTo?: string;     // Target class when the conversion is a Cast To node
+}
+
+const MATH = '/Script/Engine.KismetMathLibrary';
+const STRING = '/Script/Engine.KismetStringLibrary';
+const TEXT = '/Script/Engine.KismetTextLibrary';
+
+const conversion = (from: PinType, to: PinType, label: string, classPath: string, functionName: string, inputName: string): PinConversion =>
+  ({ from, to, label, classPath, functionName, inputName });
+
+// Implicit conversions the K2 schema offers via autocast nodes
+export const PIN_CONVERSIONS: PinConversion[] = [
+  conversion(PinType.Integer, PinType.Float, 'To Float (Integer)', MATH, 'Conv_IntToDouble', 'In Int'),
+  conversion(PinType.Integer, PinType.Byte, 'To Byte (Integer)', MATH, 'Conv_IntToByte', 'In Int'),
+  conversion(PinType.Integer, PinType.Boolean, 'To Boolean (Integer)', MATH, 'Conv_IntToBool', 'In Int'),
+  conversion(PinType.Integer, PinType.String, 'To String (Integer)', STRING, 'Conv_IntToString', 'In Int'),
+  conversion(PinType.Integer, PinType.Text, 'To Text (Integer)', TEXT, 'Conv_IntToText', 'Value'),
+  conversion(PinType.Byte, PinType.Integer, 'To Integer (Byte)', MATH, 'Conv_ByteToInt', 'In Byte'),
+  conversion(PinType.Byte, PinType.Float, 'To Float (Byte)', MATH, 'Conv_ByteToDouble', 'In Byte'),
+  conversion(PinType.Byte, PinType.String, 'To String (Byte)', STRING, 'Conv_ByteToString', 'In Byte'),
+  conversion(PinType.Boolean, PinType.Integer, 'To Integer (Boolean)', MATH, 'Conv_BoolToInt', 'In Bool'),
+  conversion(PinType.Boolean, PinType.Float, 'To Float (Boolean)', MATH, 'Conv_BoolToDouble', 'In Bool'),
+  conversion(PinType.Boolean, PinType.String, 'To String (Boolean)', STRING, 'Conv_BoolToString', 'In Bool'),
+  conversion(PinType.Boolean, PinType.Text, 'To Text (Boolean)', TEXT, 'Conv_BoolToText', 'In Bool'),
+  conversion(PinType.Float, PinType.String, 'To String (Float)', STRING, 'Conv_DoubleToString', 'In Double'),
+  conversion(PinType.Float, PinType.Text, 'To Text (Float)', TEXT, 'Conv_DoubleToText', 'Value'),
+  conversion(PinType.Name, PinType.String, 'To String (Name)', STRING, 'Conv_NameToString', 'In Name'),
+  conversion(PinType.Name, PinType.Text, 'To Text (Name)', TEXT, 'Conv_NameToText', 'In Name'),
+  conversion(PinType.String, PinType.Name, 'To Name (String)', STRING, 'Conv_StringToName', 'In String'),
+  conversion(PinType.String, PinType.Text, 'To Text (String)', TEXT, 'Conv_StringToText', 'In String'),
+  conversion(PinType.Text, PinType.String, 'To String (Text)', TEXT, 'Conv_TextToString', 'In Text'),
+  conversion(PinType.Vector, PinType.String, 'To String (Vector)', STRING, 'Conv_VectorToString', 'In Vec'),
+  conversion(PinType.Vector, PinType.Text, 'To Text (Vector)', TEXT, 'Conv_VectorToText', 'In Vec'),
+  conversion(PinType.Vector, PinType.Rotator, 'Rotation From X Vector', MATH, 'Conv_VectorToRotator', 'In Vec'),
+  conversion(PinType.Rotator, PinType.String, 'To String (Rotator)', STRING, 'Conv_RotatorToString', 'In Rot'),
+  conversion(PinType.Rotator, PinType.Text, 'To Text (Rotator)', TEXT, 'Conv_RotatorToText', 'In Rot'),
+  conversion(PinType.Rotator, PinType.Vector, 'Get Rotation X Vector', MATH, 'Conv_RotatorToVector', 'In Rot'),
+  conversion(PinType.Object, PinType.String, 'Get Display Name', '/Script/Engine.KismetSystemLibrary', 'GetDisplayName', 'Object')
+];
+
+export const findConversion = (from: PinType, to: PinType) =>
+  PIN_CONVERSIONS.find(c => c.from === from && c.to === to);
+
+const castConversion = (className: string): PinConversion => ({
+  ...conversion(PinType.Object, PinType.Object, `Cast To ${displayTypeName(className)}`, '', 'DynamicCast', 'Object'),
+  castTo: className
+});
+
+export const typeName = (type: PinType) => type.charAt(0).toUpperCase() + type.slice(1);
+export const typeColor = (type: PinType) => UE_COLORS[typeName(type) as keyof typeof UE_COLORS] || UE_COLORS.Default;
+
+// The full type of a pin or variable, container and sub-type included
+export type PinTypeDescriptor = Pick<PinDefinition, 'type' | 'container' | 'valueType' | 'subType'>;
+
+export const PIN_CONTAINERS: PinContainer[] = ['array', 'set', 'map'];
+
+// Sub-typed pins read as the editor's tooltips do: "Actor Object Reference", "ECollisionChannel Enum".
+// Delegate pins carry the dispatcher whose signature they match.
+const SUB_TYPE_SUFFIX: Partial<Record<PinType, string>> = {
+  [PinType.Object]: 'Object Reference',
+  [PinType.Class]: 'Class Reference',
+  [PinType.Struct]: 'Structure',
+  [PinType.Byte]: 'Enum',
+  [PinType.Delegate]: 'Event'
+};
+
+const elementTypeName = (type: PinType, subType?: string) =>
+  subType && SUB_TYPE_SUFFIX[type] ? `${displayTypeName(subType)} ${SUB_TYPE_SUFFIX[type]}` : typeName(type);
+
+export const pinTypeName = ({ type, container, valueType, subType }: PinTypeDescriptor) => {
+  const element = elementTypeName(type, subType);
+  switch (container) {
+    case 'array': return `Array of ${element}`;
+    case 'set': return `Set of ${element}`;
+    case 'map': return `Map of ${element} to ${typeName(valueType ?? PinType.Boolean)}`;
+    default: return element;
+  }
+};
+
+export const samePinType = (a: PinTypeDescriptor, b: PinTypeDescriptor) =>
+  a.type === b.type && (a.container ?? null) === (b.container ?? null) && (a.container !== 'map' || a.valueType === b.valueType)
+  && (a.subType ?? null) === (b.subType ?? null);
+
+// Pins without a sub-type (older graphs, generic nodes) accept any
+const compatibleSubTypes = (a: PinTypeDescriptor, b: PinTypeDescriptor) =>
+  !a.subType || !b.subType || a.subType === b.subType;
+
+// Object and class references follow the class hierarchy: a child links to a
+// parent pin directly, a parent reaching a child pin needs a Cast node.
+const checkClassHierarchy = (source: PinDefinition, target: PinDefinition): ConnectionResponse | undefined => {
+  if (!isKnownClass(source.subType) || !isKnownClass(target.subType)) return undefined;
+  if (isChildOfClass(source.subType, target.subType)) return { kind: 'allow' };
+  if (source.type === PinType.Object && isChildOfClass(target.subType, source.subType)) {
+    const conv = castConversion(target.subType);
+    return { kind: 'convert', conversion: conv, reason: conv.label };
+  }
+  return { kind: 'disallow', reason: `${pinTypeName(source)} is not compatible with ${pinTypeName(target)}` };
+};
+
+// Type-level check only; node/direction rules live in canCreateConnection
+export const canConnectPinTypes = (source: PinDefinition, target: PinDefinition): ConnectionResponse => {
+  if (source.type === PinType.Exec || target.type === PinType.Exec) {
+    if (source.type === target.type) return { kind: 'allow' };
+    return {
+      kind: 'disallow',
+      reason: source.type === PinType.Exec
+        ? `Exec pin can't connect to ${typeName(target.type)} data pin "${target.name}"`
+        : `${typeName(source.type)} data pin can't connect to exec pin "${target.name}"`
+    };
+  }
+  // A wildcard takes any type until a link resolves it; the container still has to agree
+  if (source.type === PinType.Wildcard || target.type === PinType.Wildcard) {
+    if ((source.container ?? null) === (target.container ?? null)) return { kind: 'allow' };
+    return { kind: 'disallow', reason: `${pinTypeName(source)} is not compatible with ${pinTypeName(target)}` };
+  }
+  // Containers only link to the identical container type; there are no autocasts between them
+  if (source.container || target.container) {
+    if (samePinType({ ...source, subType: undefined }, { ...target, subType: undefined }) && compatibleSubTypes(source, target)) {
+      return { kind: 'allow' };
+    }
+    return { kind: 'disallow', reason: `${pinTypeName(source)} is not compatible with ${pinTypeName(target)}` };
+  }
+  if (source.type === target.type) {
+    if (source.type === PinType.Object || source.type === PinType.Class) {
+      return checkClassHierarchy(source, target) ?? { kind: 'allow' };
+    }
+    if (compatibleSubTypes(source, target)) return { kind: 'allow' };
+    return { kind: 'disallow', reason: `${pinTypeName(source)} is not compatible with ${pinTypeName(target)}` };
+  }
+
+  const conv = findConversion(source.type, target.type);
+  if (conv) {
+    return { kind: 'convert', conversion: conv, reason: `Convert ${typeName(source.type)} to ${typeName(target.type)}` };
+  }
+  return { kind: 'disallow', reason: `${typeName(source.type)} is not compatible with ${typeName(target.type)}` };
+};
+
+export const canCreateConnection = (
+  sourceNode: BPNode | undefined,
+  sourceHandle: string | null | undefined,
+  targetNode: BPNode | undefined,
+  targetHandle: string | null | undefined
+): ConnectionResponse => {
+  if (!sourceNode || !targetNode) return { kind: 'disallow', reason: 'Unknown node' };
+  if (sourceNode.id === targetNode.id) return { kind: 'disallow', reason: 'Both are on the same node' };
+
+  const source = sourceNode.data.outputs.find(p => p.id === sourceHandle);
+  const target = targetNode.data.inputs.find(p => p.id === targetHandle);
+  if (!source || !target) {
+    // Dragged onto a pin of the same direction
+    return { kind: 'disallow', reason: source ? 'Output is not compatible with output' : 'Input is not compatible with input' };
+  }
+  return canConnectPinTypes(source, target);
+};
+
+// Drops links on the given nodes whose pins disappeared or no longer type-check
+export const dropInvalidEdges = (nodes: BPNode[], edges: BPEdge[], touchedNodeIds: Set<string>) => {
+  const byId = new Map(nodes.map(n => [n.id, n]));
+  return edges.filter(edge => {
+    if (!touchedNodeIds.has(edge.source) && !touchedNodeIds.has(edge.target)) return true;
+    const source = byId.get(edge.source)?.data.outputs.find(p => p.id === edge.sourceHandle);
+    const target = byId.get(edge.target)?.data.inputs.find(p => p.id === edge.targetHandle);
+    return !!source && !!target && canConnectPinTypes(source, target).kind === 'allow';
+  });
+};
+
+// Keeps existing pins (and so their links and typed-in values) that match by id, then by name
+export const reconcilePins = (existing: PinDefinition[], wanted: PinDefinition[]) => {
+  const used = new Set<string>();
+  return wanted.map(pin => {
+    const match = existing.find(p => !used.has(p.id) && p.id === pin.id)
+      || existing.find(p => !used.has(p.id) && p.name === pin.name);
+    if (!match) return pin;
+    used.add(match.id);
+    const kept = match.type === pin.type;
+    return { ...pin, id: match.id, value: kept ? match.value : undefined, userEdited: kept ? match.userEdited : undefined };
+  });
+};
+
+// Builds the autocast node and the two links that replace a direct connection
+export const createConversionNode = (
+  conv: PinConversion,
+  sourceNode: BPNode,
+  sourceHandle: string,
+  targetNode: BPNode,
+  targetHandle: string
+) => {
+  const position = {
+    x: (sourceNode.position.x + targetNode.position.x) / 2,
+    y: (sourceNode.position.y + targetNode.position.y) / 2 + 40
+  };
+  if (conv.castTo) {
+    const node = { ...createCastNode(conv.castTo, position, true), selected: false };
+    const [input] = node.data.inputs;
+    const [output] = node.data.outputs;
+    const links = [
+      { source: sourceNode.id, sourceHandle, target: node.id, targetHandle: input.id },
+      { source: node.id, sourceHandle: output.id, target: targetNode.id, targetHandle }
+    ];
+    return { node, links };
+  }
+  const id = `Conv_${conv.functionName}_${Math.random().toString(36).substr(2, 6)}`;
+  const node: BPNode = {
+    id,
+    type: 'customBlueprintNode',
+    position,
+    data: {
+      label: conv.label,
+      nodeType: NodeType.Function,
+      inputs: [{ id: `${id}_In`, name: conv.inputName, type: conv.from, isOutput: false }],
+      outputs: [{ id: `${id}_ReturnValue`, name: 'Return Value', type: conv.to, isOutput: true }]
+    }
+  };
+  const links = [
+    { source: sourceNode.id, sourceHandle, target: id, targetHandle: `${id}_In` },
+    { source: id, sourceHandle: `${id}_ReturnValue`, target: targetNode.id, targetHandle }
+  ];
+  return { node, links };
+};
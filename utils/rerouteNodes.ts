@@ -0,0 +1,58 @@
+import { BPNode, BPEdge, NodeType, PinDefinition } from '../types';
+import { isCommentNode } from './commentNodes';
+
+// Reroute (knot) nodes pass a wire through unchanged; they only exist to tidy
+// the canvas, so everything that runs or translates the graph looks past them.
+
+export const REROUTE_NODE_TYPE = 'rerouteNode';
+
+export const isRerouteNode = (node: BPNode) => node.data.nodeType === NodeType.Reroute;
+
+// A knot takes the full type of the wire it is placed on
+export const createRerouteNode = (pin: PinDefinition, position: { x: number; y: number }): BPNode => {
+  const id = `Reroute_${Math.random().toString(36).substr(2, 6)}`;
+  const typed = { type: pin.type, container: pin.container, valueType: pin.valueType, subType: pin.subType };
+  return {
+    id,
+    type: REROUTE_NODE_TYPE,
+    position,
+    data: {
+      label: 'Reroute Node',
+      nodeType: NodeType.Reroute,
+      inputs: [{ id: `${id}_In`, name: '', ...typed, isOutput: false }],
+      outputs: [{ id: `${id}_Out`, name: '', ...typed, isOutput: true }]
+    }
+  };
+};
+
+// Splits a wire in two at a new knot
+export const splitEdge = (edge: BPEdge, knot: BPNode): BPEdge[] => [
+  { ...edge, id: `e_${edge.source}_${knot.id}`, target: knot.id, targetHandle: knot.data.inputs[0].id },
+  { ...edge, id: `e_${knot.id}_${edge.target}`, source: knot.id, sourceHandle: knot.data.outputs[0].id }
+];
+
+// The graph as the compiler, debugger and C++ view see it: no comments, and
+// every chain of knots joined into direct links (an exec knot may fan in)
+export const logicalGraph = (nodes: BPNode[], edges: BPEdge[]): { nodes: BPNode[]; edges: BPEdge[] } => {
+  const knots = new Set(nodes.filter(isRerouteNode).map(n => n.id));
+  const kept = nodes.filter(n => !knots.has(n.id) && !isCommentNode(n));
+  if (kept.length === nodes.length) return { nodes, edges };
+  const into = new Map<string, BPEdge[]>();
+  edges.forEach(e => { if (knots.has(e.target)) into.set(e.target, [...(into.get(e.target) || []), e]); });
+  const origins = (edge: BPEdge, seen: Set<string>): BPEdge[] => {
+    if (!knots.has(edge.source)) return [edge];
+    if (seen.has(edge.source)) return [];
+    const visited = new Set(seen).add(edge.source);
+    return (into.get(edge.source) || []).flatMap(e => origins(e, visited));
+  };
+  const joined = edges.filter(e => !knots.has(e.target)).flatMap(edge => {
+    const sources = origins(edge, new Set());
+    return sources.map(s => (s === edge ? edge : {
+      ...edge,
+      id: sources.length === 1 ? edge.id : `${edge.id}_${s.id}`,
+      source: s.source,
+      sourceHandle: s.sourceHandle
+    }));
+  });
+  return { nodes: kept, edges: joined };
+};
@@ -0,0 +1,65 @@
+// Incremental extraction of complete array items from a JSON document that is
+// still being streamed, e.g. `{"nodes":[{...},{...},{"id":"N3","lab` yields the
+// first two node objects. Only arrays directly under the root object are scanned.
+export const extractStreamedItems = (text: string, keys: string[]): Record<string, any[]> => {
+  const result: Record<string, any[]> = {};
+  keys.forEach(k => { result[k] = []; });
+
+  let depth = 0;
+  let inString = false;
+  let escaped = false;
+  let stringStart = -1;
+  let lastString = '';
+  let currentKey = '';
+  let activeArray: string | null = null;
+  let itemStart = -1;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+
+    if (inString) {
+      if (escaped) escaped = false;
+      else if (ch === '\\') escaped = true;
+      else if (ch === '"') {
+        inString = false;
+        if (depth === 1) lastString = text.slice(stringStart + 1, i);
+      }
+      continue;
+    }
+
+    switch (ch) {
+      case '"':
+        inString = true;
+        stringStart = i;
+        break;
+      case ':':
+        if (depth === 1) currentKey = lastString;
+        break;
+      case '[':
+        if (depth === 1 && keys.includes(currentKey)) activeArray = currentKey;
+        depth++;
+        break;
+      case '{':
+        if (depth === 2 && activeArray) itemStart = i;
+        depth++;
+        break;
+      case '}':
+        depth--;
+        if (depth === 2 && activeArray && itemStart !== -1) {
+          try {
+            result[activeArray].push(JSON.parse(text.slice(itemStart, i + 1)));
+          } catch (e) {
+            // Malformed item; the final full parse will report it
+          }
+          itemStart = -1;
+        }
+        break;
+      case ']':
+        depth--;
+        if (depth === 1) activeArray = null;
+        break;
+    }
+  }
+
+  return result;
+};
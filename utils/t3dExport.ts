@@ -0,0 +1,415 @@
+import { BPNode, BPEdge, BlueprintDocument, NodeType, PinDefinition, PinType } from '../types';
+import { PIN_CONVERSIONS } from './pinSchema';
+import { ENGINE_CLASSES, castTargetClass, displayTypeName, findUserEnum, findUserStruct, subTypePath, userTypePath } from './engineTypes';
+import { parseTypeNodeLabel } from './userTypes';
+import { DispatcherNodeKind, parseDispatcherLabel } from './dispatchers';
+import { findInterfaceFunction, interfaceClassPath, parseMessageLabel } from './interfaces';
+import { COMMENT_COLORS } from './commentNodes';
+
+// Exports the graph in the text format Unreal's graph editor puts on the
+// clipboard (Ctrl+C on nodes), so it can be pasted straight into a Blueprint.
+
+interface UEPinType {
+  category: string;
+  subCategory?: string;
+  subCategoryObject?: string;
+}
+
+const PIN_TYPE_MAP: Record<PinType, UEPinType> = {
+  [PinType.Exec]: { category: 'exec' },
+  [PinType.Boolean]: { category: 'bool' },
+  [PinType.Integer]: { category: 'int' },
+  [PinType.Float]: { category: 'real', subCategory: 'double' },
+  [PinType.String]: { category: 'string' },
+  [PinType.Name]: { category: 'name' },
+  [PinType.Text]: { category: 'text' },
+  [PinType.Byte]: { category: 'byte' },
+  [PinType.Vector]: { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Vector"'` },
+  [PinType.Rotator]: { category: 'struct', subCategoryObject: `/Script/CoreUObject.ScriptStruct'"/Script/CoreUObject.Rotator"'` },
+  [PinType.Struct]: { category: 'struct' },
+  [PinType.Object]: { category: 'object', subCategoryObject: `/Script/CoreUObject.Class'"/Script/CoreUObject.Object"'` },
+  [PinType.Class]: { category: 'class', subCategoryObject: `/Script/CoreUObject.Class'"/Script/CoreUObject.Object"'` },
+  [PinType.Delegate]: { category: 'delegate' },
+  [PinType.Wildcard]: { category: 'wildcard' }
+};
+
+// Native events on AActor that Blueprint "Event X" nodes override
+export const ACTOR_EVENTS: Record<string, string> = {
+  'BeginPlay': 'ReceiveBeginPlay',
+  'Tick': 'ReceiveTick',
+  'EndPlay': 'ReceiveEndPlay',
+  'ActorBeginOverlap': 'ReceiveActorBeginOverlap',
+  'ActorEndOverlap': 'ReceiveActorEndOverlap',
+  'Hit': 'ReceiveHit',
+  'AnyDamage': 'ReceiveAnyDamage',
+  'Destroyed': 'ReceiveDestroyed'
+};
+
+// Standard macros live in the StandardMacros asset rather than as K2Node classes
+export const STANDARD_MACROS: Record<string, string> = {
+  'For Loop': 'ForLoop',
+  'For Loop with Break': 'ForLoopWithBreak',
+  'ForEach Loop': 'ForEachLoop',
+  'ForEach Loop with Break': 'ForEachLoopWithBreak',
+  'For Each Loop': 'ForEachLoop',
+  'For Each Loop with Break': 'ForEachLoopWithBreak',
+  'While Loop': 'WhileLoop',
+  'DoOnce': 'DoOnce',
+  'Do Once': 'DoOnce',
+  'DoN': 'DoN',
+  'FlipFlop': 'FlipFlop',
+  'Flip Flop': 'FlipFlop',
+  'Gate': 'Gate',
+  'IsValid': 'IsValid',
+  'Is Valid': 'IsValid'
+};
+
+// Well-known library functions: label -> [owning class path, native function name]
+export const KNOWN_FUNCTIONS: Record<string, [string, string]> = {
+  'Print String': ['/Script/Engine.KismetSystemLibrary', 'PrintString'],
+  'Delay': ['/Script/Engine.KismetSystemLibrary', 'Delay'],
+  'Set Timer by Function Name': ['/Script/Engine.KismetSystemLibrary', 'K2_SetTimer'],
+  'Set Timer by Event': ['/Script/Engine.KismetSystemLibrary', 'K2_SetTimerDelegate'],
+  'Get Actor Location': ['/Script/Engine.Actor', 'K2_GetActorLocation'],
+  'Set Actor Location': ['/Script/Engine.Actor', 'K2_SetActorLocation'],
+  'Get Actor Rotation': ['/Script/Engine.Actor', 'K2_GetActorRotation'],
+  'Set Actor Rotation': ['/Script/Engine.Actor', 'K2_SetActorRotation'],
+  'Destroy Actor': ['/Script/Engine.Actor', 'K2_DestroyActor'],
+  'Get Player Character': ['/Script/Engine.GameplayStatics', 'GetPlayerCharacter'],
+  'Get Player Controller': ['/Script/Engine.GameplayStatics', 'GetPlayerController'],
+  'Get Player Pawn': ['/Script/Engine.GameplayStatics', 'GetPlayerPawn'],
+  'Apply Damage': ['/Script/Engine.GameplayStatics', 'ApplyDamage'],
+  'Play Sound at Location': ['/Script/Engine.GameplayStatics', 'PlaySoundAtLocation'],
+  'Get All Actors Of Class': ['/Script/Engine.GameplayStatics', 'GetAllActorsOfClass'],
+  'Get World Delta Seconds': ['/Script/Engine.GameplayStatics', 'GetWorldDeltaSeconds'],
+  // Autocast nodes inserted when connecting convertible pins
+  ...Object.fromEntries(PIN_CONVERSIONS.map(c => [c.label, [c.classPath, c.functionName] as [string, string]]))
+};
+
+interface NodeExportInfo {
+  className: string;
+  // Script package of the class; only comments live outside BlueprintGraph
+  module?: string;
+  properties: string[];
+  // Maps our pin to the pin name UE expects on this node class
+  pinName: (pin: PinDefinition, index: number, side: 'input' | 'output') => string;
+}
+
+const compactName = (name: string) => name.replace(/[^A-Za-z0-9_]/g, '');
+
+// Deterministic 32-char hex GUID so exporting the same graph twice is stable
+export const makeGuid = (seed: string): string => {
+  let out = '';
+  for (let round = 0; out.length < 32; round++) {
+    let h = 2166136261 ^ round;
+    for (let i = 0; i < seed.length; i++) {
+      h ^= seed.charCodeAt(i);
+      h = Math.imul(h, 16777619);
+    }
+    out += (h >>> 0).toString(16).toUpperCase().padStart(8, '0');
+  }
+  return out.slice(0, 32);
+};
+
+const defaultPinName = (pin: PinDefinition, _index: number, side: 'input' | 'output') => {
+  if (pin.type === PinType.Exec) {
+    if (side === 'input' && (pin.name === 'Exec' || pin.name === '' || pin.name === 'In')) return 'execute';
+    if (side === 'output' && (pin.name === 'Output' || pin.name === 'Then' || pin.name === '' || pin.name === 'Out')) return 'then';
+  }
+  if (side === 'output' && pin.name === 'Return Value') return 'ReturnValue';
+  return compactName(pin.name);
+};
+
+const DELEGATE_NODE_CLASSES: Record<DispatcherNodeKind, string> = {
+  call: 'K2Node_CallDelegate',
+  bind: 'K2Node_AddDelegate',
+  unbind: 'K2Node_RemoveDelegate',
+  unbindAll: 'K2Node_ClearDelegate'
+};
+
+// Target pins are called self on member calls, messages and delegate nodes
+const targetPinName = (pin: PinDefinition, index: number, side: 'input' | 'output') =>
+  side === 'input' && pin.name === 'Target' ? 'self' : defaultPinName(pin, index, side);
+
+const stripPrefix = (label: string, prefixes: string[]) => {
+  const prefix = prefixes.find(p => label.startsWith(p));
+  return prefix ? label.slice(prefix.length).trim() : label;
+};
+
+// "#ff8000" -> "(R=1.000000,G=0.501961,B=0.000000,A=1.000000)"
+const commentColorProperty = (hex: string) => {
+  const [r, g, b] = [1, 3, 5].map(i => (parseInt(hex.slice(i, i + 2), 16) / 255).toFixed(6));
+  return `CommentColor=(R=${r},G=${g},B=${b},A=1.000000)`;
+};
+
+// The blueprint's own assets that pasted nodes refer to
+export type T3DUserTypes = Pick<BlueprintDocument, 'structs' | 'enums' | 'interfaces'>;
+
+export const getNodeExportInfo = (node: BPNode, userTypes: T3DUserTypes): NodeExportInfo => {
+  const { label, nodeType } = node.data;
+
+  if (nodeType === NodeType.Comment) {
+    return {
+      className: 'EdGraphNode_Comment',
+      module: 'UnrealEd',
+      properties: [
+        commentColorProperty(node.data.commentColor || COMMENT_COLORS[0]),
+        `NodeWidth=${Math.round(node.measured?.width ?? node.width ?? 400)}`,
+        `NodeHeight=${Math.round(node.measured?.height ?? node.height ?? 200)}`,
+        `NodeComment="${escapeValue(label)}"`
+      ],
+      pinName: defaultPinName
+    };
+  }
+
+  if (nodeType === NodeType.Reroute) {
+    return {
+      className: 'K2Node_Knot',
+      properties: [],
+      pinName: (_pin, _index, side) => (side === 'input' ? 'InputPin' : 'OutputPin')
+    };
+  }
+
+  if (label === 'Branch' || label === 'If') {
+    return {
+      className: 'K2Node_IfThenElse',
+      properties: [],
+      pinName: (pin, index, side) => {
+        if (side === 'output' && pin.type === PinType.Exec) {
+          if (pin.name === 'True') return 'then';
+          if (pin.name === 'False') return 'else';
+          return index === 0 ? 'then' : 'else';
+        }
+        if (side === 'input' && pin.type === PinType.Boolean) return 'Condition';
+        return defaultPinName(pin, index, side);
+      }
+    };
+  }
+
+  if (label === 'Sequence') {
+    return {
+      className: 'K2Node_ExecutionSequence',
+      properties: [],
+      pinName: (pin, index, side) => side === 'output' ? `then_${index}` : defaultPinName(pin, index, side)
+    };
+  }
+
+  if (STANDARD_MACROS[label]) {
+    const macro = STANDARD_MACROS[label];
+    return {
+      className: 'K2Node_MacroInstance',
+      properties: [
+        `MacroGraphReference=(MacroGraph=/Script/Engine.EdGraph'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros:${macro}"',GraphBlueprint=/Script/Engine.Blueprint'"/Engine/EditorBlueprintResources/StandardMacros.StandardMacros"')`
+      ],
+      // Macro tunnels use the display names verbatim (minus spaces)
+      pinName: (pin) => compactName(pin.name)
+    };
+  }
+
+  if (nodeType === NodeType.VariableGet || nodeType === NodeType.VariableSet) {
+    const isGet = nodeType === NodeType.VariableGet;
+    const varName = compactName(stripPrefix(label, ['Get ', 'Set ']));
+    return {
+      className: isGet ? 'K2Node_VariableGet' : 'K2Node_VariableSet',
+      properties: [`VariableReference=(MemberName="${varName}",bSelfContext=True)`],
+      pinName: (pin, index, side) => {
+        if (pin.type === PinType.Exec) return defaultPinName(pin, index, side);
+        // The pass-through output on a Set node is called Output_Get
+        return !isGet && side === 'output' ? 'Output_Get' : varName;
+      }
+    };
+  }
+
+  if (nodeType === NodeType.InputEvent) {
+    const action = compactName(stripPrefix(label, ['InputAction ', 'Input Action ', 'InputAxis ']));
+    return {
+      className: 'K2Node_InputAction',
+      properties: [`InputActionName="${action}"`],
+      pinName: (pin, index, side) => compactName(pin.name) || defaultPinName(pin, index, side)
+    };
+  }
+
+  if (nodeType === NodeType.Event) {
+    const eventName = compactName(stripPrefix(label, ['Event ', 'On ']));
+    const native = ACTOR_EVENTS[eventName];
+    const eventPinName = (pin: PinDefinition, index: number, side: 'input' | 'output') => {
+      if (side === 'output' && pin.type === PinType.Exec) return 'then';
+      if (side === 'output' && pin.type === PinType.Delegate) return 'OutputDelegate';
+      return defaultPinName(pin, index, side);
+    };
+    if (native) {
+      return {
+        className: 'K2Node_Event',
+        properties: [`EventReference=(MemberParent=/Script/CoreUObject.Class'"/Script/Engine.Actor"',MemberName="${native}")`, 'bOverrideFunction=True'],
+        pinName: eventPinName
+      };
+    }
+    const implemented = findInterfaceFunction(stripPrefix(label, ['Event ']), userTypes.interfaces);
+    if (implemented) {
+      return {
+        className: 'K2Node_Event',
+        properties: [`EventReference=(MemberParent=/Script/CoreUObject.Class'"${interfaceClassPath(implemented.iface)}"',MemberName="${implemented.fn.name}")`, 'bOverrideFunction=True'],
+        pinName: eventPinName
+      };
+    }
+    return {
+      className: 'K2Node_CustomEvent',
+      properties: [`CustomFunctionName="${eventName}"`],
+      pinName: eventPinName
+    };
+  }
+
+  // Make/Break pins are the member names; Switch outputs are the enumerator names
+  const typeNode = parseTypeNodeLabel(label);
+  if (typeNode && (typeNode.kind === 'switch' ? findUserEnum(typeNode.name, userTypes.enums) : findUserStruct(typeNode.name, userTypes.structs))) {
+    const path = userTypePath(typeNode.name);
+    const className = typeNode.kind === 'make' ? 'K2Node_MakeStruct' : typeNode.kind === 'break' ? 'K2Node_BreakStruct' : 'K2Node_SwitchEnum';
+    return {
+      className,
+      properties: [typeNode.kind === 'switch' ? `Enum=/Script/Engine.UserDefinedEnum'"${path}"'` : `StructType=/Script/Engine.UserDefinedStruct'"${path}"'`],
+      pinName: (pin, index, side) => {
+        if (typeNode.kind === 'switch' && side === 'input' && pin.type !== PinType.Exec) return 'Selection';
+        return pin.type === PinType.Exec && side === 'input' ? 'execute' : compactName(pin.name);
+      }
+    };
+  }
+
+  const dispatch = parseDispatcherLabel(label);
+  if (dispatch) {
+    return {
+      className: DELEGATE_NODE_CLASSES[dispatch.kind],
+      properties: [`DelegateReference=(MemberName="${dispatch.name}",bSelfContext=True)`],
+      pinName: (pin, index, side) => (side === 'input' && pin.type === PinType.Delegate ? 'Delegate' : targetPinName(pin, index, side))
+    };
+  }
+
+  const message = parseMessageLabel(label);
+  const messaged = message ? findInterfaceFunction(message, userTypes.interfaces) : undefined;
+  if (messaged) {
+    return {
+      className: 'K2Node_Message',
+      properties: [`FunctionReference=(MemberParent=/Script/CoreUObject.Class'"${interfaceClassPath(messaged.iface)}"',MemberName="${messaged.fn.name}")`],
+      pinName: targetPinName
+    };
+  }
+
+  const castClass = castTargetClass(label);
+  if (castClass) {
+    const path = ENGINE_CLASSES[castClass]?.path ?? `/Script/Engine.${displayTypeName(castClass)}`;
+    const isPure = !node.data.inputs.some(p => p.type === PinType.Exec);
+    return {
+      className: 'K2Node_DynamicCast',
+      properties: [`TargetType=/Script/CoreUObject.Class'"${path}"'`, ...(isPure ? ['bIsPureCast=True'] : [])],
+      pinName: (pin, index, side) => {
+        if (side === 'output' && pin.type === PinType.Exec && pin.name !== 'Then') return 'CastFailed';
+        if (pin.type === PinType.Object) return side === 'input' ? 'Object' : `As${compactName(displayTypeName(castClass))}`;
+        if (pin.type === PinType.Boolean) return 'bSuccess';
+        return defaultPinName(pin, index, side);
+      }
+    };
+  }
+
+  const known = KNOWN_FUNCTIONS[label];
+  const functionRef = known
+    ? `FunctionReference=(MemberParent=/Script/CoreUObject.Class'"${known[0]}"',MemberName="${known[1]}")`
+    : `FunctionReference=(MemberName="${compactName(label)}",bSelfContext=True)`;
+  return {
+    className: 'K2Node_CallFunction',
+    properties: [functionRef],
+    pinName: defaultPinName
+  };
+};
+
+const escapeValue = (value: string) => value.replace(/\\/g, '\\\\').replace(/"/g, '\\"');
+
+export const exportToT3D = (nodes: BPNode[], edges: BPEdge[], userTypes: T3DUserTypes): string => {
+  const nodeIds = new Set(nodes.map(n => n.id));
+  // Only links between exported nodes survive a paste
+  const exportedEdges = edges.filter(e => nodeIds.has(e.source) && nodeIds.has(e.target));
+
+  const classCounters: Record<string, number> = {};
+  const infos = new Map<string, NodeExportInfo & { objectName: string }>();
+  nodes.forEach(node => {
+    const info = getNodeExportInfo(node, userTypes);
+    const index = classCounters[info.className] || 0;
+    classCounters[info.className] = index + 1;
+    infos.set(node.id, { ...info, objectName: `${info.className}_${index}` });
+  });
+
+  const pinGuid = (nodeId: string, pinId: string) => makeGuid(`${nodeId}::${pinId}`);
+
+  const linksFor = (nodeId: string, pinId: string, side: 'input' | 'output') => exportedEdges
+    .filter(e => side === 'output'
+      ? e.source === nodeId && e.sourceHandle === pinId
+      : e.target === nodeId && e.targetHandle === pinId)
+    .map(e => {
+      const otherNode = side === 'output' ? e.target : e.source;
+      const otherPin = side === 'output' ? e.targetHandle! : e.sourceHandle!;
+      return `${infos.get(otherNode)!.objectName} ${pinGuid(otherNode, otherPin)}`;
+    });
+
+  // Maps carry their value type separately from the key type in PinCategory
+  const pinValueType = (pin: PinDefinition) => {
+    if (pin.container !== 'map') return '()';
+    const valueType = PIN_TYPE_MAP[pin.valueType ?? PinType.Boolean];
+    return `(TerminalCategory="${valueType.category}",TerminalSubCategory="${valueType.subCategory || ''}",TerminalSubCategoryObject=${valueType.subCategoryObject || 'None'})`;
+  };
+
+  // Sub-typed pins point at their class, struct or enum; others keep the generic object
+  const subCategoryObject = (pin: PinDefinition, ueType: UEPinType) => {
+    const path = pin.subType ? subTypePath(pin.type, pin.subType, userTypes) : undefined;
+    if (!path) return ueType.subCategoryObject || 'None';
+    if (path.startsWith('/Game/')) return `/Script/Engine.UserDefined${pin.type === PinType.Byte ? 'Enum' : 'Struct'}'"${path}"'`;
+    const kind = pin.type === PinType.Struct ? 'ScriptStruct' : pin.type === PinType.Byte ? 'Enum' : 'Class';
+    return `/Script/CoreUObject.${kind}'"${path}"'`;
+  };
+
+  const pinLine = (node: BPNode, pin: PinDefinition, index: number, side: 'input' | 'output', info: NodeExportInfo) => {
+    const ueType = PIN_TYPE_MAP[pin.type] || PIN_TYPE_MAP[PinType.Struct];
+    const links = linksFor(node.id, pin.id, side);
+    const value = pin.value ?? pin.defaultValue;
+    const parts = [
+      `PinId=${pinGuid(node.id, pin.id)}`,
+      `PinName="${info.pinName(pin, index, side)}"`,
+      ...(pin.name && info.pinName(pin, index, side) !== pin.name ? [`PinFriendlyName=NSLOCTEXT("K2Node", "${compactName(pin.name)}", "${escapeValue(pin.name)}")`] : []),
+      ...(side === 'output' ? ['Direction="EGPD_Output"'] : []),
+      `PinType.PinCategory="${ueType.category}"`,
+      `PinType.PinSubCategory="${ueType.subCategory || ''}"`,
+      `PinType.PinSubCategoryObject=${subCategoryObject(pin, ueType)}`,
+      'PinType.PinSubCategoryMemberReference=()',
+      `PinType.PinValueType=${pinValueType(pin)}`,
+      `PinType.ContainerType=${pin.container ? pin.container.charAt(0).toUpperCase() + pin.container.slice(1) : 'None'}`,
+      'PinType.bIsReference=False',
+      'PinType.bIsConst=False',
+      'PinType.bIsWeakPointer=False',
+      'PinType.bIsUObjectWrapper=False',
+      'PinType.bSerializeAsSinglePrecisionFloat=False',
+      ...(side === 'input' && value !== undefined && pin.type !== PinType.Exec ? [`DefaultValue="${escapeValue(value)}"`] : []),
+      ...(links.length > 0 ? [`LinkedTo=(${links.join(',')},)`] : []),
+      'PersistentGuid=00000000000000000000000000000000',
+      'bHidden=False',
+      'bNotConnectable=False',
+      'bDefaultValueIsReadOnly=False',
+      'bDefaultValueIsIgnored=False',
+      'bAdvancedView=False',
+      'bOrphanedPin=False'
+    ];
+    return `   CustomProperties Pin (${parts.join(',')},)`;
+  };
+
+  return nodes.map(node => {
+    const info = infos.get(node.id)!;
+    const lines = [
+      `Begin Object Class=/Script/${info.module || 'BlueprintGraph'}.${info.className} Name="${info.objectName}"`,
+      ...info.properties.map(p => `   ${p}`),
+      `   NodePosX=${Math.round(node.position.x)}`,
+      `   NodePosY=${Math.round(node.position.y)}`,
+      ...(node.data.comment ? [`   NodeComment="${escapeValue(node.data.comment)}"`, '   bCommentBubbleVisible=True'] : []),
+      `   NodeGuid=${makeGuid(node.id)}`,
+      ...node.data.inputs.map((pin, i) => pinLine(node, pin, i, 'input', info)),
+      ...node.data.outputs.map((pin, i) => pinLine(node, pin, i, 'output', info)),
+      'End Object'
+    ];
+    return lines.join('\n');
+  }).join('\n') + '\n';
+};
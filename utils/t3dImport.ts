@@ -0,0 +1,404 @@
+import { BPNode, BPEdge, NodeType, PinContainer, PinDefinition, PinType } from '../types';
+import { ACTOR_EVENTS, KNOWN_FUNCTIONS, STANDARD_MACROS } from './t3dExport';
+import { subTypeFromPath } from './engineTypes';
+import { dispatcherNodeLabel } from './dispatchers';
+import { COMMENT_NODE_TYPE, COMMENT_COLORS } from './commentNodes';
+import { REROUTE_NODE_TYPE } from './rerouteNodes';
+
+// Parses Unreal Editor clipboard text (Ctrl+C on Blueprint nodes) back into
+// our graph model, keeping the original NodePosX/NodePosY.
+
+interface T3DObject {
+  className: string;
+  name: string;
+  props: Record<string, string>;
+  pins: Record<string, string>[];
+}
+
+export interface T3DImportResult {
+  nodes: BPNode[];
+  edges: BPEdge[];
+  warnings: string[];
+}
+
+export const looksLikeT3D = (text: string) => /^\s*Begin Object\b/m.test(text) && /\bEnd Object\b/.test(text);
+
+// Splits "A=1,B=(x,y),C="a,b"" on top-level commas, respecting quotes and parens
+const splitTopLevel = (body: string): string[] => {
+  const parts: string[] = [];
+  let depth = 0;
+  let inString = false;
+  let start = 0;
+  for (let i = 0; i < body.length; i++) {
+    const ch = body[i];
+    if (inString) {
+      if (ch === '\\') i++;
+      else if (ch === '"') inString = false;
+      continue;
+    }
+    if (ch === '"') inString = true;
+    else if (ch === '(') depth++;
+    else if (ch === ')') depth--;
+    else if (ch === ',' && depth === 0) {
+      parts.push(body.slice(start, i));
+      start = i + 1;
+    }
+  }
+  parts.push(body.slice(start));
+  return parts.map(p => p.trim()).filter(Boolean);
+};
+
+const parseKeyValues = (body: string): Record<string, string> => {
+  const result: Record<string, string> = {};
+  splitTopLevel(body).forEach(part => {
+    const eq = part.indexOf('=');
+    if (eq > 0) result[part.slice(0, eq).trim()] = part.slice(eq + 1).trim();
+  });
+  return result;
+};
+
+const unquote = (value: string | undefined) => {
+  if (!value) return '';
+  const v = value.trim();
+  return v.startsWith('"') && v.endsWith('"') ? v.slice(1, -1).replace(/\\"/g, '"').replace(/\\\\/g, '\\') : v;
+};
+
+// NSLOCTEXT("ns", "key", "Text") / INVTEXT("Text") / LOCGEN... -> last quoted string
+const unwrapText = (value: string | undefined) => {
+  if (!value) return '';
+  const quoted = value.match(/"((?:[^"\\]|\\.)*)"/g);
+  return quoted ? unquote(quoted[quoted.length - 1]) : unquote(value);
+};
+
+const parseObjects = (text: string): T3DObject[] => {
+  const objects: T3DObject[] = [];
+  let current: T3DObject | null = null;
+  let depth = 0;
+
+  text.split(/\r?\n/).forEach(rawLine => {
+    const line = rawLine.trim();
+    const begin = line.match(/^Begin Object\b(.*)$/);
+    if (begin) {
+      depth++;
+      // Nested sub-objects (e.g. inner pins/graphs) are ignored
+      if (depth === 1) {
+        const attrs = begin[1];
+        const className = (attrs.match(/Class=(\S+)/)?.[1] || '').split('.').pop() || '';
+        const name = unquote(attrs.match(/Name=("[^"]*"|\S+)/)?.[1]);
+        current = { className, name, props: {}, pins: [] };
+      }
+      return;
+    }
+    if (line === 'End Object') {
+      if (depth === 1 && current) objects.push(current);
+      depth = Math.max(0, depth - 1);
+      if (depth === 0) current = null;
+      return;
+    }
+    if (depth !== 1 || !current) return;
+
+    const pin = line.match(/^CustomProperties Pin \((.*)\)$/);
+    if (pin) {
+      current.pins.push(parseKeyValues(pin[1]));
+      return;
+    }
+    const eq = line.indexOf('=');
+    if (eq > 0) current.props[line.slice(0, eq).trim()] = line.slice(eq + 1).trim();
+  });
+
+  return objects;
+};
+
+const categoryToPinType = (category: string, subObject: string): PinType => {
+  switch (category) {
+    case 'exec': return PinType.Exec;
+    case 'bool': return PinType.Boolean;
+    case 'int':
+    case 'int64': return PinType.Integer;
+    case 'real':
+    case 'float':
+    case 'double': return PinType.Float;
+    case 'string': return PinType.String;
+    case 'name': return PinType.Name;
+    case 'text': return PinType.Text;
+    case 'byte':
+    case 'enum': return PinType.Byte;
+    case 'struct':
+      if (/CoreUObject\.Vector\b/.test(subObject)) return PinType.Vector;
+      if (/CoreUObject\.Rotator\b/.test(subObject)) return PinType.Rotator;
+      return PinType.Struct;
+    case 'object':
+    case 'interface':
+    case 'softobject': return PinType.Object;
+    case 'class':
+    case 'softclass': return PinType.Class;
+    case 'delegate':
+    case 'mcdelegate': return PinType.Delegate;
+    case 'wildcard': return PinType.Wildcard;
+    default: return PinType.Struct; // anything newer
+  }
+};
+
+const mapPinType = (pin: Record<string, string>): PinType =>
+  categoryToPinType(unquote(pin['PinType.PinCategory']), pin['PinType.PinSubCategoryObject'] || '');
+
+// PinSubCategoryObject=/Script/CoreUObject.Class'"/Script/Engine.Actor"' -> AActor.
+// The generic UObject reference most pins carry means "any object".
+const mapPinSubType = (pin: Record<string, string>, type: PinType): Pick<PinDefinition, 'subType'> => {
+  if (type !== PinType.Object && type !== PinType.Class && type !== PinType.Struct && type !== PinType.Byte) return {};
+  const path = (pin['PinType.PinSubCategoryObject'] || '').match(/'"?([^"']+)"?'/)?.[1];
+  if (!path || path === '/Script/CoreUObject.Object') return {};
+  const subType = subTypeFromPath(type, path);
+  return subType ? { subType } : {};
+};
+
+const CONTAINER_TYPES: Record<string, PinContainer> = { Array: 'array', Set: 'set', Map: 'map' };
+
+// ContainerType plus, for maps, the value type from PinValueType=(TerminalCategory="...",...)
+const mapPinContainer = (pin: Record<string, string>): Pick<PinDefinition, 'container' | 'valueType'> => {
+  const container = CONTAINER_TYPES[unquote(pin['PinType.ContainerType'])];
+  if (!container) return {};
+  if (container !== 'map') return { container };
+  const terminal = pin['PinType.PinValueType'] || '';
+  const category = terminal.match(/TerminalCategory="?(\w+)/)?.[1] || '';
+  const subObject = terminal.match(/TerminalSubCategoryObject=([^,)]*)/)?.[1] || '';
+  return { container, valueType: categoryToPinType(category, subObject) };
+};
+
+// "K2_GetActorLocation" -> "Get Actor Location"
+const humanize = (name: string) => name
+  .replace(/^K2_/, '')
+  .replace(/^Receive(?=[A-Z])/, '')
+  .replace(/([a-z0-9])([A-Z])/g, '$1 $2')
+  .replace(/([A-Z])([A-Z][a-z])/g, '$1 $2')
+  .replace(/_/g, ' ')
+  .trim();
+
+const memberName = (ref: string | undefined) => unquote(ref?.match(/MemberName=("[^"]*"|[^,)]+)/)?.[1]);
+
+const invert = <T extends string>(map: Record<string, T>) =>
+  Object.fromEntries(Object.entries(map).map(([k, v]) => [v, k])) as Record<string, string>;
+
+const EVENT_LABELS = invert(ACTOR_EVENTS);
+const MACRO_LABELS = invert(STANDARD_MACROS);
+const FUNCTION_LABELS: Record<string, string> = Object.fromEntries(
+  Object.entries(KNOWN_FUNCTIONS).map(([label, [, fn]]) => [fn, label])
+);
+
+interface NodeIdentity {
+  label: string;
+  nodeType: NodeType;
+  recognised: boolean;
+}
+
+const identifyNode = (obj: T3DObject): NodeIdentity => {
+  const p = obj.props;
+  switch (obj.className) {
+    case 'EdGraphNode_Comment':
+      return { label: unquote(p['NodeComment']) || 'Comment', nodeType: NodeType.Comment, recognised: true };
+    case 'K2Node_Knot':
+      return { label: 'Reroute Node', nodeType: NodeType.Reroute, recognised: true };
+    case 'K2Node_Event': {
+      const fn = memberName(p['EventReference']);
+      // Interface events keep the function name so they bind to the interface
+      const fromAsset = (p['EventReference'] || '').includes('/Game/');
+      return { label: `Event ${EVENT_LABELS[fn] || (fromAsset ? fn : humanize(fn))}`, nodeType: NodeType.Event, recognised: true };
+    }
+    case 'K2Node_CustomEvent':
+      return { label: unquote(p['CustomFunctionName']) || 'Custom Event', nodeType: NodeType.Event, recognised: true };
+    case 'K2Node_InputAction':
+      return { label: `InputAction ${unquote(p['InputActionName'])}`, nodeType: NodeType.InputEvent, recognised: true };
+    case 'K2Node_InputKey':
+      return { label: unquote(p['InputKey']) || 'Input Key', nodeType: NodeType.InputEvent, recognised: true };
+    case 'K2Node_EnhancedInputAction': {
+      const asset = (p['InputAction'] || '').match(/\.(\w+)"?'?$/)?.[1] || 'Action';
+      return { label: `EnhancedInputAction ${asset}`, nodeType: NodeType.InputEvent, recognised: true };
+    }
+    case 'K2Node_IfThenElse':
+      return { label: 'Branch', nodeType: NodeType.FlowControl, recognised: true };
+    case 'K2Node_ExecutionSequence':
+      return { label: 'Sequence', nodeType: NodeType.FlowControl, recognised: true };
+    case 'K2Node_MacroInstance': {
+      const macro = (p['MacroGraphReference'] || '').match(/StandardMacros:(\w+)/)?.[1];
+      if (macro) return { label: MACRO_LABELS[macro] || humanize(macro), nodeType: NodeType.FlowControl, recognised: true };
+      const custom = (p['MacroGraphReference'] || '').match(/:(\w+)"/)?.[1] || 'Macro';
+      return { label: humanize(custom), nodeType: NodeType.Macro, recognised: true };
+    }
+    case 'K2Node_VariableGet':
+      return { label: `Get ${memberName(p['VariableReference'])}`, nodeType: NodeType.VariableGet, recognised: true };
+    case 'K2Node_VariableSet':
+      return { label: `Set ${memberName(p['VariableReference'])}`, nodeType: NodeType.VariableSet, recognised: true };
+    case 'K2Node_CallFunction':
+    case 'K2Node_CallArrayFunction':
+    case 'K2Node_CallParentFunction':
+    case 'K2Node_CommutativeAssociativeBinaryOperator': {
+      const fn = memberName(p['FunctionReference']);
+      return { label: FUNCTION_LABELS[fn] || humanize(fn), nodeType: NodeType.Function, recognised: true };
+    }
+    case 'K2Node_SpawnActorFromClass':
+      return { label: 'Spawn Actor from Class', nodeType: NodeType.Function, recognised: true };
+    case 'K2Node_DynamicCast':
+      return { label: `Cast To ${((p['TargetType'] || '').match(/\.(\w+)"?'?$/)?.[1] || 'Object').replace(/_C$/, '')}`, nodeType: NodeType.Function, recognised: true };
+    case 'K2Node_MakeStruct':
+    case 'K2Node_BreakStruct': {
+      const struct = (p['StructType'] || '').match(/\.(\w+)"?'?$/)?.[1] || 'Struct';
+      return { label: `${obj.className === 'K2Node_MakeStruct' ? 'Make' : 'Break'} ${struct}`, nodeType: NodeType.Function, recognised: true };
+    }
+    case 'K2Node_CallDelegate':
+    case 'K2Node_AddDelegate':
+    case 'K2Node_RemoveDelegate':
+    case 'K2Node_ClearDelegate': {
+      const kind = ({ K2Node_CallDelegate: 'call', K2Node_AddDelegate: 'bind', K2Node_RemoveDelegate: 'unbind', K2Node_ClearDelegate: 'unbindAll' } as const)[obj.className];
+      return { label: dispatcherNodeLabel(kind, memberName(p['DelegateReference'])), nodeType: NodeType.Function, recognised: true };
+    }
+    case 'K2Node_Message':
+      return { label: `${memberName(p['FunctionReference'])} (Message)`, nodeType: NodeType.Function, recognised: true };
+    case 'K2Node_SwitchEnum':
+      return { label: `Switch on ${(p['Enum'] || '').match(/\.(\w+)"?'?$/)?.[1] || 'Enum'}`, nodeType: NodeType.FlowControl, recognised: true };
+    default:
+      return { label: humanize(obj.className.replace(/^K2Node_/, '')), nodeType: NodeType.Function, recognised: false };
+  }
+};
+
+// "(R=1.000000,G=0.500000,B=0.000000,A=1.000000)" -> "#ff8000"
+const parseCommentColor = (value: string | undefined) => {
+  const channels = ['R', 'G', 'B'].map(c => Number(value?.match(new RegExp(`\\b${c}=([\\d.]+)`))?.[1]));
+  if (channels.some(Number.isNaN)) return COMMENT_COLORS[0];
+  return `#${channels.map(c => Math.round(Math.min(1, c) * 255).toString(16).padStart(2, '0')).join('')}`;
+};
+
+// UE internal pin names -> the display names our nodes use
+const displayPinName = (obj: T3DObject, pin: Record<string, string>, type: PinType, isOutput: boolean): string => {
+  const friendly = unwrapText(pin['PinFriendlyName']);
+  const name = unquote(pin['PinName']);
+  if (obj.className === 'K2Node_Knot') return '';
+  if (type === PinType.Exec) {
+    if (!isOutput && name === 'execute') return 'Exec';
+    if (obj.className === 'K2Node_IfThenElse' && isOutput) return name === 'else' ? 'False' : 'True';
+    if (obj.className === 'K2Node_ExecutionSequence' && isOutput) return `Then ${name.replace(/^then_/, '')}`;
+    // Delegate and message nodes are rebuilt from their signature, which names it Then
+    if (isOutput && name === 'then') return /^K2Node_(\w+Delegate|Message)$/.test(obj.className) ? 'Then' : 'Output';
+  }
+  if (name === 'ReturnValue') return 'Return Value';
+  if (name === 'self' && !isOutput) return 'Target';
+  // Delegate pins: "Event" on Bind/Unbind, "Delegate" on the custom event
+  if (type === PinType.Delegate) return isOutput ? 'Delegate' : 'Event';
+  // Member, enumerator and parameter names must match the struct/enum/signature exactly
+  if (/^K2Node_(MakeStruct|BreakStruct|SwitchEnum|CallDelegate|Message)$/.test(obj.className)) return friendly || name;
+  return friendly || humanize(name) || name;
+};
+
+export const importFromT3D = (text: string, existingNodeIds: Set<string> = new Set()): T3DImportResult => {
+  const objects = parseObjects(text);
+  const warnings: string[] = [];
+  const nodes: BPNode[] = [];
+  const usedIds = new Set(existingNodeIds);
+  // "ObjectName PinGuid" -> our node/pin ids, for resolving LinkedTo
+  const pinLookup = new Map<string, { nodeId: string; pinId: string; isOutput: boolean }>();
+  const links: Array<{ nodeId: string; pinId: string; isOutput: boolean; linkedTo: string[] }> = [];
+
+  objects.forEach(obj => {
+    const identity = identifyNode(obj);
+    if (!identity.recognised) {
+      warnings.push(`Unrecognised node class ${obj.className}; imported "${obj.name}" as a generic function node.`);
+    }
+
+    // Keep UE object names as ids, made unique against what's already on the canvas
+    let nodeId = obj.name || `${obj.className}_${nodes.length}`;
+    for (let n = 1; usedIds.has(nodeId); n++) nodeId = `${obj.name}_${n}`;
+    usedIds.add(nodeId);
+
+    const inputs: PinDefinition[] = [];
+    const outputs: PinDefinition[] = [];
+
+    obj.pins.forEach(pin => {
+      if (pin['bHidden'] === 'True') return;
+      const isOutput = unquote(pin['Direction']) === 'EGPD_Output';
+      const type = mapPinType(pin);
+      const ueName = unquote(pin['PinName']);
+      const pinId = `${nodeId}_${ueName.replace(/[^A-Za-z0-9_]/g, '') || (isOutput ? outputs.length : inputs.length)}`;
+      const value = pin['DefaultValue'] !== undefined
+        ? unquote(pin['DefaultValue'])
+        : pin['DefaultTextValue'] !== undefined
+          ? unwrapText(pin['DefaultTextValue'])
+          : pin['DefaultObject'] !== undefined && pin['DefaultObject'] !== 'None'
+            ? unquote(pin['DefaultObject'])
+            : undefined;
+
+      const def: PinDefinition = {
+        id: pinId,
+        name: displayPinName(obj, pin, type, isOutput),
+        type,
+        ...mapPinContainer(pin),
+        ...mapPinSubType(pin, type),
+        isOutput,
+        ...(value !== undefined && value !== '' ? { value, defaultValue: value } : {})
+      };
+      (isOutput ? outputs : inputs).push(def);
+
+      if (pin['PinId']) pinLookup.set(`${obj.name} ${pin['PinId']}`, { nodeId, pinId, isOutput });
+      const linked = pin['LinkedTo'];
+      if (linked) {
+        links.push({ nodeId, pinId, isOutput, linkedTo: splitTopLevel(linked.replace(/^\(|\)$/g, '')) });
+      }
+    });
+
+    const position = { x: Number(obj.props['NodePosX'] || 0), y: Number(obj.props['NodePosY'] || 0) };
+    // A comment box's NodeComment is its title rather than a bubble
+    if (identity.nodeType === NodeType.Comment) {
+      nodes.push({
+        id: nodeId,
+        type: COMMENT_NODE_TYPE,
+        position,
+        width: Number(obj.props['NodeWidth'] || 400),
+        height: Number(obj.props['NodeHeight'] || 100),
+        data: { label: identity.label, nodeType: NodeType.Comment, inputs: [], outputs: [], commentColor: parseCommentColor(obj.props['CommentColor']) }
+      });
+      return;
+    }
+    const comment = unquote(obj.props['NodeComment']);
+    nodes.push({
+      id: nodeId,
+      type: identity.nodeType === NodeType.Reroute ? REROUTE_NODE_TYPE : 'customBlueprintNode',
+      position,
+      data: {
+        label: identity.label,
+        nodeType: identity.nodeType,
+        inputs,
+        outputs,
+        ...(comment ? { comment } : {})
+      }
+    });
+  });
+
+  // Links are listed on both ends; only build from the output side, but accept
+  // input-side entries whose output end wasn't listed (partial copies)
+  const edges: BPEdge[] = [];
+  const seen = new Set<string>();
+  links.forEach(link => {
+    link.linkedTo.forEach(ref => {
+      const other = pinLookup.get(ref.trim());
+      if (!other) return; // Points at a node that wasn't copied
+      if (other.isOutput === link.isOutput) {
+        warnings.push(`Ignored link between two ${link.isOutput ? 'output' : 'input'} pins (${link.pinId} / ${other.pinId}).`);
+        return;
+      }
+      const source = link.isOutput ? link : other;
+      const target = link.isOutput ? other : link;
+      const key = `${source.nodeId}:${source.pinId}->${target.nodeId}:${target.pinId}`;
+      if (seen.has(key)) return;
+      seen.add(key);
+      edges.push({
+        id: `e_${source.pinId}_${target.pinId}`,
+        source: source.nodeId,
+        target: target.nodeId,
+        sourceHandle: source.pinId,
+        targetHandle: target.pinId,
+        type: 'default',
+        animated: false
+      });
+    });
+  });
+
+  return { nodes, edges, warnings };
+};
@@ -0,0 +1,136 @@
+import { BPNode, BPEdge, BlueprintEnum, BlueprintStruct, NodeType, PinDefinition, PinType, StructMember } from '../types';
+import { dropInvalidEdges, reconcilePins } from './pinSchema';
+import { defaultValueFor } from './variableNodes';
+
+// Make/Break nodes of a user struct and Switch on Enum nodes are labelled after
+// the asset; generated or older graphs only have the label to go on
+const MAKE = /^Make (\w+)$/;
+const BREAK = /^Break (\w+)$/;
+const SWITCH = /^Switch on (\w+)$/;
+
+export type TypeNodeKind = 'make' | 'break' | 'switch';
+
+export const parseTypeNodeLabel = (label: string): { kind: TypeNodeKind; name: string } | undefined => {
+  const make = label.match(MAKE);
+  if (make) return { kind: 'make', name: make[1] };
+  const brk = label.match(BREAK);
+  if (brk) return { kind: 'break', name: brk[1] };
+  const sw = label.match(SWITCH);
+  return sw ? { kind: 'switch', name: sw[1] } : undefined;
+};
+
+export const isValidTypeName = (name: string) => /^[A-Za-z_]\w*$/.test(name);
+
+const memberPin = (nodeId: string, member: StructMember, isOutput: boolean, enums: BlueprintEnum[]): PinDefinition => ({
+  id: `${nodeId}_${member.id}`,
+  name: member.name,
+  type: member.type,
+  container: member.container,
+  valueType: member.valueType,
+  subType: member.subType,
+  isOutput,
+  ...(isOutput || member.container ? {} : { defaultValue: member.defaultValue ?? defaultValueFor(member.type, member.subType, enums) })
+});
+
+const structPin = (nodeId: string, struct: BlueprintStruct, isOutput: boolean): PinDefinition =>
+  ({ id: `${nodeId}_Struct`, name: struct.name, type: PinType.Struct, subType: struct.name, isOutput });
+
+type UserTypeNode = Pick<BPNode['data'], 'label' | 'nodeType' | 'inputs' | 'outputs'>;
+
+const makeStructData = (nodeId: string, struct: BlueprintStruct, enums: BlueprintEnum[]): UserTypeNode => ({
+  label: `Make ${struct.name}`,
+  nodeType: NodeType.Function,
+  inputs: struct.members.map(m => memberPin(nodeId, m, false, enums)),
+  outputs: [structPin(nodeId, struct, true)]
+});
+
+const breakStructData = (nodeId: string, struct: BlueprintStruct): UserTypeNode => ({
+  label: `Break ${struct.name}`,
+  nodeType: NodeType.Function,
+  inputs: [structPin(nodeId, struct, false)],
+  outputs: struct.members.map(m => memberPin(nodeId, m, true, []))
+});
+
+const switchEnumData = (nodeId: string, userEnum: BlueprintEnum): UserTypeNode => ({
+  label: `Switch on ${userEnum.name}`,
+  nodeType: NodeType.FlowControl,
+  inputs: [
+    { id: `${nodeId}_Exec`, name: 'Exec', type: PinType.Exec, isOutput: false },
+    { id: `${nodeId}_Selection`, name: 'Selection', type: PinType.Byte, subType: userEnum.name, isOutput: false, defaultValue: userEnum.values[0] }
+  ],
+  outputs: userEnum.values.map(value => ({ id: `${nodeId}_${value}`, name: value, type: PinType.Exec, isOutput: true }))
+});
+
+const placed = (prefix: string, name: string, typeId: string, position: { x: number; y: number }, build: (id: string) => UserTypeNode): BPNode => {
+  const id = `${prefix}_${name}_${Math.random().toString(36).substr(2, 6)}`;
+  return { id, type: 'customBlueprintNode', position, selected: true, data: { ...build(id), typeId } };
+};
+
+export const createMakeStructNode = (struct: BlueprintStruct, position: { x: number; y: number }, enums: BlueprintEnum[]) =>
+  placed('Make', struct.name, struct.id, position, id => makeStructData(id, struct, enums));
+
+export const createBreakStructNode = (struct: BlueprintStruct, position: { x: number; y: number }) =>
+  placed('Break', struct.name, struct.id, position, id => breakStructData(id, struct));
+
+export const createSwitchOnEnumNode = (userEnum: BlueprintEnum, position: { x: number; y: number }) =>
+  placed('Switch', userEnum.name, userEnum.id, position, id => switchEnumData(id, userEnum));
+
+// The struct or enum a Make/Break/Switch node belongs to. Bound nodes follow
+// their asset by id through renames; unbound ones are matched by label.
+const resolveTypeNode = (node: BPNode, structs: BlueprintStruct[], enums: BlueprintEnum[]) => {
+  const { typeId, label, nodeType } = node.data;
+  const parsed = parseTypeNodeLabel(label);
+  // Comment titles are free text
+  if (!parsed || nodeType === NodeType.Comment) return undefined;
+  const matches = (t: { id: string; name: string }) => (typeId ? t.id === typeId : t.name === parsed.name);
+  if (parsed.kind === 'switch') {
+    const userEnum = enums.find(matches);
+    return userEnum && { typeId: userEnum.id, build: (nodeId: string) => switchEnumData(nodeId, userEnum) };
+  }
+  const struct = structs.find(matches);
+  return struct && { typeId: struct.id, build: (nodeId: string) => (parsed.kind === 'make' ? makeStructData(nodeId, struct, enums) : breakStructData(nodeId, struct)) };
+};
+
+// Swaps a renamed struct/enum in anything that names it as a sub-type
+export const renameSubType = <T extends { subType?: string }>(items: T[], from: string, to: string): T[] =>
+  items.map(item => (item.subType === from ? { ...item, subType: to } : item));
+
+// Brings one graph in line with the blueprint's structs and enums: Make/Break/Switch
+// nodes get their current pins and labels, renamed sub-types are followed, and
+// links that no longer type-check are dropped
+export const syncUserTypeNodes = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  structs: BlueprintStruct[],
+  enums: BlueprintEnum[],
+  renamed?: { from: string; to: string }
+): { nodes: BPNode[]; edges: BPEdge[]; brokenLinks: number } => {
+  const touched = new Set<string>();
+  const updatedNodes = nodes.map(node => {
+    let data = node.data;
+    if (renamed) {
+      const inputs = renameSubType(data.inputs, renamed.from, renamed.to);
+      const outputs = renameSubType(data.outputs, renamed.from, renamed.to);
+      if (inputs.some((p, i) => p !== data.inputs[i]) || outputs.some((p, i) => p !== data.outputs[i])) {
+        data = { ...data, inputs, outputs };
+        touched.add(node.id);
+      }
+    }
+    const resolved = resolveTypeNode(node, structs, enums);
+    if (resolved) {
+      const wanted = resolved.build(node.id);
+      data = {
+        ...data,
+        ...wanted,
+        typeId: resolved.typeId,
+        inputs: reconcilePins(data.inputs, wanted.inputs),
+        outputs: reconcilePins(data.outputs, wanted.outputs)
+      };
+      touched.add(node.id);
+    }
+    return data === node.data ? node : { ...node, data };
+  });
+  if (touched.size === 0) return { nodes, edges, brokenLinks: 0 };
+  const keptEdges = dropInvalidEdges(updatedNodes, edges, touched);
+  return { nodes: updatedNodes, edges: keptEdges, brokenLinks: edges.length - keptEdges.length };
+};
@@ -0,0 +1,104 @@
+import { BPNode, BPEdge, BlueprintEnum, BlueprintVariable, NodeType, PinDefinition, PinType } from '../types';
+import { dropInvalidEdges, samePinType } from './pinSchema';
+import { findEnum } from './engineTypes';
+
+export type VariableAccess = 'get' | 'set';
+
+// Types a variable can hold; exec and delegate pins aren't storable
+export const VARIABLE_TYPES: PinType[] = Object.values(PinType).filter(t => t !== PinType.Exec && t !== PinType.Delegate && t !== PinType.Wildcard);
+
+const DEFAULT_VALUES: Partial<Record<PinType, string>> = {
+  [PinType.Boolean]: 'false',
+  [PinType.Integer]: '0',
+  [PinType.Byte]: '0',
+  [PinType.Float]: '0.0',
+  [PinType.Vector]: '0, 0, 0',
+  [PinType.Rotator]: '0, 0, 0'
+};
+
+// Enum-typed bytes default to their first value, as the editor's dropdown does
+export const defaultValueFor = (type: PinType, subType: string | undefined, enums: BlueprintEnum[]) =>
+  (type === PinType.Byte ? findEnum(subType, enums)?.values[0] : undefined) ?? DEFAULT_VALUES[type] ?? '';
+
+// Variable nodes are labelled "Get X" / "Set X"; older graphs only have the label to go on
+export const variableNameFromLabel = (label: string) => label.replace(/^(Get|Set)\s+/, '').trim();
+
+const isVariableNode = (node: BPNode) =>
+  node.data.nodeType === NodeType.VariableGet || node.data.nodeType === NodeType.VariableSet;
+
+export const referencesVariable = (node: BPNode, variable: BlueprintVariable) =>
+  isVariableNode(node) && (node.data.variableId
+    ? node.data.variableId === variable.id
+    : variableNameFromLabel(node.data.label) === variable.name);
+
+export const createVariableNode = (variable: BlueprintVariable, access: VariableAccess, position: { x: number; y: number }, enums: BlueprintEnum[]): BPNode => {
+  const id = `${access === 'get' ? 'Get' : 'Set'}_${variable.name.replace(/\W+/g, '')}_${Math.random().toString(36).substr(2, 6)}`;
+  const value = { name: variable.name, type: variable.type, container: variable.container, valueType: variable.valueType, subType: variable.subType };
+  return {
+    id,
+    type: 'customBlueprintNode',
+    position,
+    selected: true,
+    data: access === 'get'
+      ? {
+          label: `Get ${variable.name}`,
+          nodeType: NodeType.VariableGet,
+          variableId: variable.id,
+          inputs: [],
+          outputs: [{ id: `${id}_Value`, ...value, isOutput: true }]
+        }
+      : {
+          label: `Set ${variable.name}`,
+          nodeType: NodeType.VariableSet,
+          variableId: variable.id,
+          inputs: [
+            { id: `${id}_Exec`, name: 'Exec', type: PinType.Exec, isOutput: false },
+            { id: `${id}_In`, ...value, isOutput: false, defaultValue: variable.container ? undefined : defaultValueFor(variable.type, variable.subType, enums) }
+          ],
+          outputs: [
+            { id: `${id}_Then`, name: 'Output', type: PinType.Exec, isOutput: true },
+            { id: `${id}_Value`, ...value, isOutput: true }
+          ]
+        }
+  };
+};
+
+// Applies a rename/retype to every Get/Set node of the variable. Wires that no
+// longer type-check are dropped, as the editor does when a variable changes type.
+export const updateVariableReferences = (
+  nodes: BPNode[],
+  edges: BPEdge[],
+  previous: BlueprintVariable,
+  next: BlueprintVariable
+): { nodes: BPNode[]; edges: BPEdge[]; brokenLinks: number } => {
+  const retypedNodes = new Set<string>();
+
+  const updatedNodes = nodes.map(node => {
+    if (!referencesVariable(node, previous)) return node;
+    const updatePin = <P extends PinDefinition>(pin: P): P => {
+      if (pin.type === PinType.Exec) return pin;
+      const renamed = { ...pin, name: pin.name === previous.name ? next.name : pin.name };
+      if (samePinType(pin, next)) return renamed;
+      retypedNodes.add(node.id);
+      return { ...renamed, type: next.type, container: next.container, valueType: next.valueType, subType: next.subType, value: undefined, ...(next.container ? { defaultValue: undefined } : {}) };
+    };
+    return {
+      ...node,
+      data: {
+        ...node.data,
+        label: `${node.data.nodeType === NodeType.VariableGet ? 'Get' : 'Set'} ${next.name}`,
+        variableId: next.id,
+        inputs: node.data.inputs.map(updatePin),
+        outputs: node.data.outputs.map(updatePin)
+      }
+    };
+  });
+
+  if (retypedNodes.size === 0) return { nodes: updatedNodes, edges, brokenLinks: 0 };
+
+  const keptEdges = dropInvalidEdges(updatedNodes, edges, retypedNodes);
+  return { nodes: updatedNodes, edges: keptEdges, brokenLinks: edges.length - keptEdges.length };
+};
+
+// dataTransfer type used when dragging a variable from the sidebar onto the canvas
+export const VARIABLE_DRAG_TYPE = 'application/x-bp-variable';